@@ -12,7 +12,7 @@ await Bun.build({
   sourcemap: 'external',
   minify: true,
   // Mark peer dependencies and their transitive deps as external
-  external: ['@temporalio/*', 'esbuild'],
+  external: ['@temporalio/*', 'esbuild', 'typescript'],
 });
 
 // Build CLI (includes shebang for executable)
@@ -24,7 +24,7 @@ await Bun.build({
   naming: '[dir]/[name].js',
   sourcemap: 'external',
   minify: false, // Keep CLI readable for debugging
-  external: ['@temporalio/*', 'esbuild'],
+  external: ['@temporalio/*', 'esbuild', 'typescript'],
 });
 
 // Build Vite plugin
@@ -36,7 +36,7 @@ await Bun.build({
   naming: '[dir]/[name].js',
   sourcemap: 'external',
   minify: true,
-  external: ['@temporalio/*', 'esbuild', 'vite'],
+  external: ['@temporalio/*', 'esbuild', 'typescript', 'vite'],
 });
 
 // Build Bun plugin
@@ -48,7 +48,7 @@ await Bun.build({
   naming: '[dir]/[name].js',
   sourcemap: 'external',
   minify: true,
-  external: ['@temporalio/*', 'esbuild'],
+  external: ['@temporalio/*', 'esbuild', 'typescript'],
 });
 
 // Build plugins (file loaders)
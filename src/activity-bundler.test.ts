@@ -0,0 +1,104 @@
+/**
+ * Tests for activity bundling.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { bundleActivityCode } from './activity-bundler';
+import { DEFAULT_BOUNDARIES } from './boundary-enforcement';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/activity-validation');
+const activitiesPath = resolve(fixtureDir, 'activities.ts');
+
+// Checking activity types builds a TypeScript program
+const TYPE_CHECK_TIMEOUT = 30_000;
+
+describe('activity-bundler', () => {
+  describe('bundleActivityCode', () => {
+    it('does not validate by default', async () => {
+      const bundle = await bundleActivityCode({ activitiesPath });
+
+      expect(bundle.activityNames).toEqual(['sendEmail', 'chargeCards', 'formatAmount']);
+      expect(bundle.diagnostics).toBeUndefined();
+    });
+
+    it('lists renamed, re-exported, mapped and class activities', async () => {
+      const bundle = await bundleActivityCode({
+        activitiesPath: resolve(
+          __dirname,
+          '../test/fixtures/activity-signatures/activities.ts',
+        ),
+      });
+
+      expect(bundle.activityNames).toEqual([
+        'charge',
+        'refund',
+        'notify',
+        'sendEmail',
+        'importContacts',
+      ]);
+    });
+
+    it(
+      'reports workflow imports anywhere in the module graph',
+      async () => {
+        const bundle = await bundleActivityCode({ activitiesPath, validate: true });
+
+        const workflowImports = bundle.diagnostics?.filter(
+          (d) => d.kind === 'workflow-import',
+        );
+        expect(workflowImports).toEqual([
+          expect.objectContaining({
+            severity: 'warning',
+            file: resolve(fixtureDir, 'retry.ts'),
+            line: 6,
+            importPath: '@temporalio/workflow',
+          }),
+        ]);
+      },
+      TYPE_CHECK_TIMEOUT,
+    );
+
+    it(
+      'checks the types of re-exported activities',
+      async () => {
+        const bundle = await bundleActivityCode({ activitiesPath, validate: true });
+
+        const typeErrors = bundle.diagnostics?.filter(
+          (d) => d.kind === 'type' && d.activity === 'chargeCards',
+        );
+        expect(typeErrors).toEqual([
+          expect.objectContaining({
+            file: resolve(fixtureDir, 'payments.ts'),
+            activity: 'chargeCards',
+          }),
+        ]);
+        expect(typeErrors?.[0]?.message).toContain(
+          'Map is serialized as an empty object',
+        );
+      },
+      TYPE_CHECK_TIMEOUT,
+    );
+
+    it('enforces custom package boundaries', async () => {
+      const bundle = await bundleActivityCode({
+        activitiesPath,
+        validate: {
+          boundaries: {
+            ...DEFAULT_BOUNDARIES,
+            workflowOnly: [...DEFAULT_BOUNDARIES.workflowOnly, '@temporalio/common'],
+          },
+          checkTypes: false,
+        },
+      });
+
+      expect(bundle.diagnostics?.map((d) => [d.kind, d.importPath])).toEqual([
+        ['boundary', '@temporalio/common'],
+        ['workflow-import', '@temporalio/workflow'],
+      ]);
+      expect(bundle.diagnostics?.[0]?.severity).toBe('error');
+    });
+  });
+});
@@ -7,10 +7,13 @@
  */
 
 import { existsSync, readFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { relative, resolve, sep } from 'node:path';
 
 import * as esbuild from 'esbuild';
 
+import { listActivityNames } from './activity-signatures';
+import { validateActivityModuleGraph } from './activity-validation';
+import type { WatchHandle } from './bundler';
 import { WorkflowBundleError } from './errors';
 import type { ActivityBundle, ActivityBundleOptions, Logger } from './types';
 
@@ -31,6 +34,10 @@ const nullLogger: Logger = {
  * - Allow minification and tree-shaking
  * - Can externalize dependencies
  *
+ * With `validate`, every module in the bundle is checked for workflow-only
+ * imports and activity signatures for serializability. Problems are returned
+ * as `diagnostics` rather than failing the build.
+ *
  * @example
  * ```typescript
  * import { bundleActivityCode } from 'bundle-temporal-workflow';
@@ -58,13 +65,101 @@ export async function bundleActivityCode(
 
   logger.debug('Bundling activities', { activitiesPath });
 
-  const format = options.format ?? 'esm';
-  const external = options.external ?? [];
+  const result = await esbuild.build(createActivityBuildOptions(options));
+  return processActivityBuildResult(result, options, logger);
+}
+
+/**
+ * Callback invoked when a watched activity bundle is rebuilt.
+ */
+export type ActivityWatchCallback = (
+  bundle: ActivityBundle | null,
+  error?: Error,
+) => void;
+
+/**
+ * Watch activity code for changes and rebuild on modification.
+ *
+ * Uses esbuild's incremental build context. The callback is also invoked
+ * for the initial build.
+ *
+ * @example
+ * ```typescript
+ * const handle = await watchActivityCode(
+ *   { activitiesPath: './src/activities.ts' },
+ *   (bundle, error) => {
+ *     if (error) {
+ *       console.error('Build failed:', error);
+ *     } else if (bundle) {
+ *       console.log('Rebuilt:', bundle.activityNames);
+ *     }
+ *   },
+ * );
+ *
+ * // Later, stop watching
+ * await handle.stop();
+ * ```
+ */
+export async function watchActivityCode(
+  options: ActivityBundleOptions,
+  onChange: ActivityWatchCallback,
+): Promise<WatchHandle> {
+  const logger = options.logger ?? nullLogger;
+  const activitiesPath = resolve(options.activitiesPath);
+
+  if (!existsSync(activitiesPath)) {
+    throw new WorkflowBundleError('ENTRYPOINT_NOT_FOUND', {
+      details: `Activities path does not exist: ${activitiesPath}`,
+    });
+  }
+
+  let running = true;
+  const buildOptions = createActivityBuildOptions(options);
+  const ctx = await esbuild.context({
+    ...buildOptions,
+    plugins: [
+      {
+        name: 'temporal-activity-watch-callback',
+        setup(build) {
+          build.onEnd((result) => {
+            if (!running) return;
+
+            try {
+              onChange(processActivityBuildResult(result, options, logger));
+            } catch (error) {
+              onChange(null, error instanceof Error ? error : new Error(String(error)));
+            }
+          });
+        },
+      },
+    ],
+  });
+
+  // The first build runs as soon as watching starts
+  await ctx.watch();
+  logger.info('Watching activities for changes', { path: activitiesPath });
 
-  const result = await esbuild.build({
-    entryPoints: [activitiesPath],
+  return {
+    async stop() {
+      running = false;
+      await ctx.dispose();
+    },
+    get running() {
+      return running;
+    },
+  };
+}
+
+/**
+ * Create esbuild options for an activity bundle.
+ */
+function createActivityBuildOptions(
+  options: ActivityBundleOptions,
+): esbuild.BuildOptions {
+  return {
+    entryPoints: [resolve(options.activitiesPath)],
     bundle: true,
-    format,
+    format: options.format ?? 'esm',
     platform: 'node',
     target: 'es2020',
     write: false,
@@ -72,10 +167,33 @@ export async function bundleActivityCode(
     minify: options.minify ?? false,
     treeShaking: true,
     keepNames: true,
-    external,
-    sourcemap: true,
-    outfile: 'activities.js',
-  });
+    external: options.external ?? [],
+    sourcemap:
+      options.sourceMap === 'none'
+        ? false
+        : options.sourceMap === 'inline'
+          ? 'inline'
+          : 'linked',
+    outfile: 'activity-bundle.js',
+    ...(options.tsconfigPath !== undefined && { tsconfig: options.tsconfigPath }),
+  };
+}
+
+/**
+ * Process an esbuild result into an ActivityBundle.
+ */
+function processActivityBuildResult(
+  result: esbuild.BuildResult,
+  options: ActivityBundleOptions,
+  logger: Logger,
+): ActivityBundle {
+  const activitiesPath = resolve(options.activitiesPath);
+
+  if (result.errors.length > 0) {
+    throw new WorkflowBundleError('BUILD_FAILED', {
+      details: result.errors.map((e) => e.text).join('\n'),
+    });
+  }
 
   if (!result.outputFiles || result.outputFiles.length === 0) {
     throw new WorkflowBundleError('BUILD_FAILED', {
@@ -93,7 +211,7 @@ export async function bundleActivityCode(
   }
 
   // Extract activity names from source
-  const activityNames = extractActivityExports(activitiesPath);
+  const activityNames = extractActivityExports(activitiesPath, result.metafile);
 
   const sizeKB = (bundleFile.text.length / 1024).toFixed(1);
   logger.info('Activity bundle created', {
@@ -101,17 +219,50 @@ export async function bundleActivityCode(
     activities: activityNames.length,
   });
 
+  let diagnostics: ActivityBundle['diagnostics'];
+  if (options.validate && result.metafile) {
+    diagnostics = validateActivityModuleGraph(
+      result.metafile,
+      activityNames,
+      options.validate === true ? {} : options.validate,
+    );
+    for (const diagnostic of diagnostics) {
+      logger.warn(diagnostic.message, { file: diagnostic.file, line: diagnostic.line });
+    }
+  }
+
   return {
     code: bundleFile.text,
     ...(mapFile?.text !== undefined && { sourceMap: mapFile.text }),
     activityNames,
+    ...(diagnostics && { diagnostics }),
   };
 }
 
 /**
- * Extract exported function names from an activity source file.
+ * Extract the names of the activities exported by an activities module.
+ *
+ * Module syntax is read with TypeScript when available, following imports
+ * through the build's import graph; a type checker program is only created
+ * when `validate` checks the activity types. Without TypeScript, the
+ * exported functions of the entry file are matched with regexes.
  */
-function extractActivityExports(filePath: string): string[] {
+function extractActivityExports(
+  filePath: string,
+  metafile: esbuild.Metafile | undefined,
+): string[] {
+  const workingDir = process.cwd();
+  const activityNames = listActivityNames(filePath, (specifier, importer) => {
+    const input = relative(workingDir, importer).split(sep).join('/');
+    const imported = metafile?.inputs[input]?.imports.find(
+      (candidate) => candidate.original === specifier,
+    );
+    return imported && resolve(workingDir, imported.path);
+  });
+  if (activityNames) {
+    return activityNames;
+  }
+
   const content = readFileSync(filePath, 'utf-8');
   const names: string[] = [];
 
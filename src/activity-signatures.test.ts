@@ -0,0 +1,87 @@
+/**
+ * Tests for activity signature extraction.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { extractActivitySignatures } from './activity-signatures';
+import { validateActivityTypes } from './activity-types';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/activity-signatures');
+const activitiesPath = resolve(fixtureDir, 'activities.ts');
+
+// Checking activity types builds a TypeScript program
+const TYPE_CHECK_TIMEOUT = 30_000;
+
+describe('activity-signatures', () => {
+  describe('extractActivitySignatures', () => {
+    const signatures = extractActivitySignatures(activitiesPath) ?? [];
+    const byName = (name: string) => signatures.find((s) => s.name === name);
+
+    it('resolves renamed, re-exported, object-literal and class activities', () => {
+      expect(signatures.map((s) => s.name).sort()).toEqual([
+        'charge',
+        'importContacts',
+        'notify',
+        'refund',
+        'sendEmail',
+      ]);
+    });
+
+    it('expands interfaces and aliases and unwraps promises', () => {
+      expect(byName('sendEmail')).toEqual({
+        name: 'sendEmail',
+        file: resolve(fixtureDir, 'activities/email.ts'),
+        line: 17,
+        params: [
+          {
+            name: 'to',
+            type: '{ address: string; name?: string; tags: string[] }',
+            optional: false,
+          },
+          { name: 'body', type: 'string', optional: false },
+        ],
+        returnType: '{ id: string; sentAt: Date }',
+      });
+    });
+
+    it('describes rest and default parameters', () => {
+      expect(byName('charge')?.params).toEqual([
+        { name: 'amount', type: 'number', optional: false },
+        { name: '...cards', type: 'string[]', optional: false },
+      ]);
+      expect(byName('notify')?.params[1]).toEqual({
+        name: 'retries',
+        type: 'number',
+        optional: true,
+      });
+      expect(byName('refund')?.returnType).toBe('string');
+    });
+  });
+
+  describe('validateActivityTypes', () => {
+    it(
+      'checks types nested in interfaces',
+      () => {
+        const result = validateActivityTypes(activitiesPath);
+
+        expect(result.valid).toBe(false);
+        expect(result.activities.filter((a) => !a.valid)).toEqual([
+          expect.objectContaining({
+            name: 'sendEmail',
+            file: resolve(fixtureDir, 'activities/email.ts'),
+            line: 17,
+          }),
+          expect.objectContaining({
+            name: 'importContacts',
+            file: resolve(fixtureDir, 'activities/email.ts'),
+            line: 21,
+          }),
+        ]);
+      },
+      TYPE_CHECK_TIMEOUT,
+    );
+  });
+});
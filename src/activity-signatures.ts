@@ -0,0 +1,794 @@
+/**
+ * Activity export and signature extraction with the TypeScript checker.
+ *
+ * Resolves the activities a module really exports, following renamed
+ * exports, `export *` re-exports, object-literal activity maps and class
+ * methods, and describes their parameter and return types with type
+ * aliases and interfaces expanded.
+ */
+
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+
+import type * as ts from 'typescript';
+
+import { loadTypeScript } from './typescript-loader';
+
+/**
+ * Nesting depth up to which object types are expanded in type text.
+ */
+const MAX_EXPANSION_DEPTH = 4;
+
+/**
+ * An activity parameter.
+ */
+export interface ActivityParameter {
+  /**
+   * Parameter name, prefixed with `...` for rest parameters.
+   */
+  name: string;
+
+  /**
+   * Parameter type, with aliases and interfaces expanded.
+   */
+  type: string;
+
+  /**
+   * Whether the parameter is optional or has a default value.
+   */
+  optional: boolean;
+}
+
+/**
+ * An exported activity and its signature.
+ */
+export interface ActivitySignature {
+  /**
+   * Activity name, as registered with the Worker.
+   */
+  name: string;
+
+  /**
+   * Absolute path of the file the activity is declared in.
+   */
+  file: string;
+
+  /**
+   * Line of the declaration.
+   */
+  line: number;
+
+  /**
+   * Parameters of the activity.
+   */
+  params: ActivityParameter[];
+
+  /**
+   * Return type with `Promise` unwrapped and aliases expanded.
+   */
+  returnType: string;
+}
+
+/**
+ * Resolves an import specifier of a module to the file it refers to.
+ */
+export type ActivityImportResolver = (
+  specifier: string,
+  importer: string,
+) => string | undefined;
+
+/**
+ * Options for activity signature extraction.
+ */
+export interface ExtractActivitySignaturesOptions {
+  /**
+   * Path to tsconfig.json. Default: the nearest tsconfig.json to the
+   * activities file, if any.
+   */
+  tsconfigPath?: string;
+}
+
+/**
+ * A resolved activity, with the checker objects it was read from.
+ */
+export interface ResolvedActivity {
+  name: string;
+  declaration: ts.Declaration;
+  signature: ts.Signature;
+}
+
+/**
+ * Extract the activities exported by a module and their signatures.
+ *
+ * Activities are:
+ * - exported functions, under their exported name (`export { a as b }`
+ *   registers `b`), including those re-exported with `export *`
+ * - the callable properties of exported objects
+ *   (`export const activities = { sendEmail }`)
+ * - the public methods of exported classes
+ *
+ * Requires the optional `typescript` peer dependency.
+ *
+ * @returns The activities in export order, or undefined if TypeScript is
+ *   not installed
+ *
+ * @example
+ * ```typescript
+ * import { extractActivitySignatures } from 'bundle-temporal-workflow';
+ *
+ * for (const activity of extractActivitySignatures('./src/activities.ts') ?? []) {
+ *   const params = activity.params.map((p) => `${p.name}: ${p.type}`).join(', ');
+ *   console.log(`${activity.name}(${params}): ${activity.returnType}`);
+ * }
+ * ```
+ */
+export function extractActivitySignatures(
+  activitiesPath: string,
+  options: ExtractActivitySignaturesOptions = {},
+): ActivitySignature[] | undefined {
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    return undefined;
+  }
+
+  const { checker, activities } = resolveActivities(typescript, activitiesPath, options);
+
+  return activities.map(({ name, declaration, signature }) => {
+    const sourceFile = declaration.getSourceFile();
+    const { line } = sourceFile.getLineAndCharacterOfPosition(declaration.getStart());
+
+    return {
+      name,
+      file: resolve(sourceFile.fileName),
+      line: line + 1,
+      params: signature.parameters.map((param) =>
+        describeParameter(typescript, checker, param, declaration),
+      ),
+      returnType: typeToText(
+        typescript,
+        checker,
+        unwrapPromise(checker, checker.getReturnTypeOfSignature(signature)),
+      ),
+    };
+  });
+}
+
+/**
+ * Create a program for an activities module and resolve its activities.
+ *
+ * Shared by the analyses that need the checker's view of activity types.
+ */
+export function resolveActivities(
+  typescript: typeof ts,
+  activitiesPath: string,
+  options: ExtractActivitySignaturesOptions = {},
+): { checker: ts.TypeChecker; activities: ResolvedActivity[] } {
+  const entryPath = resolve(activitiesPath);
+  const program = createModuleProgram(typescript, entryPath, options.tsconfigPath);
+  const checker = program.getTypeChecker();
+
+  const sourceFile = program.getSourceFile(entryPath);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    return { checker, activities: [] };
+  }
+
+  const activities: ResolvedActivity[] = [];
+  for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+    const symbol =
+      exported.flags & typescript.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    if (!(symbol.flags & typescript.SymbolFlags.Value) || !symbol.valueDeclaration) {
+      continue;
+    }
+
+    if (symbol.flags & typescript.SymbolFlags.Class) {
+      // Public instance methods of exported classes
+      const instanceType = checker.getDeclaredTypeOfSymbol(symbol);
+      activities.push(...getCallableMembers(typescript, checker, instanceType));
+      continue;
+    }
+
+    const type = checker.getTypeOfSymbol(symbol);
+    const [signature] = type.getCallSignatures();
+    if (signature) {
+      activities.push({
+        name: exported.name,
+        declaration: symbol.valueDeclaration,
+        signature,
+      });
+    } else if (type.flags & typescript.TypeFlags.Object) {
+      // Activity maps: export const activities = { ... }
+      activities.push(...getCallableMembers(typescript, checker, type));
+    }
+  }
+
+  return { checker, activities };
+}
+
+/**
+ * List the names of the activities a module exports from the syntax of its
+ * modules, without creating a program.
+ *
+ * Follows the rules of `extractActivitySignatures()`, but recognizes
+ * callable values by their declaration: functions, and the functions held
+ * by object literals and public class members. Re-exports and imports are
+ * followed with `resolveImport`; imports it cannot resolve are skipped.
+ *
+ * Requires the optional `typescript` peer dependency.
+ *
+ * @returns The activity names in export order, or undefined if TypeScript
+ *   is not installed
+ */
+export function listActivityNames(
+  activitiesPath: string,
+  resolveImport: ActivityImportResolver,
+): string[] | undefined {
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    return undefined;
+  }
+  return new ActivityExportReader(typescript, resolveImport).listNames(
+    resolve(activitiesPath),
+    new Set(),
+  );
+}
+
+/**
+ * Depth up to which aliases and re-exports are followed.
+ */
+const MAX_REFERENCE_DEPTH = 16;
+
+/**
+ * A binding imported or re-exported from another module. `name` is `*`
+ * for namespace imports.
+ */
+interface ModuleReference {
+  file: string | undefined;
+  name: string;
+}
+
+/**
+ * A value declared in a module, or a binding it refers to.
+ */
+type ModuleBinding = { node: ts.Node } | { import: ModuleReference } | { local: string };
+
+interface ModuleExports {
+  file: string;
+  declarations: Map<string, ModuleBinding>;
+  exports: Map<string, ModuleBinding>;
+  starExports: Array<string | undefined>;
+}
+
+/**
+ * An activity value: a function, or the names of the functions an object
+ * or class holds.
+ */
+type ActivityValue = 'function' | string[];
+
+/**
+ * Reads activity exports from module syntax.
+ */
+class ActivityExportReader {
+  private readonly modules = new Map<string, ModuleExports>();
+
+  constructor(
+    private readonly typescript: typeof ts,
+    private readonly resolveImport: ActivityImportResolver,
+  ) {}
+
+  /**
+   * List the activity names exported by a module, in export order.
+   */
+  listNames(file: string, seen: Set<string>): string[] {
+    if (seen.has(file)) {
+      return [];
+    }
+    seen.add(file);
+
+    const module = this.getModule(file);
+    const names = new Set<string>();
+    for (const [name, binding] of module.exports) {
+      const value = this.valueOfBinding(module, binding, 0);
+      for (const activity of value === 'function' ? [name] : (value ?? [])) {
+        names.add(activity);
+      }
+    }
+    for (const starFile of module.starExports) {
+      if (starFile === undefined) continue;
+      for (const name of this.listNames(starFile, seen)) {
+        names.add(name);
+      }
+    }
+    return [...names];
+  }
+
+  private valueOfExport(
+    file: string | undefined,
+    name: string,
+    depth: number,
+  ): ActivityValue | undefined {
+    if (file === undefined || depth > MAX_REFERENCE_DEPTH) {
+      return undefined;
+    }
+    if (name === '*') {
+      return this.listNames(file, new Set());
+    }
+
+    const module = this.getModule(file);
+    const binding = module.exports.get(name);
+    if (binding) {
+      return this.valueOfBinding(module, binding, depth + 1);
+    }
+    if (name === 'default') {
+      return undefined;
+    }
+    for (const starFile of module.starExports) {
+      const value = this.valueOfExport(starFile, name, depth + 1);
+      if (value) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private valueOfBinding(
+    module: ModuleExports,
+    binding: ModuleBinding,
+    depth: number,
+  ): ActivityValue | undefined {
+    if (depth > MAX_REFERENCE_DEPTH) {
+      return undefined;
+    }
+    if ('local' in binding) {
+      const declaration = module.declarations.get(binding.local);
+      return declaration && this.valueOfBinding(module, declaration, depth + 1);
+    }
+    if ('import' in binding) {
+      return this.valueOfExport(binding.import.file, binding.import.name, depth + 1);
+    }
+    return this.valueOfNode(module, binding.node, depth);
+  }
+
+  private valueOfNode(
+    module: ModuleExports,
+    node: ts.Node,
+    depth: number,
+  ): ActivityValue | undefined {
+    const ts = this.typescript;
+    let value = node;
+    while (
+      ts.isParenthesizedExpression(value) ||
+      ts.isAsExpression(value) ||
+      ts.isSatisfiesExpression(value) ||
+      ts.isNonNullExpression(value)
+    ) {
+      value = value.expression;
+    }
+
+    if (
+      ts.isFunctionDeclaration(value) ||
+      ts.isArrowFunction(value) ||
+      ts.isFunctionExpression(value)
+    ) {
+      return 'function';
+    }
+    if (ts.isIdentifier(value)) {
+      return this.valueOfBinding(module, { local: value.text }, depth + 1);
+    }
+    if (ts.isClassLike(value)) {
+      return value.members.flatMap((member) => {
+        const name = this.memberName(member);
+        const isCallable =
+          ts.isMethodDeclaration(member) ||
+          (ts.isPropertyDeclaration(member) &&
+            member.initializer !== undefined &&
+            this.valueOfNode(module, member.initializer, depth + 1) === 'function');
+        const flags = ts.getCombinedModifierFlags(member);
+        return name &&
+          isCallable &&
+          !(
+            flags &
+            (ts.ModifierFlags.Private |
+              ts.ModifierFlags.Protected |
+              ts.ModifierFlags.Static)
+          )
+          ? [name]
+          : [];
+      });
+    }
+    if (ts.isObjectLiteralExpression(value)) {
+      return value.properties.flatMap((property) => {
+        if (ts.isSpreadAssignment(property)) {
+          const spread = this.valueOfNode(module, property.expression, depth + 1);
+          return Array.isArray(spread) ? spread : [];
+        }
+        const name = this.memberName(property);
+        const callable =
+          ts.isMethodDeclaration(property) ||
+          (ts.isShorthandPropertyAssignment(property) &&
+            this.valueOfBinding(module, { local: property.name.text }, depth + 1) ===
+              'function') ||
+          (ts.isPropertyAssignment(property) &&
+            this.valueOfNode(module, property.initializer, depth + 1) === 'function');
+        return name && callable ? [name] : [];
+      });
+    }
+    return undefined;
+  }
+
+  private memberName(
+    member: ts.ClassElement | ts.ObjectLiteralElementLike,
+  ): string | undefined {
+    const name = member.name;
+    return name &&
+      (this.typescript.isIdentifier(name) ||
+        this.typescript.isStringLiteral(name) ||
+        this.typescript.isNumericLiteral(name))
+      ? name.text
+      : undefined;
+  }
+
+  /**
+   * Parse a module into its declarations and exports.
+   */
+  private getModule(file: string): ModuleExports {
+    const cached = this.modules.get(file);
+    if (cached) {
+      return cached;
+    }
+
+    const ts = this.typescript;
+    const module: ModuleExports = {
+      file,
+      declarations: new Map(),
+      exports: new Map(),
+      starExports: [],
+    };
+    this.modules.set(file, module);
+
+    let code: string;
+    try {
+      code = readFileSync(file, 'utf-8');
+    } catch {
+      return module;
+    }
+    const sourceFile = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true);
+    const reference = (
+      specifier: ts.Expression | undefined,
+      name: string,
+    ): { import: ModuleReference } => ({
+      import: {
+        file:
+          specifier && ts.isStringLiteral(specifier)
+            ? this.resolveImport(specifier.text, file)
+            : undefined,
+        name,
+      },
+    });
+    const hasModifier = (node: ts.Node, kind: ts.SyntaxKind): boolean =>
+      ts.canHaveModifiers(node) &&
+      !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind);
+
+    for (const statement of sourceFile.statements) {
+      const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+      if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+        if (statement.name) {
+          module.declarations.set(statement.name.text, { node: statement });
+        }
+        if (exported && (isDefault || statement.name)) {
+          module.exports.set(isDefault ? 'default' : statement.name!.text, {
+            node: statement,
+          });
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+          module.declarations.set(declaration.name.text, {
+            node: declaration.initializer,
+          });
+          if (exported) {
+            module.exports.set(declaration.name.text, { node: declaration.initializer });
+          }
+        }
+      } else if (ts.isImportDeclaration(statement)) {
+        const clause = statement.importClause;
+        if (!clause || clause.isTypeOnly) continue;
+        if (clause.name) {
+          module.declarations.set(
+            clause.name.text,
+            reference(statement.moduleSpecifier, 'default'),
+          );
+        }
+        const bindings = clause.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+          module.declarations.set(
+            bindings.name.text,
+            reference(statement.moduleSpecifier, '*'),
+          );
+        } else if (bindings) {
+          for (const element of bindings.elements) {
+            if (element.isTypeOnly) continue;
+            module.declarations.set(
+              element.name.text,
+              reference(
+                statement.moduleSpecifier,
+                (element.propertyName ?? element.name).text,
+              ),
+            );
+          }
+        }
+      } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        module.exports.set('default', { node: statement.expression });
+      } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+        const clause = statement.exportClause;
+        if (!clause) {
+          module.starExports.push(reference(statement.moduleSpecifier, '*').import.file);
+        } else if (ts.isNamespaceExport(clause)) {
+          module.exports.set(clause.name.text, reference(statement.moduleSpecifier, '*'));
+        } else {
+          for (const element of clause.elements) {
+            if (element.isTypeOnly) continue;
+            const local = (element.propertyName ?? element.name).text;
+            module.exports.set(
+              element.name.text,
+              statement.moduleSpecifier
+                ? reference(statement.moduleSpecifier, local)
+                : { local },
+            );
+          }
+        }
+      }
+    }
+
+    return module;
+  }
+}
+
+/**
+ * Create a program rooted at a module, with the compiler options of its
+ * tsconfig.json.
+ *
+ * @param overrides - Compiler options applied over the tsconfig options
+ */
+export function createModuleProgram(
+  typescript: typeof ts,
+  entryPath: string,
+  tsconfigPath?: string,
+  overrides: ts.CompilerOptions = {},
+): ts.Program {
+  return typescript.createProgram({
+    rootNames: [entryPath],
+    options: {
+      ...getCompilerOptions(typescript, entryPath, tsconfigPath),
+      ...overrides,
+    },
+    host: createCachingHost(typescript),
+  });
+}
+
+/**
+ * Get the public callable members of an object or instance type.
+ */
+function getCallableMembers(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  type: ts.Type,
+): ResolvedActivity[] {
+  const members: ResolvedActivity[] = [];
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations?.[0];
+    if (!declaration) continue;
+
+    const modifiers = typescript.getCombinedModifierFlags(declaration);
+    const nameNode = typescript.getNameOfDeclaration(declaration);
+    if (
+      modifiers &
+        (typescript.ModifierFlags.Private | typescript.ModifierFlags.Protected) ||
+      (nameNode && typescript.isPrivateIdentifier(nameNode))
+    ) {
+      continue;
+    }
+
+    const [signature] = checker.getTypeOfSymbol(property).getCallSignatures();
+    if (signature) {
+      members.push({ name: property.name, declaration, signature });
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Describe a parameter of an activity signature.
+ */
+export function describeParameter(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  param: ts.Symbol,
+  activity: ts.Declaration,
+): ActivityParameter {
+  const declaration = param.valueDeclaration;
+  const isParameter = declaration !== undefined && typescript.isParameter(declaration);
+  const optional =
+    isParameter && (!!declaration.questionToken || !!declaration.initializer);
+  let type = checker.getTypeOfSymbolAtLocation(param, declaration ?? activity);
+  if (optional) {
+    type = checker.getNonNullableType(type);
+  }
+
+  // Unresolved types (e.g. missing @types packages) keep their annotation
+  const annotation = isParameter ? declaration.type?.getText() : undefined;
+
+  return {
+    name: isParameter && declaration.dotDotDotToken ? `...${param.name}` : param.name,
+    type:
+      type.flags & typescript.TypeFlags.Any && annotation
+        ? annotation
+        : typeToText(typescript, checker, type),
+    optional,
+  };
+}
+
+/**
+ * Unwrap `Promise<T>` (and other thenables) to `T`.
+ */
+export function unwrapPromise(checker: ts.TypeChecker, type: ts.Type): ts.Type {
+  return checker.getAwaitedType(type) ?? type;
+}
+
+/**
+ * Render a type as text, expanding type aliases, interfaces and anonymous
+ * object types into their members.
+ *
+ * Functions, classes and types declared by libraries (`Date`, `Map`,
+ * `Buffer`) keep their names.
+ */
+export function typeToText(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  depth = 0,
+  seen: Set<ts.Type> = new Set(),
+): string {
+  const name = (): string =>
+    checker.typeToString(type, undefined, typescript.TypeFormatFlags.NoTruncation);
+  const recurse = (member: ts.Type): string =>
+    typeToText(typescript, checker, member, depth + 1, seen);
+
+  if (type.isUnion() || type.isIntersection()) {
+    if (!type.types.some((member) => member.flags & typescript.TypeFlags.Object)) {
+      return name();
+    }
+    const separator = type.isUnion() ? ' | ' : ' & ';
+    return type.types.map((member) => parenthesize(recurse(member))).join(separator);
+  }
+
+  if (!(type.flags & typescript.TypeFlags.Object) || seen.has(type)) {
+    return name();
+  }
+
+  if (checker.isArrayType(type)) {
+    const [element] = checker.getTypeArguments(type as ts.TypeReference);
+    return element ? `${parenthesize(recurse(element))}[]` : name();
+  }
+
+  if (checker.isTupleType(type)) {
+    return `[${checker
+      .getTypeArguments(type as ts.TypeReference)
+      .map(recurse)
+      .join(', ')}]`;
+  }
+
+  const symbol = type.aliasSymbol ?? type.getSymbol();
+  const isLibraryType = symbol?.declarations?.some(
+    (declaration) => declaration.getSourceFile().isDeclarationFile,
+  );
+  if (
+    depth >= MAX_EXPANSION_DEPTH ||
+    type.getCallSignatures().length > 0 ||
+    type.getConstructSignatures().length > 0 ||
+    isLibraryType ||
+    (symbol && symbol.flags & typescript.SymbolFlags.Class)
+  ) {
+    return name();
+  }
+
+  seen.add(type);
+  const members: string[] = [];
+  for (const info of checker.getIndexInfosOfType(type)) {
+    members.push(`[key: ${checker.typeToString(info.keyType)}]: ${recurse(info.type)}`);
+  }
+  for (const property of checker.getPropertiesOfType(type)) {
+    const optional = (property.flags & typescript.SymbolFlags.Optional) !== 0;
+    let propertyType = checker.getTypeOfSymbol(property);
+    if (optional) {
+      propertyType = checker.getNonNullableType(propertyType);
+    }
+    members.push(`${property.name}${optional ? '?' : ''}: ${recurse(propertyType)}`);
+  }
+  seen.delete(type);
+
+  return members.length > 0 ? `{ ${members.join('; ')} }` : '{}';
+}
+
+/**
+ * Wrap union, intersection and function type text in parentheses.
+ */
+function parenthesize(text: string): string {
+  return / \| | & |=>/.test(text) ? `(${text})` : text;
+}
+
+/**
+ * Get compiler options from the tsconfig for a module.
+ */
+function getCompilerOptions(
+  typescript: typeof ts,
+  entryPath: string,
+  tsconfigPath: string | undefined,
+): ts.CompilerOptions {
+  const defaults: ts.CompilerOptions = {
+    target: typescript.ScriptTarget.ES2022,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.Bundler,
+    allowJs: true,
+    esModuleInterop: true,
+    strict: true,
+    skipLibCheck: true,
+    types: [],
+  };
+
+  const configPath =
+    tsconfigPath !== undefined
+      ? resolve(tsconfigPath)
+      : typescript.findConfigFile(dirname(entryPath), (fileName) =>
+          typescript.sys.fileExists(fileName),
+        );
+  if (!configPath) {
+    return defaults;
+  }
+
+  const configFile = typescript.readConfigFile(configPath, (path) =>
+    typescript.sys.readFile(path),
+  );
+  const parsed = typescript.parseJsonConfigFileContent(
+    configFile.config,
+    typescript.sys,
+    dirname(configPath),
+  );
+  return { ...defaults, ...parsed.options, noEmit: true };
+}
+
+/**
+ * Parsed declaration files, shared between programs. Library declarations
+ * are by far the largest inputs, and they do not change between builds.
+ */
+const declarationFileCache = new Map<string, ts.SourceFile>();
+
+/**
+ * Create a compiler host that reuses parsed declaration files.
+ */
+function createCachingHost(typescript: typeof ts): ts.CompilerHost {
+  const host = typescript.createCompilerHost({});
+  const getSourceFile = host.getSourceFile.bind(host);
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (!fileName.endsWith('.d.ts')) {
+      return getSourceFile(fileName, languageVersion, onError, shouldCreate);
+    }
+    let sourceFile = declarationFileCache.get(fileName);
+    if (!sourceFile) {
+      sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+      if (sourceFile) {
+        declarationFileCache.set(fileName, sourceFile);
+      }
+    }
+    return sourceFile;
+  };
+
+  return host;
+}
@@ -6,13 +6,29 @@
  */
 
 import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
 
-import type { TypeValidationResult } from './types';
+import type { ExtractActivitySignaturesOptions } from './activity-signatures';
+import { resolveActivities } from './activity-signatures';
+import type { SerializabilityOptions } from './serializability';
+import {
+  findSerializabilityIssues,
+  formatSerializabilityIssue,
+  getAcceptedTypes,
+} from './serializability';
+import type { SerializabilityIssue, TypeValidationResult } from './types';
+import { loadTypeScript } from './typescript-loader';
 
 /**
- * Types known to be non-serializable.
+ * Options for activity type validation.
  */
-const NON_SERIALIZABLE_TYPES = [
+export interface ValidateActivityTypesOptions
+  extends SerializabilityOptions, ExtractActivitySignaturesOptions {}
+
+/**
+ * Type names the regex fallback treats as non-serializable.
+ */
+const NON_SERIALIZABLE_TYPE_NAMES = [
   'Function',
   'Symbol',
   'WeakMap',
@@ -45,11 +61,22 @@ const NON_SERIALIZABLE_TYPES = [
  * Checks that activity parameters and return types are JSON-serializable,
  * which is required by Temporal's payload converter.
  *
+ * When `typescript` is installed, activities are resolved with the
+ * TypeScript checker (following re-exports, activity maps and class
+ * methods) and their types are walked member by member, so aliases,
+ * interfaces, class instances and unions are evaluated. Each problem is
+ * reported with its property path, such as
+ * `input.customer.createdAt: Date`. Types handled by the custom payload
+ * converter at `payloadConverterPath` are accepted. Without `typescript`,
+ * the exported functions of the file are parsed with regexes.
+ *
  * @example
  * ```typescript
  * import { validateActivityTypes } from 'bundle-temporal-workflow';
  *
- * const result = validateActivityTypes('./src/activities.ts');
+ * const result = validateActivityTypes('./src/activities.ts', {
+ *   payloadConverterPath: './src/payload-converter.ts',
+ * });
  *
  * if (!result.valid) {
  *   for (const activity of result.activities) {
@@ -60,16 +87,101 @@ const NON_SERIALIZABLE_TYPES = [
  * }
  * ```
  */
-export function validateActivityTypes(activitiesPath: string): TypeValidationResult {
-  const code = readFileSync(activitiesPath, 'utf-8');
-  return validateActivityTypesFromSource(code);
+export function validateActivityTypes(
+  activitiesPath: string,
+  options: ValidateActivityTypesOptions = {},
+): TypeValidationResult {
+  const accepted = getAcceptedTypes(options);
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    const code = readFileSync(activitiesPath, 'utf-8');
+    return validateSignatures(parseActivitySignatures(code), accepted);
+  }
+
+  const { checker, activities } = resolveActivities(typescript, activitiesPath, options);
+  const results = activities.map(({ name, declaration, signature }) => {
+    const sourceFile = declaration.getSourceFile();
+    const { line } = sourceFile.getLineAndCharacterOfPosition(declaration.getStart());
+    const errors: string[] = [];
+    const issues: SerializabilityIssue[] = [];
+
+    for (const param of signature.parameters) {
+      let type = checker.getTypeOfSymbolAtLocation(param, declaration);
+      const paramDeclaration = param.valueDeclaration;
+      if (
+        paramDeclaration &&
+        typescript.isParameter(paramDeclaration) &&
+        checker.isOptionalParameter(paramDeclaration)
+      ) {
+        type = checker.getNonNullableType(type);
+      }
+      const paramIssues = findSerializabilityIssues(
+        typescript,
+        checker,
+        type,
+        param.name,
+        accepted,
+      );
+      issues.push(...paramIssues);
+      errors.push(
+        ...paramIssues.map(
+          (issue) => `Parameter "${param.name}": ${formatSerializabilityIssue(issue)}`,
+        ),
+      );
+    }
+
+    const returnType = checker.getAwaitedType(
+      checker.getReturnTypeOfSignature(signature),
+    );
+    if (returnType) {
+      const returnIssues = findSerializabilityIssues(
+        typescript,
+        checker,
+        returnType,
+        'return',
+        accepted,
+      );
+      issues.push(...returnIssues);
+      errors.push(
+        ...returnIssues.map(
+          (issue) => `Return type: ${formatSerializabilityIssue(issue)}`,
+        ),
+      );
+    }
+
+    return {
+      name,
+      valid: errors.length === 0,
+      errors,
+      file: resolve(sourceFile.fileName),
+      line: line + 1,
+      issues,
+    };
+  });
+
+  return {
+    valid: results.every((result) => result.valid),
+    activities: results,
+  };
 }
 
 /**
  * Validate activity types from source code string.
  */
-export function validateActivityTypesFromSource(code: string): TypeValidationResult {
-  const activities = extractActivitySignatures(code);
+export function validateActivityTypesFromSource(
+  code: string,
+  options: SerializabilityOptions = {},
+): TypeValidationResult {
+  return validateSignatures(parseActivitySignatures(code), getAcceptedTypes(options));
+}
+
+/**
+ * Check the parameter and return types of parsed activity signatures.
+ */
+function validateSignatures(
+  activities: ParsedActivitySignature[],
+  accepted: Set<string>,
+): TypeValidationResult {
   let allValid = true;
 
   for (const activity of activities) {
@@ -77,7 +189,7 @@ export function validateActivityTypesFromSource(code: string): TypeValidationRes
 
     // Check parameter types
     for (const param of activity.params) {
-      const typeIssue = checkSerializability(param.type);
+      const typeIssue = checkSerializability(param.type, accepted);
       if (typeIssue) {
         errors.push(`Parameter "${param.name}": ${typeIssue}`);
       }
@@ -85,7 +197,7 @@ export function validateActivityTypesFromSource(code: string): TypeValidationRes
 
     // Check return type
     if (activity.returnType) {
-      const returnIssue = checkSerializability(activity.returnType);
+      const returnIssue = checkSerializability(activity.returnType, accepted);
       if (returnIssue) {
         errors.push(`Return type: ${returnIssue}`);
       }
@@ -106,7 +218,7 @@ export function validateActivityTypesFromSource(code: string): TypeValidationRes
   };
 }
 
-interface ActivitySignature {
+interface ParsedActivitySignature {
   name: string;
   params: Array<{ name: string; type: string }>;
   returnType: string | undefined;
@@ -115,10 +227,10 @@ interface ActivitySignature {
 }
 
 /**
- * Extract activity function signatures from source code.
+ * Parse exported activity function signatures from source code.
  */
-function extractActivitySignatures(code: string): ActivitySignature[] {
-  const results: ActivitySignature[] = [];
+function parseActivitySignatures(code: string): ParsedActivitySignature[] {
+  const results: ParsedActivitySignature[] = [];
 
   // Match exported functions
   const funcPattern =
@@ -203,9 +315,12 @@ function cleanType(type: string): string {
 /**
  * Check if a type annotation suggests a non-serializable type.
  */
-function checkSerializability(typeStr: string): string | undefined {
-  for (const nonSerializable of NON_SERIALIZABLE_TYPES) {
-    if (typeStr.includes(nonSerializable)) {
+function checkSerializability(
+  typeStr: string,
+  accepted: Set<string>,
+): string | undefined {
+  for (const nonSerializable of NON_SERIALIZABLE_TYPE_NAMES) {
+    if (typeStr.includes(nonSerializable) && !accepted.has(nonSerializable)) {
       return (
         `Type "${typeStr}" includes non-JSON-serializable type "${nonSerializable}". ` +
         'Activity parameters and return values must be JSON-serializable.'
@@ -0,0 +1,165 @@
+/**
+ * Activity bundle validation.
+ *
+ * Runs the package boundary and activity type checks over every module an
+ * activity bundle was built from, as recorded in esbuild's metafile, rather
+ * than only the activities entry file.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { isAbsolute, resolve } from 'node:path';
+
+import type * as esbuild from 'esbuild';
+
+import { validateActivityTypes, validateActivityTypesFromSource } from './activity-types';
+import { checkBoundariesFromSource, DEFAULT_BOUNDARIES } from './boundary-enforcement';
+import type {
+  ActivityDiagnostic,
+  ActivityValidationOptions,
+  TypeValidationResult,
+} from './types';
+import { loadTypeScript } from './typescript-loader';
+
+const WORKFLOW_PACKAGE = '@temporalio/workflow';
+
+/**
+ * Validate the module graph of an activity bundle.
+ *
+ * Every project module in the bundle is checked, including modules reached
+ * through re-exports and helpers; modules under node_modules are skipped.
+ * Imports are taken from the metafile, so type-only imports (erased by
+ * esbuild) are never reported. Signature types are checked for the
+ * activities the bundle exports, resolved with the TypeScript checker when
+ * it is installed.
+ *
+ * @param metafile - Metafile of the activity build
+ * @param activityNames - Names of the exported activities
+ * @param options - Validation options
+ * @param workingDir - Directory metafile paths are relative to
+ *
+ * @example
+ * ```typescript
+ * const result = await esbuild.build({ ...options, metafile: true });
+ * const diagnostics = validateActivityModuleGraph(result.metafile, ['sendEmail']);
+ *
+ * for (const d of diagnostics) {
+ *   console.warn(`${d.file}:${d.line ?? '?'} ${d.message}`);
+ * }
+ * ```
+ */
+export function validateActivityModuleGraph(
+  metafile: esbuild.Metafile,
+  activityNames: string[],
+  options: ActivityValidationOptions = {},
+  workingDir: string = process.cwd(),
+): ActivityDiagnostic[] {
+  const boundaries = options.boundaries ?? DEFAULT_BOUNDARIES;
+  const exportedNames = new Set([...activityNames, ...getOutputExports(metafile)]);
+  const diagnostics: ActivityDiagnostic[] = [];
+
+  // The checker follows re-exports itself; without it, each module's
+  // exported functions are parsed separately below
+  const entryPoint = getEntryPoint(metafile);
+  const checkTypes = options.checkTypes !== false;
+  const useChecker = entryPoint !== undefined && loadTypeScript() !== undefined;
+  const typeOptions = options.payloadConverterPath
+    ? { payloadConverterPath: options.payloadConverterPath }
+    : {};
+  if (checkTypes && useChecker) {
+    const entryFile = resolve(workingDir, entryPoint);
+    const result = validateActivityTypes(entryFile, typeOptions);
+    diagnostics.push(...toTypeDiagnostics(result, entryFile));
+  }
+
+  for (const [input, { imports }] of Object.entries(metafile.inputs)) {
+    const file = resolve(workingDir, input);
+    // Dependencies may import each other freely, and virtual modules have
+    // no source to check
+    if (input.includes('node_modules/') || !existsSync(file)) {
+      continue;
+    }
+    const code = readFileSync(file, 'utf-8');
+
+    // Import boundaries
+    const reported = new Set<string>();
+    for (const imported of imports) {
+      const importPath = imported.original ?? imported.path;
+      if (importPath.startsWith('.') || isAbsolute(importPath)) continue;
+      if (reported.has(importPath)) continue;
+
+      const pkg = boundaries.workflowOnly.find(
+        (p) => importPath === p || importPath.startsWith(`${p}/`),
+      );
+      if (!pkg) continue;
+      reported.add(importPath);
+
+      // The source check finds the line; multi-line imports fall back to none
+      const violation = checkBoundariesFromSource(code, file, 'activity', {
+        ...boundaries,
+        workflowOnly: [pkg],
+      }).violations.find((v) => v.importPath === importPath);
+
+      const isWorkflowPackage = pkg === WORKFLOW_PACKAGE;
+      diagnostics.push({
+        kind: isWorkflowPackage ? 'workflow-import' : 'boundary',
+        severity: isWorkflowPackage ? 'warning' : 'error',
+        file,
+        ...(violation && { line: violation.line }),
+        importPath,
+        message: isWorkflowPackage
+          ? `Activity code imports "${importPath}", which only works inside the workflow sandbox. ` +
+            'Import shared code from @temporalio/common or @temporalio/activity instead.'
+          : (violation?.message ??
+            `Package "${importPath}" is workflow-only and should not be imported in activity code.`),
+      });
+    }
+
+    // Signature types
+    if (checkTypes && !useChecker) {
+      const result = validateActivityTypesFromSource(code, typeOptions);
+      diagnostics.push(
+        ...toTypeDiagnostics(result, file).filter((d) => exportedNames.has(d.activity!)),
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Convert the errors of a type validation result to diagnostics.
+ */
+function toTypeDiagnostics(
+  result: TypeValidationResult,
+  file: string,
+): ActivityDiagnostic[] {
+  return result.activities.flatMap((activity) =>
+    activity.errors.map((error) => ({
+      kind: 'type' as const,
+      severity: 'warning' as const,
+      file: activity.file ?? file,
+      ...(activity.line !== undefined && { line: activity.line }),
+      activity: activity.name,
+      message: `Activity "${activity.name}": ${error}`,
+    })),
+  );
+}
+
+/**
+ * Get the entry point of the bundle's JavaScript output.
+ */
+function getEntryPoint(metafile: esbuild.Metafile): string | undefined {
+  return Object.entries(metafile.outputs).find(([path]) => path.endsWith('.js'))?.[1]
+    .entryPoint;
+}
+
+/**
+ * Get the names exported by the bundle's JavaScript output.
+ *
+ * esbuild only records exports for ESM output.
+ */
+function getOutputExports(metafile: esbuild.Metafile): string[] {
+  return Object.entries(metafile.outputs)
+    .filter(([path]) => path.endsWith('.js'))
+    .flatMap(([, output]) => output.exports);
+}
@@ -15,10 +15,17 @@ import { createCrossRuntimePlugin, resolveCrossRuntimeConfig } from './cross-run
 import { generateEntrypoint, hashEntrypoint } from './entrypoint';
 import { WorkflowBundleError } from './errors';
 import { createTemporalPlugin } from './esbuild-plugin';
+import { withBuildMode } from './instrumentation';
 import { loadDeterminismPolicy } from './policy';
 import { shimEsbuildOutput, validateShimmedOutput } from './shim';
 import { createTsconfigPathsPlugin } from './tsconfig-paths';
-import type { BundleMetadata, InputFlavor, Logger, WorkflowBundle } from './types';
+import type {
+  BundleMetadata,
+  DeterminismPolicy,
+  InputFlavor,
+  Logger,
+  WorkflowBundle,
+} from './types';
 import { getBundlerVersion, getTemporalSdkVersion } from './validate';
 
 /**
@@ -68,6 +75,8 @@ export async function bunBuildBundle(options: {
   denoConfigPath: string | undefined;
   importMapPath: string | undefined;
   tsconfigPath: string | undefined;
+  policy?: DeterminismPolicy;
+  forbiddenModuleSeverity?: 'error' | 'warning';
   logger: Logger;
   buildOptions?: Partial<esbuild.BuildOptions>;
 }): Promise<WorkflowBundle> {
@@ -93,7 +102,7 @@ export async function bunBuildBundle(options: {
   options.logger.debug('Starting Bun.build bundle', { mode: options.mode });
 
   // Load determinism policy
-  const policy = loadDeterminismPolicy();
+  const policy = options.policy ?? loadDeterminismPolicy();
 
   // Create the Temporal plugin
   const { plugin: temporalPlugin, state: pluginState } = createTemporalPlugin({
@@ -158,7 +167,7 @@ export async function bunBuildBundle(options: {
             ]
           : []),
         temporalPlugin as unknown as import('bun').BunPlugin,
-        ...(options.buildOptions?.plugins ?? []).map(
+        ...withBuildMode(options.buildOptions?.plugins, options.mode).map(
           (p) => p as unknown as import('bun').BunPlugin,
         ),
       ],
@@ -191,7 +200,10 @@ export async function bunBuildBundle(options: {
     }
 
     // Post-build validation: check for forbidden modules
-    if (pluginState.foundProblematicModules.size > 0) {
+    if (
+      pluginState.foundProblematicModules.size > 0 &&
+      options.forbiddenModuleSeverity !== 'warning'
+    ) {
       const modules = Array.from(pluginState.foundProblematicModules.keys());
       const details = Array.from(pluginState.foundProblematicModules.entries())
         .map(([mod, importer]) => `  - '${mod}' (imported from ${importer})`)
@@ -204,6 +216,14 @@ export async function bunBuildBundle(options: {
       });
     }
 
+    // Relaxed builds (e.g. test bundles) only warn about forbidden modules
+    const warnings: string[] = [];
+    for (const [mod, importer] of pluginState.foundProblematicModules) {
+      const msg = `Forbidden module '${mod}' imported from ${importer} was replaced with a stub that throws if used at runtime.`;
+      warnings.push(msg);
+      options.logger.warn(msg);
+    }
+
     // Read the output
     const bundleOutputPath = join(tempOutdir, 'workflow-bundle.js');
     const mapOutputPath = join(tempOutdir, 'workflow-bundle.js.map');
@@ -218,7 +238,7 @@ export async function bunBuildBundle(options: {
       // Use the first output
       const output = result.outputs[0]!;
       const code = await output.text();
-      return processOutput(code, undefined, entryHash, options, startTime);
+      return processOutput(code, undefined, entryHash, options, startTime, warnings);
     }
 
     const bundleCode = await Bun.file(bundleOutputPath).text();
@@ -228,7 +248,6 @@ export async function bunBuildBundle(options: {
     }
 
     // Collect warnings
-    const warnings: string[] = [];
     for (const log of result.logs) {
       if (log.level === 'warning') {
         warnings.push(log.message);
@@ -0,0 +1,173 @@
+/**
+ * Tests for signed bundle files.
+ */
+
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+
+import {
+  createSignedBundleEnvelope,
+  isSignedBundleEnvelope,
+  parseSignedBundleEnvelope,
+  readSignedBundle,
+  serializeSignedBundleEnvelope,
+  verifySignedBundleEnvelope,
+  writeSignedBundle,
+} from './bundle-envelope';
+import { WorkflowBundleError } from './errors';
+import type { SigningKeyPair } from './signing';
+import { generateSigningKeyPair } from './signing';
+import type { SignedBundleEnvelope, WorkflowBundle, WorkflowManifest } from './types';
+
+const tempDir = resolve(__dirname, '../test/temp-bundle-envelope');
+
+const bundle: WorkflowBundle = {
+  code: 'exports.api = {};',
+  sourceMap: '{"version":3,"sources":[],"mappings":""}',
+};
+
+const manifest: WorkflowManifest = {
+  version: 1,
+  generatedAt: '2026-10-01T00:00:00.000Z',
+  bundleHash: 'abc123',
+  workflows: [{ name: 'orderWorkflow' }],
+};
+
+describe('bundle-envelope', () => {
+  let keyPair: SigningKeyPair;
+  let envelope: SignedBundleEnvelope;
+
+  beforeAll(async () => {
+    keyPair = await generateSigningKeyPair();
+    envelope = createSignedBundleEnvelope(bundle, keyPair.privateKey, {
+      manifest,
+      signedAt: new Date('2026-10-02T00:00:00.000Z'),
+    });
+    mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createSignedBundleEnvelope', () => {
+    it('hashes every part of the bundle', () => {
+      expect(envelope).toMatchObject({
+        format: 'temporal-workflow-bundle',
+        version: 1,
+        code: bundle.code,
+        sourceMap: bundle.sourceMap,
+        manifest,
+        signature: {
+          algorithm: 'Ed25519',
+          publicKey: keyPair.publicKey,
+          signedAt: '2026-10-02T00:00:00.000Z',
+        },
+      });
+      expect(envelope.hashes.code).toMatch(/^[0-9a-f]{64}$/);
+      expect(envelope.hashes.sourceMap).toMatch(/^[0-9a-f]{64}$/);
+      expect(envelope.hashes.manifest).toMatch(/^[0-9a-f]{64}$/);
+      expect(envelope.hashes).not.toHaveProperty('metadata');
+    });
+  });
+
+  describe('verifySignedBundleEnvelope', () => {
+    it('accepts an unmodified envelope', () => {
+      expect(verifySignedBundleEnvelope(envelope)).toEqual({
+        valid: true,
+        errors: [],
+        publicKey: keyPair.publicKey,
+        signedAt: '2026-10-02T00:00:00.000Z',
+      });
+    });
+
+    it('rejects modified code, source maps and manifests', () => {
+      const result = verifySignedBundleEnvelope({
+        ...envelope,
+        code: `${bundle.code}\nfetch('https://example.com');`,
+        sourceMap: undefined,
+        manifest: { ...manifest, workflows: [] },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'code does not match its signed hash',
+        'sourceMap is missing but was signed',
+        'manifest does not match its signed hash',
+      ]);
+    });
+
+    it('rejects hashes that were changed to match modified contents', () => {
+      const code = 'exports.api = { tampered: true };';
+      const { hashes } = createSignedBundleEnvelope({ code }, keyPair.privateKey);
+      const result = verifySignedBundleEnvelope({
+        ...envelope,
+        code,
+        hashes: { ...envelope.hashes, code: hashes.code },
+      });
+
+      expect(result.errors).toEqual([
+        'Signature is not valid for the hashes and public key',
+      ]);
+    });
+
+    it('rejects a changed signing time', () => {
+      const result = verifySignedBundleEnvelope({
+        ...envelope,
+        signature: { ...envelope.signature, signedAt: '2030-01-01T00:00:00.000Z' },
+      });
+
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('parseSignedBundleEnvelope', () => {
+    it('round-trips through serialization', () => {
+      const parsed = parseSignedBundleEnvelope(serializeSignedBundleEnvelope(envelope));
+
+      expect(parsed).toEqual(envelope);
+      expect(verifySignedBundleEnvelope(parsed).valid).toBe(true);
+    });
+
+    it('rejects files that are not signed bundles', () => {
+      expect(() => parseSignedBundleEnvelope('{"code": 42}')).toThrow(
+        WorkflowBundleError,
+      );
+      expect(() => parseSignedBundleEnvelope('{"code": 42}')).toThrow(
+        'code must be a string',
+      );
+    });
+  });
+
+  describe('isSignedBundleEnvelope', () => {
+    it('tells signed bundle files from bundle code', () => {
+      expect(isSignedBundleEnvelope(serializeSignedBundleEnvelope(envelope))).toBe(true);
+      expect(isSignedBundleEnvelope(bundle.code)).toBe(false);
+      expect(isSignedBundleEnvelope('{"format": "other"}')).toBe(false);
+    });
+  });
+
+  describe('readSignedBundle', () => {
+    it('reads a written signed bundle file', () => {
+      const path = resolve(tempDir, 'workflow-bundle.signed.json');
+      writeSignedBundle(path, bundle, keyPair.privateKey, { manifest });
+
+      const result = readSignedBundle(path);
+
+      expect(result.bundle).toEqual({ ...bundle, metadata: undefined });
+      expect(result.manifest).toEqual(manifest);
+      expect(result.verification.valid).toBe(true);
+    });
+
+    it('throws for tampered files', () => {
+      const path = resolve(tempDir, 'tampered.signed.json');
+      writeSignedBundle(path, bundle, keyPair.privateKey);
+      const contents = JSON.parse(readFileSync(path, 'utf-8')) as SignedBundleEnvelope;
+      writeFileSync(path, JSON.stringify({ ...contents, code: 'exports.api = null;' }));
+
+      expect(() => readSignedBundle(path)).toThrow('code does not match its signed hash');
+    });
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * Signed bundle files.
+ *
+ * A signed bundle file is a JSON envelope holding everything a Worker
+ * deploys: the bundle code, its source map, the workflow manifest and the
+ * build metadata. One Ed25519 signature covers the hashes of all of them,
+ * so a Worker can verify the whole unit before registering it.
+ *
+ * Signing and verification are synchronous, so that `loadBundle()` can
+ * verify signed bundle files at Worker startup.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, sign, verify } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { WorkflowBundleError } from './errors';
+import { serializeManifest } from './manifest';
+import type {
+  SignedBundleEnvelope,
+  SignedBundleHashes,
+  WorkflowBundle,
+  WorkflowManifest,
+} from './types';
+
+/**
+ * Format identifier of signed bundle files.
+ */
+export const SIGNED_BUNDLE_FORMAT = 'temporal-workflow-bundle';
+
+/**
+ * Options for signing a bundle into a signed bundle file.
+ */
+export interface SignBundleEnvelopeOptions {
+  /**
+   * Manifest of the workflows in the bundle.
+   */
+  manifest?: WorkflowManifest | undefined;
+
+  /**
+   * Signing time recorded in the envelope.
+   * Default: now
+   */
+  signedAt?: Date;
+}
+
+/**
+ * Result of verifying a signed bundle file.
+ */
+export interface SignedBundleVerification {
+  /**
+   * Whether the contents match their hashes and the signature is valid.
+   */
+  valid: boolean;
+
+  /**
+   * Why verification failed.
+   */
+  errors: string[];
+
+  /**
+   * Base64-encoded public key the bundle claims to be signed with.
+   */
+  publicKey: string;
+
+  /**
+   * When the bundle was signed (ISO 8601).
+   */
+  signedAt: string;
+}
+
+/**
+ * A verified signed bundle file.
+ */
+export interface ReadSignedBundleResult {
+  /**
+   * The bundle, ready to pass to `Worker.create()`.
+   */
+  bundle: WorkflowBundle;
+
+  /**
+   * Manifest of the workflows in the bundle, if the file has one.
+   */
+  manifest?: WorkflowManifest | undefined;
+
+  /**
+   * The parsed file.
+   */
+  envelope: SignedBundleEnvelope;
+
+  /**
+   * Signature verification result.
+   */
+  verification: SignedBundleVerification;
+}
+
+/**
+ * Sign a bundle, its source map, manifest and metadata into a signed
+ * bundle envelope.
+ *
+ * @param privateKey - Base64-encoded PKCS#8 Ed25519 private key, as
+ *   returned by `generateSigningKeyPair()`
+ *
+ * @example
+ * ```typescript
+ * import { createSignedBundleEnvelope, serializeSignedBundleEnvelope } from 'bundle-temporal-workflow';
+ *
+ * const envelope = createSignedBundleEnvelope(bundle, privateKey, { manifest });
+ * writeFileSync('./dist/workflow-bundle.signed.json', serializeSignedBundleEnvelope(envelope));
+ * ```
+ */
+export function createSignedBundleEnvelope(
+  bundle: WorkflowBundle,
+  privateKey: string,
+  options: SignBundleEnvelopeOptions = {},
+): SignedBundleEnvelope {
+  const key = createPrivateKey({
+    key: Buffer.from(privateKey, 'base64'),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const publicKey = createPublicKey(key)
+    .export({ format: 'der', type: 'spki' })
+    .toString('base64');
+
+  const unsigned = {
+    format: SIGNED_BUNDLE_FORMAT,
+    version: 1,
+    code: bundle.code,
+    ...(bundle.sourceMap !== undefined && { sourceMap: bundle.sourceMap }),
+    ...(options.manifest && { manifest: options.manifest }),
+    ...(bundle.metadata && { metadata: bundle.metadata }),
+  } as const;
+  const hashes = hashContents(unsigned);
+  const signedAt = (options.signedAt ?? new Date()).toISOString();
+
+  return {
+    ...unsigned,
+    hashes,
+    signature: {
+      algorithm: 'Ed25519',
+      publicKey,
+      signedAt,
+      value: sign(null, getSignedPayload(hashes, signedAt), key).toString('base64'),
+    },
+  };
+}
+
+/**
+ * Sign a bundle and write it to a signed bundle file.
+ *
+ * @returns The written envelope
+ *
+ * @example
+ * ```typescript
+ * import { bundleWorkflowCode, generateManifest, writeSignedBundle } from 'bundle-temporal-workflow';
+ *
+ * const bundle = await bundleWorkflowCode({
+ *   workflowsPath: './src/workflows.ts',
+ *   mode: 'production',
+ *   sourceMap: 'external',
+ * });
+ * const manifest = generateManifest({ workflowsPath: './src/workflows.ts', bundleCode: bundle.code });
+ *
+ * writeSignedBundle('./dist/workflow-bundle.signed.json', bundle, process.env.SIGNING_KEY!, {
+ *   manifest,
+ * });
+ * ```
+ */
+export function writeSignedBundle(
+  outputPath: string,
+  bundle: WorkflowBundle,
+  privateKey: string,
+  options: SignBundleEnvelopeOptions = {},
+): SignedBundleEnvelope {
+  const envelope = createSignedBundleEnvelope(bundle, privateKey, options);
+  writeFileSync(outputPath, serializeSignedBundleEnvelope(envelope));
+  return envelope;
+}
+
+/**
+ * Serialize a signed bundle envelope to JSON.
+ */
+export function serializeSignedBundleEnvelope(envelope: SignedBundleEnvelope): string {
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Parse a signed bundle envelope from JSON.
+ *
+ * Only checks the structure of the file; use
+ * `verifySignedBundleEnvelope()` to check its signature.
+ *
+ * @throws WorkflowBundleError with code `SIGNATURE_INVALID` if the JSON is
+ *   not a signed bundle file
+ */
+export function parseSignedBundleEnvelope(json: string): SignedBundleEnvelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    throw new WorkflowBundleError('SIGNATURE_INVALID', {
+      details: `Not a signed bundle file: ${err instanceof Error ? err.message : String(err)}`,
+    });
+  }
+
+  const violations = validateEnvelope(parsed);
+  if (violations.length > 0) {
+    throw new WorkflowBundleError('SIGNATURE_INVALID', {
+      violations,
+      details: 'Not a signed bundle file.',
+    });
+  }
+
+  return parsed as SignedBundleEnvelope;
+}
+
+/**
+ * Whether file contents are a signed bundle file rather than bundle code.
+ */
+export function isSignedBundleEnvelope(contents: string): boolean {
+  // Bundle code never starts with an object literal
+  if (!contents.trimStart().startsWith('{')) {
+    return false;
+  }
+  try {
+    const parsed = JSON.parse(contents) as unknown;
+    return isRecord(parsed) && parsed['format'] === SIGNED_BUNDLE_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a signed bundle envelope: that the code, source map, manifest
+ * and metadata match their hashes, and that the signature over the hashes
+ * is valid for the embedded public key.
+ *
+ * This proves the contents were not modified after signing, not who
+ * signed them. Check `publicKey` against a key you trust.
+ */
+export function verifySignedBundleEnvelope(
+  envelope: SignedBundleEnvelope,
+): SignedBundleVerification {
+  const { signature } = envelope;
+  const errors: string[] = [];
+
+  const actual = hashContents(envelope);
+  for (const field of ['code', 'sourceMap', 'manifest', 'metadata'] as const) {
+    if (actual[field] !== envelope.hashes[field]) {
+      errors.push(
+        actual[field] === undefined
+          ? `${field} is missing but was signed`
+          : envelope.hashes[field] === undefined
+            ? `${field} was added after signing`
+            : `${field} does not match its signed hash`,
+      );
+    }
+  }
+
+  if (signature.algorithm !== 'Ed25519') {
+    errors.push(`Unsupported signature algorithm: ${String(signature.algorithm)}`);
+  } else if (!verifySignature(envelope)) {
+    errors.push(`Signature is not valid for the hashes and public key`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    publicKey: signature.publicKey,
+    signedAt: signature.signedAt,
+  };
+}
+
+/**
+ * Read and verify a signed bundle file.
+ *
+ * @throws WorkflowBundleError with code `SIGNATURE_INVALID` if the file is
+ *   not a signed bundle file or fails verification
+ *
+ * @example
+ * ```typescript
+ * import { readSignedBundle } from 'bundle-temporal-workflow';
+ *
+ * const { bundle, manifest, verification } = readSignedBundle('./dist/workflow-bundle.signed.json');
+ * console.log(`Signed at ${verification.signedAt} by ${verification.publicKey}`);
+ *
+ * const worker = await Worker.create({ workflowBundle: bundle, taskQueue: 'orders' });
+ * ```
+ */
+export function readSignedBundle(path: string): ReadSignedBundleResult {
+  const filePath = resolve(path);
+  if (!existsSync(filePath)) {
+    throw new WorkflowBundleError('ENTRYPOINT_NOT_FOUND', {
+      details: `Signed bundle file not found: ${filePath}`,
+    });
+  }
+  return readSignedBundleContents(readFileSync(filePath, 'utf-8'), filePath);
+}
+
+/**
+ * Parse and verify the contents of a signed bundle file.
+ *
+ * @param filePath - Path reported in errors
+ */
+export function readSignedBundleContents(
+  contents: string,
+  filePath: string,
+): ReadSignedBundleResult {
+  const envelope = parseSignedBundleEnvelope(contents);
+  const verification = verifySignedBundleEnvelope(envelope);
+  if (!verification.valid) {
+    throw new WorkflowBundleError('SIGNATURE_INVALID', {
+      violations: verification.errors,
+      details: `Signed bundle file: ${filePath}`,
+    });
+  }
+
+  return {
+    bundle: {
+      code: envelope.code,
+      sourceMap: envelope.sourceMap,
+      metadata: envelope.metadata,
+    },
+    manifest: envelope.manifest,
+    envelope,
+    verification,
+  };
+}
+
+/**
+ * Hash the contents of an envelope.
+ */
+function hashContents(
+  envelope: Pick<SignedBundleEnvelope, 'code' | 'sourceMap' | 'manifest' | 'metadata'>,
+): SignedBundleHashes {
+  return {
+    code: sha256(envelope.code),
+    ...(envelope.sourceMap !== undefined && { sourceMap: sha256(envelope.sourceMap) }),
+    ...(envelope.manifest && { manifest: sha256(serializeManifest(envelope.manifest)) }),
+    ...(envelope.metadata && { metadata: sha256(JSON.stringify(envelope.metadata)) }),
+  };
+}
+
+/**
+ * The data the signature covers: the format, the signing time and the
+ * content hashes, in a fixed order.
+ */
+function getSignedPayload(hashes: SignedBundleHashes, signedAt: string): Buffer {
+  return Buffer.from(
+    JSON.stringify([
+      SIGNED_BUNDLE_FORMAT,
+      1,
+      signedAt,
+      hashes.code,
+      hashes.sourceMap ?? null,
+      hashes.manifest ?? null,
+      hashes.metadata ?? null,
+    ]),
+  );
+}
+
+function verifySignature(envelope: SignedBundleEnvelope): boolean {
+  const { hashes, signature } = envelope;
+  try {
+    const publicKey = createPublicKey({
+      key: Buffer.from(signature.publicKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(
+      null,
+      getSignedPayload(hashes, signature.signedAt),
+      publicKey,
+      Buffer.from(signature.value, 'base64'),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Check the structure of a parsed envelope.
+ */
+function validateEnvelope(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['Expected a JSON object'];
+  }
+
+  const { format, version, code, sourceMap, manifest, metadata, hashes, signature } =
+    value;
+  const violations: string[] = [];
+  if (format !== SIGNED_BUNDLE_FORMAT) {
+    violations.push(`format must be '${SIGNED_BUNDLE_FORMAT}'`);
+  }
+  if (version !== 1) {
+    violations.push(`Unsupported version: ${String(version)}`);
+  }
+  if (typeof code !== 'string') {
+    violations.push('code must be a string');
+  }
+  if (sourceMap !== undefined && typeof sourceMap !== 'string') {
+    violations.push('sourceMap must be a string');
+  }
+  if (manifest !== undefined && !(isRecord(manifest) && manifest['version'] === 1)) {
+    violations.push('manifest must be a version 1 workflow manifest');
+  }
+  if (metadata !== undefined && !isRecord(metadata)) {
+    violations.push('metadata must be an object');
+  }
+  if (!isRecord(hashes) || typeof hashes['code'] !== 'string') {
+    violations.push('hashes.code must be a string');
+  }
+  if (
+    !isRecord(signature) ||
+    typeof signature['publicKey'] !== 'string' ||
+    typeof signature['signedAt'] !== 'string' ||
+    typeof signature['value'] !== 'string'
+  ) {
+    violations.push('signature must have a publicKey, signedAt and value');
+  }
+  return violations;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -11,20 +11,25 @@ import { dirname, join, parse } from 'node:path';
 import * as esbuild from 'esbuild';
 
 import { bunBuildBundle, resolveBundlerBackend } from './bun-bundler';
+import { applyDeterminismConfig, resolveBundleConfig } from './config';
 import { createCrossRuntimePlugin, resolveCrossRuntimeConfig } from './cross-runtime';
 import { findAllDependencyChains, formatDependencyChain } from './dependency-chain';
 import { generateEntrypoint, hashEntrypoint } from './entrypoint';
 import { WorkflowBundleError } from './errors';
+import type { TemporalPluginState } from './esbuild-plugin';
 import { createTemporalPlugin } from './esbuild-plugin';
+import { withBuildMode } from './instrumentation';
 import { loadDeterminismPolicy } from './policy';
 import { shimEsbuildOutput } from './shim';
 import { createTsconfigPathsPlugin, findTsconfig } from './tsconfig-paths';
 import type {
   BuildMetadata,
+  BuiltinExemption,
   BundleContext,
   BundleMetadata,
   BundleOptions,
   BundlerPlugin,
+  DeterminismPolicy,
   InputFlavor,
   Logger,
   WatchOptions,
@@ -178,6 +183,12 @@ function validateUserOptions(opts: Partial<esbuild.BuildOptions> | undefined): v
   }
 }
 
+/**
+ * Output directory of shared builds. Nothing is written to disk; it only
+ * names the output files.
+ */
+const SHARED_OUTDIR = 'temporal-workflow-bundles';
+
 /**
  * WorkflowCodeBundler creates bundles for Temporal workflows using esbuild.
  */
@@ -197,6 +208,9 @@ export class WorkflowCodeBundler {
   readonly denoConfigPath: string | undefined;
   readonly importMapPath: string | undefined;
   readonly tsconfigPath: string | undefined;
+  readonly configPath: string | false | undefined;
+  readonly allowedBuiltins: BuiltinExemption[];
+  readonly forbiddenModuleSeverity: 'error' | 'warning';
   readonly treeShaking: boolean;
   readonly bundler: 'esbuild' | 'bun';
 
@@ -228,6 +242,9 @@ export class WorkflowCodeBundler {
       resolvedOptions.tsconfigPath,
       resolvedOptions.workflowsPath,
     );
+    this.configPath = resolvedOptions.configPath;
+    this.allowedBuiltins = resolvedOptions.allowedBuiltins ?? [];
+    this.forbiddenModuleSeverity = resolvedOptions.forbiddenModuleSeverity ?? 'error';
     this.treeShaking = resolvedOptions.treeShaking !== false;
     this.bundler = resolveBundlerBackend(resolvedOptions.bundler, this.logger);
 
@@ -256,6 +273,8 @@ export class WorkflowCodeBundler {
         denoConfigPath: this.denoConfigPath,
         importMapPath: this.importMapPath,
         tsconfigPath: this.tsconfigPath,
+        policy: await this.loadPolicy(),
+        forbiddenModuleSeverity: this.forbiddenModuleSeverity,
         logger: this.logger,
         ...(this.buildOptions && { buildOptions: this.buildOptions }),
       });
@@ -286,7 +305,7 @@ export class WorkflowCodeBundler {
     this.logger.debug('Starting bundle', { entrypointPath, mode: this.mode });
 
     // Load determinism policy
-    const policy = loadDeterminismPolicy();
+    const policy = await this.loadPolicy();
 
     // Create the Temporal plugin with shared state for post-build validation
     const { plugin: temporalPlugin, state: pluginState } = createTemporalPlugin({
@@ -315,7 +334,6 @@ export class WorkflowCodeBundler {
     });
 
     // Build with esbuild
-    const warnings: string[] = [];
     let result: esbuild.BuildResult;
 
     try {
@@ -354,7 +372,7 @@ export class WorkflowCodeBundler {
             ? [createTsconfigPathsPlugin({ tsconfigPath: this.tsconfigPath })]
             : []),
           temporalPlugin,
-          ...(this.buildOptions?.plugins ?? []),
+          ...withBuildMode(this.buildOptions?.plugins, this.mode),
         ],
       });
     } catch (error) {
@@ -369,6 +387,246 @@ export class WorkflowCodeBundler {
       });
     }
 
+    const warnings = this.validatePluginState(pluginState, result.metafile);
+
+    // Extract warnings
+    if (result.warnings.length > 0) {
+      for (const warning of result.warnings) {
+        warnings.push(warning.text);
+        this.logger.warn('Build warning', { text: warning.text });
+      }
+    }
+
+    // Get the output
+    if (!result.outputFiles || result.outputFiles.length === 0) {
+      throw new WorkflowBundleError('BUILD_FAILED', {
+        details: 'esbuild produced no output files',
+      });
+    }
+
+    // Find the main bundle and optional source map
+    const bundleFile = result.outputFiles.find((f) => f.path.endsWith('.js'));
+    const mapFile = result.outputFiles.find((f) => f.path.endsWith('.map'));
+
+    if (!bundleFile) {
+      throw new WorkflowBundleError('BUILD_FAILED', {
+        details: 'esbuild produced no JavaScript output',
+      });
+    }
+
+    // Apply shim to the output
+    // Hash the actual bundle content to prevent module cache collisions
+    // when workflow code changes but entrypoint config stays the same
+    const shimmedCode = shimEsbuildOutput(bundleFile.text);
+
+    const buildTime = Date.now() - startTime;
+    const sizeKB = (shimmedCode.length / 1024).toFixed(1);
+    this.logger.info('Workflow bundle created', {
+      size: `${sizeKB}KB`,
+      time: `${buildTime}ms`,
+    });
+
+    return {
+      code: shimmedCode,
+      sourceMap: mapFile?.text,
+      metadata: this.createMetadata(entryHash, warnings),
+    };
+  }
+
+  /**
+   * Build several workflow bundles in a single esbuild build.
+   *
+   * Modules imported by more than one entry are resolved, loaded and parsed
+   * once, and then linked into each bundle. The bundlers must share their
+   * configuration: the project config, tsconfig, plugins and build options
+   * of the first bundler are used for all of them.
+   *
+   * @param bundlers - Bundlers keyed by name (e.g. task queue)
+   */
+  static async createSharedBundles(
+    bundlers: Map<string, WorkflowCodeBundler>,
+  ): Promise<SharedBundleResult> {
+    const startTime = Date.now();
+    const [lead] = bundlers.values();
+    if (!lead) {
+      return {
+        bundles: new Map(),
+        metafile: { inputs: {}, outputs: {} },
+        outputs: new Map(),
+        buildTime: 0,
+        outputTimes: new Map(),
+      };
+    }
+
+    const entries = [...bundlers].map(([name, bundler], index) => {
+      if (!existsSync(bundler.workflowsPath)) {
+        throw new WorkflowBundleError('ENTRYPOINT_NOT_FOUND', {
+          details: `Path does not exist: ${bundler.workflowsPath}`,
+        });
+      }
+
+      const entrypointOptions = {
+        workflowsPath: bundler.workflowsPath,
+        workflowInterceptorModules: bundler.workflowInterceptorModules,
+        payloadConverterPath: bundler.payloadConverterPath,
+        failureConverterPath: bundler.failureConverterPath,
+      };
+      return {
+        name,
+        bundler,
+        index,
+        code: generateEntrypoint(entrypointOptions),
+        entryHash: hashEntrypoint(entrypointOptions),
+        // Without a JS extension, the Temporal plugin does not read it from disk
+        entrypointPath: bundler.makeEntrypointPath().replace(/\.cjs$/, ''),
+      };
+    });
+
+    lead.logger.debug('Starting shared bundle', {
+      entries: entries.map((e) => e.name),
+      mode: lead.mode,
+    });
+
+    const policy = await lead.loadPolicy();
+    const { plugin: temporalPlugin, state: pluginState } = createTemporalPlugin({
+      ignoreModules: lead.ignoreModules,
+      payloadConverterPath: lead.payloadConverterPath,
+      failureConverterPath: lead.failureConverterPath,
+      policy,
+    });
+    const crossRuntimePlugin = createCrossRuntimePlugin(
+      resolveCrossRuntimeConfig(
+        lead.workflowsPath,
+        lead.inputFlavor,
+        lead.denoConfigPath,
+        lead.importMapPath,
+      ),
+      lead.workflowsPath,
+    );
+
+    // Serve the synthetic entrypoints from memory, one per bundler
+    const entrypointsPlugin: esbuild.Plugin = {
+      name: 'temporal-shared-entrypoints',
+      setup(build) {
+        build.onResolve({ filter: /^temporal-shared-entry:\d+$/ }, (args) => {
+          const entry = entries[Number(args.path.slice(args.path.indexOf(':') + 1))]!;
+          return {
+            path: entry.entrypointPath,
+            namespace: 'temporal-shared-entry',
+            pluginData: entry.index,
+          };
+        });
+        build.onLoad({ filter: /.*/, namespace: 'temporal-shared-entry' }, (args) => {
+          const entry = entries[args.pluginData as number]!;
+          return {
+            contents: entry.code,
+            resolveDir: dirname(entry.bundler.workflowsPath),
+            loader: 'js',
+          };
+        });
+      },
+    };
+
+    let result: esbuild.BuildResult;
+    try {
+      result = await esbuild.build({
+        // User options (validated)
+        ...lead.buildOptions,
+
+        // Enforced options (override user)
+        ...ENFORCED_OPTIONS,
+
+        treeShaking: lead.treeShaking,
+        sourcemap: lead.sourceMap === 'none' ? false : lead.sourceMap,
+
+        // One output file per entry; shared modules are still copied into
+        // every bundle, since workflow bundles must be self-contained
+        entryPoints: entries.map((entry) => ({
+          in: `temporal-shared-entry:${entry.index}`,
+          out: `bundle-${entry.index}`,
+        })),
+        outdir: SHARED_OUTDIR,
+        metafile: true,
+
+        plugins: [
+          entrypointsPlugin,
+          crossRuntimePlugin,
+          ...(lead.tsconfigPath
+            ? [createTsconfigPathsPlugin({ tsconfigPath: lead.tsconfigPath })]
+            : []),
+          temporalPlugin,
+          ...withBuildMode(lead.buildOptions?.plugins, lead.mode),
+        ],
+      });
+    } catch (error) {
+      if (error instanceof WorkflowBundleError) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      throw new WorkflowBundleError('BUILD_FAILED', {
+        details: message,
+      });
+    }
+
+    const warnings = lead.validatePluginState(pluginState, result.metafile);
+    for (const warning of result.warnings) {
+      warnings.push(warning.text);
+      lead.logger.warn('Build warning', { text: warning.text });
+    }
+
+    const buildTime = Date.now() - startTime;
+    const bundles = new Map<string, WorkflowBundle>();
+    const outputs = new Map<string, string>();
+    const outputTimes = new Map<string, number>();
+
+    for (const entry of entries) {
+      const outputStart = Date.now();
+      const output = `${SHARED_OUTDIR}/bundle-${entry.index}.js`;
+      const bundleFile = result.outputFiles?.find((f) => f.path.endsWith(output));
+      const mapFile = result.outputFiles?.find((f) => f.path.endsWith(`${output}.map`));
+
+      if (!bundleFile) {
+        throw new WorkflowBundleError('BUILD_FAILED', {
+          details: `esbuild produced no JavaScript output for '${entry.name}'`,
+        });
+      }
+
+      bundles.set(entry.name, {
+        code: shimEsbuildOutput(bundleFile.text),
+        sourceMap: mapFile?.text,
+        metadata: entry.bundler.createMetadata(entry.entryHash, warnings),
+      });
+      outputs.set(entry.name, output);
+      outputTimes.set(entry.name, Date.now() - outputStart);
+    }
+
+    lead.logger.info('Workflow bundles created', {
+      bundles: entries.length,
+      time: `${Date.now() - startTime}ms`,
+    });
+
+    return {
+      bundles,
+      metafile: result.metafile ?? { inputs: {}, outputs: {} },
+      outputs,
+      buildTime,
+      outputTimes,
+    };
+  }
+
+  /**
+   * Check the Temporal plugin state after a build.
+   *
+   * Throws for dynamic imports and forbidden modules, and returns warnings
+   * for relaxed and transitive forbidden modules.
+   */
+  private validatePluginState(
+    pluginState: TemporalPluginState,
+    metafile: esbuild.Metafile | undefined,
+  ): string[] {
+    const warnings: string[] = [];
+
     // Post-build validation: check for dynamic imports
     if (pluginState.dynamicImports.length > 0) {
       const details = pluginState.dynamicImports
@@ -385,14 +643,17 @@ export class WorkflowCodeBundler {
     }
 
     // Post-build validation: check for forbidden modules
-    if (pluginState.foundProblematicModules.size > 0) {
+    if (
+      pluginState.foundProblematicModules.size > 0 &&
+      this.forbiddenModuleSeverity === 'error'
+    ) {
       const modules = Array.from(pluginState.foundProblematicModules.keys());
 
       // Use metafile from the initial build to get dependency chains for the error message
       let dependencyChain: string[] | undefined;
-      if (result.metafile) {
+      if (metafile) {
         const chains = findAllDependencyChains(
-          result.metafile,
+          metafile,
           pluginState.foundProblematicModules,
         );
 
@@ -419,6 +680,13 @@ export class WorkflowCodeBundler {
       });
     }
 
+    // Relaxed builds (e.g. test bundles) only warn about forbidden modules
+    for (const [mod, importer] of pluginState.foundProblematicModules) {
+      const msg = `Forbidden module '${mod}' imported from ${importer} was replaced with a stub that throws if used at runtime.`;
+      warnings.push(msg);
+      this.logger.warn(msg);
+    }
+
     // Transitive forbidden modules from node_modules are warnings, not errors
     if (pluginState.transitiveForbiddenModules.size > 0) {
       for (const [mod, importer] of pluginState.transitiveForbiddenModules) {
@@ -428,62 +696,29 @@ export class WorkflowCodeBundler {
       }
     }
 
-    // Extract warnings
-    if (result.warnings.length > 0) {
-      for (const warning of result.warnings) {
-        warnings.push(warning.text);
-        this.logger.warn('Build warning', { text: warning.text });
-      }
-    }
-
-    // Get the output
-    if (!result.outputFiles || result.outputFiles.length === 0) {
-      throw new WorkflowBundleError('BUILD_FAILED', {
-        details: 'esbuild produced no output files',
-      });
-    }
-
-    // Find the main bundle and optional source map
-    const bundleFile = result.outputFiles.find((f) => f.path.endsWith('.js'));
-    const mapFile = result.outputFiles.find((f) => f.path.endsWith('.map'));
+    return warnings;
+  }
 
-    if (!bundleFile) {
-      throw new WorkflowBundleError('BUILD_FAILED', {
-        details: 'esbuild produced no JavaScript output',
-      });
+  /**
+   * Create bundle metadata, if reporting is enabled.
+   */
+  private createMetadata(
+    entryHash: string,
+    warnings: string[],
+  ): BundleMetadata | undefined {
+    if (!this.report) {
+      return undefined;
     }
 
-    // Apply shim to the output
-    // Hash the actual bundle content to prevent module cache collisions
-    // when workflow code changes but entrypoint config stays the same
-    const shimmedCode = shimEsbuildOutput(bundleFile.text);
-
-    const buildTime = Date.now() - startTime;
-    const sizeKB = (shimmedCode.length / 1024).toFixed(1);
-    this.logger.info('Workflow bundle created', {
-      size: `${sizeKB}KB`,
-      time: `${buildTime}ms`,
-    });
-
-    // Build metadata
-    const buildMeta = collectBuildMetadata();
-    const metadata: BundleMetadata | undefined = this.report
-      ? {
-          createdAt: new Date().toISOString(),
-          mode: this.mode,
-          entryHash,
-          bundlerVersion: getBundlerVersion(),
-          temporalSdkVersion: getTemporalSdkVersion() ?? 'unknown',
-          externals: this.ignoreModules.length > 0 ? this.ignoreModules : undefined,
-          warnings: warnings.length > 0 ? warnings : undefined,
-          buildMetadata: buildMeta,
-        }
-      : undefined;
-
     return {
-      code: shimmedCode,
-      sourceMap: mapFile?.text,
-      metadata,
+      createdAt: new Date().toISOString(),
+      mode: this.mode,
+      entryHash,
+      bundlerVersion: getBundlerVersion(),
+      temporalSdkVersion: getTemporalSdkVersion() ?? 'unknown',
+      externals: this.ignoreModules.length > 0 ? this.ignoreModules : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      buildMetadata: collectBuildMetadata(),
     };
   }
 
@@ -501,10 +736,29 @@ export class WorkflowCodeBundler {
     }
   }
 
+  /**
+   * Load the SDK determinism policy with the project config and the
+   * allowedBuiltins option applied.
+   */
+  private async loadPolicy(): Promise<DeterminismPolicy> {
+    const config = await resolveBundleConfig(this.configPath, this.workflowsPath);
+    if (config) {
+      this.logger.debug('Loaded bundle config', { path: config.path });
+    }
+    const policy = applyDeterminismConfig(loadDeterminismPolicy(), config);
+    if (this.allowedBuiltins.length === 0) {
+      return policy;
+    }
+    return {
+      ...policy,
+      exemptions: [...(policy.exemptions ?? []), ...this.allowedBuiltins],
+    };
+  }
+
   /**
    * Create the esbuild options for building.
    */
-  private createBuildOptions(): esbuild.BuildOptions {
+  private async createBuildOptions(): Promise<esbuild.BuildOptions> {
     // Generate synthetic entrypoint
     const entrypointOptions = {
       workflowsPath: this.workflowsPath,
@@ -516,7 +770,7 @@ export class WorkflowCodeBundler {
     const entrypointPath = this.makeEntrypointPath();
 
     // Load determinism policy
-    const policy = loadDeterminismPolicy();
+    const policy = await this.loadPolicy();
 
     // Create the Temporal plugin with shared state for post-build validation
     const { plugin: temporalPlugin } = createTemporalPlugin({
@@ -573,7 +827,7 @@ export class WorkflowCodeBundler {
           ? [createTsconfigPathsPlugin({ tsconfigPath: this.tsconfigPath })]
           : []),
         temporalPlugin,
-        ...(this.buildOptions?.plugins ?? []),
+        ...withBuildMode(this.buildOptions?.plugins, this.mode),
       ],
     };
   }
@@ -625,7 +879,7 @@ export class WorkflowCodeBundler {
     const entryHash = hashEntrypoint(entrypointOptions);
 
     // Create build options
-    const buildOptions = this.createBuildOptions();
+    const buildOptions = await this.createBuildOptions();
 
     // Create esbuild context
     const ctx = await esbuild.context(buildOptions);
@@ -686,7 +940,7 @@ export class WorkflowCodeBundler {
     const entryHash = hashEntrypoint(entrypointOptions);
 
     // Create build options
-    const buildOptions = this.createBuildOptions();
+    const buildOptions = await this.createBuildOptions();
 
     let running = true;
     const debounceMs = watchOptions?.debounce ?? 0;
@@ -826,6 +1080,37 @@ export async function bundleWorkflowCode(
   return bundler.createBundle();
 }
 
+/**
+ * Result of building several bundles with
+ * `WorkflowCodeBundler.createSharedBundles()`.
+ */
+export interface SharedBundleResult {
+  /**
+   * Bundles keyed by the names of their bundlers.
+   */
+  bundles: Map<string, WorkflowBundle>;
+
+  /**
+   * esbuild metafile of the shared build.
+   */
+  metafile: esbuild.Metafile;
+
+  /**
+   * Metafile output path of each bundle.
+   */
+  outputs: Map<string, string>;
+
+  /**
+   * Duration of the shared build in milliseconds.
+   */
+  buildTime: number;
+
+  /**
+   * Time spent finishing each bundle (shim and metadata) in milliseconds.
+   */
+  outputTimes: Map<string, number>;
+}
+
 /**
  * Callback invoked when a watched bundle is rebuilt.
  */
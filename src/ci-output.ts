@@ -56,6 +56,26 @@ export interface CIReport {
    * Warnings.
    */
   warnings?: string[];
+
+  /**
+   * Findings silenced by suppression comments, with their reasons.
+   */
+  suppressions?: CISuppression[];
+}
+
+/**
+ * A finding silenced by a suppression comment.
+ */
+export interface CISuppression {
+  /**
+   * The suppressed finding, e.g. `src/workflows.ts:12:5: Date.now()`.
+   */
+  finding: string;
+
+  /**
+   * Reason given in the suppression comment.
+   */
+  reason?: string;
 }
 
 /**
@@ -73,6 +93,9 @@ export function generateCIReport(
     comparison?: BundleComparison;
     errors?: string[];
     warnings?: string[];
+    suppressions?: CISuppression[];
+    unusedSuppressions?: string[];
+    failOnUnusedSuppressions?: boolean;
   },
 ): CIReport {
   const report: CIReport = {
@@ -110,19 +133,35 @@ export function generateCIReport(
     };
   }
 
-  if (options?.errors?.length) {
-    report.errors = options.errors;
+  const unused = (options?.unusedSuppressions ?? []).map(
+    (suppression) => `Unused suppression ${suppression}`,
+  );
+  const errors = [
+    ...(options?.errors ?? []),
+    ...(options?.failOnUnusedSuppressions ? unused : []),
+  ];
+  const warnings = [
+    ...(options?.warnings ?? []),
+    ...(options?.failOnUnusedSuppressions ? [] : unused),
+  ];
+
+  if (errors.length) {
+    report.errors = errors;
     report.success = false;
   }
 
-  if (options?.warnings?.length) {
-    report.warnings = options.warnings;
+  if (warnings.length) {
+    report.warnings = warnings;
   }
 
   if (bundle.metadata?.warnings?.length) {
     report.warnings = [...(report.warnings ?? []), ...bundle.metadata.warnings];
   }
 
+  if (options?.suppressions?.length) {
+    report.suppressions = options.suppressions;
+  }
+
   return report;
 }
 
@@ -173,6 +212,15 @@ export function formatCIReportText(report: CIReport): string {
     }
   }
 
+  if (report.suppressions?.length) {
+    lines.push('\nSuppressed:');
+    for (const suppression of report.suppressions) {
+      lines.push(
+        `  - ${suppression.finding} (${suppression.reason ?? 'no reason given'})`,
+      );
+    }
+  }
+
   return lines.join('\n');
 }
 
@@ -194,6 +242,14 @@ export function formatGitHubAnnotations(report: CIReport): string {
     }
   }
 
+  if (report.suppressions?.length) {
+    for (const suppression of report.suppressions) {
+      lines.push(
+        `::notice::Suppressed ${suppression.finding} (${suppression.reason ?? 'no reason given'})`,
+      );
+    }
+  }
+
   if (report.budget?.status === 'fail') {
     lines.push(`::error::${report.budget.message}`);
   } else if (report.budget?.status === 'warn') {
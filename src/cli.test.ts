@@ -4,9 +4,13 @@
  * These tests run the CLI as a subprocess to verify end-to-end behavior.
  */
 
-import { resolve } from 'node:path';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, resolve } from 'node:path';
 
-import { describe, expect, it } from 'bun:test';
+import { afterAll, describe, expect, it } from 'bun:test';
+
+import { readSignedBundle } from './bundle-envelope';
 
 const cliPath = resolve(__dirname, 'cli.ts');
 const fixturesDir = resolve(__dirname, '../test/fixtures');
@@ -16,10 +20,12 @@ const fixturesDir = resolve(__dirname, '../test/fixtures');
  */
 async function runCli(
   args: string[],
+  cwd?: string,
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
   const proc = Bun.spawn(['bun', cliPath, ...args], {
     stdout: 'pipe',
     stderr: 'pipe',
+    ...(cwd !== undefined && { cwd }),
   });
 
   const stdout = await new Response(proc.stdout).text();
@@ -145,6 +151,104 @@ describe('CLI', () => {
       const json = JSON.parse(result.stdout);
       expect(json.success).toBe(true);
     });
+
+    it('fails with an invalid config file', async () => {
+      const workflowsPath = resolve(fixturesDir, 'forbidden-import/workflows.ts');
+      const configPath = resolve(fixturesDir, 'determinism-config/invalid.config.json');
+      const result = await runCli(['build', workflowsPath, '--config', configPath]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('CONFIG_INVALID');
+    });
+  });
+
+  describe('build --config', () => {
+    const configPath = resolve(fixturesDir, 'multi-queue/workspace.config.ts');
+    const outputDir = resolve(__dirname, '../test/temp-cli-workspace');
+
+    afterAll(() => {
+      rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('builds every queue into the output directory', async () => {
+      const result = await runCli(['build', '--config', configPath, '-o', outputDir]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Built 2 queue(s)');
+      expect(existsSync(resolve(outputDir, 'orders/workflow-bundle.js'))).toBe(true);
+      expect(existsSync(resolve(outputDir, 'orders/activity-bundle.js'))).toBe(true);
+      expect(existsSync(resolve(outputDir, 'users/activity-bundle.js'))).toBe(false);
+
+      const manifest = JSON.parse(
+        readFileSync(resolve(outputDir, 'users/manifest.json'), 'utf-8'),
+      );
+      expect(manifest.workflows.map((w: { name: string }) => w.name)).toEqual([
+        'onboardingWorkflow',
+      ]);
+      expect(manifest.workflows[0]).toMatchObject({
+        params: [{ name: 'userId', type: 'string' }],
+        returnType: 'string',
+      });
+    });
+
+    it('builds only the filtered queues', async () => {
+      const result = await runCli([
+        'build',
+        '--config',
+        configPath,
+        '-o',
+        outputDir,
+        '--filter',
+        'orders',
+        '--json',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const json = JSON.parse(result.stdout);
+      expect(json.queues).toEqual([
+        expect.objectContaining({ name: 'orders', activityNames: ['chargeCard'] }),
+      ]);
+    });
+
+    it('resolves queue options against the config file from another directory', async () => {
+      const result = await runCli(
+        [
+          'build',
+          '--config',
+          resolve(fixturesDir, 'multi-queue/relative-paths/workspace.config.ts'),
+          '-o',
+          outputDir,
+        ],
+        tmpdir(),
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(existsSync(resolve(outputDir, 'greetings/workflow-bundle.js'))).toBe(true);
+    });
+
+    it('fails for an unknown queue', async () => {
+      const result = await runCli([
+        'build',
+        '--config',
+        configPath,
+        '--filter',
+        'billing',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain("Unknown queue 'billing'");
+    });
+
+    it('fails for a config without queues', async () => {
+      const result = await runCli([
+        'build',
+        '--config',
+        resolve(fixturesDir, 'determinism-config/temporal-bundle.config.ts'),
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('No queues declared');
+    });
   });
 
   describe('analyze command', () => {
@@ -202,4 +306,289 @@ describe('CLI', () => {
       expect(json.forbiddenModulesFound[0].chain.length).toBeGreaterThan(0);
     });
   });
+
+  describe('check command', () => {
+    it('reports replay violations using the project config', async () => {
+      const workflowsPath = resolve(fixturesDir, 'determinism-config/workflows.ts');
+      const result = await runCli(['check', workflowsPath, '--json']);
+
+      expect(result.exitCode).toBe(1);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.success).toBe(false);
+      expect(json.errors).toEqual([expect.stringContaining('performance.now()')]);
+      expect(json.warnings).toContainEqual(expect.stringContaining('Date.now()'));
+    });
+
+    it('reports suppressed findings with their reasons', async () => {
+      const workflowsPath = resolve(fixturesDir, 'suppressions/workflows.ts');
+      const result = await runCli(['check', workflowsPath, '--json']);
+
+      expect(result.exitCode).toBe(0);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.suppressions).toContainEqual({
+        finding: expect.stringContaining('Date.now()'),
+        reason: 'only logged, never used in workflow logic',
+      });
+      expect(json.warnings).toEqual([expect.stringContaining('Unused suppression')]);
+    });
+
+    it('fails on unused suppressions when requested', async () => {
+      const workflowsPath = resolve(fixturesDir, 'suppressions/workflows.ts');
+      const result = await runCli([
+        'check',
+        workflowsPath,
+        '--json',
+        '--fail-on-unused-suppressions',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout).errors).toEqual([
+        expect.stringContaining('Math.random (left over from an earlier version)'),
+      ]);
+    });
+
+    it('only loads the bundle with --deep', async () => {
+      const workflowsPath = resolve(
+        fixturesDir,
+        'bundle-evaluation/throwing-workflows.ts',
+      );
+      const result = await runCli(['check', workflowsPath, '--json']);
+
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(result.stdout).success).toBe(true);
+    });
+
+    it('fails with --deep when the bundle throws while loading', async () => {
+      const workflowsPath = resolve(
+        fixturesDir,
+        'bundle-evaluation/throwing-workflows.ts',
+      );
+      const result = await runCli(['check', workflowsPath, '--json', '--deep']);
+
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout).errors).toEqual([
+        expect.stringContaining(
+          'importWorkflows() threw: Configuration is not available in the workflow sandbox',
+        ),
+      ]);
+    });
+
+    it('reports top-level side effects with config severities', async () => {
+      const workflowsPath = resolve(fixturesDir, 'side-effects/workflows.ts');
+      const result = await runCli(['check', workflowsPath, '--json']);
+
+      expect(result.exitCode).toBe(1);
+
+      const json = JSON.parse(result.stdout);
+      expect(json.errors).toContainEqual(
+        expect.stringMatching(
+          /side-effects\/client\.ts:13:18: Reads process\.env when the module is imported$/,
+        ),
+      );
+      expect(json.warnings).toContainEqual(
+        expect.stringContaining(
+          'side-effects/legacy/setup.ts:9:1: Assigns globalThis.legacyMode',
+        ),
+      );
+    });
+  });
+
+  describe('replay command', () => {
+    const replayDir = resolve(fixturesDir, 'history-replay');
+    const bundlePath = resolve(__dirname, '../test/temp-cli-replay/workflow-bundle.js');
+
+    afterAll(() => {
+      rmSync(dirname(bundlePath), { recursive: true, force: true });
+    });
+
+    it('fails without history files', async () => {
+      const result = await runCli(['replay', bundlePath]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Missing required arguments');
+    });
+
+    it('replays a directory of histories', async () => {
+      await runCli([
+        'build',
+        resolve(replayDir, 'changed-workflows.ts'),
+        '-o',
+        bundlePath,
+      ]);
+      const result = await runCli([
+        'replay',
+        bundlePath,
+        resolve(replayDir, 'histories'),
+        '--json',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout).results).toEqual([
+        expect.objectContaining({
+          workflowId: 'greeting-1',
+          errorType: 'nondeterminism',
+          event: { id: 5, type: 'TimerStarted' },
+        }),
+      ]);
+    });
+
+    it('shows the replay worker logs with --verbose', async () => {
+      const histories = resolve(replayDir, 'histories');
+
+      const quiet = await runCli(['replay', bundlePath, histories]);
+      const verbose = await runCli(['replay', bundlePath, histories, '--verbose']);
+
+      expect(quiet.stderr).not.toContain('[INFO] Registering replay worker');
+      expect(verbose.stderr).toContain('[INFO] Registering replay worker');
+    });
+  });
+
+  describe('sign command', () => {
+    const signDir = resolve(__dirname, '../test/temp-cli-sign');
+    const bundlePath = resolve(signDir, 'workflow-bundle.js');
+
+    afterAll(() => {
+      rmSync(signDir, { recursive: true, force: true });
+    });
+
+    it('writes a signed bundle file with the source map and manifest', async () => {
+      await runCli([
+        'build',
+        resolve(fixturesDir, 'basic-workflow/workflows.ts'),
+        '-s',
+        'external',
+        '-o',
+        bundlePath,
+      ]);
+      const keygen = await runCli(['keygen', '--json']);
+      const { privateKey } = JSON.parse(keygen.stdout) as { privateKey: string };
+      writeFileSync(resolve(signDir, 'private.key'), privateKey);
+      writeFileSync(
+        resolve(signDir, 'manifest.json'),
+        JSON.stringify({
+          version: 1,
+          generatedAt: '2026-10-01T00:00:00.000Z',
+          bundleHash: 'abc123',
+          workflows: [{ name: 'greetingWorkflow' }],
+        }),
+      );
+
+      const result = await runCli([
+        'sign',
+        bundlePath,
+        '--private-key',
+        resolve(signDir, 'private.key'),
+        '--manifest',
+        resolve(signDir, 'manifest.json'),
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const { bundle, manifest } = readSignedBundle(
+        resolve(signDir, 'workflow-bundle.signed.json'),
+      );
+      expect(bundle.code).toBe(readFileSync(bundlePath, 'utf-8'));
+      expect(bundle.sourceMap).toBe(readFileSync(`${bundlePath}.map`, 'utf-8'));
+      expect(manifest?.workflows).toEqual([{ name: 'greetingWorkflow' }]);
+    });
+  });
+
+  describe('diff-manifest command', () => {
+    const oldManifest = resolve(fixturesDir, 'manifest-diff/old.json');
+    const newManifest = resolve(fixturesDir, 'manifest-diff/new.json');
+
+    it('reports changes without failing by default', async () => {
+      const result = await runCli(['diff-manifest', oldManifest, newManifest]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Breaking changes (3):');
+      expect(result.stdout).toContain('Workflow "legacyWorkflow" was removed');
+    });
+
+    it('fails on breaking changes with --fail-on breaking', async () => {
+      const result = await runCli([
+        'diff-manifest',
+        oldManifest,
+        newManifest,
+        '--fail-on',
+        'breaking',
+        '--json',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout).compatible).toBe(false);
+    });
+
+    describe('with manifests from build --config', () => {
+      const workspaceDir = resolve(__dirname, '../test/temp-cli-diff-manifest');
+      const workflowsPath = resolve(workspaceDir, 'workflows.ts');
+      const configPath = resolve(workspaceDir, 'workspace.config.json');
+
+      afterAll(() => {
+        rmSync(workspaceDir, { recursive: true, force: true });
+      });
+
+      /**
+       * Build the workspace with the given workflows source into `<name>/`
+       * and return the path of its manifest.
+       */
+      async function buildManifest(name: string, source: string): Promise<string> {
+        writeFileSync(workflowsPath, source);
+        const result = await runCli([
+          'build',
+          '--config',
+          configPath,
+          '-o',
+          resolve(workspaceDir, name),
+        ]);
+        expect(result.exitCode).toBe(0);
+        return resolve(workspaceDir, name, 'greetings/manifest.json');
+      }
+
+      it('fails --fail-on breaking for a changed parameter type', async () => {
+        mkdirSync(workspaceDir, { recursive: true });
+        writeFileSync(
+          configPath,
+          JSON.stringify({
+            queues: [{ name: 'greetings', workflowsPath: 'workflows.ts' }],
+          }),
+        );
+        const before = await buildManifest(
+          'old',
+          'export async function greet(name: string): Promise<string> {\n  return name;\n}\n',
+        );
+        const after = await buildManifest(
+          'new',
+          'export async function greet(name: number): Promise<string> {\n  return String(name);\n}\n',
+        );
+
+        const result = await runCli([
+          'diff-manifest',
+          before,
+          after,
+          '--fail-on',
+          'breaking',
+        ]);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout).toContain(
+          'Workflow "greet": parameter 1 (name) type changed from string to number',
+        );
+      });
+    });
+
+    it('passes --fail-on breaking for identical manifests', async () => {
+      const result = await runCli([
+        'diff-manifest',
+        oldManifest,
+        oldManifest,
+        '--fail-on',
+        'breaking',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('No workflow interface changes.');
+    });
+  });
 });
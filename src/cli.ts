@@ -3,18 +3,37 @@
  * CLI for the Temporal Workflow Bundler.
  *
  * Commands:
- * - build: Bundle workflow code
+ * - build: Bundle workflow code, or every queue in a config file
  * - analyze: Show bundle composition and dependency information
+ * - replay: Replay workflow histories against a bundle
+ * - diff-manifest: Classify workflow interface changes between manifests
  * - doctor: Validate environment and configuration
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
-import { dirname, resolve } from 'node:path';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
 
 import * as esbuild from 'esbuild';
 
+import { bundleActivityCode } from './activity-bundler';
+import { writeSignedBundle } from './bundle-envelope';
 import { bundleWorkflowCode, createConsoleLogger, watchWorkflowCode } from './bundler';
 import { formatCIReportText, generateCIReport } from './ci-output';
+import {
+  applyDeterminismConfig,
+  getReplaySafetyOptions,
+  getSideEffectOptions,
+  getWorkspaceBundleOptions,
+  loadBundleConfig,
+  resolveBundleConfig,
+} from './config';
 import {
   findAllDependencyChains,
   formatDependencyChain,
@@ -24,11 +43,43 @@ import { verifyDeterministicBuild } from './determinism-verify';
 import { generateEntrypoint } from './entrypoint';
 import { WorkflowBundleError } from './errors';
 import { createTemporalPlugin } from './esbuild-plugin';
+import type { HistoryWarning } from './history-analysis';
+import { analyzeFileHistorySize } from './history-analysis';
+import { formatReplayHistoriesResult, replayHistories } from './history-replay';
+import {
+  checkManifestCompatibility,
+  formatManifestCompatibility,
+  generateManifest,
+  parseManifest,
+  serializeManifest,
+} from './manifest';
+import {
+  bundleMultipleWorkflows,
+  resolveQueueActivityOptions,
+  resolveQueueBundleOptions,
+} from './multi-bundle';
 import { loadDeterminismPolicy } from './policy';
-import { generateSigningKeyPair, signBundle } from './signing';
+import { formatReplayViolations } from './replay-safety';
+import { analyzeWorkflowReplaySafety } from './replay-taint';
+import type { TopLevelSideEffect } from './side-effects';
+import { analyzeTopLevelSideEffects, formatTopLevelSideEffects } from './side-effects';
+import { generateSigningKeyPair } from './signing';
 import { analyzeSize, parseSize } from './size-analysis';
-import type { BundleOptions } from './types';
-import { getBundlerVersion, getTemporalSdkVersion } from './validate';
+import type { SuppressionDirective } from './suppressions';
+import { formatSuppression } from './suppressions';
+import type {
+  ActivityBundle,
+  BundleOptions,
+  MultiBundleOptions,
+  QueueConfig,
+  WorkflowBundle,
+} from './types';
+import {
+  getBundlerVersion,
+  getTemporalSdkVersion,
+  validateBundleStructure,
+} from './validate';
+import { watchTemporalCode } from './watch-coordinator';
 
 // ANSI color codes (chalk is a devDependency, so we use raw codes for the CLI)
 const colors = {
@@ -69,6 +120,7 @@ function heading(message: string): void {
 
 interface CLIOptions {
   workflowsPath?: string;
+  additionalPaths?: string[];
   output?: string;
   sourceMap?: 'inline' | 'external' | 'none';
   mode?: 'development' | 'production';
@@ -83,8 +135,14 @@ interface CLIOptions {
   budget?: string;
   ci?: boolean;
   strict?: boolean;
+  deep?: boolean;
   privateKey?: string;
   publicKey?: string;
+  config?: string;
+  filter?: string[];
+  failOnUnusedSuppressions?: boolean;
+  failOn?: string;
+  manifest?: string;
 }
 
 function parseArgs(args: string[]): { command: string; options: CLIOptions } {
@@ -109,6 +167,8 @@ function parseArgs(args: string[]): { command: string; options: CLIOptions } {
           'verify',
           'sign',
           'keygen',
+          'replay',
+          'diff-manifest',
         ].includes(arg)
       ) {
         command = arg;
@@ -116,6 +176,8 @@ function parseArgs(args: string[]): { command: string; options: CLIOptions } {
       } else if (!options.workflowsPath) {
         // Subsequent non-flag arguments are paths
         options.workflowsPath = arg;
+      } else {
+        options.additionalPaths = [...(options.additionalPaths ?? []), arg];
       }
       continue;
     }
@@ -175,12 +237,32 @@ function parseArgs(args: string[]): { command: string; options: CLIOptions } {
       case '--strict':
         options.strict = true;
         break;
+      case '--deep':
+        options.deep = true;
+        break;
+      case '--fail-on-unused-suppressions':
+        options.failOnUnusedSuppressions = true;
+        break;
       case '--private-key':
         options.privateKey = args[++i]!;
         break;
       case '--public-key':
         options.publicKey = args[++i]!;
         break;
+      case '-c':
+      case '--config':
+        options.config = args[++i]!;
+        break;
+      case '--filter':
+        options.filter = options.filter ?? [];
+        options.filter.push(args[++i]!);
+        break;
+      case '--fail-on':
+        options.failOn = args[++i]!;
+        break;
+      case '--manifest':
+        options.manifest = args[++i]!;
+        break;
     }
   }
 
@@ -199,10 +281,16 @@ ${colors.bold}USAGE${colors.reset}
 
 ${colors.bold}COMMANDS${colors.reset}
   build <path>     Bundle workflow code for use with Temporal Worker
+  build --config <file>
+                   Build the workflows and activities of every queue in a config file
   analyze <path>   Analyze bundle composition and dependencies
-  check <path>     Build and validate against size budgets
+  check <path>     Build and validate against size budgets and replay safety
   verify <path>    Verify build determinism (reproducible builds)
-  sign <path>      Sign a bundle with Ed25519 for deployment verification
+  replay <bundle> <history...>
+                   Replay workflow history JSON files against a bundle
+  diff-manifest <old.json> <new.json>
+                   Classify workflow interface changes as breaking or safe
+  sign <path>      Sign a bundle, its source map and manifest into one file
   keygen           Generate a new Ed25519 signing key pair
   doctor           Validate environment and SDK compatibility
   help             Show this help message
@@ -213,7 +301,9 @@ ${colors.bold}BUILD OPTIONS${colors.reset}
   -s, --source-map <mode>   Source map mode: inline, external, none (default: inline)
   -m, --mode <mode>         Build mode: development, production (default: development)
   -i, --ignore <module>     Ignore a module (can be repeated)
+  -c, --config <file>       Config file (default: nearest temporal-bundle.config.*)
   -w, --watch               Watch for changes and rebuild automatically
+  --filter <queue>          Only build this queue of the config file (can be repeated)
   --interceptor <path>      Add interceptor module (can be repeated)
   --payload-converter <p>   Path to custom payload converter
   --failure-converter <p>   Path to custom failure converter
@@ -221,14 +311,22 @@ ${colors.bold}BUILD OPTIONS${colors.reset}
   --budget <size>           Set size budget (e.g., 500KB, 1MB)
   --ci                      CI-friendly output mode
   --strict                  Strict validation (fail on warnings)
+  --deep                    check: load the bundle as the Worker does and fail on load errors
+  --fail-on-unused-suppressions
+                            Fail checks on temporal-ignore comments that match nothing
+  --fail-on <level>         diff-manifest: exit 1 on breaking or any changes (default: never)
   --private-key <path>      Ed25519 private key for signing
   --public-key <path>       Ed25519 public key for verification
+  --manifest <path>         sign: workflow manifest to include in the signed bundle file
   -v, --verbose             Enable verbose logging
 
 ${colors.bold}EXAMPLES${colors.reset}
   ${colors.dim}# Bundle workflows and write to file${colors.reset}
   bundle-temporal-workflow build ./src/workflows.ts -o ./dist/workflow-bundle.js
 
+  ${colors.dim}# Build every queue in a config file into ./dist/temporal${colors.reset}
+  bundle-temporal-workflow build --config temporal-bundle.config.ts -o ./dist/temporal
+
   ${colors.dim}# Bundle with ignored modules${colors.reset}
   bundle-temporal-workflow build ./src/workflows.ts -i lodash -i moment
 
@@ -238,11 +336,20 @@ ${colors.bold}EXAMPLES${colors.reset}
   ${colors.dim}# Check bundle against a size budget${colors.reset}
   bundle-temporal-workflow check ./src/workflows.ts --budget 500KB --strict
 
+  ${colors.dim}# Check that the bundle loads as it does on Worker startup${colors.reset}
+  bundle-temporal-workflow check ./src/workflows.ts --deep
+
   ${colors.dim}# Verify reproducible builds${colors.reset}
   bundle-temporal-workflow verify ./src/workflows.ts
 
+  ${colors.dim}# Replay exported production histories against a new bundle${colors.reset}
+  bundle-temporal-workflow replay ./dist/workflow-bundle.js ./histories/
+
+  ${colors.dim}# Block deployments that break running executions or clients${colors.reset}
+  bundle-temporal-workflow diff-manifest ./deployed/manifest.json ./dist/manifest.json --fail-on breaking
+
   ${colors.dim}# Sign a bundle for deployment${colors.reset}
-  bundle-temporal-workflow sign ./dist/workflow-bundle.js --private-key ./keys/private.key
+  bundle-temporal-workflow sign ./dist/workflow-bundle.js --private-key ./keys/private.key --manifest ./dist/manifest.json
 
   ${colors.dim}# Check environment${colors.reset}
   bundle-temporal-workflow doctor
@@ -250,6 +357,11 @@ ${colors.bold}EXAMPLES${colors.reset}
 }
 
 async function buildCommand(options: CLIOptions): Promise<void> {
+  if (options.config && !options.workflowsPath) {
+    await buildWorkspaceCommand(options);
+    return;
+  }
+
   if (!options.workflowsPath) {
     error('Missing required argument: workflows path');
     log('\nUsage: bundle-temporal-workflow build <path> [options]');
@@ -277,6 +389,7 @@ async function buildCommand(options: CLIOptions): Promise<void> {
       : undefined,
     logger: options.verbose ? createConsoleLogger() : undefined,
     report: true,
+    configPath: options.config ? resolve(options.config) : undefined,
   };
 
   // Handle watch mode
@@ -329,35 +442,42 @@ async function buildCommand(options: CLIOptions): Promise<void> {
       process.stdout.write(bundle.code);
     }
   } catch (err) {
-    if (err instanceof WorkflowBundleError) {
-      if (options.json) {
-        const result = {
-          success: false,
-          error: {
-            code: err.code,
-            message: err.message,
-            context: err.context,
-          },
-        };
-        log(JSON.stringify(result, null, 2));
-      } else {
-        error(`Build failed: ${err.code}`);
-        log(`\n${err.message}`);
-      }
+    printBuildError(err, options);
+    process.exit(1);
+  }
+}
+
+/**
+ * Report a failed build, as JSON with --json.
+ */
+function printBuildError(err: unknown, options: CLIOptions): void {
+  if (err instanceof WorkflowBundleError) {
+    if (options.json) {
+      const result = {
+        success: false,
+        error: {
+          code: err.code,
+          message: err.message,
+          context: err.context,
+        },
+      };
+      log(JSON.stringify(result, null, 2));
     } else {
-      if (options.json) {
-        const result = {
-          success: false,
-          error: {
-            message: err instanceof Error ? err.message : String(err),
-          },
-        };
-        log(JSON.stringify(result, null, 2));
-      } else {
-        error(`Build failed: ${err instanceof Error ? err.message : String(err)}`);
-      }
+      error(`Build failed: ${err.code}`);
+      log(`\n${err.message}`);
+    }
+  } else {
+    if (options.json) {
+      const result = {
+        success: false,
+        error: {
+          message: err instanceof Error ? err.message : String(err),
+        },
+      };
+      log(JSON.stringify(result, null, 2));
+    } else {
+      error(`Build failed: ${err instanceof Error ? err.message : String(err)}`);
     }
-    process.exit(1);
   }
 }
 
@@ -441,6 +561,254 @@ async function watchCommand(
   });
 }
 
+/**
+ * Files written for a queue by the workspace build.
+ */
+interface QueueOutputFiles {
+  workflowBundle?: string;
+  activityBundle?: string;
+  manifest?: string;
+}
+
+/**
+ * Build every queue declared in a config file into an output directory.
+ *
+ * Each queue gets its own directory with the workflow bundle, the activity
+ * bundle (if the queue has activities) and a workflow manifest.
+ */
+async function buildWorkspaceCommand(options: CLIOptions): Promise<void> {
+  const configPath = resolve(options.config!);
+  let workspace: MultiBundleOptions;
+
+  try {
+    const loaded = await loadBundleConfig(configPath);
+    const declared = getWorkspaceBundleOptions(loaded);
+    if (!declared) {
+      error(`No queues declared in ${configPath}`);
+      log('\nUsage: bundle-temporal-workflow build <path> [options]');
+      process.exit(1);
+    }
+    workspace = {
+      queues: selectQueues(declared.queues, options.filter),
+      shared: {
+        ...declared.shared,
+        ...(options.mode && { mode: options.mode }),
+        ...(options.sourceMap && { sourceMap: options.sourceMap }),
+        ...(options.ignoreModules && {
+          ignoreModules: [
+            ...(declared.shared?.ignoreModules ?? []),
+            ...options.ignoreModules,
+          ],
+        }),
+        ...(options.verbose && { logger: createConsoleLogger() }),
+      },
+    };
+  } catch (err) {
+    printBuildError(err, options);
+    process.exit(1);
+  }
+
+  const outputDir = resolve(options.output ?? 'dist/temporal');
+
+  if (options.watch) {
+    await watchWorkspaceCommand(workspace, outputDir);
+    return;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const [bundles, activityBundles] = await Promise.all([
+      bundleMultipleWorkflows(workspace),
+      Promise.all(
+        workspace.queues.map((queue) => {
+          const activityOptions = resolveQueueActivityOptions(queue, workspace.shared);
+          return activityOptions
+            ? bundleActivityCode(activityOptions)
+            : Promise.resolve(undefined);
+        }),
+      ),
+    ]);
+    const buildTime = Date.now() - startTime;
+
+    const queues = workspace.queues.map((queue, index) => {
+      const bundle = bundles.get(queue.name)!;
+      const activityBundle = activityBundles[index];
+      const files = writeQueueOutput(
+        outputDir,
+        queue,
+        workspace.shared,
+        bundle,
+        activityBundle,
+      );
+      return {
+        name: queue.name,
+        size: bundle.code.length,
+        ...(activityBundle && { activityNames: activityBundle.activityNames }),
+        files,
+        warnings: bundle.metadata?.warnings ?? [],
+      };
+    });
+
+    if (options.json) {
+      log(JSON.stringify({ success: true, buildTime, outputDir, queues }, null, 2));
+      return;
+    }
+
+    success(`Built ${queues.length} queue(s) into ${outputDir}`);
+    for (const queue of queues) {
+      const activities = queue.activityNames
+        ? `, ${queue.activityNames.length} activities`
+        : '';
+      info(`${queue.name}: ${formatSize(queue.size)}${activities}`);
+      for (const warning of queue.warnings) {
+        warn(`  ${warning}`);
+      }
+    }
+    info(`Build time: ${buildTime}ms`);
+  } catch (err) {
+    printBuildError(err, options);
+    process.exit(1);
+  }
+}
+
+/**
+ * Rebuild the queues of a config file on changes, writing each rebuilt
+ * bundle to the queue's output directory.
+ */
+async function watchWorkspaceCommand(
+  workspace: MultiBundleOptions,
+  outputDir: string,
+): Promise<void> {
+  info(`Watching ${workspace.queues.length} queue(s) for changes...`);
+  info(`Output: ${outputDir}`);
+  log('');
+
+  const handle = watchTemporalCode({
+    ...workspace,
+    onBatch: (queueName, { workflow, activity }) => {
+      const timestamp = new Date().toLocaleTimeString();
+      const queue = workspace.queues.find((q) => q.name === queueName)!;
+
+      writeQueueOutput(
+        outputDir,
+        queue,
+        workspace.shared,
+        workflow?.bundle ?? undefined,
+        activity?.bundle ?? undefined,
+      );
+
+      const failed = [workflow?.error, activity?.error].filter(
+        (err): err is Error => err !== undefined,
+      );
+      if (failed.length > 0) {
+        error(`[${timestamp}] ${queueName} failed`);
+        for (const err of failed) {
+          log(`${colors.dim}${err.message}${colors.reset}`);
+        }
+        return;
+      }
+
+      const rebuilt = [workflow && 'workflows', activity && 'activities'].filter(Boolean);
+      success(`[${timestamp}] ${queueName} rebuilt (${rebuilt.join(', ')})`);
+    },
+  });
+
+  // Handle SIGINT (Ctrl+C) gracefully
+  process.on('SIGINT', () => {
+    log('');
+    info('Stopping watcher...');
+    handle
+      .stop()
+      .then(() => {
+        success('Watch mode stopped');
+        process.exit(0);
+      })
+      .catch(() => {
+        process.exit(1);
+      });
+  });
+
+  // Keep the process alive
+  await new Promise(() => {
+    // Never resolves - wait for SIGINT
+  });
+}
+
+/**
+ * Select the queues named by --filter, or all queues without a filter.
+ */
+function selectQueues(
+  queues: QueueConfig[],
+  filter: string[] | undefined,
+): QueueConfig[] {
+  if (!filter) {
+    return queues;
+  }
+
+  const unknown = filter.filter((name) => !queues.some((q) => q.name === name));
+  if (unknown.length > 0) {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: unknown.map((name) => `Unknown queue '${name}'`),
+      hint: `Available queues: ${queues.map((q) => q.name).join(', ')}`,
+    });
+  }
+
+  return queues.filter((q) => filter.includes(q.name));
+}
+
+/**
+ * Write a queue's bundles to `<outputDir>/<queue>/`, with a manifest for the
+ * workflow bundle. The manifest includes workflow signatures, so that
+ * `diff-manifest` can compare them between builds.
+ */
+function writeQueueOutput(
+  outputDir: string,
+  queue: QueueConfig,
+  shared: MultiBundleOptions['shared'],
+  bundle: WorkflowBundle | undefined,
+  activityBundle: ActivityBundle | undefined,
+): QueueOutputFiles {
+  const queueDir = join(outputDir, queue.name);
+  const files: QueueOutputFiles = {};
+
+  if (!existsSync(queueDir)) {
+    mkdirSync(queueDir, { recursive: true });
+  }
+
+  if (bundle) {
+    files.workflowBundle = join(queueDir, 'workflow-bundle.js');
+    writeFileSync(files.workflowBundle, bundle.code);
+    if (bundle.sourceMap) {
+      writeFileSync(`${files.workflowBundle}.map`, bundle.sourceMap);
+    }
+
+    const { tsconfigPath } = resolveQueueBundleOptions(queue, shared);
+    files.manifest = join(queueDir, 'manifest.json');
+    writeFileSync(
+      files.manifest,
+      serializeManifest(
+        generateManifest({
+          workflowsPath: queue.workflowsPath,
+          bundleCode: bundle.code,
+          includeSignatures: true,
+          ...(typeof tsconfigPath === 'string' && { tsconfigPath }),
+        }),
+      ),
+    );
+  }
+
+  if (activityBundle) {
+    files.activityBundle = join(queueDir, 'activity-bundle.js');
+    writeFileSync(files.activityBundle, activityBundle.code);
+    if (activityBundle.sourceMap) {
+      writeFileSync(`${files.activityBundle}.map`, activityBundle.sourceMap);
+    }
+  }
+
+  return files;
+}
+
 interface AnalyzeResult {
   totalSize: number;
   moduleCount: number;
@@ -483,7 +851,11 @@ async function analyzeCommand(options: CLIOptions): Promise<void> {
         : undefined,
     });
 
-    const policy = loadDeterminismPolicy();
+    const config = await resolveBundleConfig(
+      options.config ? resolve(options.config) : undefined,
+      workflowsPath,
+    );
+    const policy = applyDeterminismConfig(loadDeterminismPolicy(), config);
     const { plugin, state } = createTemporalPlugin({
       ignoreModules: options.ignoreModules ?? [],
       policy,
@@ -804,10 +1176,24 @@ function simplifyPath(path: string): string {
   return path;
 }
 
+function describeHistoryWarning(warning: HistoryWarning): string {
+  const location = [warning.file, warning.line].filter((part) => part !== undefined);
+  return `${location.join(':')}: ${warning.type}: ${warning.message}`;
+}
+
+function describeSideEffect(effect: TopLevelSideEffect): string {
+  const location = [effect.file, effect.line, effect.column].filter(
+    (part) => part !== undefined,
+  );
+  return `${location.join(':')}: ${effect.message}`;
+}
+
 async function checkCommand(options: CLIOptions): Promise<void> {
   if (!options.workflowsPath) {
     error('Missing required argument: workflows path');
-    log('\nUsage: bundle-temporal-workflow check <path> [--budget <size>] [--strict]');
+    log(
+      '\nUsage: bundle-temporal-workflow check <path> [--budget <size>] [--strict] [--deep]',
+    );
     process.exit(1);
   }
 
@@ -819,20 +1205,113 @@ async function checkCommand(options: CLIOptions): Promise<void> {
   }
 
   try {
+    const configPath = options.config ? resolve(options.config) : undefined;
     const bundle = await bundleWorkflowCode({
       workflowsPath,
       mode: options.mode ?? 'production',
-      sourceMap: 'none',
+      // Not written out; used to locate top-level side effects
+      sourceMap: 'external',
       logger: options.verbose ? createConsoleLogger() : undefined,
       report: true,
+      configPath,
     });
 
     const budget = options.budget ? { total: parseSize(options.budget) } : undefined;
     const analysis = analyzeSize(bundle, budget);
 
+    // With --deep, load the bundle as the Worker would, so that it fails
+    // here rather than on Worker startup
+    const evaluation = validateBundleStructure(
+      bundle.code,
+      options.deep
+        ? {
+            deep: true,
+            manifest: generateManifest({
+              workflowsPath,
+              bundleCode: bundle.code,
+              includeSourceHashes: false,
+              includeSignatures: false,
+            }),
+          }
+        : {},
+    );
+    const evaluationErrors = evaluation.error ? [evaluation.error] : [];
+
+    const config = await resolveBundleConfig(configPath, workflowsPath);
+    const { failOnUnusedSuppressions: configFailOnUnused, ...replayOptions } =
+      getReplaySafetyOptions(config);
+    const failOnUnusedSuppressions =
+      options.failOnUnusedSuppressions ?? configFailOnUnused ?? false;
+    const replay = await analyzeWorkflowReplaySafety(workflowsPath, replayOptions);
+    const describeViolation = (v: (typeof replay.violations)[number]): string =>
+      `${v.file ?? workflowsPath}:${v.line}:${v.column}: ${v.pattern.name}`;
+    const sideEffects =
+      analyzeTopLevelSideEffects(bundle, getSideEffectOptions(config))?.effects ?? [];
+    const sideEffectErrors = sideEffects.filter((effect) => effect.severity === 'error');
+    const sideEffectWarnings = sideEffects.filter(
+      (effect) => effect.severity === 'warning',
+    );
+    const history = replay.files.map((file) => analyzeFileHistorySize(file));
+    const historyWarnings = history.flatMap((result) => result.warnings);
+    const suppressed = [
+      ...replay.suppressed.map((v) => ({
+        finding: describeViolation(v),
+        suppression: v.suppression,
+      })),
+      ...history.flatMap((result) =>
+        result.suppressed.map((w) => ({
+          finding: describeHistoryWarning(w),
+          suppression: w.suppression,
+        })),
+      ),
+    ];
+    // A directive may cover both replay and history rules, so it is only
+    // unused if neither analysis applied it
+    const suppressionKey = (directive: SuppressionDirective): string =>
+      `${directive.file}:${directive.line}`;
+    const usedSuppressions = new Set(
+      suppressed.flatMap(({ suppression }) =>
+        suppression ? [suppressionKey(suppression)] : [],
+      ),
+    );
+    const unusedSuppressions = [
+      ...new Map(
+        [
+          ...replay.unusedSuppressions,
+          ...history.flatMap((result) => result.unusedSuppressions),
+        ]
+          .filter((directive) => !usedSuppressions.has(suppressionKey(directive)))
+          .map((directive) => [suppressionKey(directive), directive]),
+      ).values(),
+    ];
+
     if (options.ci || options.json) {
-      const report = generateCIReport(bundle, { sizeAnalysis: analysis });
-      if (options.strict && analysis.budgetResult?.status === 'warn') {
+      const report = generateCIReport(bundle, {
+        sizeAnalysis: analysis,
+        errors: [
+          ...evaluationErrors,
+          ...replay.errors.map(describeViolation),
+          ...sideEffectErrors.map(describeSideEffect),
+        ],
+        warnings: [
+          ...replay.warnings.map(describeViolation),
+          ...sideEffectWarnings.map(describeSideEffect),
+          ...historyWarnings.map(describeHistoryWarning),
+        ],
+        suppressions: suppressed.map(({ finding, suppression }) => ({
+          finding,
+          ...(suppression?.reason !== undefined && { reason: suppression.reason }),
+        })),
+        unusedSuppressions: unusedSuppressions.map(formatSuppression),
+        failOnUnusedSuppressions,
+      });
+      if (
+        options.strict &&
+        (analysis.budgetResult?.status === 'warn' ||
+          replay.warnings.length > 0 ||
+          sideEffectWarnings.length > 0 ||
+          historyWarnings.length > 0)
+      ) {
         report.success = false;
       }
       log(options.json ? JSON.stringify(report, null, 2) : formatCIReportText(report));
@@ -854,8 +1333,63 @@ async function checkCommand(options: CLIOptions): Promise<void> {
         log(`${icon}${colors.reset} ${analysis.budgetResult.message}`);
       }
 
-      if (analysis.budgetResult?.status === 'fail') process.exit(1);
-      if (options.strict && analysis.budgetResult?.status === 'warn') process.exit(1);
+      if (evaluation.valid) {
+        log(
+          `${colors.green}✓${colors.reset} ${options.deep ? 'Bundle loads in an isolated context' : 'Bundle structure is valid'}`,
+        );
+      } else {
+        log(`${colors.red}✗${colors.reset} ${evaluation.error}`);
+      }
+
+      if (replay.violations.length > 0) {
+        log(`\n${formatReplayViolations(replay.violations)}`);
+      } else {
+        log(`${colors.green}✓${colors.reset} No replay-unsafe patterns found`);
+      }
+
+      if (sideEffects.length > 0) {
+        log(`\n${formatTopLevelSideEffects(sideEffects)}`);
+      } else {
+        log(`${colors.green}✓${colors.reset} No top-level side effects found`);
+      }
+
+      for (const historyWarning of historyWarnings) {
+        warn(describeHistoryWarning(historyWarning));
+      }
+
+      if (suppressed.length > 0) {
+        log(`\nSuppressed (${suppressed.length}):`);
+        for (const { finding, suppression } of suppressed) {
+          log(
+            `  ${colors.dim}${finding} (${suppression?.reason ?? 'no reason given'})${colors.reset}`,
+          );
+        }
+      }
+
+      for (const suppression of unusedSuppressions) {
+        (failOnUnusedSuppressions ? error : warn)(
+          `Unused suppression ${formatSuppression(suppression)}`,
+        );
+      }
+
+      if (
+        analysis.budgetResult?.status === 'fail' ||
+        !evaluation.valid ||
+        !replay.safe ||
+        sideEffectErrors.length > 0 ||
+        (failOnUnusedSuppressions && unusedSuppressions.length > 0)
+      ) {
+        process.exit(1);
+      }
+      if (
+        options.strict &&
+        (analysis.budgetResult?.status === 'warn' ||
+          replay.warnings.length > 0 ||
+          sideEffectWarnings.length > 0 ||
+          historyWarnings.length > 0)
+      ) {
+        process.exit(1);
+      }
     }
   } catch (err) {
     error(`Check failed: ${err instanceof Error ? err.message : String(err)}`);
@@ -910,10 +1444,121 @@ async function verifyCommand(options: CLIOptions): Promise<void> {
   }
 }
 
-async function signCommand(options: CLIOptions): Promise<void> {
+async function replayCommand(options: CLIOptions): Promise<void> {
+  if (!options.workflowsPath || !options.additionalPaths?.length) {
+    error('Missing required arguments: bundle path and history files');
+    log('\nUsage: bundle-temporal-workflow replay <bundle> <history.json|dir>...');
+    process.exit(1);
+  }
+
+  const bundlePath = resolve(options.workflowsPath);
+
+  if (!existsSync(bundlePath)) {
+    error(`Bundle file does not exist: ${bundlePath}`);
+    process.exit(1);
+  }
+
+  // Directories are expanded to the history files they contain
+  const histories = options.additionalPaths.flatMap((path) => {
+    const resolved = resolve(path);
+    if (existsSync(resolved) && statSync(resolved).isDirectory()) {
+      return readdirSync(resolved)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => join(resolved, file));
+    }
+    return [resolved];
+  });
+
+  if (histories.length === 0) {
+    error('No history files found');
+    process.exit(1);
+  }
+
+  try {
+    if (!options.json) {
+      info(`Replaying ${histories.length} history file(s) against ${bundlePath}...`);
+    }
+
+    // Keep the replay worker's own logs out of the report
+    const result = await replayHistories({
+      bundlePath,
+      histories,
+      logLevel: options.verbose ? 'INFO' : 'ERROR',
+    });
+
+    if (options.json) {
+      log(JSON.stringify(result, null, 2));
+    } else {
+      for (const warning of result.warnings ?? []) {
+        warn(warning);
+      }
+      log(formatReplayHistoriesResult(result));
+    }
+
+    if (!result.success) {
+      process.exit(1);
+    }
+  } catch (err) {
+    error(`Replay failed: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+function diffManifestCommand(options: CLIOptions): void {
+  const [newPath] = options.additionalPaths ?? [];
+  if (!options.workflowsPath || !newPath) {
+    error('Missing required arguments: old and new manifest paths');
+    log(
+      '\nUsage: bundle-temporal-workflow diff-manifest <old.json> <new.json> [--fail-on breaking|any]',
+    );
+    process.exit(1);
+  }
+
+  const failOn = options.failOn ?? 'none';
+  if (!['breaking', 'any', 'none'].includes(failOn)) {
+    error(`Invalid --fail-on level: ${failOn} (expected breaking, any or none)`);
+    process.exit(1);
+  }
+
+  const manifests = [options.workflowsPath, newPath].map((path) => {
+    const manifestPath = resolve(path);
+    if (!existsSync(manifestPath)) {
+      error(`Manifest file does not exist: ${manifestPath}`);
+      process.exit(1);
+    }
+    try {
+      return parseManifest(readFileSync(manifestPath, 'utf-8'));
+    } catch (err) {
+      error(
+        `Invalid manifest ${manifestPath}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      process.exit(1);
+    }
+  });
+
+  const result = checkManifestCompatibility(manifests[0]!, manifests[1]!);
+
+  if (options.json) {
+    log(JSON.stringify(result, null, 2));
+  } else {
+    log(formatManifestCompatibility(result));
+  }
+
+  if (
+    (failOn === 'breaking' && !result.compatible) ||
+    (failOn === 'any' && result.changes.length > 0)
+  ) {
+    process.exit(1);
+  }
+}
+
+function signCommand(options: CLIOptions): void {
   if (!options.workflowsPath) {
     error('Missing required argument: bundle path');
-    log('\nUsage: bundle-temporal-workflow sign <path> --private-key <key-file>');
+    log(
+      '\nUsage: bundle-temporal-workflow sign <path> --private-key <key-file> [--manifest <file>]',
+    );
     process.exit(1);
   }
 
@@ -935,22 +1580,33 @@ async function signCommand(options: CLIOptions): Promise<void> {
     process.exit(1);
   }
 
+  const manifestPath = options.manifest ? resolve(options.manifest) : undefined;
+  if (manifestPath && !existsSync(manifestPath)) {
+    error(`Manifest file does not exist: ${manifestPath}`);
+    process.exit(1);
+  }
+
   try {
     const code = readFileSync(bundlePath, 'utf-8');
+    const mapPath = `${bundlePath}.map`;
+    const sourceMap = existsSync(mapPath) ? readFileSync(mapPath, 'utf-8') : undefined;
+    const manifest = manifestPath
+      ? parseManifest(readFileSync(manifestPath, 'utf-8'))
+      : undefined;
     const privateKey = readFileSync(keyPath, 'utf-8').trim();
 
-    const signed = await signBundle({ code }, privateKey);
-    const outputPath = options.output ? resolve(options.output) : bundlePath;
-
-    const output = JSON.stringify({
-      code: signed.code,
-      signature: signed.signature,
-      publicKey: signed.publicKey,
+    const outputPath = options.output
+      ? resolve(options.output)
+      : `${bundlePath.replace(/\.c?js$/, '')}.signed.json`;
+    const envelope = writeSignedBundle(outputPath, { code, sourceMap }, privateKey, {
+      manifest,
     });
-    writeFileSync(outputPath, output);
 
     success(`Bundle signed and written to ${outputPath}`);
-    info(`Public key: ${signed.publicKey.slice(0, 32)}...`);
+    info(
+      `Signed: code${sourceMap !== undefined ? ', source map' : ''}${manifest ? ', manifest' : ''}`,
+    );
+    info(`Public key: ${envelope.signature.publicKey.slice(0, 32)}...`);
   } catch (err) {
     error(`Signing failed: ${err instanceof Error ? err.message : String(err)}`);
     process.exit(1);
@@ -1004,8 +1660,14 @@ async function main(): Promise<void> {
     case 'verify':
       await verifyCommand(options);
       break;
+    case 'replay':
+      await replayCommand(options);
+      break;
+    case 'diff-manifest':
+      diffManifestCommand(options);
+      break;
     case 'sign':
-      await signCommand(options);
+      signCommand(options);
       break;
     case 'keygen':
       await keygenCommand(options);
@@ -0,0 +1,285 @@
+/**
+ * Tests for the project-level bundler config file.
+ */
+
+import { mkdirSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import {
+  applyDeterminismConfig,
+  findBundleConfig,
+  getReplaySafetyOptions,
+  getSideEffectOptions,
+  getWorkspaceBundleOptions,
+  loadBundleConfig,
+  resolveBundleConfig,
+} from './config';
+import { WorkflowBundleError } from './errors';
+import { analyzeWorkflowReplaySafety } from './replay-taint';
+import type { DeterminismPolicy } from './types';
+
+const FIXTURE_DIR = resolve(__dirname, '../test/fixtures/determinism-config');
+const CONFIG_PATH = resolve(FIXTURE_DIR, 'temporal-bundle.config.ts');
+
+describe('config', () => {
+  describe('findBundleConfig', () => {
+    it('finds the config next to the workflows file', () => {
+      expect(findBundleConfig(resolve(FIXTURE_DIR, 'workflows.ts'))).toBe(CONFIG_PATH);
+    });
+
+    it('finds the config from a subdirectory', () => {
+      expect(findBundleConfig(resolve(FIXTURE_DIR, 'legacy'))).toBe(CONFIG_PATH);
+    });
+
+    it('returns undefined when there is no config', () => {
+      expect(
+        findBundleConfig(resolve(__dirname, '../test/fixtures/basic-workflow')),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('loadBundleConfig', () => {
+    it('loads a TypeScript config', async () => {
+      const loaded = await loadBundleConfig(CONFIG_PATH);
+
+      expect(loaded.path).toBe(CONFIG_PATH);
+      expect(loaded.config.determinism?.forbiddenModules).toEqual(['left-pad']);
+    });
+
+    it('compiles TypeScript configs and removes the output', async () => {
+      const configDir = resolve(__dirname, '../test/temp-config');
+      const configPath = resolve(configDir, 'temporal-bundle.config.ts');
+      mkdirSync(configDir, { recursive: true });
+      writeFileSync(
+        resolve(configDir, 'modules.ts'),
+        "export const forbidden = ['left-pad'];\n",
+      );
+      writeFileSync(
+        configPath,
+        "import { forbidden } from './modules';\n\n" +
+          'const modules: string[] = forbidden;\n\n' +
+          'export default { determinism: { forbiddenModules: modules } };\n',
+      );
+
+      try {
+        const [first, second] = await Promise.all([
+          loadBundleConfig(configPath),
+          loadBundleConfig(configPath),
+        ]);
+
+        expect(first.config.determinism?.forbiddenModules).toEqual(['left-pad']);
+        expect(second.config).toEqual(first.config);
+        expect(readdirSync(configDir).sort()).toEqual([
+          'modules.ts',
+          'temporal-bundle.config.ts',
+        ]);
+      } finally {
+        rmSync(configDir, { recursive: true, force: true });
+      }
+    });
+
+    it('reloads the config when a module it imports changes', async () => {
+      const configDir = resolve(__dirname, '../test/temp-config-imports');
+      const modulesPath = resolve(configDir, 'modules.mjs');
+      const configPath = resolve(configDir, 'temporal-bundle.config.mjs');
+      mkdirSync(configDir, { recursive: true });
+      writeFileSync(modulesPath, "export const forbidden = ['left-pad'];\n");
+      writeFileSync(
+        configPath,
+        "import { forbidden } from './modules.mjs';\n\n" +
+          'export default { determinism: { forbiddenModules: forbidden } };\n',
+      );
+
+      try {
+        const first = await loadBundleConfig(configPath);
+        expect(await loadBundleConfig(configPath)).toBe(first);
+
+        writeFileSync(modulesPath, "export const forbidden = ['is-odd'];\n");
+        utimesSync(modulesPath, new Date(), new Date(Date.now() + 1000));
+
+        const second = await loadBundleConfig(configPath);
+        expect(second.config.determinism?.forbiddenModules).toEqual(['is-odd']);
+      } finally {
+        rmSync(configDir, { recursive: true, force: true });
+      }
+    });
+
+    it('reports every invalid field', async () => {
+      const error = await loadBundleConfig(
+        resolve(FIXTURE_DIR, 'invalid.config.json'),
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WorkflowBundleError);
+      const { code, context } = error as WorkflowBundleError;
+      expect(code).toBe('CONFIG_INVALID');
+      expect(context.violations).toHaveLength(5);
+      expect(context.violations?.join('\n')).toContain(
+        "module 'lodash' is not a Node.js builtin module",
+      );
+      expect(context.violations?.join('\n')).toContain(
+        'determinism.sideEffects.severityOverrides[0].kinds must be an array of',
+      );
+    });
+
+    it('rejects queue names that are not directory names', async () => {
+      const error = await loadBundleConfig(
+        resolve(__dirname, '../test/fixtures/multi-queue/invalid-names.config.json'),
+      ).catch((err: unknown) => err);
+
+      const violations = (error as WorkflowBundleError).context.violations ?? [];
+      expect(violations).toHaveLength(2);
+      expect(violations[0]).toEndWith(
+        "queues[0].name '../orders' must not contain path separators or '..'",
+      );
+      expect(violations[1]).toEndWith(
+        "queues[1].name 'users\\admin' must not contain path separators or '..'",
+      );
+    });
+
+    it('rejects a missing config file', async () => {
+      const error = await loadBundleConfig(
+        resolve(FIXTURE_DIR, 'missing.config.json'),
+      ).catch((err: unknown) => err);
+
+      expect((error as WorkflowBundleError).message).toContain('Config file not found');
+    });
+  });
+
+  describe('resolveBundleConfig', () => {
+    it('skips discovery when disabled', async () => {
+      expect(await resolveBundleConfig(false, FIXTURE_DIR)).toBeUndefined();
+    });
+  });
+
+  describe('applyDeterminismConfig', () => {
+    it('adds forbidden modules and exemptions without changing the base policy', async () => {
+      const policy: DeterminismPolicy = { allowed: ['util'], forbidden: ['fs'] };
+      const loaded = await loadBundleConfig(CONFIG_PATH);
+
+      const applied = applyDeterminismConfig(policy, loaded);
+
+      expect(applied.forbidden).toEqual(['fs', 'left-pad']);
+      expect(applied.exemptions).toEqual([
+        { module: 'crypto', justification: 'Only used by activity helpers in shared.ts' },
+      ]);
+      expect(policy.forbidden).toEqual(['fs']);
+    });
+  });
+
+  describe('getReplaySafetyOptions', () => {
+    it('compiles patterns and resolves directories against the config file', async () => {
+      const options = getReplaySafetyOptions(await loadBundleConfig(CONFIG_PATH));
+
+      expect(options.additionalPatterns?.[0]?.pattern.flags).toContain('g');
+      expect(options.severityOverrides?.[0]?.directory).toBe(
+        resolve(FIXTURE_DIR, 'legacy'),
+      );
+    });
+  });
+
+  describe('getSideEffectOptions', () => {
+    it('resolves override directories against the config file', async () => {
+      const sideEffectsDir = resolve(__dirname, '../test/fixtures/side-effects');
+      const options = getSideEffectOptions(
+        await loadBundleConfig(resolve(sideEffectsDir, 'temporal-bundle.config.ts')),
+      );
+
+      expect(options).toEqual({
+        severity: 'error',
+        severityOverrides: [
+          { directory: resolve(sideEffectsDir, 'legacy'), severity: 'warning' },
+        ],
+      });
+    });
+  });
+
+  describe('getWorkspaceBundleOptions', () => {
+    it('resolves queue paths against the config file', async () => {
+      const workspaceDir = resolve(__dirname, '../test/fixtures/multi-queue');
+      const configPath = resolve(workspaceDir, 'workspace.config.ts');
+
+      const options = getWorkspaceBundleOptions(await loadBundleConfig(configPath));
+
+      expect(options?.queues.map((q) => q.name)).toEqual(['orders', 'users']);
+      expect(options?.queues[0]).toMatchObject({
+        workflowsPath: resolve(workspaceDir, 'orders.ts'),
+        activitiesPath: resolve(workspaceDir, 'activities.ts'),
+        options: { configPath },
+      });
+      expect(options?.shared).toEqual({ mode: 'production' });
+    });
+
+    it('resolves path-valued queue options against the config file', async () => {
+      const workspaceDir = resolve(
+        __dirname,
+        '../test/fixtures/multi-queue/relative-paths',
+      );
+
+      const options = getWorkspaceBundleOptions(
+        await loadBundleConfig(resolve(workspaceDir, 'workspace.config.ts')),
+      );
+
+      expect(options?.queues[0]?.options).toMatchObject({
+        tsconfigPath: resolve(workspaceDir, 'tsconfig.json'),
+        payloadConverterPath: resolve(workspaceDir, 'payload-converter.ts'),
+        workflowInterceptorModules: [
+          resolve(workspaceDir, 'interceptors.ts'),
+          '@temporalio/workflow',
+        ],
+      });
+      expect(options?.shared?.tsconfigPath).toBe(resolve(workspaceDir, 'tsconfig.json'));
+    });
+
+    it('returns undefined for a config without queues', async () => {
+      expect(
+        getWorkspaceBundleOptions(await loadBundleConfig(CONFIG_PATH)),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('bundleWorkflowCode', () => {
+    it('allows builtins allow-listed by the config', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath: resolve(FIXTURE_DIR, 'workflows.ts'),
+      });
+
+      expect(bundle.code).toContain('Only used by activity helpers in shared.ts');
+    });
+
+    it('forbids builtins when the config is skipped', async () => {
+      const error = await bundleWorkflowCode({
+        workflowsPath: resolve(FIXTURE_DIR, 'workflows.ts'),
+        configPath: false,
+      }).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WorkflowBundleError);
+      expect((error as WorkflowBundleError).context.modules).toEqual(['crypto']);
+    });
+
+    it('forbids modules added by the config', async () => {
+      const error = await bundleWorkflowCode({
+        workflowsPath: resolve(FIXTURE_DIR, 'forbidden.ts'),
+      }).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WorkflowBundleError);
+      expect((error as WorkflowBundleError).code).toBe('FORBIDDEN_MODULES');
+      expect((error as WorkflowBundleError).context.modules).toEqual(['left-pad']);
+    });
+  });
+
+  describe('replay safety', () => {
+    it('applies custom patterns and directory severity overrides', async () => {
+      const result = await analyzeWorkflowReplaySafety(
+        resolve(FIXTURE_DIR, 'workflows.ts'),
+        getReplaySafetyOptions(await loadBundleConfig(CONFIG_PATH)),
+      );
+
+      expect(result.errors.map((v) => v.pattern.name)).toEqual(['performance.now()']);
+      expect(result.warnings.map((v) => v.pattern.name)).toEqual(['Date.now()']);
+      expect(result.warnings[0]?.file).toBe(resolve(FIXTURE_DIR, 'legacy/clock.ts'));
+    });
+  });
+});
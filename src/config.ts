@@ -0,0 +1,856 @@
+/**
+ * Project-level bundler configuration file.
+ *
+ * A `temporal-bundle.config.ts` (or `.mts`, `.js`, `.mjs`, `.json`) file
+ * extends the determinism policy derived from the installed SDK. It can
+ * forbid additional modules, allow-list specific builtins, add replay-unsafe
+ * patterns and change the severity of replay violations per directory.
+ *
+ * The same file is applied by `bundleWorkflowCode`, the CLI and the
+ * Vite/Bun plugins. It can also list the task queues of a workspace, which
+ * `bundle-temporal-workflow build --config` builds in one command.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'node:fs';
+import { builtinModules } from 'node:module';
+import { dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import * as esbuild from 'esbuild';
+
+import { WorkflowBundleError } from './errors';
+import { normalizeSpecifier } from './policy';
+import type {
+  AnalyzeReplaySafetyOptions,
+  ReplaySeverityOverride,
+  ReplayUnsafePattern,
+} from './replay-safety';
+import type {
+  AnalyzeTopLevelSideEffectsOptions,
+  TopLevelSideEffectOverride,
+} from './side-effects';
+import { TOP_LEVEL_SIDE_EFFECT_KINDS } from './side-effects';
+import type {
+  BuiltinExemption,
+  DeterminismPolicy,
+  MultiBundleOptions,
+  QueueBundleOptions,
+  QueueConfig,
+} from './types';
+
+/**
+ * Config file names, in lookup order.
+ */
+export const CONFIG_FILE_NAMES = [
+  'temporal-bundle.config.ts',
+  'temporal-bundle.config.mts',
+  'temporal-bundle.config.js',
+  'temporal-bundle.config.mjs',
+  'temporal-bundle.config.json',
+] as const;
+
+/**
+ * Contents of a `temporal-bundle.config` file.
+ */
+export interface TemporalBundleConfig {
+  /**
+   * Project-specific determinism rules.
+   */
+  determinism?: DeterminismConfig;
+
+  /**
+   * Task queues built by `bundle-temporal-workflow build --config`.
+   * Paths are relative to the config file.
+   */
+  queues?: QueueConfig[];
+
+  /**
+   * Options shared by all queues. Paths are relative to the config file.
+   */
+  shared?: MultiBundleOptions['shared'];
+}
+
+/**
+ * Project-specific determinism rules, layered on top of the SDK policy.
+ */
+export interface DeterminismConfig {
+  /**
+   * Additional modules that may not be imported from workflow code.
+   * Subpath imports are matched too (e.g., 'lodash' forbids 'lodash/fp').
+   */
+  forbiddenModules?: string[];
+
+  /**
+   * Node.js builtins that may be imported from workflow code.
+   *
+   * Allow-listed builtins are bundled as stubs that throw if used at runtime,
+   * so the justification should explain why the workflow never calls them.
+   */
+  allowedBuiltins?: BuiltinExemption[];
+
+  /**
+   * Replay-unsafe patterns to check in addition to the built-in ones.
+   */
+  replayPatterns?: ReplayPatternConfig[];
+
+  /**
+   * Severity overrides for replay violations, by directory.
+   */
+  severityOverrides?: SeverityOverrideConfig[];
+
+  /**
+   * Whether `temporal-ignore-*` comments that suppress nothing fail checks.
+   * Default: false
+   */
+  failOnUnusedSuppressions?: boolean;
+
+  /**
+   * Rules for top-level side effects in workflow modules.
+   */
+  sideEffects?: SideEffectsConfig;
+}
+
+/**
+ * Top-level side effect rules declared in a config file.
+ */
+export interface SideEffectsConfig extends Pick<
+  AnalyzeTopLevelSideEffectsOptions,
+  'severity' | 'allowedCalls'
+> {
+  /**
+   * Severity overrides for side effects, by directory.
+   */
+  severityOverrides?: SideEffectOverrideConfig[];
+}
+
+/**
+ * A side effect severity override declared in a config file.
+ */
+export interface SideEffectOverrideConfig extends Omit<
+  TopLevelSideEffectOverride,
+  'directory'
+> {
+  /**
+   * Directory relative to the config file.
+   */
+  directory: string;
+}
+
+/**
+ * A replay-unsafe pattern declared in a config file.
+ */
+export interface ReplayPatternConfig extends Omit<ReplayUnsafePattern, 'pattern'> {
+  /**
+   * Regex to match in source code. Strings are compiled as regex sources.
+   */
+  pattern: RegExp | string;
+}
+
+/**
+ * A severity override declared in a config file.
+ */
+export interface SeverityOverrideConfig extends Omit<
+  ReplaySeverityOverride,
+  'directory'
+> {
+  /**
+   * Directory relative to the config file.
+   */
+  directory: string;
+}
+
+/**
+ * A validated config file.
+ */
+export interface LoadedBundleConfig {
+  /**
+   * Absolute path of the config file.
+   */
+  path: string;
+
+  /**
+   * The validated configuration.
+   */
+  config: TemporalBundleConfig;
+}
+
+/**
+ * Identity helper that gives `temporal-bundle.config.ts` files type checking.
+ *
+ * @example
+ * ```typescript
+ * // temporal-bundle.config.ts
+ * import { defineConfig } from 'bundle-temporal-workflow';
+ *
+ * export default defineConfig({
+ *   determinism: {
+ *     forbiddenModules: ['axios'],
+ *     allowedBuiltins: [
+ *       { module: 'crypto', justification: 'Only used by activity helpers in shared/' },
+ *     ],
+ *     severityOverrides: [{ directory: 'src/legacy', severity: 'warning' }],
+ *   },
+ * });
+ * ```
+ */
+export function defineConfig(config: TemporalBundleConfig): TemporalBundleConfig {
+  return config;
+}
+
+/**
+ * Find a config file by searching the given directory and up to 5 parent directories.
+ *
+ * @param startPath - Starting path (file or directory) to search from
+ * @returns Path to the config file if found, undefined otherwise
+ */
+export function findBundleConfig(startPath: string): string | undefined {
+  const startDir =
+    existsSync(startPath) && statSync(startPath).isDirectory()
+      ? startPath
+      : dirname(startPath);
+
+  let currentDir = resolve(startDir);
+
+  for (let i = 0; i < 6; i++) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(currentDir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) break;
+    currentDir = parentDir;
+  }
+
+  return undefined;
+}
+
+/**
+ * Loaded configs keyed by path, with the modification times of every file
+ * they were built from.
+ */
+const configCache = new Map<
+  string,
+  { inputs: Record<string, number>; loaded: LoadedBundleConfig }
+>();
+
+/**
+ * Load and validate a config file.
+ *
+ * JSON files are parsed directly. Other files are bundled with esbuild,
+ * together with the project modules they import, and their default export
+ * (or module namespace) is used. This lets TypeScript configs load under
+ * Node.js and in the Vite plugin too.
+ *
+ * A loaded config is reused until the file or one of the modules it imports
+ * changes.
+ *
+ * @throws WorkflowBundleError with code CONFIG_INVALID if the file cannot be
+ *   loaded or does not match the expected shape
+ */
+export async function loadBundleConfig(configPath: string): Promise<LoadedBundleConfig> {
+  const path = resolve(configPath);
+
+  if (!existsSync(path)) {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: [`Config file not found: ${path}`],
+    });
+  }
+
+  const cached = configCache.get(path);
+  if (cached && !haveInputsChanged(cached.inputs)) {
+    return cached.loaded;
+  }
+
+  let raw: unknown;
+  let inputs: Record<string, number>;
+  try {
+    if (extname(path) === '.json') {
+      inputs = getInputTimes([path]);
+      raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } else {
+      ({ raw, inputs } = await importBundledConfig(path));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: [`Failed to load ${path}: ${message}`],
+    });
+  }
+
+  const loaded: LoadedBundleConfig = { path, config: validateBundleConfig(raw, path) };
+  configCache.set(path, { inputs, loaded });
+  return loaded;
+}
+
+/**
+ * Import a JavaScript or TypeScript config file.
+ *
+ * The file is bundled to ESM with packages left external and written next
+ * to the config, so package imports resolve from the project. The output is
+ * removed once imported. Bundling the project modules in means edits to
+ * them are picked up, which a cached `import()` of the config would miss.
+ *
+ * @returns The config and the modification times of the bundled files
+ */
+async function importBundledConfig(
+  path: string,
+): Promise<{ raw: unknown; inputs: Record<string, number> }> {
+  const workingDir = dirname(path);
+  const result = await esbuild.build({
+    entryPoints: [path],
+    absWorkingDir: workingDir,
+    bundle: true,
+    write: false,
+    metafile: true,
+    format: 'esm',
+    platform: 'node',
+    packages: 'external',
+    outfile: 'temporal-bundle.config.mjs',
+    // CommonJS configs can still require packages from the ESM output
+    banner: {
+      js: "import { createRequire } from 'node:module'; const require = createRequire(import.meta.url);",
+    },
+    logLevel: 'silent',
+  });
+  const inputs = getInputTimes(
+    Object.keys(result.metafile.inputs).map((input) => resolve(workingDir, input)),
+  );
+
+  // Unique per load, since queues can load the same config concurrently
+  const outputPath = `${path}.${randomUUID()}.mjs`;
+  writeFileSync(outputPath, result.outputFiles[0]?.text ?? '');
+  try {
+    const module = (await import(pathToFileURL(outputPath).href)) as {
+      default?: unknown;
+    };
+    return { raw: module.default ?? module, inputs };
+  } finally {
+    unlinkSync(outputPath);
+  }
+}
+
+/**
+ * Get the modification times of files.
+ */
+function getInputTimes(files: string[]): Record<string, number> {
+  return Object.fromEntries(files.map((file) => [file, statSync(file).mtimeMs]));
+}
+
+/**
+ * Check whether any file a config was built from changed or was removed.
+ */
+function haveInputsChanged(inputs: Record<string, number>): boolean {
+  return Object.entries(inputs).some(
+    ([file, mtimeMs]) => !existsSync(file) || statSync(file).mtimeMs !== mtimeMs,
+  );
+}
+
+/**
+ * Load the config file for a bundle.
+ *
+ * @param configPath - Explicit config path, `false` to skip loading, or
+ *   undefined to search near the workflows path
+ * @param workflowsPath - Path the workflows are bundled from
+ * @returns The loaded config, or undefined if there is none
+ */
+export async function resolveBundleConfig(
+  configPath: string | false | undefined,
+  workflowsPath: string,
+): Promise<LoadedBundleConfig | undefined> {
+  if (configPath === false) {
+    return undefined;
+  }
+
+  const path = configPath ?? findBundleConfig(workflowsPath);
+  return path ? loadBundleConfig(path) : undefined;
+}
+
+/**
+ * Layer a config's module rules on top of a determinism policy.
+ *
+ * The given policy is not modified.
+ */
+export function applyDeterminismConfig(
+  policy: DeterminismPolicy,
+  loaded: LoadedBundleConfig | undefined,
+): DeterminismPolicy {
+  const determinism = loaded?.config.determinism;
+  if (!determinism?.forbiddenModules?.length && !determinism?.allowedBuiltins?.length) {
+    return policy;
+  }
+
+  return {
+    allowed: policy.allowed,
+    forbidden: [
+      ...policy.forbidden,
+      ...(determinism.forbiddenModules ?? []).map(normalizeSpecifier),
+    ],
+    exemptions: [
+      ...(policy.exemptions ?? []),
+      ...(determinism.allowedBuiltins ?? []).map((exemption) => ({
+        module: normalizeSpecifier(exemption.module),
+        justification: exemption.justification,
+      })),
+    ],
+  };
+}
+
+/**
+ * Get replay safety analysis options from a config's replay rules.
+ *
+ * Pattern strings are compiled and override directories are resolved
+ * relative to the config file.
+ */
+export function getReplaySafetyOptions(
+  loaded: LoadedBundleConfig | undefined,
+): Pick<
+  AnalyzeReplaySafetyOptions,
+  'additionalPatterns' | 'severityOverrides' | 'failOnUnusedSuppressions'
+> {
+  const determinism = loaded?.config.determinism;
+  if (!loaded || !determinism) {
+    return {};
+  }
+
+  const configDir = dirname(loaded.path);
+  return {
+    additionalPatterns: (determinism.replayPatterns ?? []).map((pattern) => ({
+      ...pattern,
+      pattern: toGlobalRegExp(pattern.pattern),
+    })),
+    severityOverrides: (determinism.severityOverrides ?? []).map((override) => ({
+      ...override,
+      directory: resolve(configDir, override.directory),
+    })),
+    ...(determinism.failOnUnusedSuppressions !== undefined && {
+      failOnUnusedSuppressions: determinism.failOnUnusedSuppressions,
+    }),
+  };
+}
+
+/**
+ * Get top-level side effect analysis options from a config's side effect
+ * rules.
+ *
+ * Override directories are resolved relative to the config file.
+ */
+export function getSideEffectOptions(
+  loaded: LoadedBundleConfig | undefined,
+): Pick<
+  AnalyzeTopLevelSideEffectsOptions,
+  'severity' | 'severityOverrides' | 'allowedCalls'
+> {
+  const sideEffects = loaded?.config.determinism?.sideEffects;
+  if (!loaded || !sideEffects) {
+    return {};
+  }
+
+  const configDir = dirname(loaded.path);
+  return {
+    ...(sideEffects.severity !== undefined && { severity: sideEffects.severity }),
+    ...(sideEffects.allowedCalls !== undefined && {
+      allowedCalls: sideEffects.allowedCalls,
+    }),
+    severityOverrides: (sideEffects.severityOverrides ?? []).map((override) => ({
+      ...override,
+      directory: resolve(configDir, override.directory),
+    })),
+  };
+}
+
+/**
+ * Get the multi-queue build options declared in a config file.
+ *
+ * Queue paths and the path-valued options of queues and `shared` are
+ * resolved relative to the config file, and every queue is built with the
+ * config's determinism rules.
+ *
+ * @returns The options, or undefined if the config declares no queues
+ */
+export function getWorkspaceBundleOptions(
+  loaded: LoadedBundleConfig,
+): MultiBundleOptions | undefined {
+  const { queues, shared } = loaded.config;
+  if (!queues?.length) {
+    return undefined;
+  }
+
+  const configDir = dirname(loaded.path);
+  return {
+    queues: queues.map((queue) => ({
+      ...queue,
+      workflowsPath: resolve(configDir, queue.workflowsPath),
+      ...(queue.activitiesPath !== undefined && {
+        activitiesPath: resolve(configDir, queue.activitiesPath),
+      }),
+      options: {
+        configPath: loaded.path,
+        ...(queue.options && resolveQueueOptionPaths(queue.options, configDir)),
+      },
+    })),
+    ...(shared && {
+      shared: {
+        ...shared,
+        ...(shared.tsconfigPath !== undefined && {
+          tsconfigPath: resolve(configDir, shared.tsconfigPath),
+        }),
+      },
+    }),
+  };
+}
+
+/**
+ * Resolve the path-valued bundle options of a queue relative to a
+ * directory. Interceptor modules are only resolved if they are relative
+ * paths, since they can also be package names.
+ */
+function resolveQueueOptionPaths(
+  options: QueueBundleOptions,
+  dir: string,
+): QueueBundleOptions {
+  const { buildOptions } = options;
+
+  return {
+    ...options,
+    ...(typeof options.tsconfigPath === 'string' && {
+      tsconfigPath: resolve(dir, options.tsconfigPath),
+    }),
+    ...(typeof options.configPath === 'string' && {
+      configPath: resolve(dir, options.configPath),
+    }),
+    ...(options.payloadConverterPath !== undefined && {
+      payloadConverterPath: resolve(dir, options.payloadConverterPath),
+    }),
+    ...(options.failureConverterPath !== undefined && {
+      failureConverterPath: resolve(dir, options.failureConverterPath),
+    }),
+    ...(options.denoConfigPath !== undefined && {
+      denoConfigPath: resolve(dir, options.denoConfigPath),
+    }),
+    ...(options.importMapPath !== undefined && {
+      importMapPath: resolve(dir, options.importMapPath),
+    }),
+    ...(options.workflowInterceptorModules !== undefined && {
+      workflowInterceptorModules: options.workflowInterceptorModules.map((module) =>
+        module.startsWith('./') || module.startsWith('../')
+          ? resolve(dir, module)
+          : module,
+      ),
+    }),
+    ...(buildOptions !== undefined && {
+      buildOptions: {
+        ...buildOptions,
+        ...(buildOptions.absWorkingDir !== undefined && {
+          absWorkingDir: resolve(dir, buildOptions.absWorkingDir),
+        }),
+        ...(buildOptions.tsconfig !== undefined && {
+          tsconfig: resolve(dir, buildOptions.tsconfig),
+        }),
+      },
+    }),
+  };
+}
+
+/**
+ * Compile a pattern with the global flag the regex matcher requires.
+ */
+function toGlobalRegExp(pattern: RegExp | string): RegExp {
+  if (typeof pattern === 'string') {
+    return new RegExp(pattern, 'g');
+  }
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/**
+ * Validate the shape of a config file's contents.
+ */
+function validateBundleConfig(raw: unknown, path: string): TemporalBundleConfig {
+  const violations: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: [`${path} must export an object`],
+    });
+  }
+
+  const determinism = raw['determinism'];
+  if (determinism !== undefined) {
+    if (isRecord(determinism)) {
+      validateDeterminismConfig(determinism, violations);
+    } else {
+      violations.push('determinism must be an object');
+    }
+  }
+
+  if (raw['queues'] !== undefined) {
+    validateQueuesConfig(raw['queues'], violations);
+  }
+
+  const shared = raw['shared'];
+  if (shared !== undefined) {
+    if (isRecord(shared)) {
+      validateSharedConfig(shared, violations);
+    } else {
+      violations.push('shared must be an object');
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: violations.map((violation) => `${path}: ${violation}`),
+    });
+  }
+
+  return raw as TemporalBundleConfig;
+}
+
+function validateDeterminismConfig(
+  config: Record<string, unknown>,
+  violations: string[],
+): void {
+  const {
+    forbiddenModules,
+    allowedBuiltins,
+    replayPatterns,
+    severityOverrides,
+    failOnUnusedSuppressions,
+    sideEffects,
+  } = config;
+
+  if (forbiddenModules !== undefined && !isStringArray(forbiddenModules)) {
+    violations.push('determinism.forbiddenModules must be an array of strings');
+  }
+
+  if (allowedBuiltins !== undefined) {
+    forEachEntry(
+      allowedBuiltins,
+      'determinism.allowedBuiltins',
+      violations,
+      (entry, at) => {
+        const { module, justification } = entry;
+        if (typeof module !== 'string') {
+          violations.push(`${at}.module must be a string`);
+        } else if (!isBuiltinModule(module)) {
+          violations.push(`${at}.module '${module}' is not a Node.js builtin module`);
+        }
+        if (typeof justification !== 'string' || justification.trim() === '') {
+          violations.push(`${at}.justification must explain why the builtin is safe`);
+        }
+      },
+    );
+  }
+
+  if (replayPatterns !== undefined) {
+    forEachEntry(
+      replayPatterns,
+      'determinism.replayPatterns',
+      violations,
+      (entry, at) => {
+        const { pattern, apis, severity } = entry;
+        if (typeof pattern === 'string') {
+          try {
+            new RegExp(pattern);
+          } catch {
+            violations.push(`${at}.pattern is not a valid regular expression`);
+          }
+        } else if (!(pattern instanceof RegExp)) {
+          violations.push(`${at}.pattern must be a RegExp or string`);
+        }
+        for (const key of ['name', 'reason', 'suggestion'] as const) {
+          if (typeof entry[key] !== 'string') {
+            violations.push(`${at}.${key} must be a string`);
+          }
+        }
+        if (severity !== 'error' && severity !== 'warning') {
+          violations.push(`${at}.severity must be 'error' or 'warning'`);
+        }
+        if (apis !== undefined && !Array.isArray(apis)) {
+          violations.push(`${at}.apis must be an array`);
+        }
+      },
+    );
+  }
+
+  if (severityOverrides !== undefined) {
+    forEachEntry(
+      severityOverrides,
+      'determinism.severityOverrides',
+      violations,
+      (entry, at) => {
+        const { directory, severity, patterns } = entry;
+        if (typeof directory !== 'string') {
+          violations.push(`${at}.directory must be a string`);
+        }
+        if (severity !== 'error' && severity !== 'warning' && severity !== 'off') {
+          violations.push(`${at}.severity must be 'error', 'warning' or 'off'`);
+        }
+        if (patterns !== undefined && !isStringArray(patterns)) {
+          violations.push(`${at}.patterns must be an array of strings`);
+        }
+      },
+    );
+  }
+
+  if (
+    failOnUnusedSuppressions !== undefined &&
+    typeof failOnUnusedSuppressions !== 'boolean'
+  ) {
+    violations.push('determinism.failOnUnusedSuppressions must be a boolean');
+  }
+
+  if (sideEffects !== undefined) {
+    if (isRecord(sideEffects)) {
+      validateSideEffectsConfig(sideEffects, violations);
+    } else {
+      violations.push('determinism.sideEffects must be an object');
+    }
+  }
+}
+
+function validateSideEffectsConfig(
+  config: Record<string, unknown>,
+  violations: string[],
+): void {
+  const { severity, severityOverrides, allowedCalls } = config;
+
+  if (!isSeverity(severity) && severity !== undefined) {
+    violations.push(
+      `determinism.sideEffects.severity must be 'error', 'warning' or 'off'`,
+    );
+  }
+  if (allowedCalls !== undefined && !isStringArray(allowedCalls)) {
+    violations.push('determinism.sideEffects.allowedCalls must be an array of strings');
+  }
+
+  if (severityOverrides !== undefined) {
+    forEachEntry(
+      severityOverrides,
+      'determinism.sideEffects.severityOverrides',
+      violations,
+      (entry, at) => {
+        const { directory, severity, kinds } = entry;
+        if (typeof directory !== 'string') {
+          violations.push(`${at}.directory must be a string`);
+        }
+        if (!isSeverity(severity)) {
+          violations.push(`${at}.severity must be 'error', 'warning' or 'off'`);
+        }
+        if (
+          kinds !== undefined &&
+          !(
+            isStringArray(kinds) &&
+            kinds.every((kind) =>
+              (TOP_LEVEL_SIDE_EFFECT_KINDS as readonly string[]).includes(kind),
+            )
+          )
+        ) {
+          violations.push(
+            `${at}.kinds must be an array of ${TOP_LEVEL_SIDE_EFFECT_KINDS.map((kind) => `'${kind}'`).join(', ')}`,
+          );
+        }
+      },
+    );
+  }
+}
+
+function validateQueuesConfig(queues: unknown, violations: string[]): void {
+  const names = new Set<string>();
+
+  forEachEntry(queues, 'queues', violations, (entry, at) => {
+    const { name, workflowsPath, activitiesPath, options, budget } = entry;
+    if (typeof name !== 'string' || name === '') {
+      violations.push(`${at}.name must be a non-empty string`);
+    } else if (/[/\\]/.test(name) || name.includes('..')) {
+      // Queue names are used as output directory names
+      violations.push(`${at}.name '${name}' must not contain path separators or '..'`);
+    } else if (names.has(name)) {
+      violations.push(`${at}.name '${name}' is used by another queue`);
+    } else {
+      names.add(name);
+    }
+    if (typeof workflowsPath !== 'string') {
+      violations.push(`${at}.workflowsPath must be a string`);
+    }
+    if (activitiesPath !== undefined && typeof activitiesPath !== 'string') {
+      violations.push(`${at}.activitiesPath must be a string`);
+    }
+    if (options !== undefined && !isRecord(options)) {
+      violations.push(`${at}.options must be an object`);
+    }
+    if (budget !== undefined && !isRecord(budget)) {
+      violations.push(`${at}.budget must be an object`);
+    }
+  });
+}
+
+function validateSharedConfig(
+  shared: Record<string, unknown>,
+  violations: string[],
+): void {
+  const { tsconfigPath, mode, sourceMap, ignoreModules, plugins } = shared;
+
+  if (tsconfigPath !== undefined && typeof tsconfigPath !== 'string') {
+    violations.push('shared.tsconfigPath must be a string');
+  }
+  if (mode !== undefined && mode !== 'development' && mode !== 'production') {
+    violations.push(`shared.mode must be 'development' or 'production'`);
+  }
+  if (
+    sourceMap !== undefined &&
+    sourceMap !== 'inline' &&
+    sourceMap !== 'external' &&
+    sourceMap !== 'none'
+  ) {
+    violations.push(`shared.sourceMap must be 'inline', 'external' or 'none'`);
+  }
+  if (ignoreModules !== undefined && !isStringArray(ignoreModules)) {
+    violations.push('shared.ignoreModules must be an array of strings');
+  }
+  if (plugins !== undefined && !Array.isArray(plugins)) {
+    violations.push('shared.plugins must be an array');
+  }
+}
+
+/**
+ * Run a validator on each object in an array field.
+ */
+function forEachEntry(
+  value: unknown,
+  field: string,
+  violations: string[],
+  validate: (entry: Record<string, unknown>, at: string) => void,
+): void {
+  if (!Array.isArray(value)) {
+    violations.push(`${field} must be an array`);
+    return;
+  }
+  value.forEach((entry: unknown, index) => {
+    const at = `${field}[${index}]`;
+    if (isRecord(entry)) {
+      validate(entry, at);
+    } else {
+      violations.push(`${at} must be an object`);
+    }
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSeverity(value: unknown): value is 'error' | 'warning' | 'off' {
+  return value === 'error' || value === 'warning' || value === 'off';
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isBuiltinModule(module: string): boolean {
+  const normalized = normalizeSpecifier(module);
+  return builtinModules.includes(normalized.split('/')[0] ?? normalized);
+}
@@ -0,0 +1,143 @@
+/**
+ * Tests for workflow declaration generation.
+ */
+
+import { mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { afterAll, describe, expect, it } from 'bun:test';
+import * as ts from 'typescript';
+
+import {
+  emitWorkflowDeclarations,
+  generateDeclarationContent,
+  generateWorkflowClientContent,
+  generateWorkflowDeclarations,
+} from './dts-generator';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/declarations');
+const workflowsPath = resolve(fixtureDir, 'index.ts');
+
+// Generating declarations and type-checking the client builds TypeScript programs
+const TYPE_CHECK_TIMEOUT = 30_000;
+
+describe('dts-generator', () => {
+  describe('generateDeclarationContent', () => {
+    it('declares exported workflow functions from source', () => {
+      const content = generateDeclarationContent(
+        [
+          '/** Greet someone. */',
+          'export async function greet(name: string): Promise<string> {',
+          '  return name;',
+          '}',
+        ].join('\n'),
+        'workflows.ts',
+      );
+
+      expect(content).toContain(' * Source: workflows.ts');
+      expect(content).toContain('/** Greet someone. */');
+      expect(content).toContain(
+        'export declare function greet(name: string): Promise<string>;',
+      );
+    });
+  });
+
+  describe('emitWorkflowDeclarations', () => {
+    const content = emitWorkflowDeclarations(workflowsPath) ?? '';
+
+    it('follows export * barrels', () => {
+      expect(content).toContain(
+        'export declare function orderWorkflow(order: Order, priority?: number | undefined): Promise<OrderResult>;',
+      );
+      expect(content).toContain(
+        'export declare function refundWorkflow(orderId: string, amount: number): Promise<void>;',
+      );
+      expect(content).not.toContain('internalWorkflow');
+    });
+
+    it('writes inferred return types', () => {
+      expect(content).toContain(
+        'export declare function cancelWorkflow(orderId: string): Promise<{ orderId: string; cancelled: boolean; }>;',
+      );
+    });
+
+    it('declares referenced project types', () => {
+      expect(content).toContain('export interface Order {');
+      expect(content).toContain('export type OrderResult = {');
+      expect(content).toContain('export declare enum OrderStatus {');
+      // Not exported from its module, but referenced by Order
+      expect(content).toContain('export interface Address {');
+    });
+
+    it('imports referenced package types', () => {
+      expect(content).toContain("import type { Duration } from '@temporalio/common';");
+    });
+
+    it('keeps doc comments of workflows and types', () => {
+      expect(content).toContain(
+        '/**\n * Process an order.\n */\nexport declare function',
+      );
+      expect(content).toContain('/**\n * Status of an order.\n */\nexport declare enum');
+      expect(content).not.toContain('Refund workflows.');
+    });
+  });
+
+  describe('generateWorkflowClientContent', () => {
+    const content = generateWorkflowClientContent(['orderWorkflow'], {
+      taskQueue: 'orders',
+      declarationsImportPath: './workflows',
+    });
+
+    it('binds helpers to the task queue', () => {
+      expect(content).toContain("import type * as workflows from './workflows';");
+      expect(content).toContain("export const TASK_QUEUE = 'orders';");
+      expect(content).toContain('taskQueue: options.taskQueue ?? TASK_QUEUE,');
+    });
+
+    it('generates start and execute helpers', () => {
+      expect(content).toContain('export function startOrderWorkflow(');
+      expect(content).toContain('export function executeOrderWorkflow(');
+      expect(content).toContain(
+        "return client.workflow.execute<typeof workflows.orderWorkflow>('orderWorkflow', {",
+      );
+    });
+  });
+
+  describe('generateWorkflowDeclarations', () => {
+    const outputDir = resolve(__dirname, '../test/temp-dts-generator');
+    const declarationsPath = resolve(outputDir, 'workflows.d.ts');
+    const clientPath = resolve(outputDir, 'client.ts');
+
+    afterAll(() => {
+      rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it(
+      'writes declarations and a client that type-check',
+      () => {
+        mkdirSync(outputDir, { recursive: true });
+        generateWorkflowDeclarations(workflowsPath, declarationsPath, {
+          client: { outputPath: clientPath, taskQueue: 'orders' },
+        });
+
+        expect(readFileSync(clientPath, 'utf-8')).toContain(
+          "import type * as workflows from './workflows';",
+        );
+
+        const program = ts.createProgram([clientPath, declarationsPath], {
+          strict: true,
+          noEmit: true,
+          skipLibCheck: true,
+          target: ts.ScriptTarget.ES2022,
+          module: ts.ModuleKind.ESNext,
+          moduleResolution: ts.ModuleResolutionKind.Bundler,
+        });
+        const diagnostics = ts
+          .getPreEmitDiagnostics(program)
+          .map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+        expect(diagnostics).toEqual([]);
+      },
+      TYPE_CHECK_TIMEOUT,
+    );
+  });
+});
@@ -2,59 +2,581 @@
  * Declaration file generation for workflow exports.
  *
  * Generates .d.ts files that describe the workflow functions exported
- * by a bundle, enabling type-safe workflow client usage.
+ * by a bundle, enabling type-safe workflow client usage, and typed client
+ * modules that start those workflows on a task queue.
  */
 
 import { readFileSync, writeFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { dirname, relative, resolve } from 'node:path';
+
+import type * as ts from 'typescript';
+
+import { createModuleProgram } from './activity-signatures';
+import { loadTypeScript } from './typescript-loader';
+import { isProjectFile } from './workflow-signatures';
+
+/**
+ * Options for declaration generation.
+ */
+export interface GenerateWorkflowDeclarationsOptions {
+  /**
+   * Path to tsconfig.json. Default: the nearest tsconfig.json to the
+   * workflows file, if any.
+   */
+  tsconfigPath?: string;
+
+  /**
+   * Also generate a typed client module with `startX` and `executeX`
+   * helpers for every workflow.
+   */
+  client?: {
+    /**
+     * Path of the generated client module (e.g., `./src/generated/client.ts`).
+     */
+    outputPath: string;
+
+    /**
+     * Task queue the helpers start workflows on, unless overridden per call.
+     */
+    taskQueue: string;
+  };
+}
+
+/**
+ * Options for typed client generation.
+ */
+export interface GenerateWorkflowClientOptions {
+  /**
+   * Task queue the helpers start workflows on, unless overridden per call.
+   */
+  taskQueue: string;
+
+  /**
+   * Module specifier the client imports workflow types from
+   * (e.g., `./workflows`).
+   */
+  declarationsImportPath: string;
+
+  /**
+   * Source path recorded in the header comment.
+   */
+  sourcePath?: string;
+}
 
 /**
  * Generate TypeScript declaration files for workflow exports.
  *
- * Creates a .d.ts file that re-exports workflow function types,
- * enabling type-safe usage with Temporal's WorkflowClient.
+ * Creates a .d.ts file that declares the workflow functions, enabling
+ * type-safe usage with Temporal's WorkflowClient. When `typescript` is
+ * installed, the declarations are emitted by the compiler and are
+ * self-contained (see `emitWorkflowDeclarations()`); otherwise the
+ * workflows file is parsed with regexes.
  *
  * @example
  * ```typescript
  * import { generateWorkflowDeclarations } from 'bundle-temporal-workflow';
  *
- * await generateWorkflowDeclarations(
- *   './src/workflows.ts',
- *   './dist/workflows.d.ts',
- * );
+ * generateWorkflowDeclarations('./src/workflows.ts', './dist/workflows.d.ts', {
+ *   client: { outputPath: './dist/client.ts', taskQueue: 'orders' },
+ * });
  *
  * // Now you can import types:
  * // import type { myWorkflow } from './dist/workflows';
- * // const handle = await client.start(myWorkflow, { ... });
+ * // const handle = await client.workflow.start(myWorkflow, { ... });
+ * //
+ * // Or use the generated helpers:
+ * // const handle = await startMyWorkflow(client, { workflowId: 'my-1' }, input);
  * ```
  */
 export function generateWorkflowDeclarations(
   workflowsPath: string,
   outputPath: string,
+  options: GenerateWorkflowDeclarationsOptions = {},
 ): void {
   const resolvedInput = resolve(workflowsPath);
   const resolvedOutput = resolve(outputPath);
-  const code = readFileSync(resolvedInput, 'utf-8');
 
-  const declarations = generateDeclarationContent(code, resolvedInput);
+  const declarations =
+    emitWorkflowDeclarations(resolvedInput, options) ??
+    generateDeclarationContent(readFileSync(resolvedInput, 'utf-8'), resolvedInput);
   writeFileSync(resolvedOutput, declarations);
+
+  if (options.client) {
+    const clientPath = resolve(options.client.outputPath);
+    const importPath = relative(dirname(clientPath), resolvedOutput).replace(
+      /\.d\.[cm]?ts$/,
+      '',
+    );
+    const client = generateWorkflowClientContent(listDeclaredWorkflows(declarations), {
+      taskQueue: options.client.taskQueue,
+      declarationsImportPath: importPath.startsWith('.') ? importPath : `./${importPath}`,
+      sourcePath: resolvedInput,
+    });
+    writeFileSync(clientPath, client);
+  }
 }
 
 /**
- * Generate declaration content from workflow source code.
+ * Emit self-contained declarations for the workflows a module exports,
+ * with the TypeScript compiler.
+ *
+ * Workflows re-exported with `export *` are included. Parameter and return
+ * types are written as the checker resolves them, including inferred
+ * return types. Project types they reference, directly or through other
+ * types, are declared (and exported) in the same file, and types from
+ * packages are imported with `import type`, so the output does not depend
+ * on the workflow sources.
+ *
+ * Requires the optional `typescript` peer dependency.
+ *
+ * @returns The declaration content, or undefined if TypeScript is not
+ *   installed
  */
-export function generateDeclarationContent(code: string, sourcePath?: string): string {
-  const exports = extractWorkflowSignatures(code);
-  const lines: string[] = [];
+export function emitWorkflowDeclarations(
+  workflowsPath: string,
+  options: Pick<GenerateWorkflowDeclarationsOptions, 'tsconfigPath'> = {},
+): string | undefined {
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    return undefined;
+  }
+
+  const entryPath = resolve(workflowsPath);
+  const program = createModuleProgram(typescript, entryPath, options.tsconfigPath, {
+    noEmit: false,
+    declaration: true,
+    emitDeclarationOnly: true,
+    declarationMap: false,
+    sourceMap: false,
+  });
+  const checker = program.getTypeChecker();
+  const printer = typescript.createPrinter({ removeComments: true });
+
+  const sourceFile = program.getSourceFile(entryPath);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+  const referenced = new Set<ts.Symbol>();
+  const collect = createTypeCollector(typescript, checker, referenced);
+  const functions: string[] = [];
+
+  for (const exported of moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : []) {
+    const symbol =
+      exported.flags & typescript.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    const declaration = symbol.valueDeclaration;
+    const [signature] = checker.getTypeOfSymbol(symbol).getCallSignatures();
+    if (!declaration || !signature || symbol.flags & typescript.SymbolFlags.Class) {
+      continue;
+    }
+
+    signature.parameters.forEach((param) =>
+      collect(checker.getTypeOfSymbolAtLocation(param, declaration)),
+    );
+    collect(checker.getReturnTypeOfSignature(signature));
+
+    const node = checker.signatureToSignatureDeclaration(
+      signature,
+      typescript.SyntaxKind.FunctionDeclaration,
+      undefined,
+      typescript.NodeBuilderFlags.NoTruncation | typescript.NodeBuilderFlags.IgnoreErrors,
+    ) as ts.FunctionDeclaration;
+    const declared = typescript.factory.updateFunctionDeclaration(
+      node,
+      [
+        typescript.factory.createModifier(typescript.SyntaxKind.ExportKeyword),
+        typescript.factory.createModifier(typescript.SyntaxKind.DeclareKeyword),
+      ],
+      undefined,
+      typescript.factory.createIdentifier(exported.name),
+      node.typeParameters,
+      node.parameters,
+      node.type,
+      undefined,
+    );
+
+    const jsdoc = getJSDocText(typescript, declaration);
+    const text = printer.printNode(
+      typescript.EmitHint.Unspecified,
+      declared,
+      sourceFile!,
+    );
+    functions.push(jsdoc ? `${jsdoc}\n${text}` : text);
+  }
+
+  const imports = new Map<string, Set<string>>();
+  const types: string[] = [];
+  const emitted = new Map<ts.SourceFile, ts.SourceFile>();
 
+  for (const symbol of referenced) {
+    const declaration = symbol.declarations?.[0];
+    if (!declaration) continue;
+    const declarationFile = declaration.getSourceFile();
+
+    if (isProjectFile(program, declarationFile)) {
+      let declarations = emitted.get(declarationFile);
+      if (!declarations) {
+        declarations = emitDeclarationFile(typescript, program, declarationFile);
+        emitted.set(declarationFile, declarations);
+      }
+      const statement = findTypeStatement(typescript, declarations, symbol.name);
+      if (statement) {
+        types.push(formatTypeStatement(typescript, statement));
+      }
+      continue;
+    }
+
+    const specifier = getImportSpecifier(typescript, program, declaration);
+    if (specifier) {
+      const names = imports.get(specifier) ?? new Set<string>();
+      names.add(symbol.name);
+      imports.set(specifier, names);
+    }
+  }
+
+  const lines = generateHeader('workflow type declarations', entryPath);
+  for (const [specifier, names] of [...imports].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`import type { ${[...names].sort().join(', ')} } from '${specifier}';`);
+  }
+  if (imports.size > 0) {
+    lines.push('');
+  }
+  for (const text of [...types, ...functions]) {
+    lines.push(text, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate a typed client module for a set of workflows.
+ *
+ * For each workflow, `start<Name>` starts it and returns its handle, and
+ * `execute<Name>` starts it and waits for its result. Both take the
+ * client, the workflow options (with `taskQueue` defaulting to the bound
+ * task queue) and the workflow arguments, typed from the declarations.
+ *
+ * @example
+ * ```typescript
+ * const content = generateWorkflowClientContent(['orderWorkflow'], {
+ *   taskQueue: 'orders',
+ *   declarationsImportPath: './workflows',
+ * });
+ * ```
+ */
+export function generateWorkflowClientContent(
+  workflowNames: string[],
+  options: GenerateWorkflowClientOptions,
+): string {
+  const lines = generateHeader('typed workflow client', options.sourcePath);
+
+  lines.push("import type { Client, WorkflowOptions } from '@temporalio/client';");
+  lines.push('');
+  lines.push(`import type * as workflows from '${options.declarationsImportPath}';`);
+  lines.push('');
+  lines.push('/**');
+  lines.push(' * Task queue the workflows are started on by default.');
+  lines.push(' */');
+  lines.push(
+    `export const TASK_QUEUE = '${options.taskQueue.replace(/['\\]/g, '\\$&')}';`,
+  );
+  lines.push('');
   lines.push('/**');
-  lines.push(' * Auto-generated workflow type declarations.');
+  lines.push(' * Workflow options, with the task queue defaulting to `TASK_QUEUE`.');
+  lines.push(' */');
+  lines.push(
+    "export type StartOptions = Omit<WorkflowOptions, 'taskQueue'> & { taskQueue?: string };",
+  );
+  lines.push('');
+
+  for (const name of workflowNames) {
+    const type = `typeof workflows.${name}`;
+    const suffix = name.charAt(0).toUpperCase() + name.slice(1);
+    for (const [verb, description] of [
+      ['start', 'Start'],
+      ['execute', 'Start and wait for the result of'],
+    ] as const) {
+      lines.push('/**');
+      lines.push(` * ${description} the \`${name}\` workflow.`);
+      lines.push(' */');
+      lines.push(`export function ${verb}${suffix}(`);
+      lines.push('  client: Client,');
+      lines.push('  options: StartOptions,');
+      lines.push(`  ...args: Parameters<${type}>`);
+      lines.push(') {');
+      lines.push(`  return client.workflow.${verb}<${type}>('${name}', {`);
+      lines.push('    ...options,');
+      lines.push('    taskQueue: options.taskQueue ?? TASK_QUEUE,');
+      lines.push('    args,');
+      lines.push('  });');
+      lines.push('}');
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Create the header comment of a generated file.
+ */
+function generateHeader(description: string, sourcePath: string | undefined): string[] {
+  const lines = ['/**', ` * Auto-generated ${description}.`];
   if (sourcePath) {
     lines.push(` * Source: ${sourcePath}`);
   }
-  lines.push(` * Generated: ${new Date().toISOString()}`);
-  lines.push(' */');
-  lines.push('');
+  lines.push(` * Generated: ${new Date().toISOString()}`, ' */', '');
+  return lines;
+}
+
+/**
+ * List the functions a generated declaration file declares.
+ */
+function listDeclaredWorkflows(declarations: string): string[] {
+  return [...declarations.matchAll(/^export declare function (\w+)/gm)].map(
+    (match) => match[1]!,
+  );
+}
+
+/**
+ * Create a function that collects the named types a type references,
+ * recursively, into `referenced`.
+ *
+ * Only interfaces, classes, enums and type aliases are collected; global
+ * library types such as `Date` are filtered out when emitting. The
+ * declarations of project types are also searched for the type names
+ * they are written with.
+ */
+function createTypeCollector(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  referenced: Set<ts.Symbol>,
+): (type: ts.Type) => void {
+  const { SymbolFlags, TypeFlags } = typescript;
+  const named =
+    SymbolFlags.Interface | SymbolFlags.Class | SymbolFlags.Enum | SymbolFlags.TypeAlias;
+  const seen = new Set<ts.Type>();
+
+  const addSymbol = (symbol: ts.Symbol | undefined): boolean => {
+    if (!symbol || !(symbol.flags & named) || referenced.has(symbol)) {
+      return false;
+    }
+    referenced.add(symbol);
+    // Types written in project declarations may not survive in the
+    // resolved types (e.g. an alias in an optional property's union)
+    for (const declaration of symbol.declarations ?? []) {
+      if (!declaration.getSourceFile().isDeclarationFile) {
+        typescript.forEachChild(declaration, visitTypeReferences);
+      }
+    }
+    return true;
+  };
+
+  const visitTypeReferences = (node: ts.Node): void => {
+    const name = typescript.isTypeReferenceNode(node)
+      ? node.typeName
+      : typescript.isExpressionWithTypeArguments(node)
+        ? node.expression
+        : undefined;
+    let symbol = name && checker.getSymbolAtLocation(name);
+    if (symbol && symbol.flags & SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    addSymbol(symbol);
+    typescript.forEachChild(node, visitTypeReferences);
+  };
+
+  const collect = (type: ts.Type): void => {
+    if (seen.has(type)) return;
+    seen.add(type);
+
+    if (type.aliasSymbol) {
+      if (addSymbol(type.aliasSymbol)) {
+        collect(checker.getDeclaredTypeOfSymbol(type.aliasSymbol));
+      }
+      type.aliasTypeArguments?.forEach(collect);
+    }
+    if (type.flags & TypeFlags.EnumLiteral) {
+      const symbol = type.getSymbol();
+      addSymbol(
+        symbol && symbol.flags & SymbolFlags.EnumMember ? getParent(symbol) : symbol,
+      );
+      return;
+    }
+    if (type.isUnionOrIntersection()) {
+      type.types.forEach(collect);
+      return;
+    }
+    if (!(type.flags & TypeFlags.Object)) {
+      return;
+    }
+
+    const symbol = type.getSymbol();
+    const isLibraryType = symbol?.declarations?.some(
+      (declaration) => declaration.getSourceFile().isDeclarationFile,
+    );
+    addSymbol(symbol);
+    checker.getTypeArguments(type as ts.TypeReference).forEach(collect);
+    if (isLibraryType) {
+      // Library types are imported, not expanded
+      return;
+    }
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      collect(checker.getTypeOfSymbol(property));
+    }
+    for (const info of checker.getIndexInfosOfType(type)) {
+      collect(info.type);
+    }
+    for (const signature of [
+      ...type.getCallSignatures(),
+      ...type.getConstructSignatures(),
+    ]) {
+      signature.parameters.forEach((param) => collect(checker.getTypeOfSymbol(param)));
+      collect(checker.getReturnTypeOfSignature(signature));
+    }
+  };
+
+  const getParent = (symbol: ts.Symbol): ts.Symbol | undefined => {
+    const declaration = symbol.valueDeclaration;
+    return declaration && typescript.isEnumMember(declaration)
+      ? checker.getSymbolAtLocation(declaration.parent.name)
+      : undefined;
+  };
+
+  return collect;
+}
+
+/**
+ * Emit the declarations of a project file and parse them.
+ */
+function emitDeclarationFile(
+  typescript: typeof ts,
+  program: ts.Program,
+  sourceFile: ts.SourceFile,
+): ts.SourceFile {
+  let text = '';
+  program.emit(
+    sourceFile,
+    (fileName, data) => {
+      if (/\.d\.[cm]?ts$/.test(fileName)) text = data;
+    },
+    undefined,
+    true,
+  );
+  return typescript.createSourceFile(
+    `${sourceFile.fileName}.d.ts`,
+    text,
+    typescript.ScriptTarget.Latest,
+    true,
+  );
+}
+
+/**
+ * Find the interface, class, enum or type alias declaration of a name.
+ */
+function findTypeStatement(
+  typescript: typeof ts,
+  declarations: ts.SourceFile,
+  name: string,
+): ts.Statement | undefined {
+  return declarations.statements.find(
+    (statement) =>
+      (typescript.isInterfaceDeclaration(statement) ||
+        typescript.isClassDeclaration(statement) ||
+        typescript.isEnumDeclaration(statement) ||
+        typescript.isTypeAliasDeclaration(statement)) &&
+      statement.name?.text === name,
+  );
+}
+
+/**
+ * Format a declaration statement as an exported declaration, with its
+ * doc comment.
+ */
+function formatTypeStatement(typescript: typeof ts, statement: ts.Statement): string {
+  const text = statement.getFullText().trim();
+  const isExported = typescript.canHaveModifiers(statement)
+    ? typescript
+        .getModifiers(statement)
+        ?.some((modifier) => modifier.kind === typescript.SyntaxKind.ExportKeyword)
+    : false;
+  if (isExported) {
+    return text;
+  }
+
+  // Insert `export` after the doc comment
+  const start = statement.getStart() - statement.getFullStart();
+  const leading = statement.getFullText().slice(0, start).trim();
+  const declaration = statement.getText();
+  return `${leading ? `${leading}\n` : ''}export ${declaration}`;
+}
+
+/**
+ * Get the module to import a library type from: the ambient module
+ * declaring it, or the package it is declared in. Global types need no
+ * import.
+ */
+function getImportSpecifier(
+  typescript: typeof ts,
+  program: ts.Program,
+  declaration: ts.Declaration,
+): string | undefined {
+  for (let node: ts.Node | undefined = declaration.parent; node; node = node.parent) {
+    if (typescript.isModuleDeclaration(node)) {
+      return typescript.isStringLiteral(node.name) ? node.name.text : undefined;
+    }
+  }
+
+  const sourceFile = declaration.getSourceFile();
+  if (
+    program.isSourceFileDefaultLibrary(sourceFile) ||
+    !typescript.isExternalModule(sourceFile)
+  ) {
+    return undefined;
+  }
+
+  const match = sourceFile.fileName.match(
+    /\/node_modules\/((?:@types\/)?(?:@[^/]+\/)?[^/]+)\//,
+  );
+  if (!match) {
+    return undefined;
+  }
+  const name = match[1]!;
+  // @types/node -> node, @types/scope__pkg -> @scope/pkg
+  return name.startsWith('@types/')
+    ? name.slice('@types/'.length).replace(/^(.+)__/, '@$1/')
+    : name;
+}
+
+/**
+ * Get the doc comment directly preceding a declaration, or the variable
+ * statement declaring it.
+ */
+function getJSDocText(typescript: typeof ts, declaration: ts.Node): string | undefined {
+  const node =
+    typescript.isVariableDeclaration(declaration) &&
+    typescript.isVariableStatement(declaration.parent.parent)
+      ? declaration.parent.parent
+      : declaration;
+  const jsdoc = typescript
+    .getJSDocCommentsAndTags(node)
+    .filter(typescript.isJSDoc)
+    .at(-1);
+  // A comment separated by a blank line documents the file, not the node
+  const gap = jsdoc && node.getSourceFile().text.slice(jsdoc.end, node.getStart());
+  return jsdoc && !/\n\s*\n/.test(gap!) ? jsdoc.getText() : undefined;
+}
+
+/**
+ * Generate declaration content from workflow source code.
+ *
+ * Parses the exported functions of a single file with regexes, copying
+ * parameter types as written. Prefer `emitWorkflowDeclarations()` when
+ * `typescript` is installed.
+ */
+export function generateDeclarationContent(code: string, sourcePath?: string): string {
+  const exports = parseWorkflowSignatures(code);
+  const lines = generateHeader('workflow type declarations', sourcePath);
 
   for (const exp of exports) {
     if (exp.jsdoc) {
@@ -67,7 +589,7 @@ export function generateDeclarationContent(code: string, sourcePath?: string): s
   return lines.join('\n');
 }
 
-interface WorkflowSignature {
+interface ParsedWorkflowSignature {
   name: string;
   params: string;
   returnType: string;
@@ -77,8 +599,8 @@ interface WorkflowSignature {
 /**
  * Extract workflow function signatures from source code.
  */
-function extractWorkflowSignatures(code: string): WorkflowSignature[] {
-  const results: WorkflowSignature[] = [];
+function parseWorkflowSignatures(code: string): ParsedWorkflowSignature[] {
+  const results: ParsedWorkflowSignature[] = [];
   const lines = code.split('\n');
 
   for (let i = 0; i < lines.length; i++) {
@@ -4,7 +4,11 @@
 
 import { describe, expect, it } from 'bun:test';
 
-import { generateEntrypoint, hashEntrypoint } from './entrypoint';
+import {
+  generateEntrypoint,
+  getEntrypointWorkflowsPath,
+  hashEntrypoint,
+} from './entrypoint';
 
 describe('entrypoint', () => {
   describe('generateEntrypoint', () => {
@@ -95,6 +99,21 @@ describe('entrypoint', () => {
     });
   });
 
+  describe('getEntrypointWorkflowsPath', () => {
+    it('returns the workflows path and not interceptor paths', () => {
+      const code = generateEntrypoint({
+        workflowsPath: 'C:\\app\\workflows.ts',
+        workflowInterceptorModules: ['/path/to/interceptor.ts'],
+      });
+
+      expect(getEntrypointWorkflowsPath(code)).toBe('C:\\app\\workflows.ts');
+    });
+
+    it('returns undefined for other code', () => {
+      expect(getEntrypointWorkflowsPath('require("./workflows")')).toBeUndefined();
+    });
+  });
+
   describe('hashEntrypoint', () => {
     it('returns a hex string', () => {
       const hash = hashEntrypoint({
@@ -93,6 +93,17 @@ ${interceptorRequires}
 `;
 }
 
+/**
+ * Get the workflows module path required by a generated entrypoint.
+ *
+ * Lets plugins tell the workflows module apart from interceptor modules,
+ * which the entrypoint also requires.
+ */
+export function getEntrypointWorkflowsPath(code: string): string | undefined {
+  const match = /var workflows = require\(("(?:[^"\\]|\\.)*")\);/.exec(code);
+  return match ? (JSON.parse(match[1]!) as string) : undefined;
+}
+
 /**
  * Generate a hash of the entrypoint content for cache invalidation.
  */
@@ -108,6 +108,23 @@ function formatErrorMessage(
         parts.push('', context.details);
       }
       break;
+
+    case 'BUNDLE_UNTRUSTED':
+      parts.push('Bundle is not signed by a trusted key.');
+      if (context.details) {
+        parts.push('', context.details);
+      }
+      break;
+
+    case 'SIGNATURE_INVALID':
+      parts.push('Bundle signature verification failed:');
+      if (context.violations) {
+        parts.push(context.violations.map((v) => `  - ${v}`).join('\n'));
+      }
+      if (context.details) {
+        parts.push('', context.details);
+      }
+      break;
   }
 
   // Add dependency chain if available
@@ -163,6 +180,12 @@ function getDefaultHint(code: WorkflowBundleErrorCode): string | undefined {
     case 'ENTRYPOINT_NOT_FOUND':
       return 'Verify that workflowsPath points to a valid file or directory.';
 
+    case 'BUNDLE_UNTRUSTED':
+      return 'Load bundles signed by your release pipeline, or add its public key to the trust policy.';
+
+    case 'SIGNATURE_INVALID':
+      return 'Do not deploy this bundle. Rebuild and sign it again in your release pipeline.';
+
     default:
       return undefined;
   }
@@ -7,6 +7,7 @@
  * - Forbidden module detection and blocking
  * - OpenTelemetry module replacement
  * - Ignored modules (with runtime-throwing stubs)
+ * - Builtins allow-listed by the project config (with runtime-throwing stubs)
  * - Import type detection to reduce false positives
  */
 
@@ -17,6 +18,7 @@ import type * as esbuild from 'esbuild';
 
 import { formatAlternative, getAlternative } from './alternatives';
 import {
+  findExemption,
   getModuleOverridePath,
   isAllowedBuiltin,
   isForbidden,
@@ -354,8 +356,8 @@ export function createTemporalPlugin(
         const normalized = normalizeSpecifier(args.path);
         const baseName = normalized.split('/')[0] ?? normalized;
 
-        // Allowed builtins get Temporal's stubs
-        if (isAllowedBuiltin(baseName)) {
+        // Allowed builtins get Temporal's stubs, unless the project forbids them
+        if (isAllowedBuiltin(baseName) && !isForbidden(baseName, policy)) {
           try {
             const stubPath = getModuleOverridePath(baseName);
             return { path: stubPath };
@@ -372,6 +374,14 @@ export function createTemporalPlugin(
           };
         }
 
+        // Check if allow-listed by the project's determinism config
+        if (findExemption(normalized, policy)) {
+          return {
+            path: normalized,
+            namespace: 'temporal-exempt',
+          };
+        }
+
         // Check if this is a type-only import (allowed for forbidden modules)
         if (
           args.importer &&
@@ -519,6 +529,18 @@ export function createTemporalPlugin(
         loader: 'js',
       }));
 
+      build.onLoad({ filter: /.*/, namespace: 'temporal-exempt' }, (args) => {
+        const exemption = findExemption(args.path, policy);
+        return {
+          contents: createStubModule(
+            `Module "${args.path}" was allow-listed for workflow code but was executed at runtime. ` +
+              `Justification given: ${exemption?.justification ?? 'none'}. ` +
+              'Move this usage to an Activity or remove the module from allowedBuiltins.',
+          ),
+          loader: 'js',
+        };
+      });
+
       // Type-only imports are erased at compile time, so we return an empty module
       // This is safe because TypeScript only uses these imports for type checking
       build.onLoad({ filter: /.*/, namespace: 'temporal-type-only' }, () => ({
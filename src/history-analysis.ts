@@ -8,6 +8,23 @@
 
 import { readFileSync } from 'node:fs';
 
+import type { SuppressionDirective } from './suppressions';
+import {
+  findSuppression,
+  matchesSuppressionRule,
+  parseSuppressions,
+} from './suppressions';
+
+/**
+ * Kinds of history growth issues, usable as suppression rules.
+ */
+const HISTORY_WARNING_TYPES = [
+  'unbounded-loop',
+  'unbounded-signal',
+  'large-payload',
+  'deep-recursion',
+] as const;
+
 /**
  * A potential history growth issue found in workflow code.
  */
@@ -15,7 +32,7 @@ export interface HistoryWarning {
   /**
    * Type of issue detected.
    */
-  type: 'unbounded-loop' | 'unbounded-signal' | 'large-payload' | 'deep-recursion';
+  type: (typeof HISTORY_WARNING_TYPES)[number];
 
   /**
    * Human-readable description of the issue.
@@ -41,6 +58,11 @@ export interface HistoryWarning {
    * Suggested fix.
    */
   suggestion: string;
+
+  /**
+   * The directive that suppressed this warning, for suppressed warnings.
+   */
+  suppression?: SuppressionDirective;
 }
 
 /**
@@ -56,6 +78,28 @@ export interface HistoryAnalysisResult {
    * List of warnings found.
    */
   warnings: HistoryWarning[];
+
+  /**
+   * Warnings silenced by `temporal-ignore-*` comments.
+   */
+  suppressed: HistoryWarning[];
+
+  /**
+   * Suppression comments that did not match any warning.
+   */
+  unusedSuppressions: SuppressionDirective[];
+}
+
+/**
+ * Options for history size analysis.
+ */
+export interface AnalyzeHistorySizeOptions {
+  /**
+   * Whether suppression comments that match no warning make the result
+   * unclean.
+   * Default: false
+   */
+  failOnUnusedSuppressions?: boolean;
 }
 
 /**
@@ -78,34 +122,64 @@ export interface HistoryAnalysisResult {
 export function analyzeHistorySize(
   code: string,
   filePath?: string,
+  options: AnalyzeHistorySizeOptions = {},
 ): HistoryAnalysisResult {
+  const found: HistoryWarning[] = [];
   const warnings: HistoryWarning[] = [];
   const lines = code.split('\n');
 
   // Detect unbounded while(true) loops with activity calls
-  detectUnboundedLoops(code, lines, filePath, warnings);
+  detectUnboundedLoops(code, lines, filePath, found);
 
   // Detect signal handlers that grow lists without bounds
-  detectUnboundedSignalHandlers(code, lines, filePath, warnings);
+  detectUnboundedSignalHandlers(code, lines, filePath, found);
 
   // Detect potentially large payloads
-  detectLargePayloads(code, lines, filePath, warnings);
+  detectLargePayloads(code, lines, filePath, found);
 
   // Detect deep recursion patterns
-  detectDeepRecursion(code, lines, filePath, warnings);
+  detectDeepRecursion(code, lines, filePath, found);
+
+  // Honor suppression comments that name history warning types
+  const directives = parseSuppressions(code, filePath).filter((directive) =>
+    directive.rules.some((rule) =>
+      HISTORY_WARNING_TYPES.some((type) => matchesSuppressionRule(rule, type)),
+    ),
+  );
+  const used = new Set<SuppressionDirective>();
+  const suppressed: HistoryWarning[] = [];
+
+  for (const warning of found) {
+    const suppression = findSuppression(directives, warning.line, warning.type);
+    if (suppression) {
+      used.add(suppression);
+      suppressed.push({ ...warning, suppression });
+    } else {
+      warnings.push(warning);
+    }
+  }
+
+  const unusedSuppressions = directives.filter((directive) => !used.has(directive));
 
   return {
-    clean: warnings.length === 0,
+    clean:
+      warnings.length === 0 &&
+      !(options.failOnUnusedSuppressions && unusedSuppressions.length > 0),
     warnings,
+    suppressed,
+    unusedSuppressions,
   };
 }
 
 /**
  * Analyze a file for history size issues.
  */
-export function analyzeFileHistorySize(filePath: string): HistoryAnalysisResult {
+export function analyzeFileHistorySize(
+  filePath: string,
+  options: AnalyzeHistorySizeOptions = {},
+): HistoryAnalysisResult {
   const code = readFileSync(filePath, 'utf-8');
-  return analyzeHistorySize(code, filePath);
+  return analyzeHistorySize(code, filePath, options);
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * Tests for replaying workflow histories against bundles.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import { DefaultLogger, Runtime } from '@temporalio/worker';
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import { formatReplayHistoriesResult, replayHistories } from './history-replay';
+import type { BundleOptions } from './types';
+
+const fixturesDir = resolve(__dirname, '../test/fixtures/history-replay');
+const tempDir = resolve(__dirname, '../test/temp-history-replay');
+const historyPath = join(fixturesDir, 'histories/greeting-1.json');
+
+/**
+ * Build a fixture and write it to the temp directory.
+ */
+async function writeBundle(
+  fixture: string,
+  sourceMap: NonNullable<BundleOptions['sourceMap']>,
+): Promise<string> {
+  const bundle = await bundleWorkflowCode({
+    workflowsPath: join(fixturesDir, fixture),
+    sourceMap,
+  });
+  const bundlePath = join(tempDir, `${fixture.replace(/\.ts$/, '')}-${sourceMap}.js`);
+  writeFileSync(bundlePath, bundle.code);
+  if (bundle.sourceMap) {
+    writeFileSync(`${bundlePath}.map`, bundle.sourceMap);
+  }
+  return bundlePath;
+}
+
+describe('history-replay', () => {
+  beforeAll(() => {
+    mkdirSync(tempDir, { recursive: true });
+    Runtime.install({
+      logger: new DefaultLogger('ERROR'),
+      telemetryOptions: { logging: { filter: { core: 'ERROR' }, forward: {} } },
+    });
+  });
+
+  afterAll(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true });
+    }
+  });
+
+  describe('replayHistories', () => {
+    it('replays histories that match the bundle', async () => {
+      const bundlePath = await writeBundle('workflows.ts', 'inline');
+
+      const result = await replayHistories({ bundlePath, histories: [historyPath] });
+
+      expect(result.success).toBe(true);
+      expect(result.results).toEqual([
+        {
+          historyPath,
+          workflowId: 'greeting-1',
+          runId: '4b3c2c4e-0d9a-4a55-9a1c-2f6f3f0b1a01',
+          success: true,
+          locations: [],
+        },
+      ]);
+    });
+
+    it('reports non-determinism errors with the diverging event', async () => {
+      const bundlePath = await writeBundle('changed-workflows.ts', 'external');
+
+      const result = await replayHistories({ bundlePath, histories: [historyPath] });
+
+      expect(result.success).toBe(false);
+      expect(result.results[0]).toMatchObject({
+        success: false,
+        errorType: 'nondeterminism',
+        event: { id: 5, type: 'TimerStarted' },
+      });
+    });
+
+    it('maps workflow task failures back to the source', async () => {
+      const bundlePath = await writeBundle('broken-workflows.ts', 'inline');
+
+      const result = await replayHistories({ bundlePath, histories: [historyPath] });
+      const [replay] = result.results;
+
+      expect(replay?.errorType).toBe('replay');
+      expect(replay?.locations[0]).toMatchObject({
+        match: 'greetingWorkflow',
+        originalLine: 8,
+        originalSourceLine: "    throw new TypeError('Greeting template is missing');",
+      });
+      expect(replay?.locations[0]?.originalFile).toEndWith('broken-workflows.ts');
+      expect(formatReplayHistoriesResult(result)).toContain(
+        '0 of 1 histories replayed successfully',
+      );
+    });
+
+    it('fails on unreadable history files', async () => {
+      const bundlePath = await writeBundle('workflows.ts', 'none');
+
+      const error = await replayHistories({
+        bundlePath,
+        histories: [join(fixturesDir, 'histories/missing.json')],
+      }).catch((err: unknown) => err);
+
+      expect(String(error)).toContain('Cannot read history');
+    });
+  });
+});
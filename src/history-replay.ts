@@ -0,0 +1,509 @@
+/**
+ * Bundle-level determinism verification by replaying workflow histories.
+ *
+ * Replays exported Temporal workflow histories against a pre-built bundle
+ * with the Temporal Worker's replayer. A bundle that replays every sampled
+ * production history can be deployed without breaking running workflows.
+ */
+
+import { spawn } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { basename, resolve } from 'node:path';
+
+import { WorkflowBundleError } from './errors';
+import type { LoadBundleOptions } from './loader';
+import { loadBundle } from './loader';
+import type { ReplayUnsafePattern } from './replay-safety';
+import type { MappedViolation } from './violation-mapper';
+import { mapViolationsToSource } from './violation-mapper';
+
+type WorkerModule = typeof import('@temporalio/worker');
+type LogLevel = import('@temporalio/worker').LogLevel;
+type ReplayHistoriesIterable = Parameters<
+  WorkerModule['Worker']['runReplayHistories']
+>[1];
+
+/**
+ * Options for replaying histories against a bundle.
+ */
+export interface ReplayHistoriesOptions extends Omit<LoadBundleOptions, 'path'> {
+  /**
+   * Path to the bundle file (.js).
+   */
+  bundlePath: string;
+
+  /**
+   * Paths to workflow history JSON files, as exported by
+   * `temporal workflow show --output json` or the Temporal UI.
+   */
+  histories: string[];
+
+  /**
+   * Level of the replay Worker's own logs. When set under Node.js, the
+   * Worker runtime is installed with this level, which can only be done
+   * once per process. Under Bun, it applies to the Node.js child process.
+   * Default: 'ERROR' under Bun; under Node.js, the installed runtime's level
+   */
+  logLevel?: LogLevel;
+}
+
+/**
+ * Result of replaying a single history.
+ */
+export interface HistoryReplayResult {
+  /**
+   * Path of the history file.
+   */
+  historyPath: string;
+
+  /**
+   * Workflow ID used for the replay (the history file name).
+   */
+  workflowId: string;
+
+  /**
+   * Run ID of the replayed workflow execution.
+   */
+  runId: string;
+
+  /**
+   * Whether the history replayed without errors.
+   */
+  success: boolean;
+
+  /**
+   * Kind of failure: a non-determinism error, or any other replay error
+   * such as a failed workflow task.
+   */
+  errorType?: 'nondeterminism' | 'replay';
+
+  /**
+   * Error message reported by the replayer.
+   */
+  message?: string;
+
+  /**
+   * History event the workflow code no longer matches, if reported.
+   */
+  event?: { id: number; type: string };
+
+  /**
+   * Locations in the bundle from the error's stack trace, mapped back to
+   * the original source files.
+   */
+  locations: MappedViolation[];
+}
+
+/**
+ * Result of replaying all histories.
+ */
+export interface ReplayHistoriesResult {
+  /**
+   * Whether every history replayed without errors.
+   */
+  success: boolean;
+
+  /**
+   * Path the bundle was loaded from.
+   */
+  bundlePath: string;
+
+  /**
+   * Results for each history, in the order given.
+   */
+  results: HistoryReplayResult[];
+
+  /**
+   * Warnings from loading the bundle.
+   */
+  warnings?: string[];
+}
+
+/**
+ * History to replay, as passed to the replayer.
+ */
+interface ReplayInput {
+  workflowId: string;
+  history: unknown;
+}
+
+/**
+ * Outcome of replaying one history, from either replayer.
+ */
+interface ReplayOutcome {
+  workflowId: string;
+  runId: string;
+  error?: { name: string; message: string; stack?: string | undefined } | undefined;
+}
+
+/**
+ * Replays histories with Node.js and writes the outcomes to stdout as JSON.
+ * Run with `node -e`, with the path of @temporalio/worker as argument and
+ * the bundle code, histories and log level as JSON on stdin.
+ */
+const NODE_REPLAY_SCRIPT = `
+const { DefaultLogger, Runtime, Worker } = require(process.argv[1]);
+let input = '';
+process.stdin.setEncoding('utf-8');
+process.stdin.on('data', (chunk) => (input += chunk));
+process.stdin.on('end', async () => {
+  const { code, histories, logLevel } = JSON.parse(input);
+  Runtime.install({
+    logger: new DefaultLogger(logLevel),
+    telemetryOptions: { logging: { filter: { core: logLevel, other: logLevel }, forward: {} } },
+  });
+  const outcomes = [];
+  for await (const { workflowId, runId, error } of Worker.runReplayHistories(
+    { workflowBundle: { code } },
+    histories,
+  )) {
+    outcomes.push({
+      workflowId,
+      runId,
+      error: error && { name: error.name, message: error.message, stack: error.stack },
+    });
+  }
+  process.stdout.write(JSON.stringify(outcomes));
+});
+`;
+
+/**
+ * Pattern reported for locations of replay failures.
+ */
+const REPLAY_FAILURE_PATTERN: ReplayUnsafePattern = {
+  pattern: /$^/,
+  name: 'Replay failure',
+  reason: 'Workflow code no longer matches a recorded workflow history.',
+  suggestion:
+    'Use patched() from @temporalio/workflow to change running workflows, or restore the previous behavior.',
+  severity: 'error',
+};
+
+const INLINE_SOURCE_MAP =
+  /(?:\r?\n|^)\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,(\S+)\s*$/;
+
+/**
+ * Replay workflow histories against a pre-built bundle.
+ *
+ * The bundle is loaded with `loadBundle()` and every history is replayed
+ * with `Worker.runReplayHistories()` from `@temporalio/worker`, which must
+ * be installed. Failures are mapped back to the original source through
+ * the bundle's source map.
+ *
+ * Bun's `node:vm` does not run the workflow's promise callbacks before an
+ * activation completes, so under Bun the histories are replayed in a
+ * `node` child process, which must be on the `PATH`.
+ *
+ * @example
+ * ```typescript
+ * import { formatReplayHistoriesResult, replayHistories } from 'bundle-temporal-workflow';
+ *
+ * const result = await replayHistories({
+ *   bundlePath: './dist/workflow-bundle.js',
+ *   histories: ['./histories/order-1.json', './histories/order-2.json'],
+ * });
+ *
+ * if (!result.success) {
+ *   console.error(formatReplayHistoriesResult(result));
+ *   process.exit(1);
+ * }
+ * ```
+ */
+export async function replayHistories(
+  options: ReplayHistoriesOptions,
+): Promise<ReplayHistoriesResult> {
+  const { bundlePath, histories, logLevel, ...loadOptions } = options;
+  const loaded = loadBundle({ ...loadOptions, path: bundlePath });
+
+  // The replayer only reads inline source maps, and names the bundle after
+  // the source map's file, so stack traces point at the bundle path
+  const { code, sourceMap } = withInlineSourceMap(
+    loaded.bundle.code,
+    loaded.bundle.sourceMap,
+    loaded.path,
+  );
+
+  const inputs = histories.map((historyPath) => {
+    const path = resolve(historyPath);
+    let history: unknown;
+    try {
+      history = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (err) {
+      throw new WorkflowBundleError('CONFIG_INVALID', {
+        violations: [
+          `Cannot read history ${path}: ${err instanceof Error ? err.message : String(err)}`,
+        ],
+        hint: 'Export histories with `temporal workflow show --output json`.',
+      });
+    }
+    return { path, workflowId: basename(path).replace(/\.json$/, ''), history };
+  });
+
+  const results: HistoryReplayResult[] = [];
+  const replayInputs = inputs.map(({ workflowId, history }) => ({ workflowId, history }));
+  const replays =
+    typeof Bun !== 'undefined'
+      ? await replayInNode(code, replayInputs, logLevel ?? 'ERROR')
+      : replayInProcess(code, replayInputs, logLevel);
+
+  // Histories are replayed one at a time, in order
+  for await (const replay of replays) {
+    const input = inputs[results.length]!;
+    const result: HistoryReplayResult = {
+      historyPath: input.path,
+      workflowId: replay.workflowId,
+      runId: replay.runId,
+      success: replay.error === undefined,
+      locations: [],
+    };
+
+    if (replay.error) {
+      const details = `${replay.error.message}\n${replay.error.stack ?? ''}`;
+      result.errorType =
+        replay.error.name === 'DeterminismViolationError' ? 'nondeterminism' : 'replay';
+      result.message = replay.error.message;
+      const event = /HistoryEvent\(id: (\d+), (\w+)\)/.exec(details);
+      if (event) {
+        result.event = { id: Number(event[1]), type: event[2]! };
+      }
+      result.locations = mapStackToSource(details, loaded.path, code, sourceMap);
+    }
+
+    results.push(result);
+  }
+
+  return {
+    success: results.every((r) => r.success),
+    bundlePath: loaded.path,
+    results,
+    ...(loaded.warnings && { warnings: loaded.warnings }),
+  };
+}
+
+/**
+ * Format replay results for display.
+ */
+export function formatReplayHistoriesResult(result: ReplayHistoriesResult): string {
+  const lines: string[] = [];
+  const failed = result.results.filter((r) => !r.success);
+
+  for (const replay of result.results) {
+    if (replay.success) {
+      lines.push(`✓ ${replay.historyPath}`);
+      continue;
+    }
+
+    lines.push(`✗ ${replay.historyPath} (${replay.workflowId}, run ${replay.runId})`);
+    if (replay.event) {
+      lines.push(`  Diverged at event ${replay.event.id} (${replay.event.type})`);
+    }
+    if (replay.message) {
+      lines.push(`  ${replay.message}`);
+    }
+    for (const location of replay.locations) {
+      const file = location.originalFile ?? location.file;
+      const line = location.originalLine ?? location.line;
+      const column = location.originalColumn ?? location.column;
+      lines.push(`  at ${location.match} (${file}:${line}:${column})`);
+    }
+  }
+
+  lines.push(
+    '',
+    `${result.results.length - failed.length} of ${result.results.length} histories replayed successfully`,
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Replay histories with the replayer of this process.
+ */
+async function* replayInProcess(
+  code: string,
+  histories: ReplayInput[],
+  logLevel: LogLevel | undefined,
+): AsyncIterable<ReplayOutcome> {
+  const { DefaultLogger, Runtime, Worker } = await loadWorker();
+  if (logLevel !== undefined) {
+    Runtime.install({
+      logger: new DefaultLogger(logLevel),
+      telemetryOptions: {
+        logging: { filter: { core: logLevel, other: logLevel }, forward: {} },
+      },
+    });
+  }
+  // The replayer converts JSON histories to protobuf messages itself
+  yield* Worker.runReplayHistories(
+    { workflowBundle: { code } },
+    histories as unknown as ReplayHistoriesIterable,
+  );
+}
+
+/**
+ * Replay histories in a Node.js child process.
+ */
+async function replayInNode(
+  code: string,
+  histories: ReplayInput[],
+  logLevel: LogLevel,
+): Promise<ReplayOutcome[]> {
+  let workerPath: string;
+  try {
+    workerPath = require.resolve('@temporalio/worker');
+  } catch {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: ['@temporalio/worker is required to replay histories'],
+      hint: 'Install @temporalio/worker as a dependency.',
+    });
+  }
+
+  const output = await new Promise<string>((resolve, reject) => {
+    const child = spawn('node', ['-e', NODE_REPLAY_SCRIPT, workerPath], {
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+    let stdout = '';
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => (stdout += chunk));
+    child.on('error', reject);
+    child.on('close', (exitCode) => {
+      if (exitCode === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`Node.js replayer exited with code ${exitCode}`));
+      }
+    });
+    child.stdin.end(JSON.stringify({ code, histories, logLevel }));
+  }).catch((err: unknown) => {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: [
+        `Cannot replay histories with Node.js: ${err instanceof Error ? err.message : String(err)}`,
+      ],
+      hint: 'Replaying histories under Bun requires Node.js 18+ on the PATH.',
+    });
+  });
+
+  return JSON.parse(output) as ReplayOutcome[];
+}
+
+/**
+ * Load @temporalio/worker, which provides the replayer.
+ */
+async function loadWorker(): Promise<WorkerModule> {
+  try {
+    return await import('@temporalio/worker');
+  } catch {
+    throw new WorkflowBundleError('CONFIG_INVALID', {
+      violations: ['@temporalio/worker is required to replay histories'],
+      hint: 'Install @temporalio/worker as a dependency.',
+    });
+  }
+}
+
+/**
+ * Rewrite a bundle so that it ends with an inline source map whose file is
+ * the bundle path.
+ */
+function withInlineSourceMap(
+  code: string,
+  externalSourceMap: string | undefined,
+  bundlePath: string,
+): { code: string; sourceMap: string } {
+  const inline = INLINE_SOURCE_MAP.exec(code);
+  const json =
+    externalSourceMap ??
+    (inline ? Buffer.from(inline[1]!, 'base64').toString('utf-8') : undefined);
+
+  let sourceMap: Record<string, unknown>;
+  try {
+    sourceMap = json
+      ? (JSON.parse(json) as Record<string, unknown>)
+      : { version: 3, sources: [], names: [], mappings: '' };
+  } catch {
+    sourceMap = { version: 3, sources: [], names: [], mappings: '' };
+  }
+  sourceMap['file'] = bundlePath;
+
+  const sourceMapJson = JSON.stringify(sourceMap);
+  const bundleCode = inline ? code.slice(0, inline.index) : code.trimEnd();
+  return {
+    code: `${bundleCode}\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(sourceMapJson).toString('base64')}\n`,
+    sourceMap: sourceMapJson,
+  };
+}
+
+/**
+ * Map bundle locations in a stack trace back to user source files.
+ *
+ * Under Node.js the replayer already applies the inline source map, so
+ * frames that name a source of the map are used as they are. Frames in
+ * the Temporal workflow runtime are left out.
+ */
+function mapStackToSource(
+  stack: string,
+  bundlePath: string,
+  code: string,
+  sourceMap: string,
+): MappedViolation[] {
+  const escapedPath = bundlePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const framePattern = new RegExp(
+    `at (?:([^\\s(]+) \\()?${escapedPath}:(\\d+):(\\d+)\\)?`,
+    'g',
+  );
+  const codeLines = code.split('\n');
+
+  const frames = [...stack.matchAll(framePattern)].map((frame) => {
+    const line = Number(frame[2]);
+    return {
+      pattern: REPLAY_FAILURE_PATTERN,
+      match: frame[1] ?? '<anonymous>',
+      line,
+      column: Number(frame[3]),
+      sourceLine: codeLines[line - 1]?.trim() ?? '',
+      file: bundlePath,
+    };
+  });
+
+  const { sources = [], sourcesContent = [] } = JSON.parse(sourceMap) as {
+    sources?: string[];
+    sourcesContent?: (string | null)[];
+  };
+  const mappedFrames = [
+    ...stack.matchAll(/at (?:([^\s(]+) \()?([^\s()]+):(\d+):(\d+)\)?/g),
+  ]
+    .filter((frame) => sources.includes(frame[2]!))
+    .map((frame): MappedViolation => {
+      const file = frame[2]!;
+      const line = Number(frame[3]);
+      const column = Number(frame[4]);
+      const sourceLine =
+        sourcesContent[sources.indexOf(file)]?.split('\n')[line - 1] ?? '';
+      return {
+        pattern: REPLAY_FAILURE_PATTERN,
+        match: frame[1] ?? '<anonymous>',
+        line,
+        column,
+        sourceLine: sourceLine.trim(),
+        file: bundlePath,
+        originalFile: file,
+        originalLine: line,
+        originalColumn: column,
+        originalSourceLine: sourceLine,
+      };
+    });
+
+  const seen = new Set<string>();
+  return [...mapViolationsToSource(frames, sourceMap), ...mappedFrames].filter(
+    (location) => {
+      const key = `${location.originalFile}:${location.originalLine}`;
+      if (
+        !location.originalFile ||
+        /node_modules|@temporalio[\\/]/.test(location.originalFile) ||
+        seen.has(key)
+      ) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    },
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * Tests for the incremental build cache.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test';
+
+import { WorkflowBundleError } from './errors';
+import { bundleIncrementally, IncrementalCache } from './incremental-cache';
+import { clearBundleCache, getCachedBundle } from './loader';
+import type { CacheInvalidation } from './types';
+
+const tempDir = resolve(__dirname, '../test/temp-incremental-cache');
+const projectDir = join(tempDir, 'project');
+const cacheDir = join(tempDir, 'cache');
+const workflowsPath = join(projectDir, 'workflows.ts');
+const helperPath = join(projectDir, 'format.ts');
+
+function writeProject(): void {
+  mkdirSync(projectDir, { recursive: true });
+  writeFileSync(
+    workflowsPath,
+    `import { formatGreeting } from './format';
+
+export async function greetingWorkflow(name: string): Promise<string> {
+  return formatGreeting(name);
+}
+`,
+  );
+  writeFileSync(
+    helperPath,
+    `export function formatGreeting(name: string): string {
+  return \`Hello, \${name}!\`;
+}
+`,
+  );
+}
+
+describe('incremental-cache', () => {
+  beforeEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    writeProject();
+  });
+
+  afterAll(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true });
+    }
+  });
+
+  describe('bundleIncrementally', () => {
+    it('reuses the bundle while no input changed', async () => {
+      const invalidations: CacheInvalidation[] = [];
+      const onInvalidate = (invalidation: CacheInvalidation): void => {
+        invalidations.push(invalidation);
+      };
+
+      const first = await bundleIncrementally(
+        { workflowsPath },
+        { cacheDir, onInvalidate },
+      );
+      const second = await bundleIncrementally(
+        { workflowsPath },
+        { cacheDir, onInvalidate },
+      );
+
+      expect(first.cacheHit).toBe(false);
+      expect(first.invalidation?.reason).toBe('no-entry');
+      expect(second.cacheHit).toBe(true);
+      expect(second.bundle.code).toBe(first.bundle.code);
+      expect(invalidations).toHaveLength(1);
+    });
+
+    it('reports the inputs that changed', async () => {
+      await bundleIncrementally({ workflowsPath }, { cacheDir });
+      writeFileSync(
+        helperPath,
+        'export const formatGreeting = (name: string) => `Hi, ${name}!`;\n',
+      );
+
+      const result = await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      expect(result.cacheHit).toBe(false);
+      expect(result.invalidation).toEqual({
+        workflowsPath,
+        reason: 'inputs-changed',
+        changedInputs: [helperPath],
+        removedInputs: [],
+      });
+      expect(result.bundle.code).toContain('Hi, ');
+    });
+
+    it('reports inputs that were removed', async () => {
+      await bundleIncrementally({ workflowsPath }, { cacheDir });
+      writeFileSync(
+        workflowsPath,
+        'export async function greetingWorkflow(): Promise<string> {\n  return "Hello";\n}\n',
+      );
+      rmSync(helperPath);
+
+      const result = await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      expect(result.invalidation).toMatchObject({
+        changedInputs: [workflowsPath],
+        removedInputs: [helperPath],
+      });
+    });
+
+    it('reports changes to the project config and tsconfig.json', async () => {
+      const configPath = join(projectDir, 'temporal-bundle.config.json');
+      const tsconfigPath = join(projectDir, 'tsconfig.json');
+      writeFileSync(tsconfigPath, '{}\n');
+      await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      writeFileSync(configPath, '{}\n');
+      const added = await bundleIncrementally({ workflowsPath }, { cacheDir });
+      writeFileSync(tsconfigPath, '{ "compilerOptions": { "strict": true } }\n');
+      const changed = await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      expect(added.invalidation?.changedInputs).toEqual([configPath]);
+      expect(changed.invalidation?.changedInputs).toEqual([tsconfigPath]);
+    });
+
+    it('keeps separate entries for different options', async () => {
+      await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      const production = await bundleIncrementally(
+        { workflowsPath, mode: 'production' },
+        { cacheDir },
+      );
+      const development = await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      expect(production.invalidation?.reason).toBe('no-entry');
+      expect(development.cacheHit).toBe(true);
+    });
+
+    it('requires a key for builds with plugins', async () => {
+      const plugin = { name: 'noop', setup: () => {} };
+
+      const error = await bundleIncrementally(
+        { workflowsPath, buildOptions: { plugins: [plugin] } },
+        { cacheDir },
+      ).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WorkflowBundleError);
+      expect((error as WorkflowBundleError).code).toBe('CONFIG_INVALID');
+    });
+
+    it('keeps separate entries for different keys', async () => {
+      const options = {
+        workflowsPath,
+        buildOptions: { plugins: [{ name: 'noop', setup: () => {} }] },
+      };
+      await bundleIncrementally(options, { cacheDir, key: 'v1' });
+
+      const same = await bundleIncrementally(options, { cacheDir, key: 'v1' });
+      const other = await bundleIncrementally(options, { cacheDir, key: 'v2' });
+
+      expect(same.cacheHit).toBe(true);
+      expect(other.invalidation?.reason).toBe('no-entry');
+    });
+  });
+
+  describe('IncrementalCache', () => {
+    it('persists the metafile for later processes', async () => {
+      await bundleIncrementally({ workflowsPath }, { cacheDir });
+
+      const cache = new IncrementalCache({ cacheDir });
+
+      expect(cache.lookup({ workflowsPath }).hit).toBe(true);
+      expect(Object.keys(cache.getMetafile({ workflowsPath })?.inputs ?? {})).toContain(
+        'test/temp-incremental-cache/project/format.ts',
+      );
+
+      cache.clear();
+      expect(cache.lookup({ workflowsPath }).hit).toBe(false);
+    });
+  });
+
+  describe('getCachedBundle', () => {
+    it('falls back to the incremental cache on a memory cache miss', async () => {
+      const invalidations: CacheInvalidation[] = [];
+      const incremental = {
+        cacheDir,
+        onInvalidate: (invalidation: CacheInvalidation) =>
+          invalidations.push(invalidation),
+      };
+
+      const first = await getCachedBundle({ workflowsPath, incremental });
+      clearBundleCache();
+      const second = await getCachedBundle({ workflowsPath, incremental });
+
+      expect(second.code).toBe(first.code);
+      expect(invalidations.map((i) => i.reason)).toEqual(['no-entry']);
+    });
+  });
+});
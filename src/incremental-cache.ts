@@ -0,0 +1,378 @@
+/**
+ * Incremental build cache keyed by the module graph.
+ *
+ * Persists esbuild's metafile together with a content hash of every input
+ * it lists. A later process, even a cold one, can reuse the bundle as long
+ * as no file in the recorded graph changed, and can report exactly which
+ * inputs invalidated it.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import type * as esbuild from 'esbuild';
+
+import { bundleWorkflowCode } from './bundler';
+import { findBundleConfig } from './config';
+import { WorkflowBundleError } from './errors';
+import { findTsconfig } from './tsconfig-paths';
+import type {
+  BundleOptions,
+  CacheInvalidation,
+  IncrementalCacheOptions,
+  WorkflowBundle,
+} from './types';
+import { getBundlerVersion, getTemporalSdkVersion } from './validate';
+
+const DEFAULT_CACHE_DIR = 'node_modules/.cache/temporal-bundler/incremental';
+
+interface IncrementalCacheEntry {
+  workflowsPath: string;
+  bundle: {
+    code: string;
+    sourceMap?: string;
+    metadata?: WorkflowBundle['metadata'];
+  };
+  metafile: esbuild.Metafile;
+  inputHashes: Record<string, string>;
+  createdAt: number;
+}
+
+/**
+ * Result of looking up a bundle in the incremental cache.
+ */
+export type IncrementalCacheLookup =
+  | { hit: true; bundle: WorkflowBundle }
+  | { hit: false; invalidation: CacheInvalidation };
+
+/**
+ * Result of an incremental build.
+ */
+export interface IncrementalBuildResult {
+  /**
+   * The bundle, either reused or freshly built.
+   */
+  bundle: WorkflowBundle;
+
+  /**
+   * Whether the bundle was reused from the cache.
+   */
+  cacheHit: boolean;
+
+  /**
+   * Why the cache could not be used, for rebuilt bundles.
+   */
+  invalidation?: CacheInvalidation;
+}
+
+/**
+ * Persistent cache of bundles and the module graphs they were built from.
+ */
+export class IncrementalCache {
+  readonly cacheDir: string;
+  readonly key: string | undefined;
+
+  constructor(options: IncrementalCacheOptions = {}) {
+    this.cacheDir = resolve(options.cacheDir ?? DEFAULT_CACHE_DIR);
+    this.key = options.key;
+  }
+
+  /**
+   * Look up the bundle for the given options, checking every input in its
+   * recorded module graph and the config files the build reads.
+   */
+  lookup(options: BundleOptions): IncrementalCacheLookup {
+    const workflowsPath = resolve(options.workflowsPath);
+    const entry = this.read(this.fingerprint(options));
+
+    if (!entry) {
+      return {
+        hit: false,
+        invalidation: {
+          workflowsPath,
+          reason: 'no-entry',
+          changedInputs: [],
+          removedInputs: [],
+        },
+      };
+    }
+
+    const changedInputs: string[] = [];
+    const removedInputs: string[] = [];
+    for (const [path, hash] of Object.entries(entry.inputHashes)) {
+      const current = hashInput(path);
+      if (current === undefined) {
+        removedInputs.push(path);
+      } else if (current !== hash) {
+        changedInputs.push(path);
+      }
+    }
+
+    // A config file added since the bundle was built
+    for (const path of getConfigInputs(options)) {
+      if (!(path in entry.inputHashes)) {
+        changedInputs.push(path);
+      }
+    }
+
+    if (changedInputs.length > 0 || removedInputs.length > 0) {
+      return {
+        hit: false,
+        invalidation: {
+          workflowsPath,
+          reason: 'inputs-changed',
+          changedInputs,
+          removedInputs,
+        },
+      };
+    }
+
+    return { hit: true, bundle: entry.bundle };
+  }
+
+  /**
+   * Store a bundle with the metafile of the build that produced it.
+   *
+   * Inputs that are not files on disk (virtual modules, stubs) are left out
+   * of the graph. The project config and tsconfig.json are added to it.
+   */
+  store(
+    options: BundleOptions,
+    bundle: WorkflowBundle,
+    metafile: esbuild.Metafile,
+  ): void {
+    const workingDir = options.buildOptions?.absWorkingDir ?? process.cwd();
+    const inputHashes: Record<string, string> = {};
+
+    const inputs = Object.keys(metafile.inputs)
+      .sort()
+      .map((input) => resolve(workingDir, input));
+    for (const path of [...inputs, ...getConfigInputs(options)]) {
+      const hash = hashInput(path);
+      if (hash !== undefined) {
+        inputHashes[path] = hash;
+      }
+    }
+
+    const entry: IncrementalCacheEntry = {
+      workflowsPath: resolve(options.workflowsPath),
+      bundle: {
+        code: bundle.code,
+        ...(bundle.sourceMap !== undefined && { sourceMap: bundle.sourceMap }),
+        ...(bundle.metadata !== undefined && { metadata: bundle.metadata }),
+      },
+      metafile,
+      inputHashes,
+      createdAt: Date.now(),
+    };
+
+    if (!existsSync(this.cacheDir)) {
+      mkdirSync(this.cacheDir, { recursive: true });
+    }
+    writeFileSync(this.entryPath(this.fingerprint(options)), JSON.stringify(entry));
+  }
+
+  /**
+   * Get the metafile recorded for the given options, if any.
+   */
+  getMetafile(options: BundleOptions): esbuild.Metafile | undefined {
+    return this.read(this.fingerprint(options))?.metafile;
+  }
+
+  /**
+   * Clear all cache entries.
+   */
+  clear(): void {
+    if (!existsSync(this.cacheDir)) {
+      return;
+    }
+
+    for (const entry of readdirSync(this.cacheDir)) {
+      if (entry.endsWith('.json')) {
+        unlinkSync(join(this.cacheDir, entry));
+      }
+    }
+  }
+
+  /**
+   * Get the fingerprint of the options an entry is stored under.
+   *
+   * @throws WorkflowBundleError with code CONFIG_INVALID if the options
+   *   have plugins and the cache has no `key`
+   */
+  private fingerprint(options: BundleOptions): string {
+    const hasPlugins =
+      (options.plugins?.length ?? 0) > 0 ||
+      (options.buildOptions?.plugins?.length ?? 0) > 0;
+    if (hasPlugins && this.key === undefined) {
+      throw new WorkflowBundleError('CONFIG_INVALID', {
+        violations: ['Builds with plugins need an incremental cache key'],
+        hint:
+          'Plugin configuration cannot be compared between processes. Set ' +
+          'the `key` incremental cache option to a value that changes with it.',
+      });
+    }
+    return getOptionsFingerprint(options, this.key);
+  }
+
+  private read(fingerprint: string): IncrementalCacheEntry | undefined {
+    const entryPath = this.entryPath(fingerprint);
+    if (!existsSync(entryPath)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(readFileSync(entryPath, 'utf-8')) as IncrementalCacheEntry;
+    } catch {
+      // Corrupted entry - remove it
+      unlinkSync(entryPath);
+      return undefined;
+    }
+  }
+
+  private entryPath(fingerprint: string): string {
+    return join(this.cacheDir, `${fingerprint}.json`);
+  }
+}
+
+/**
+ * Bundle workflow code, reusing the last bundle built with the same options
+ * if no input in its module graph changed.
+ *
+ * Unlike `getCachedBundle()`, which only watches the workflows entry file
+ * and lives in memory, the module graph is persisted, so a new process
+ * (CI job, test worker) can skip the build. Changes to any imported file,
+ * including dependencies in node_modules, invalidate the cache.
+ *
+ * Module graphs are recorded from esbuild's metafile, so only the esbuild
+ * backend populates the cache.
+ *
+ * @example
+ * ```typescript
+ * import { bundleIncrementally } from 'bundle-temporal-workflow';
+ *
+ * const { bundle, cacheHit, invalidation } = await bundleIncrementally(
+ *   { workflowsPath: './src/workflows.ts' },
+ *   { cacheDir: '.cache/workflows' },
+ * );
+ *
+ * if (!cacheHit && invalidation?.reason === 'inputs-changed') {
+ *   console.log('Rebuilt because of', invalidation.changedInputs);
+ * }
+ * ```
+ */
+export async function bundleIncrementally(
+  options: BundleOptions,
+  cacheOptions: IncrementalCacheOptions = {},
+): Promise<IncrementalBuildResult> {
+  const cache = new IncrementalCache(cacheOptions);
+  const lookup = cache.lookup(options);
+
+  if (lookup.hit) {
+    options.logger?.debug('Reusing incrementally cached bundle', {
+      workflowsPath: options.workflowsPath,
+    });
+    return { bundle: lookup.bundle, cacheHit: true };
+  }
+
+  const { invalidation } = lookup;
+  cacheOptions.onInvalidate?.(invalidation);
+  options.logger?.info('Incremental cache invalidated', {
+    reason: invalidation.reason,
+    changedInputs: invalidation.changedInputs,
+    removedInputs: invalidation.removedInputs,
+  });
+
+  let metafile: esbuild.Metafile | undefined;
+  const bundle = await bundleWorkflowCode({
+    ...options,
+    buildOptions: {
+      ...options.buildOptions,
+      plugins: [
+        ...(options.buildOptions?.plugins ?? []),
+        {
+          name: 'temporal-incremental-cache',
+          setup(build) {
+            build.onEnd((result) => {
+              metafile = result.metafile;
+            });
+          },
+        },
+      ],
+    },
+  });
+
+  if (metafile) {
+    cache.store(options, bundle, metafile);
+  }
+
+  return { bundle, cacheHit: false, invalidation };
+}
+
+/**
+ * Hash the options that affect the bundle output, together with the cache
+ * key and the bundler and SDK versions.
+ */
+function getOptionsFingerprint(options: BundleOptions, key: string | undefined): string {
+  const { logger: _logger, ...rest } = options;
+  const serialized = JSON.stringify(
+    { ...rest, workflowsPath: resolve(options.workflowsPath), cacheKey: key },
+    // Functions cannot be compared; the cache key stands in for plugins
+    (_key, value: unknown) =>
+      value instanceof RegExp
+        ? String(value)
+        : typeof value === 'function'
+          ? undefined
+          : value,
+  );
+
+  return new Bun.CryptoHasher('sha256')
+    .update(serialized)
+    .update(getBundlerVersion())
+    .update(getTemporalSdkVersion() ?? 'unknown')
+    .digest('hex');
+}
+
+/**
+ * Get the config files a build reads besides its module graph: the project
+ * config (`temporal-bundle.config.*`) and the tsconfig.json esbuild uses.
+ */
+function getConfigInputs(options: BundleOptions): string[] {
+  const workflowsPath = resolve(options.workflowsPath);
+  if (!existsSync(workflowsPath)) {
+    return [];
+  }
+
+  const configPath =
+    options.configPath === false
+      ? undefined
+      : (options.configPath ?? findBundleConfig(workflowsPath));
+  const tsconfigPath =
+    typeof options.tsconfigPath === 'string'
+      ? options.tsconfigPath
+      : (options.buildOptions?.tsconfig ?? findTsconfig(workflowsPath));
+
+  return [configPath, tsconfigPath]
+    .filter((path): path is string => path !== undefined)
+    .map((path) => resolve(path));
+}
+
+/**
+ * Hash a file in the module graph.
+ *
+ * @returns The content hash, or undefined if the file does not exist
+ */
+function hashInput(path: string): string | undefined {
+  if (!existsSync(path) || !statSync(path).isFile()) {
+    return undefined;
+  }
+  return new Bun.CryptoHasher('sha256').update(readFileSync(path)).digest('hex');
+}
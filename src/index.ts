@@ -23,7 +23,7 @@
  */
 
 // Main API
-export type { WatchCallback, WatchHandle } from './bundler';
+export type { SharedBundleResult, WatchCallback, WatchHandle } from './bundler';
 export {
   bundleWorkflowCode,
   createConsoleLogger,
@@ -52,29 +52,45 @@ export { WorkflowBundleError } from './errors';
 export type {
   ActivityBundle,
   ActivityBundleOptions,
+  ActivityDiagnostic,
+  ActivityValidationOptions,
   BuildMetadata,
+  BuiltinExemption,
   BundleComparison,
   BundleContext,
   BundleMetadata,
   BundleOptions,
   BundlerPlugin,
   BundleSizeBudget,
+  CacheInvalidation,
   ContentHashOptions,
   CrossRuntimeConfig,
   DeterminismPolicy,
   DiskCacheOptions,
+  DuplicatedModule,
   ExportValidationResult,
   ExtendedBundlerPlugin,
   ImportMap,
+  IncrementalCacheOptions,
   InputFlavor,
   InstrumentationOptions,
   Logger,
+  MockTarget,
   ModuleSizeInfo,
   MultiBundleOptions,
+  MultiBundleResult,
   PackageBoundaries,
+  QueueBuildTiming,
+  QueueBundleOptions,
   QueueConfig,
+  QueueWatchBatch,
+  RelaxedDeterminismOptions,
   SdkCompatibility,
+  SerializabilityIssue,
   SignedBundle,
+  SignedBundleEnvelope,
+  SignedBundleHashes,
+  SignedBundleSignature,
   SizeAnalysisResult,
   TestBundleOptions,
   TypeCheckOptions,
@@ -82,17 +98,26 @@ export type {
   UrlImportCache,
   ValidationOptions,
   ValidationResult,
+  VirtualMock,
+  WatchBuildResult,
   WatchCoordinatorOptions,
   WatchOptions,
   WorkflowBundle,
   WorkflowBundleErrorCode,
   WorkflowBundleErrorContext,
+  WorkflowHandlerInfo,
   WorkflowInfo,
   WorkflowManifest,
+  WorkflowParameterInfo,
+  WorkflowPayloadKind,
 } from './types';
 
 // Validation
-export type { EnhancedValidationResult, ValidateBundleOptions } from './validate';
+export type {
+  EnhancedValidationResult,
+  ValidateBundleOptions,
+  ValidateBundleStructureOptions,
+} from './validate';
 export {
   validateBundle,
   validateBundleDetailed,
@@ -100,31 +125,106 @@ export {
 } from './validate';
 
 // Manifest generation
-export type { GenerateManifestOptions, ManifestDiff } from './manifest';
+export type {
+  GenerateManifestOptions,
+  ManifestChange,
+  ManifestChangeSeverity,
+  ManifestCompatibility,
+  ManifestDiff,
+} from './manifest';
 export {
+  checkManifestCompatibility,
   compareManifests,
+  formatManifestCompatibility,
   generateManifest,
   parseManifest,
   serializeManifest,
 } from './manifest';
 
+// Workflow interface extraction
+export type { WorkflowSignature } from './workflow-signatures';
+export { extractWorkflowSignatures } from './workflow-signatures';
+
 // Replay safety analysis
 export type {
   AnalyzeReplaySafetyOptions,
   ReplaySafetyResult,
+  ReplaySeverityOverride,
+  ReplayUnsafeApi,
   ReplayUnsafePattern,
   ReplayViolation,
 } from './replay-safety';
 export {
   analyzeFileReplaySafety,
   analyzeReplaySafety,
+  applyReplaySeverityOverrides,
+  applyReplaySuppressions,
   formatReplayViolations,
+  isReplaySuppression,
   REPLAY_UNSAFE_PATTERNS,
 } from './replay-safety';
 
+// Interprocedural replay safety analysis
+export type {
+  AnalyzeWorkflowReplaySafetyOptions,
+  ReplayCallStep,
+  TransitiveReplayViolation,
+  WorkflowReplaySafetyResult,
+} from './replay-taint';
+export {
+  analyzeWorkflowReplaySafety,
+  formatTransitiveReplayViolations,
+} from './replay-taint';
+
+// Top-level side effect detection
+export type {
+  AnalyzeTopLevelSideEffectsOptions,
+  TopLevelSideEffect,
+  TopLevelSideEffectKind,
+  TopLevelSideEffectOverride,
+  TopLevelSideEffectsResult,
+} from './side-effects';
+export {
+  analyzeTopLevelSideEffects,
+  formatTopLevelSideEffects,
+  TOP_LEVEL_SIDE_EFFECT_KINDS,
+} from './side-effects';
+
+// Inline suppression comments
+export type { SuppressionDirective } from './suppressions';
+export {
+  findSuppression,
+  formatSuppression,
+  matchesSuppressionRule,
+  parseSuppressions,
+} from './suppressions';
+
+// Project config file
+export type {
+  DeterminismConfig,
+  LoadedBundleConfig,
+  ReplayPatternConfig,
+  SeverityOverrideConfig,
+  SideEffectOverrideConfig,
+  SideEffectsConfig,
+  TemporalBundleConfig,
+} from './config';
+export {
+  applyDeterminismConfig,
+  CONFIG_FILE_NAMES,
+  defineConfig,
+  findBundleConfig,
+  getReplaySafetyOptions,
+  getSideEffectOptions,
+  getWorkspaceBundleOptions,
+  loadBundleConfig,
+  resolveBundleConfig,
+} from './config';
+
 // Policy (for advanced usage)
 export {
   ALLOWED_BUILTINS,
+  findExemption,
   getModuleOverridePath,
   isAllowedBuiltin,
   isForbidden,
@@ -178,15 +278,27 @@ export { computeBundleContentHash, hashFileContent } from './content-hash';
 // Disk cache
 export { createDiskCache, DiskCache } from './disk-cache';
 
+// Incremental cache
+export type { IncrementalBuildResult, IncrementalCacheLookup } from './incremental-cache';
+export { bundleIncrementally, IncrementalCache } from './incremental-cache';
+
 // ============================================================
 // Phase 2: Multi-Workflow Orchestration
 // ============================================================
 
 // Multi-bundle
-export { bundleMultipleWorkflows, createMultiBundlers } from './multi-bundle';
+export {
+  bundleMultipleWorkflows,
+  bundleMultipleWorkflowsDetailed,
+  createMultiBundlers,
+  resolveQueueActivityOptions,
+  resolveQueueBundleOptions,
+} from './multi-bundle';
 
 // Activity bundling
-export { bundleActivityCode } from './activity-bundler';
+export type { ActivityWatchCallback } from './activity-bundler';
+export { bundleActivityCode, watchActivityCode } from './activity-bundler';
+export { validateActivityModuleGraph } from './activity-validation';
 
 // Coordinated watch mode
 export type { CoordinatedWatchHandle } from './watch-coordinator';
@@ -220,7 +332,11 @@ export {
 } from './alternatives';
 
 // History analysis
-export type { HistoryAnalysisResult, HistoryWarning } from './history-analysis';
+export type {
+  AnalyzeHistorySizeOptions,
+  HistoryAnalysisResult,
+  HistoryWarning,
+} from './history-analysis';
 export { analyzeFileHistorySize, analyzeHistorySize } from './history-analysis';
 
 // ============================================================
@@ -234,8 +350,29 @@ export {
 } from './export-validation';
 
 // Activity type validation
+export type { ValidateActivityTypesOptions } from './activity-types';
 export { validateActivityTypes, validateActivityTypesFromSource } from './activity-types';
 
+// Workflow type validation
+export type { ValidateWorkflowTypesOptions } from './workflow-types';
+export { validateWorkflowTypes } from './workflow-types';
+
+// Payload serializability
+export type { SerializabilityOptions } from './serializability';
+export {
+  findSerializabilityIssues,
+  formatSerializabilityIssue,
+  getPayloadConverterTypes,
+} from './serializability';
+
+// Activity signature extraction
+export type {
+  ActivityParameter,
+  ActivitySignature,
+  ExtractActivitySignaturesOptions,
+} from './activity-signatures';
+export { extractActivitySignatures } from './activity-signatures';
+
 // Boundary enforcement
 export type { BoundaryCheckResult, BoundaryViolation } from './boundary-enforcement';
 export {
@@ -262,7 +399,7 @@ export {
 } from './sourcemap-utils';
 
 // CI output
-export type { CIReport } from './ci-output';
+export type { CIReport, CISuppression } from './ci-output';
 export {
   formatCIReportText,
   formatGitHubAnnotations,
@@ -273,6 +410,14 @@ export {
 export type { DeterminismVerifyResult } from './determinism-verify';
 export { verifyDeterministicBuild } from './determinism-verify';
 
+// History replay
+export type {
+  HistoryReplayResult,
+  ReplayHistoriesOptions,
+  ReplayHistoriesResult,
+} from './history-replay';
+export { formatReplayHistoriesResult, replayHistories } from './history-replay';
+
 // ============================================================
 // Phase 7: Plugin System Enhancements
 // ============================================================
@@ -288,7 +433,7 @@ export {
 } from './plugin-utils';
 
 // Tree shaking
-export type { PreserveExportsOptions } from './tree-shaking';
+export type { PreserveExportsOptions, PreserveExportsReport } from './tree-shaking';
 export { analyzeRequiredExports, createPreserveExportsPlugin } from './tree-shaking';
 
 // ============================================================
@@ -300,8 +445,14 @@ export type { TypeCheckDiagnostic, TypeCheckResult } from './typescript-check';
 export { typeCheckWorkflows } from './typescript-check';
 
 // Declaration generation
+export type {
+  GenerateWorkflowClientOptions,
+  GenerateWorkflowDeclarationsOptions,
+} from './dts-generator';
 export {
+  emitWorkflowDeclarations,
   generateDeclarationContent,
+  generateWorkflowClientContent,
   generateWorkflowDeclarations,
 } from './dts-generator';
 
@@ -317,6 +468,7 @@ export {
   createInstrumentationPlugin,
   generateActivityTracing,
   generateWorkflowTracing,
+  TRACE_MESSAGE_PREFIX,
 } from './instrumentation';
 
 // ============================================================
@@ -324,7 +476,7 @@ export {
 // ============================================================
 
 // Test mode bundling
-export { bundleForTesting } from './test-mode';
+export { bundleForTesting, defineMock } from './test-mode';
 
 // ============================================================
 // Phase 11: Bundle Signing
@@ -338,3 +490,30 @@ export {
   verifyBundle,
   verifyBundleWithKey,
 } from './signing';
+
+// Signed bundle files
+export type {
+  ReadSignedBundleResult,
+  SignBundleEnvelopeOptions,
+  SignedBundleVerification,
+} from './bundle-envelope';
+export {
+  createSignedBundleEnvelope,
+  isSignedBundleEnvelope,
+  parseSignedBundleEnvelope,
+  readSignedBundle,
+  readSignedBundleContents,
+  serializeSignedBundleEnvelope,
+  SIGNED_BUNDLE_FORMAT,
+  verifySignedBundleEnvelope,
+  writeSignedBundle,
+} from './bundle-envelope';
+
+// Trusted signing keys
+export type {
+  BundleTrustPolicy,
+  BundleTrustResult,
+  ResolvedTrustedKey,
+  TrustedKey,
+} from './trust-store';
+export { checkBundleTrust, getPublicKeyId, loadTrustedKeys } from './trust-store';
@@ -0,0 +1,244 @@
+/**
+ * Tests for development-mode instrumentation.
+ */
+
+import { resolve } from 'node:path';
+import { runInThisContext } from 'node:vm';
+
+import { describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import {
+  createInstrumentationPlugin,
+  generateActivityTracing,
+  generateWorkflowTracing,
+  TRACE_MESSAGE_PREFIX,
+} from './instrumentation';
+
+const workflowsPath = resolve(__dirname, '../test/fixtures/basic-workflow/workflows.ts');
+
+interface LoggedEvent {
+  message: string;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Evaluate a generated CommonJS module with the given dependencies.
+ */
+function evaluateModule(
+  code: string,
+  dependencies: Record<string, unknown>,
+): Record<string, unknown> {
+  const module = { exports: {} as Record<string, unknown> };
+  const require = (id: string): unknown => dependencies[id];
+  const factory = runInThisContext(`(function (require, module, exports) {${code}})`) as (
+    ...args: unknown[]
+  ) => void;
+  factory(require, module, module.exports);
+  return module.exports;
+}
+
+function createLog(events: LoggedEvent[]): { info: (...args: unknown[]) => void } {
+  return {
+    info: (message, attributes) =>
+      events.push({
+        message: message as string,
+        attributes: attributes as Record<string, unknown>,
+      }),
+  };
+}
+
+describe('instrumentation', () => {
+  describe('createInstrumentationPlugin', () => {
+    it('wraps workflows and activity proxies in development builds', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        buildOptions: {
+          plugins: [
+            createInstrumentationPlugin({
+              traceWorkflowCalls: true,
+              traceActivityCalls: true,
+            }),
+          ],
+        },
+      });
+
+      expect(bundle.code).toContain(`${TRACE_MESSAGE_PREFIX} Workflow started`);
+      expect(bundle.code).toContain(`${TRACE_MESSAGE_PREFIX} Activity scheduled`);
+      expect(bundle.code).toContain('greetingWorkflow');
+    });
+
+    it('only adds the requested tracing', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        buildOptions: {
+          plugins: [createInstrumentationPlugin({ traceActivityCalls: true })],
+        },
+      });
+
+      expect(bundle.code).toContain(`${TRACE_MESSAGE_PREFIX} Activity scheduled`);
+      expect(bundle.code).not.toContain(`${TRACE_MESSAGE_PREFIX} Workflow started`);
+    });
+
+    it('adds nothing to production builds', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        mode: 'production',
+        buildOptions: {
+          plugins: [
+            createInstrumentationPlugin({
+              traceWorkflowCalls: true,
+              traceActivityCalls: true,
+              mode: 'production',
+            }),
+          ],
+        },
+      });
+
+      expect(bundle.code).not.toContain(TRACE_MESSAGE_PREFIX);
+    });
+
+    it('takes the mode from the bundler options', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        mode: 'production',
+        buildOptions: {
+          plugins: [createInstrumentationPlugin({ traceWorkflowCalls: true })],
+        },
+      });
+
+      expect(bundle.code).not.toContain(TRACE_MESSAGE_PREFIX);
+    });
+
+    it('keeps a mode set on the plugin', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        mode: 'production',
+        buildOptions: {
+          plugins: [
+            createInstrumentationPlugin({
+              traceWorkflowCalls: true,
+              mode: 'development',
+            }),
+          ],
+        },
+      });
+
+      expect(bundle.code).toContain(TRACE_MESSAGE_PREFIX);
+    });
+
+    it('detects production builds from process.env.NODE_ENV', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        buildOptions: {
+          define: { 'process.env.NODE_ENV': '"production"' },
+          plugins: [createInstrumentationPlugin({ traceWorkflowCalls: true })],
+        },
+      });
+
+      expect(bundle.code).not.toContain(TRACE_MESSAGE_PREFIX);
+    });
+
+    it('fails production builds that contain trace code', async () => {
+      const error = await bundleWorkflowCode({
+        workflowsPath,
+        buildOptions: {
+          plugins: [
+            createInstrumentationPlugin({ traceWorkflowCalls: true }),
+            createInstrumentationPlugin({ mode: 'production' }),
+          ],
+        },
+      }).catch((err: unknown) => err);
+
+      expect(String(error)).toContain('Instrumentation code found in production bundle');
+    });
+  });
+
+  describe('generateWorkflowTracing', () => {
+    it('emits start and completion events', async () => {
+      const events: LoggedEvent[] = [];
+      const traced = evaluateModule(generateWorkflowTracing('./workflows'), {
+        '@temporalio/workflow': { log: createLog(events) },
+        './workflows': {
+          orderWorkflow: async (id: string) => `order ${id}`,
+          orderSignal: { name: 'order' },
+        },
+      });
+
+      const result = await (traced['orderWorkflow'] as (id: string) => Promise<string>)(
+        '42',
+      );
+
+      expect(result).toBe('order 42');
+      expect(traced['orderSignal']).toEqual({ name: 'order' });
+      expect(events.map((e) => e.attributes['traceEvent'])).toEqual([
+        'workflow.started',
+        'workflow.completed',
+      ]);
+      expect(events[1]?.attributes).toMatchObject({
+        workflowType: 'orderWorkflow',
+        durationMs: expect.any(Number),
+      });
+    });
+
+    it('emits failure events and rethrows', async () => {
+      const events: LoggedEvent[] = [];
+      const traced = evaluateModule(generateWorkflowTracing('./workflows'), {
+        '@temporalio/workflow': { log: createLog(events) },
+        './workflows': {
+          failingWorkflow: async () => {
+            throw new Error('boom');
+          },
+        },
+      });
+
+      const error = await (traced['failingWorkflow'] as () => Promise<void>)().catch(
+        (err: unknown) => err,
+      );
+
+      expect((error as Error).message).toBe('boom');
+      expect(events[1]?.attributes).toMatchObject({
+        traceEvent: 'workflow.failed',
+        error: 'boom',
+      });
+    });
+  });
+
+  describe('generateActivityTracing', () => {
+    it('traces calls on activity proxies and keeps other exports', async () => {
+      const events: LoggedEvent[] = [];
+      const sleep = async (): Promise<void> => {};
+      const workflow = evaluateModule(generateActivityTracing(), {
+        '@temporalio/workflow': {
+          log: createLog(events),
+          sleep,
+          proxyActivities: () => ({ greet: async (name: string) => `hi ${name}` }),
+          proxyLocalActivities: () => ({ lookup: async () => 1 }),
+        },
+      });
+
+      const proxyActivities = workflow['proxyActivities'] as (
+        options: unknown,
+      ) => Record<string, (...args: unknown[]) => Promise<unknown>>;
+      const proxyLocalActivities = workflow[
+        'proxyLocalActivities'
+      ] as typeof proxyActivities;
+      const { greet } = proxyActivities({ startToCloseTimeout: '1 minute' });
+      const { lookup } = proxyLocalActivities({ startToCloseTimeout: '1 minute' });
+
+      expect(await greet!('Temporal')).toBe('hi Temporal');
+      await lookup!();
+
+      expect(workflow['sleep']).toBe(sleep);
+      expect(events.map((e) => e.attributes)).toEqual([
+        { traceEvent: 'activity.scheduled', activityType: 'greet', local: false },
+        expect.objectContaining({
+          traceEvent: 'activity.completed',
+          activityType: 'greet',
+        }),
+        { traceEvent: 'activity.scheduled', activityType: 'lookup', local: true },
+        expect.objectContaining({ traceEvent: 'activity.completed', local: true }),
+      ]);
+    });
+  });
+});
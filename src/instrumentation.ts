@@ -2,32 +2,61 @@
  * Development-mode instrumentation for workflow debugging.
  *
  * Adds tracing and debugging hooks to workflow and activity calls
- * during development. Instrumentation is tree-shaken in production builds.
+ * during development. Instrumentation is left out of production builds.
  */
 
+import { dirname } from 'node:path';
+
 import type * as esbuild from 'esbuild';
 
+import { getEntrypointWorkflowsPath } from './entrypoint';
 import type { InstrumentationOptions } from './types';
 
 /**
  * Default instrumentation options.
  */
-const DEFAULT_OPTIONS: Required<InstrumentationOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<InstrumentationOptions, 'mode'>> = {
   traceWorkflowCalls: false,
   traceActivityCalls: false,
   treeShakeInProduction: true,
 };
 
+/**
+ * Prefix of every trace message. Production bundles are checked for it.
+ */
+export const TRACE_MESSAGE_PREFIX = '[TEMPORAL_TRACE]';
+
+/**
+ * Namespace for the generated tracing modules.
+ */
+const NAMESPACE = 'temporal-instrumentation';
+
+/**
+ * Path of the generated workflows module. It must not look like a source
+ * file, or the Temporal plugin would load the real workflows file for it.
+ */
+const TRACED_WORKFLOWS_PATH = 'traced-workflows';
+
+/**
+ * Options of the plugins created by `createInstrumentationPlugin()`, so the
+ * bundler can pass its mode to them.
+ */
+const pluginOptions = new WeakMap<esbuild.Plugin, InstrumentationOptions>();
+
 /**
  * Create an esbuild plugin that injects development instrumentation.
  *
- * In development mode, adds console.log tracing for:
- * - Workflow function entry/exit
- * - Activity proxy calls
- * - Signal and query handlers
+ * In development mode, emits structured trace events through the workflow
+ * logger for:
+ * - Workflow function start, completion and failure
+ * - Activity calls made through proxyActivities() and proxyLocalActivities()
+ *
+ * The workflow logger is replay-aware, so no events are emitted while a
+ * workflow replays its history.
  *
- * In production mode (when treeShakeInProduction is true), the
- * instrumentation code is removed entirely.
+ * In production mode (when treeShakeInProduction is true), no
+ * instrumentation is added, and the build fails if any trace code ends up
+ * in the bundle.
  *
  * @example
  * ```typescript
@@ -49,87 +78,215 @@ export function createInstrumentationPlugin(
 ): esbuild.Plugin {
   const resolved = { ...DEFAULT_OPTIONS, ...options };
 
-  return {
+  const plugin: esbuild.Plugin = {
     name: 'temporal-instrumentation',
     setup(build) {
       // Only instrument in development
       const initialOptions = build.initialOptions;
       const isProduction =
-        initialOptions.define?.['process.env.NODE_ENV'] === '"production"';
+        resolved.mode === 'production' ||
+        (resolved.mode === undefined &&
+          initialOptions.define?.['process.env.NODE_ENV'] === '"production"');
 
       if (isProduction && resolved.treeShakeInProduction) {
-        // Replace instrumentation calls with no-ops
-        build.onLoad({ filter: /\.[mc]?[jt]sx?$/ }, (args) => {
-          if (args.path.includes('node_modules')) {
+        // Nothing is injected; make sure no trace code slipped in anyway
+        build.onEnd((result) => {
+          const traced = (result.outputFiles ?? []).filter((file) =>
+            file.text.includes(TRACE_MESSAGE_PREFIX),
+          );
+          return {
+            errors: traced.map((file) => ({
+              text: `Instrumentation code found in production bundle: ${file.path}`,
+            })),
+          };
+        });
+        return;
+      }
+
+      const entrypoint = initialOptions.stdin;
+      const workflowsPath =
+        entrypoint?.contents !== undefined
+          ? getEntrypointWorkflowsPath(String(entrypoint.contents))
+          : undefined;
+
+      // Wrap the workflows module required by the synthetic entrypoint
+      if (resolved.traceWorkflowCalls && workflowsPath) {
+        build.onResolve({ filter: /.*/ }, (args) => {
+          if (
+            args.namespace === NAMESPACE ||
+            args.kind !== 'require-call' ||
+            args.importer !== entrypoint?.sourcefile ||
+            args.path !== workflowsPath
+          ) {
             return undefined;
           }
-          return undefined; // No transformation needed in production
+          return { path: TRACED_WORKFLOWS_PATH, namespace: NAMESPACE };
         });
-        return;
+
+        build.onLoad({ filter: /^traced-workflows$/, namespace: NAMESPACE }, () => ({
+          contents: generateWorkflowTracing(workflowsPath),
+          resolveDir: dirname(workflowsPath),
+          loader: 'js',
+        }));
       }
 
-      // In development, inject tracing code
-      if (resolved.traceWorkflowCalls || resolved.traceActivityCalls) {
-        build.onLoad({ filter: /\.[mc]?[jt]sx?$/ }, (args) => {
-          if (args.path.includes('node_modules')) {
+      // Replace @temporalio/workflow in user code with a module whose
+      // activity proxies are traced
+      if (resolved.traceActivityCalls) {
+        build.onResolve({ filter: /^@temporalio\/workflow$/ }, (args) => {
+          if (
+            args.namespace === NAMESPACE ||
+            args.importer.includes('node_modules') ||
+            !args.resolveDir
+          ) {
             return undefined;
           }
-          return undefined; // Tracing is opt-in via the options
+          return {
+            path: '@temporalio/workflow',
+            namespace: NAMESPACE,
+            pluginData: { resolveDir: args.resolveDir },
+          };
         });
+
+        build.onLoad(
+          { filter: /^@temporalio\/workflow$/, namespace: NAMESPACE },
+          (args) => {
+            const { resolveDir } = args.pluginData as { resolveDir: string };
+            return {
+              contents: generateActivityTracing(),
+              resolveDir,
+              loader: 'js',
+            };
+          },
+        );
       }
     },
   };
+  pluginOptions.set(plugin, options);
+  return plugin;
+}
+
+/**
+ * Pass the bundler's build mode to the instrumentation plugins in a plugin
+ * list.
+ *
+ * In production builds, plugins created without a `mode` are replaced by
+ * production ones. Development builds keep them as they are, so they can
+ * still detect production from `process.env.NODE_ENV`. Other plugins are
+ * returned unchanged.
+ */
+export function withBuildMode(
+  plugins: esbuild.Plugin[] | undefined,
+  mode: 'development' | 'production',
+): esbuild.Plugin[] {
+  return (plugins ?? []).map((plugin) => {
+    const options = pluginOptions.get(plugin);
+    return mode === 'production' && options && options.mode === undefined
+      ? createInstrumentationPlugin({ ...options, mode })
+      : plugin;
+  });
 }
 
 /**
- * Generate instrumentation wrapper code for a workflow function.
+ * Generate a module that re-exports a workflows module with every
+ * workflow function traced.
+ *
+ * Used by the instrumentation plugin in place of the workflows module.
  */
-export function generateWorkflowTracing(functionName: string): string {
-  return `
-    const __original_${functionName} = ${functionName};
-    ${functionName} = async function(...args) {
-      console.log('[TEMPORAL_TRACE] Workflow started:', '${functionName}', args);
-      const __start = Date.now();
-      try {
-        const result = await __original_${functionName}.apply(this, args);
-        console.log('[TEMPORAL_TRACE] Workflow completed:', '${functionName}', 'duration:', Date.now() - __start, 'ms');
-        return result;
-      } catch (error) {
-        console.log('[TEMPORAL_TRACE] Workflow failed:', '${functionName}', error);
-        throw error;
-      }
-    };
-  `;
+export function generateWorkflowTracing(workflowsPath: string): string {
+  return `// Auto-generated workflow tracing
+const { log } = require('@temporalio/workflow');
+const workflows = require(${JSON.stringify(workflowsPath)});
+
+function traceWorkflow(workflowType, workflow) {
+  return async function (...args) {
+    log.info('${TRACE_MESSAGE_PREFIX} Workflow started', {
+      traceEvent: 'workflow.started',
+      workflowType,
+    });
+    const start = Date.now();
+    try {
+      const result = await workflow.apply(this, args);
+      log.info('${TRACE_MESSAGE_PREFIX} Workflow completed', {
+        traceEvent: 'workflow.completed',
+        workflowType,
+        durationMs: Date.now() - start,
+      });
+      return result;
+    } catch (error) {
+      log.info('${TRACE_MESSAGE_PREFIX} Workflow failed', {
+        traceEvent: 'workflow.failed',
+        workflowType,
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+for (const [name, value] of Object.entries(workflows)) {
+  exports[name] = typeof value === 'function' ? traceWorkflow(name, value) : value;
+}
+`;
 }
 
 /**
- * Generate instrumentation wrapper code for activity tracing.
+ * Generate a module that re-exports @temporalio/workflow with
+ * proxyActivities() and proxyLocalActivities() returning traced proxies.
+ *
+ * Used by the instrumentation plugin in place of @temporalio/workflow.
  */
 export function generateActivityTracing(): string {
-  return `
-    const __originalProxyActivities = proxyActivities;
-    proxyActivities = function(options) {
-      const proxy = __originalProxyActivities(options);
-      return new Proxy(proxy, {
-        get(target, prop) {
-          const original = target[prop];
-          if (typeof original === 'function') {
-            return async function(...args) {
-              console.log('[TEMPORAL_TRACE] Activity called:', String(prop), args);
-              const __start = Date.now();
-              try {
-                const result = await original.apply(target, args);
-                console.log('[TEMPORAL_TRACE] Activity completed:', String(prop), 'duration:', Date.now() - __start, 'ms');
-                return result;
-              } catch (error) {
-                console.log('[TEMPORAL_TRACE] Activity failed:', String(prop), error);
-                throw error;
-              }
-            };
-          }
-          return original;
+  return `// Auto-generated activity tracing
+const workflow = require('@temporalio/workflow');
+
+function traceActivities(activities, local) {
+  return new Proxy(activities, {
+    get(target, activityType) {
+      const activity = target[activityType];
+      if (typeof activityType !== 'string' || typeof activity !== 'function') {
+        return activity;
+      }
+      return async function (...args) {
+        workflow.log.info('${TRACE_MESSAGE_PREFIX} Activity scheduled', {
+          traceEvent: 'activity.scheduled',
+          activityType,
+          local,
+        });
+        const start = Date.now();
+        try {
+          const result = await activity(...args);
+          workflow.log.info('${TRACE_MESSAGE_PREFIX} Activity completed', {
+            traceEvent: 'activity.completed',
+            activityType,
+            local,
+            durationMs: Date.now() - start,
+          });
+          return result;
+        } catch (error) {
+          workflow.log.info('${TRACE_MESSAGE_PREFIX} Activity failed', {
+            traceEvent: 'activity.failed',
+            activityType,
+            local,
+            durationMs: Date.now() - start,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
         }
-      });
-    };
-  `;
+      };
+    },
+  });
+}
+
+module.exports = {
+  ...workflow,
+  proxyActivities(options) {
+    return traceActivities(workflow.proxyActivities(options), false);
+  },
+  proxyLocalActivities(options) {
+    return traceActivities(workflow.proxyLocalActivities(options), true);
+  },
+};
+`;
 }
@@ -2,12 +2,13 @@
  * Tests for the bundle loader and caching utilities.
  */
 
-import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 
 import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
 
 import { type BundlerMode, describeBundlerModes } from '../test/bundler-modes';
+import { writeSignedBundle } from './bundle-envelope';
 import { bundleWorkflowCode } from './bundler';
 import {
   clearBundleCache,
@@ -16,6 +17,8 @@ import {
   loadBundle,
   preloadBundles,
 } from './loader';
+import { generateManifest } from './manifest';
+import { generateSigningKeyPair } from './signing';
 
 const fixturesDir = resolve(__dirname, '../test/fixtures');
 const tempDir = resolve(__dirname, '../test/temp-loader');
@@ -108,6 +111,72 @@ describeBundlerModes('loader', (bundler: BundlerMode) => {
       // (The bundle itself is valid, just version mismatch)
       expect(result.bundle.code).toBeDefined();
     });
+
+    it('loads and verifies signed bundle files', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath: resolve(fixturesDir, 'basic-workflow/workflows.ts'),
+        sourceMap: 'external',
+        bundler,
+      });
+      const { privateKey, publicKey } = await generateSigningKeyPair();
+      const manifest = generateManifest({
+        workflowsPath: resolve(fixturesDir, 'basic-workflow/workflows.ts'),
+        bundleCode: bundle.code,
+        includeSignatures: false,
+      });
+
+      const signedPath = join(tempDir, `signed-bundle-${bundler}.signed.json`);
+      writeSignedBundle(signedPath, bundle, privateKey, { manifest });
+
+      const result = loadBundle({ path: signedPath });
+
+      expect(result.bundle.code).toBe(bundle.code);
+      expect(result.bundle.sourceMap).toBe(bundle.sourceMap);
+      expect(result.manifest).toEqual(manifest);
+      expect(result.signature).toMatchObject({ valid: true, publicKey });
+
+      const envelope = JSON.parse(readFileSync(signedPath, 'utf-8')) as Record<
+        string,
+        unknown
+      >;
+      writeFileSync(signedPath, JSON.stringify({ ...envelope, sourceMap: '{}' }));
+
+      expect(() => loadBundle({ path: signedPath })).toThrow(
+        'sourceMap does not match its signed hash',
+      );
+    });
+
+    it('only loads bundles signed by trusted keys', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath: resolve(fixturesDir, 'basic-workflow/workflows.ts'),
+        bundler,
+      });
+      const release = await generateSigningKeyPair();
+      const other = await generateSigningKeyPair();
+      const trust = { keys: [{ id: 'release', publicKey: release.publicKey }] };
+
+      const signedPath = join(tempDir, `trusted-bundle-${bundler}.signed.json`);
+      writeSignedBundle(signedPath, bundle, release.privateKey);
+
+      const result = loadBundle({ path: signedPath, trust });
+      expect(result.signedBy).toBe('release');
+
+      const untrustedPath = join(tempDir, `untrusted-bundle-${bundler}.signed.json`);
+      writeSignedBundle(untrustedPath, bundle, other.privateKey);
+      expect(() => loadBundle({ path: untrustedPath, trust })).toThrow(
+        'Bundle is signed by an untrusted key',
+      );
+
+      const unsignedPath = join(tempDir, `unsigned-bundle-${bundler}.js`);
+      writeFileSync(unsignedPath, bundle.code);
+      expect(() => loadBundle({ path: unsignedPath, trust })).toThrow(
+        `Bundle is not signed: ${unsignedPath}`,
+      );
+      expect(
+        loadBundle({ path: unsignedPath, trust: { ...trust, allowUnsigned: true } })
+          .signedBy,
+      ).toBeUndefined();
+    });
   });
 
   describe('getCachedBundle', () => {
@@ -8,9 +8,19 @@
 import { existsSync, readFileSync, statSync } from 'node:fs';
 import { resolve } from 'node:path';
 
+import type { SignedBundleVerification } from './bundle-envelope';
+import { isSignedBundleEnvelope, readSignedBundleContents } from './bundle-envelope';
 import { bundleWorkflowCode } from './bundler';
 import { WorkflowBundleError } from './errors';
-import type { BundleOptions, WorkflowBundle } from './types';
+import { bundleIncrementally } from './incremental-cache';
+import type { BundleTrustPolicy } from './trust-store';
+import { checkBundleTrust } from './trust-store';
+import type {
+  BundleOptions,
+  IncrementalCacheOptions,
+  WorkflowBundle,
+  WorkflowManifest,
+} from './types';
 import { validateBundle, validateBundleStructure } from './validate';
 
 /**
@@ -18,13 +28,15 @@ import { validateBundle, validateBundleStructure } from './validate';
  */
 export interface LoadBundleOptions {
   /**
-   * Path to the bundle file (.js).
+   * Path to the bundle file (.js), or to a signed bundle file written by
+   * `writeSignedBundle()`.
    */
   path: string;
 
   /**
    * Path to source map file (.js.map). Optional.
-   * If not provided, looks for {path}.map
+   * If not provided, looks for {path}.map. Not used for signed bundle
+   * files, which contain their source map.
    */
   sourceMapPath?: string;
 
@@ -39,6 +51,12 @@ export interface LoadBundleOptions {
    * If provided, warns if bundle was built with different version.
    */
   expectedSdkVersion?: string;
+
+  /**
+   * Only load signed bundle files signed by a trusted key. Unsigned
+   * bundles are refused unless `allowUnsigned` is set.
+   */
+  trust?: BundleTrustPolicy;
 }
 
 /**
@@ -59,6 +77,22 @@ export interface LoadBundleResult {
    * Path the bundle was loaded from.
    */
   path: string;
+
+  /**
+   * Manifest of the workflows in the bundle, for signed bundle files that
+   * contain one.
+   */
+  manifest?: WorkflowManifest | undefined;
+
+  /**
+   * Signature of the bundle, for signed bundle files.
+   */
+  signature?: SignedBundleVerification | undefined;
+
+  /**
+   * ID of the trusted key that signed the bundle, when `trust` is set.
+   */
+  signedBy?: string | undefined;
 }
 
 /**
@@ -67,6 +101,11 @@ export interface LoadBundleResult {
  * Use this when you've pre-built your bundle (e.g., in CI) and want to
  * load it at worker startup time without rebuilding.
  *
+ * Signed bundle files are verified before they are loaded: a file whose
+ * code, source map, manifest or metadata was modified after signing throws
+ * a `WorkflowBundleError` with code `SIGNATURE_INVALID`. With `trust`, a
+ * bundle that is not signed by a trusted key throws `BUNDLE_UNTRUSTED`.
+ *
  * @example
  * ```typescript
  * import { loadBundle } from 'bundle-temporal-workflow';
@@ -96,28 +135,25 @@ export function loadBundle(options: LoadBundleOptions): LoadBundleResult {
     });
   }
 
-  // Read bundle code
-  const code = readFileSync(bundlePath, 'utf-8');
-
-  // Try to read source map
-  let sourceMap: string | undefined;
-  const mapPath = options.sourceMapPath
-    ? resolve(options.sourceMapPath)
-    : `${bundlePath}.map`;
-
-  if (existsSync(mapPath)) {
-    sourceMap = readFileSync(mapPath, 'utf-8');
+  const contents = readFileSync(bundlePath, 'utf-8');
+  const signed = isSignedBundleEnvelope(contents)
+    ? readSignedBundleContents(contents, bundlePath)
+    : undefined;
+  const bundle = signed?.bundle ?? readBundleFiles(contents, bundlePath, options);
+  const { code } = bundle;
+
+  // Check provenance before anything looks at the code
+  let signedBy: string | undefined;
+  if (options.trust) {
+    const trust = checkBundleTrust(signed?.verification, options.trust);
+    if (!trust.trusted) {
+      throw new WorkflowBundleError('BUNDLE_UNTRUSTED', {
+        details: `${trust.reason ?? 'Untrusted bundle'}: ${bundlePath}`,
+      });
+    }
+    signedBy = trust.key?.id;
   }
 
-  // Try to read metadata (stored as JSON comment at start of bundle)
-  const metadata = extractMetadataFromBundle(code);
-
-  const bundle: WorkflowBundle = {
-    code,
-    sourceMap,
-    metadata,
-  };
-
   const allWarnings: string[] = [];
 
   // Validate structure if requested
@@ -147,6 +183,36 @@ export function loadBundle(options: LoadBundleOptions): LoadBundleResult {
     bundle,
     warnings: allWarnings.length > 0 ? allWarnings : undefined,
     path: bundlePath,
+    ...(signed && { manifest: signed.manifest, signature: signed.verification }),
+    ...(signedBy !== undefined && { signedBy }),
+  };
+}
+
+/**
+ * Build a bundle from bundle code and the source map next to it.
+ */
+function readBundleFiles(
+  code: string,
+  bundlePath: string,
+  options: LoadBundleOptions,
+): WorkflowBundle {
+  // Try to read source map
+  let sourceMap: string | undefined;
+  const mapPath = options.sourceMapPath
+    ? resolve(options.sourceMapPath)
+    : `${bundlePath}.map`;
+
+  if (existsSync(mapPath)) {
+    sourceMap = readFileSync(mapPath, 'utf-8');
+  }
+
+  // Try to read metadata (stored as JSON comment at start of bundle)
+  const metadata = extractMetadataFromBundle(code);
+
+  return {
+    code,
+    sourceMap,
+    metadata,
   };
 }
 
@@ -241,6 +307,13 @@ export interface GetCachedBundleOptions extends BundleOptions {
    * Default: false
    */
   useContentHash?: boolean;
+
+  /**
+   * Persist the bundle with its module graph, so that other processes can
+   * reuse it until a file in the graph changes. See `bundleIncrementally()`.
+   * Default: false
+   */
+  incremental?: boolean | IncrementalCacheOptions;
 }
 
 /**
@@ -255,6 +328,10 @@ export interface GetCachedBundleOptions extends BundleOptions {
  * - Bundle options change
  * - forceRebuild is set to true
  *
+ * With `incremental`, an in-memory cache miss falls back to the persistent
+ * incremental cache, which is only invalidated by changes to files in the
+ * bundle's module graph.
+ *
  * @example
  * ```typescript
  * import { getCachedBundle } from 'bundle-temporal-workflow';
@@ -326,7 +403,16 @@ export async function getCachedBundle(
   }
 
   // Build bundle
-  const bundle = await bundleWorkflowCode(options);
+  const { forceRebuild, useContentHash, incremental, ...bundleOptions } = options;
+  let bundle: WorkflowBundle;
+  if (incremental && !forceRebuild) {
+    ({ bundle } = await bundleIncrementally(
+      bundleOptions,
+      incremental === true ? {} : incremental,
+    ));
+  } else {
+    bundle = await bundleWorkflowCode(bundleOptions);
+  }
 
   // Store in cache
   bundleCache.set(cacheKey, {
@@ -2,13 +2,15 @@
  * Tests for workflow manifest generation.
  */
 
-import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { join, resolve } from 'node:path';
 
 import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
 
 import {
+  checkManifestCompatibility,
   compareManifests,
+  formatManifestCompatibility,
   generateManifest,
   parseManifest,
   serializeManifest,
@@ -16,6 +18,17 @@ import {
 import type { WorkflowManifest } from './types';
 
 const tempDir = resolve(__dirname, '../test/temp-manifest');
+const diffFixturesDir = resolve(__dirname, '../test/fixtures/manifest-diff');
+
+// Resolving signatures builds a TypeScript program
+const SIGNATURES_TIMEOUT = 30_000;
+
+/**
+ * Load a manifest fixture.
+ */
+function loadManifest(name: string): WorkflowManifest {
+  return parseManifest(readFileSync(join(diffFixturesDir, name), 'utf-8'));
+}
 
 describe('manifest', () => {
   beforeAll(() => {
@@ -177,6 +190,41 @@ export async function _helper() {
 
       expect(manifest.workflows).toEqual([]);
     });
+
+    it(
+      'includes workflow signatures and message handlers',
+      () => {
+        const manifest = generateManifest({
+          workflowsPath: resolve(
+            __dirname,
+            '../test/fixtures/workflow-interface/workflows.ts',
+          ),
+          bundleCode: 'mock bundle code',
+        });
+        const cart = manifest.workflows.find((w) => w.name === 'cartWorkflow');
+
+        expect(cart?.params?.map((p) => p.name)).toEqual(['input']);
+        expect(cart?.returnType).toBe('{ items: { sku: string; quantity: number }[] }');
+        expect(cart?.signals?.map((s) => s.name)).toEqual(['addItem', 'checkout']);
+        expect(cart?.queries?.map((q) => q.name)).toEqual(['getItems']);
+        expect(cart?.updates?.map((u) => u.name)).toEqual(['setDiscount']);
+      },
+      SIGNATURES_TIMEOUT,
+    );
+
+    it('omits signatures when includeSignatures is false', () => {
+      const manifest = generateManifest({
+        workflowsPath: resolve(
+          __dirname,
+          '../test/fixtures/workflow-interface/workflows.ts',
+        ),
+        bundleCode: 'mock bundle code',
+        includeSignatures: false,
+      });
+
+      expect(manifest.workflows[0]?.params).toBeUndefined();
+      expect(manifest.workflows[0]?.signals).toBeUndefined();
+    });
   });
 
   describe('serializeManifest and parseManifest', () => {
@@ -317,4 +365,97 @@ export async function _helper() {
       expect(diff.workflowsModified).toEqual([]);
     });
   });
+
+  describe('checkManifestCompatibility', () => {
+    const result = checkManifestCompatibility(
+      loadManifest('old.json'),
+      loadManifest('new.json'),
+    );
+
+    it('classifies breaking changes', () => {
+      expect(result.compatible).toBe(false);
+      expect(
+        result.changes.filter((c) => c.severity === 'breaking').map((c) => c.message),
+      ).toEqual([
+        'Workflow "orderWorkflow" signal "approve": parameter 1 (approver) type changed from string to number',
+        'Workflow "orderWorkflow" signal "cancel" handler was removed',
+        'Workflow "legacyWorkflow" was removed',
+      ]);
+    });
+
+    it('classifies safe changes', () => {
+      expect(
+        result.changes.filter((c) => c.severity === 'safe').map((c) => c.kind),
+      ).toEqual(['handler-added', 'workflow-modified', 'workflow-added']);
+    });
+
+    it('flags new required parameters and optional parameters made required', () => {
+      const base: WorkflowManifest = {
+        version: 1,
+        generatedAt: '',
+        bundleHash: '',
+        workflows: [
+          {
+            name: 'wf',
+            params: [{ name: 'a', type: 'string', optional: true }],
+            returnType: 'void',
+          },
+        ],
+      };
+      const changed: WorkflowManifest = {
+        ...base,
+        workflows: [
+          {
+            name: 'wf',
+            params: [
+              { name: 'a', type: 'string', optional: false },
+              { name: 'b', type: 'number', optional: false },
+            ],
+            returnType: 'string',
+          },
+        ],
+      };
+
+      expect(
+        checkManifestCompatibility(base, changed).changes.map((c) => c.message),
+      ).toEqual([
+        'Workflow "wf": parameter 1 (a) is now required',
+        'Workflow "wf": required parameter 2 (b) was added',
+        'Workflow "wf": return type changed from void to string',
+      ]);
+    });
+
+    it('reports workflows without types in either manifest as breaking', () => {
+      const withoutTypes = loadManifest('old.json');
+      withoutTypes.workflows = withoutTypes.workflows.map(({ name }) => ({ name }));
+
+      const check = checkManifestCompatibility(withoutTypes, loadManifest('old.json'));
+
+      expect(check.compatible).toBe(false);
+      expect(check.changes.map((c) => [c.kind, c.message])).toEqual([
+        [
+          'signatures-missing',
+          'Workflow "orderWorkflow": types cannot be compared, the old manifest has no signatures',
+        ],
+        [
+          'signatures-missing',
+          'Workflow "legacyWorkflow": types cannot be compared, the old manifest has no signatures',
+        ],
+      ]);
+      expect(
+        checkManifestCompatibility(loadManifest('old.json'), withoutTypes).changes[0]
+          ?.message,
+      ).toBe(
+        'Workflow "orderWorkflow": types cannot be compared, the new manifest has no signatures',
+      );
+    });
+
+    it('formats the result', () => {
+      const output = formatManifestCompatibility(result);
+
+      expect(output).toContain('Breaking changes (3):');
+      expect(output).toContain('Safe changes (3):');
+      expect(output).toContain('  - Workflow "refundWorkflow" was added');
+    });
+  });
 });
@@ -9,8 +9,9 @@ import { createHash } from 'node:crypto';
 import { existsSync, readFileSync, statSync } from 'node:fs';
 import { join } from 'node:path';
 
-import type { WorkflowInfo, WorkflowManifest } from './types';
+import type { WorkflowInfo, WorkflowManifest, WorkflowParameterInfo } from './types';
 import { getBundlerVersion, getTemporalSdkVersion } from './validate';
+import { extractWorkflowSignatures } from './workflow-signatures';
 
 /**
  * Options for manifest generation.
@@ -31,6 +32,21 @@ export interface GenerateManifestOptions {
    * Default: true
    */
   includeSourceHashes?: boolean;
+
+  /**
+   * Whether to include each workflow's parameter and return types and the
+   * signals, queries and updates it handles. Requires the optional
+   * `typescript` peer dependency; skipped when it is not installed.
+   * Building the type checker program takes seconds on large projects.
+   * Default: true
+   */
+  includeSignatures?: boolean;
+
+  /**
+   * Path to tsconfig.json used to resolve workflow types. Default: the
+   * nearest tsconfig.json to the workflows file, if any.
+   */
+  tsconfigPath?: string;
 }
 
 /**
@@ -39,6 +55,8 @@ export interface GenerateManifestOptions {
  * The manifest contains:
  * - Stable workflow names (export names from the source)
  * - Source hashes for change detection
+ * - Parameter and return types, and the signals, queries and updates each
+ *   workflow handles, when `typescript` is installed
  * - Metadata for debugging
  *
  * @example
@@ -50,16 +68,27 @@ export interface GenerateManifestOptions {
  * });
  *
  * console.log('Workflows:', manifest.workflows.map(w => w.name));
+ * console.log('Signals:', manifest.workflows.flatMap(w => w.signals ?? []));
  * ```
  */
 export function generateManifest(options: GenerateManifestOptions): WorkflowManifest {
-  const { workflowsPath, bundleCode, includeSourceHashes = true } = options;
+  const {
+    workflowsPath,
+    bundleCode,
+    includeSourceHashes = true,
+    includeSignatures = true,
+  } = options;
 
   // Generate bundle hash
   const bundleHash = createHash('sha256').update(bundleCode).digest('hex').slice(0, 16);
 
   // Extract workflow exports from the source
-  const workflows = extractWorkflowExports(workflowsPath, includeSourceHashes);
+  const entryPath = resolveWorkflowsEntry(workflowsPath);
+  const workflows = entryPath ? extractFromFile(entryPath, includeSourceHashes) : [];
+
+  if (entryPath && includeSignatures) {
+    addWorkflowSignatures(workflows, entryPath, options.tsconfigPath);
+  }
 
   const sdkVersion = getTemporalSdkVersion();
 
@@ -75,20 +104,18 @@ export function generateManifest(options: GenerateManifestOptions): WorkflowMani
 }
 
 /**
- * Extract workflow exports from the source file(s).
+ * Resolve the workflows source file, looking for an index file in
+ * directories.
  */
-function extractWorkflowExports(
-  workflowsPath: string,
-  includeSourceHashes: boolean,
-): WorkflowInfo[] {
+function resolveWorkflowsEntry(workflowsPath: string): string | undefined {
   if (!existsSync(workflowsPath)) {
-    return [];
+    return undefined;
   }
 
   const stat = statSync(workflowsPath);
 
   if (stat.isFile()) {
-    return extractFromFile(workflowsPath, includeSourceHashes);
+    return workflowsPath;
   }
 
   // If directory, look for index file
@@ -99,13 +126,34 @@ function extractWorkflowExports(
     join(workflowsPath, 'index.mjs'),
   ];
 
-  for (const indexPath of indexPaths) {
-    if (existsSync(indexPath)) {
-      return extractFromFile(indexPath, includeSourceHashes);
-    }
-  }
+  return indexPaths.find((indexPath) => existsSync(indexPath));
+}
 
-  return [];
+/**
+ * Add the interfaces resolved with the TypeScript checker to the
+ * workflows found in the source.
+ */
+function addWorkflowSignatures(
+  workflows: WorkflowInfo[],
+  entryPath: string,
+  tsconfigPath: string | undefined,
+): void {
+  const signatures = extractWorkflowSignatures(
+    entryPath,
+    tsconfigPath !== undefined ? { tsconfigPath } : {},
+  );
+  const byName = new Map(signatures?.map((signature) => [signature.name, signature]));
+
+  for (const workflow of workflows) {
+    const signature = byName.get(workflow.name);
+    if (!signature) continue;
+
+    workflow.params = signature.params;
+    workflow.returnType = signature.returnType;
+    workflow.signals = signature.signals;
+    workflow.queries = signature.queries;
+    workflow.updates = signature.updates;
+  }
 }
 
 /**
@@ -324,3 +372,310 @@ export interface ManifestDiff {
    */
   workflowsModified: string[];
 }
+
+/**
+ * Whether a manifest change breaks clients or running executions.
+ */
+export type ManifestChangeSeverity = 'breaking' | 'safe';
+
+/**
+ * A change to a workflow's interface between two manifests.
+ */
+export interface ManifestChange {
+  /**
+   * Whether the change is breaking or safe.
+   */
+  severity: ManifestChangeSeverity;
+
+  /**
+   * What changed.
+   */
+  kind:
+    | 'workflow-added'
+    | 'workflow-removed'
+    | 'workflow-modified'
+    | 'parameters-changed'
+    | 'return-type-changed'
+    | 'handler-added'
+    | 'handler-removed'
+    | 'signatures-missing';
+
+  /**
+   * Name of the workflow.
+   */
+  workflow: string;
+
+  /**
+   * The signal, query or update, for handler changes.
+   */
+  handler?: { kind: 'signal' | 'query' | 'update'; name: string };
+
+  /**
+   * Human-readable description of the change.
+   */
+  message: string;
+}
+
+/**
+ * Result of a manifest compatibility check.
+ */
+export interface ManifestCompatibility {
+  /**
+   * Whether the new manifest has no breaking changes.
+   */
+  compatible: boolean;
+
+  /**
+   * Every change, breaking changes first.
+   */
+  changes: ManifestChange[];
+}
+
+/**
+ * Check whether a new manifest is compatible with clients and running
+ * executions of an old one.
+ *
+ * Breaking changes:
+ * - a workflow is removed
+ * - a signal, query or update handler is removed
+ * - a parameter or message argument is removed, has its type changed,
+ *   becomes required, or a required one is added
+ * - the return type of a workflow, query or update changes
+ *
+ * Added workflows and handlers, new optional trailing parameters and
+ * source-only changes are safe. Source changes can still break replay;
+ * verify them with `replayHistories()`. A workflow whose types are missing
+ * from either manifest (see `GenerateManifestOptions.includeSignatures`)
+ * cannot be checked and is reported as breaking.
+ *
+ * @example
+ * ```typescript
+ * const result = checkManifestCompatibility(deployedManifest, newManifest);
+ *
+ * if (!result.compatible) {
+ *   console.error(formatManifestCompatibility(result));
+ *   process.exit(1);
+ * }
+ * ```
+ */
+export function checkManifestCompatibility(
+  oldManifest: WorkflowManifest,
+  newManifest: WorkflowManifest,
+): ManifestCompatibility {
+  const changes: ManifestChange[] = [];
+  const newWorkflows = new Map(newManifest.workflows.map((w) => [w.name, w]));
+  const oldNames = new Set(oldManifest.workflows.map((w) => w.name));
+
+  for (const oldInfo of oldManifest.workflows) {
+    const workflow = oldInfo.name;
+    const newInfo = newWorkflows.get(workflow);
+    if (!newInfo) {
+      changes.push({
+        severity: 'breaking',
+        kind: 'workflow-removed',
+        workflow,
+        message: `Workflow "${workflow}" was removed`,
+      });
+      continue;
+    }
+
+    if (!oldInfo.params || !newInfo.params) {
+      const missingFrom =
+        !oldInfo.params && !newInfo.params
+          ? 'either'
+          : !oldInfo.params
+            ? 'the old'
+            : 'the new';
+      changes.push({
+        severity: 'breaking',
+        kind: 'signatures-missing',
+        workflow,
+        message: `Workflow "${workflow}": types cannot be compared, ${missingFrom} manifest has no signatures`,
+      });
+    } else {
+      changes.push(
+        ...compareParameters(oldInfo.params, newInfo.params).map(
+          (detail): ManifestChange => ({
+            severity: 'breaking',
+            kind: 'parameters-changed',
+            workflow,
+            message: `Workflow "${workflow}": ${detail}`,
+          }),
+        ),
+      );
+      if (oldInfo.returnType !== newInfo.returnType) {
+        changes.push({
+          severity: 'breaking',
+          kind: 'return-type-changed',
+          workflow,
+          message: `Workflow "${workflow}": return type changed from ${oldInfo.returnType ?? 'void'} to ${newInfo.returnType ?? 'void'}`,
+        });
+      }
+
+      for (const kind of ['signal', 'query', 'update'] as const) {
+        changes.push(...compareHandlers(workflow, kind, oldInfo, newInfo));
+      }
+    }
+
+    if (
+      oldInfo.sourceHash &&
+      newInfo.sourceHash &&
+      oldInfo.sourceHash !== newInfo.sourceHash
+    ) {
+      changes.push({
+        severity: 'safe',
+        kind: 'workflow-modified',
+        workflow,
+        message: `Workflow "${workflow}" source changed`,
+      });
+    }
+  }
+
+  for (const newInfo of newManifest.workflows) {
+    if (!oldNames.has(newInfo.name)) {
+      changes.push({
+        severity: 'safe',
+        kind: 'workflow-added',
+        workflow: newInfo.name,
+        message: `Workflow "${newInfo.name}" was added`,
+      });
+    }
+  }
+
+  // Stable sort keeps workflow order within each severity
+  changes.sort((a, b) => Number(a.severity === 'safe') - Number(b.severity === 'safe'));
+
+  return {
+    compatible: changes.every((change) => change.severity === 'safe'),
+    changes,
+  };
+}
+
+const HANDLER_LISTS = {
+  signal: 'signals',
+  query: 'queries',
+  update: 'updates',
+} as const;
+
+/**
+ * Compare the handlers of one kind registered by a workflow.
+ */
+function compareHandlers(
+  workflow: string,
+  kind: 'signal' | 'query' | 'update',
+  oldInfo: WorkflowInfo,
+  newInfo: WorkflowInfo,
+): ManifestChange[] {
+  const oldHandlers = oldInfo[HANDLER_LISTS[kind]] ?? [];
+  const newHandlers = newInfo[HANDLER_LISTS[kind]] ?? [];
+  const changes: ManifestChange[] = [];
+  const newByName = new Map(newHandlers.map((h) => [h.name, h]));
+  const oldNames = new Set(oldHandlers.map((h) => h.name));
+
+  for (const oldHandler of oldHandlers) {
+    const handler = { kind, name: oldHandler.name };
+    const label = `Workflow "${workflow}" ${kind} "${oldHandler.name}"`;
+    const newHandler = newByName.get(oldHandler.name);
+    if (!newHandler) {
+      changes.push({
+        severity: 'breaking',
+        kind: 'handler-removed',
+        workflow,
+        handler,
+        message: `${label} handler was removed`,
+      });
+      continue;
+    }
+
+    for (const detail of compareParameters(oldHandler.args, newHandler.args)) {
+      changes.push({
+        severity: 'breaking',
+        kind: 'parameters-changed',
+        workflow,
+        handler,
+        message: `${label}: ${detail}`,
+      });
+    }
+    if (oldHandler.returnType !== newHandler.returnType) {
+      changes.push({
+        severity: 'breaking',
+        kind: 'return-type-changed',
+        workflow,
+        handler,
+        message: `${label}: return type changed from ${oldHandler.returnType ?? 'void'} to ${newHandler.returnType ?? 'void'}`,
+      });
+    }
+  }
+
+  for (const newHandler of newHandlers) {
+    if (!oldNames.has(newHandler.name)) {
+      changes.push({
+        severity: 'safe',
+        kind: 'handler-added',
+        workflow,
+        handler: { kind, name: newHandler.name },
+        message: `Workflow "${workflow}" ${kind} "${newHandler.name}" handler was added`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Describe the breaking differences between two parameter lists.
+ * Parameters are matched by position, since payloads are positional.
+ */
+function compareParameters(
+  oldParams: WorkflowParameterInfo[],
+  newParams: WorkflowParameterInfo[],
+): string[] {
+  const details: string[] = [];
+
+  oldParams.forEach((oldParam, index) => {
+    const newParam = newParams[index];
+    const position = `parameter ${index + 1} (${oldParam.name})`;
+    if (!newParam) {
+      details.push(`${position} was removed`);
+    } else if (oldParam.type !== newParam.type) {
+      details.push(`${position} type changed from ${oldParam.type} to ${newParam.type}`);
+    } else if (oldParam.optional && !newParam.optional) {
+      details.push(`${position} is now required`);
+    }
+  });
+
+  newParams.slice(oldParams.length).forEach((newParam, offset) => {
+    if (!newParam.optional) {
+      details.push(
+        `required parameter ${oldParams.length + offset + 1} (${newParam.name}) was added`,
+      );
+    }
+  });
+
+  return details;
+}
+
+/**
+ * Format a manifest compatibility check for display.
+ */
+export function formatManifestCompatibility(result: ManifestCompatibility): string {
+  if (result.changes.length === 0) {
+    return 'No workflow interface changes.';
+  }
+
+  const lines: string[] = [];
+  const breaking = result.changes.filter((c) => c.severity === 'breaking');
+  const safe = result.changes.filter((c) => c.severity === 'safe');
+
+  if (breaking.length > 0) {
+    lines.push(`Breaking changes (${breaking.length}):`);
+    lines.push(...breaking.map((change) => `  - ${change.message}`));
+  }
+  if (safe.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(`Safe changes (${safe.length}):`);
+    lines.push(...safe.map((change) => `  - ${change.message}`));
+  }
+
+  return lines.join('\n');
+}
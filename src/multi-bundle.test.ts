@@ -0,0 +1,208 @@
+/**
+ * Tests for multi-queue bundling.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { WorkflowBundleError } from './errors';
+import {
+  bundleMultipleWorkflows,
+  bundleMultipleWorkflowsDetailed,
+  resolveQueueActivityOptions,
+  resolveQueueBundleOptions,
+} from './multi-bundle';
+
+const fixturesDir = resolve(__dirname, '../test/fixtures');
+
+const queues = [
+  { name: 'orders', workflowsPath: resolve(fixturesDir, 'multi-queue/orders.ts') },
+  { name: 'users', workflowsPath: resolve(fixturesDir, 'multi-queue/users.ts') },
+];
+
+describe('multi-bundle', () => {
+  describe('bundleMultipleWorkflows', () => {
+    it('builds a separate bundle for each queue', async () => {
+      const bundles = await bundleMultipleWorkflows({ queues });
+
+      expect([...bundles.keys()]).toEqual(['orders', 'users']);
+      expect(bundles.get('orders')?.code).toContain('orderWorkflow');
+      expect(bundles.get('orders')?.code).not.toContain('onboardingWorkflow');
+      expect(bundles.get('users')?.code).toContain('onboardingWorkflow');
+      expect(bundles.get('users')?.code).toContain('formatReference');
+      expect(bundles.get('users')?.metadata?.entryHash).not.toBe(
+        bundles.get('orders')?.metadata?.entryHash,
+      );
+    });
+
+    it('fails if any queue imports a forbidden module', async () => {
+      const error = await bundleMultipleWorkflows({
+        queues: [
+          ...queues,
+          {
+            name: 'forbidden',
+            workflowsPath: resolve(fixturesDir, 'forbidden-import/workflows.ts'),
+          },
+        ],
+      }).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WorkflowBundleError);
+      expect((error as WorkflowBundleError).code).toBe('FORBIDDEN_MODULES');
+    });
+
+    it('applies per-queue option overrides', async () => {
+      const bundles = await bundleMultipleWorkflows({
+        queues: [
+          ...queues,
+          {
+            name: 'forbidden',
+            workflowsPath: resolve(fixturesDir, 'forbidden-import/workflows.ts'),
+            options: { ignoreModules: ['fs'] },
+          },
+        ],
+      });
+
+      expect(bundles.get('forbidden')?.metadata?.externals).toEqual(['fs']);
+      expect(bundles.get('orders')?.metadata?.externals).toBeUndefined();
+    });
+
+    it('fails if a queue exceeds its size budget', async () => {
+      const error = await bundleMultipleWorkflows({
+        queues: [{ ...queues[0]!, budget: { total: 1024 } }, queues[1]!],
+      }).catch((err: unknown) => err);
+
+      expect((error as WorkflowBundleError).code).toBe('BUILD_FAILED');
+      expect(String(error)).toContain('orders: Bundle size');
+      expect(String(error)).not.toContain('users:');
+    });
+  });
+
+  describe('resolveQueueBundleOptions', () => {
+    it('merges queue options over the shared options', () => {
+      const logger = { trace() {}, debug() {}, info() {}, warn() {}, error() {} };
+
+      const options = resolveQueueBundleOptions(
+        {
+          name: 'orders',
+          workflowsPath: '/src/orders.ts',
+          options: {
+            mode: 'production',
+            ignoreModules: ['dns', 'fs'],
+            payloadConverterPath: '/src/converter.ts',
+          },
+        },
+        { mode: 'development', sourceMap: 'none', ignoreModules: ['fs'], logger },
+      );
+
+      expect(options).toEqual({
+        workflowsPath: '/src/orders.ts',
+        tsconfigPath: undefined,
+        mode: 'production',
+        sourceMap: 'none',
+        logger,
+        payloadConverterPath: '/src/converter.ts',
+        plugins: undefined,
+        ignoreModules: ['fs', 'dns'],
+      });
+    });
+  });
+
+  describe('resolveQueueActivityOptions', () => {
+    it('passes the merged options that apply to activity bundles', () => {
+      const logger = { trace() {}, debug() {}, info() {}, warn() {}, error() {} };
+
+      const options = resolveQueueActivityOptions(
+        {
+          name: 'orders',
+          workflowsPath: '/src/orders.ts',
+          activitiesPath: '/src/activities.ts',
+          options: { sourceMap: 'external', ignoreModules: ['pg'] },
+        },
+        { sourceMap: 'none', tsconfigPath: '/tsconfig.json', logger },
+      );
+
+      expect(options).toEqual({
+        activitiesPath: '/src/activities.ts',
+        logger,
+        sourceMap: 'external',
+        tsconfigPath: '/tsconfig.json',
+        external: ['pg'],
+      });
+    });
+
+    it('returns undefined for queues without activities', () => {
+      expect(
+        resolveQueueActivityOptions({ name: 'users', workflowsPath: '/src/users.ts' }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('bundleMultipleWorkflowsDetailed', () => {
+    it('reports modules duplicated across queues', async () => {
+      const { duplicates } = await bundleMultipleWorkflowsDetailed({ queues });
+
+      const shared = duplicates.find((d) =>
+        d.path.endsWith('multi-queue/shared/format.ts'),
+      );
+      expect(shared?.queues).toEqual(['orders', 'users']);
+      expect(shared?.bytes).toBeGreaterThan(0);
+      expect(duplicates.some((d) => d.path.includes('@temporalio/workflow'))).toBe(true);
+      expect(duplicates.some((d) => d.path.endsWith('orders.ts'))).toBe(false);
+    });
+
+    it('reports per-queue timings', async () => {
+      const { bundles, timings } = await bundleMultipleWorkflowsDetailed({ queues });
+
+      for (const [name, bundle] of bundles) {
+        expect(timings.get(name)).toMatchObject({
+          sharedWith: ['orders', 'users'],
+          size: bundle.code.length,
+        });
+        expect(timings.get(name)?.moduleCount).toBeGreaterThan(1);
+      }
+    });
+
+    it('builds queues with a different project config separately', async () => {
+      const { bundles, timings } = await bundleMultipleWorkflowsDetailed({
+        queues: [
+          ...queues,
+          {
+            name: 'configured',
+            workflowsPath: resolve(fixturesDir, 'determinism-config/workflows.ts'),
+          },
+        ],
+      });
+
+      expect(bundles.size).toBe(3);
+      expect(timings.get('configured')?.sharedWith).toEqual(['configured']);
+      expect(timings.get('orders')?.sharedWith).toEqual(['orders', 'users']);
+    });
+
+    it('shares the build between queues with different interceptors', async () => {
+      const interceptorsPath = resolve(fixturesDir, 'with-interceptors/interceptors.ts');
+
+      const { bundles, timings } = await bundleMultipleWorkflowsDetailed({
+        queues: [
+          { ...queues[0]!, options: { workflowInterceptorModules: [interceptorsPath] } },
+          queues[1]!,
+        ],
+      });
+
+      expect(timings.get('orders')?.sharedWith).toEqual(['orders', 'users']);
+      expect(bundles.get('orders')?.code).toContain('with-interceptors/interceptors.ts');
+      expect(bundles.get('users')?.code).not.toContain(
+        'with-interceptors/interceptors.ts',
+      );
+    });
+
+    it('reports budget results per queue', async () => {
+      const { sizeAnalysis } = await bundleMultipleWorkflowsDetailed({
+        queues: [{ ...queues[0]!, budget: { total: 10 * 1024 * 1024 } }, queues[1]!],
+      });
+
+      expect([...sizeAnalysis.keys()]).toEqual(['orders']);
+      expect(sizeAnalysis.get('orders')?.budgetResult?.status).toBe('pass');
+    });
+  });
+});
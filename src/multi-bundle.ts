@@ -5,15 +5,40 @@
  * sharing tsconfig, plugins, and build context for efficiency.
  */
 
-import { bundleWorkflowCode, WorkflowCodeBundler } from './bundler';
-import type { BundleOptions, MultiBundleOptions, WorkflowBundle } from './types';
+import type { SharedBundleResult } from './bundler';
+import { WorkflowCodeBundler } from './bundler';
+import { findBundleConfig } from './config';
+import { resolveCrossRuntimeConfig } from './cross-runtime';
+import { WorkflowBundleError } from './errors';
+import { analyzeSize } from './size-analysis';
+import type {
+  ActivityBundleOptions,
+  BundleOptions,
+  DuplicatedModule,
+  MultiBundleOptions,
+  MultiBundleResult,
+  QueueBuildTiming,
+  QueueConfig,
+  SizeAnalysisResult,
+  WorkflowBundle,
+} from './types';
+
+/**
+ * Namespaced esbuild paths, such as `temporal-forbidden:fs`.
+ */
+const VIRTUAL_MODULE = /^[a-z][\w-]+:/;
 
 /**
  * Bundle workflows for multiple task queues, sharing configuration.
  *
- * This is more efficient than calling bundleWorkflowCode() multiple times
- * because it shares the tsconfig resolution, plugin initialization, and
- * other setup work across builds.
+ * This is more efficient than calling bundleWorkflowCode() multiple times:
+ * queues are built as entry points of a single esbuild build, so tsconfig
+ * resolution, the determinism policy and modules imported by several queues
+ * are resolved and parsed once. Queues that resolve to a different
+ * tsconfig or project config, or override build options, are built in
+ * separate builds.
+ *
+ * Throws if a queue bundle exceeds its size budget.
  *
  * @example
  * ```typescript
@@ -37,54 +62,303 @@ import type { BundleOptions, MultiBundleOptions, WorkflowBundle } from './types'
 export async function bundleMultipleWorkflows(
   options: MultiBundleOptions,
 ): Promise<Map<string, WorkflowBundle>> {
-  const results = new Map<string, WorkflowBundle>();
-  const shared = options.shared ?? {};
-
-  const buildPromises = options.queues.map(async (queue) => {
-    const bundleOptions: BundleOptions = {
-      workflowsPath: queue.workflowsPath,
-      tsconfigPath: shared.tsconfigPath,
-      plugins: shared.plugins,
-      mode: shared.mode,
-      sourceMap: shared.sourceMap,
-      ignoreModules: shared.ignoreModules,
-      logger: shared.logger,
-    };
-
-    const bundle = await bundleWorkflowCode(bundleOptions);
-    results.set(queue.name, bundle);
-  });
-
-  await Promise.all(buildPromises);
-
-  return results;
+  const { bundles, sizeAnalysis } = await bundleMultipleWorkflowsDetailed(options);
+
+  const overBudget = [...sizeAnalysis].filter(
+    ([, analysis]) => analysis.budgetResult?.status === 'fail',
+  );
+  if (overBudget.length > 0) {
+    throw new WorkflowBundleError('BUILD_FAILED', {
+      details: overBudget
+        .map(([name, analysis]) => `  - ${name}: ${analysis.budgetResult!.message}`)
+        .join('\n'),
+      hint: 'Reduce the size of these queue bundles or raise their budgets.',
+    });
+  }
+
+  return bundles;
+}
+
+/**
+ * Bundle workflows for multiple task queues and report on the build.
+ *
+ * Like `bundleMultipleWorkflows()`, but also returns the modules duplicated
+ * across queue bundles, per-queue timings and budget results. Queues over
+ * budget are reported instead of failing the build.
+ *
+ * @example
+ * ```typescript
+ * const { bundles, duplicates, timings } = await bundleMultipleWorkflowsDetailed({
+ *   queues: [
+ *     { name: 'orders', workflowsPath: './src/workflows/orders.ts' },
+ *     { name: 'users', workflowsPath: './src/workflows/users.ts' },
+ *   ],
+ * });
+ *
+ * for (const module of duplicates.slice(0, 5)) {
+ *   console.log(`${module.path}: ${module.bytes} bytes in ${module.queues.join(', ')}`);
+ * }
+ * ```
+ */
+export async function bundleMultipleWorkflowsDetailed(
+  options: MultiBundleOptions,
+): Promise<MultiBundleResult> {
+  const startTime = Date.now();
+  const bundlers = createMultiBundlers(options);
+
+  const builds = await Promise.all(
+    groupBundlers(bundlers, options.queues).map((group) => buildGroup(group)),
+  );
+
+  const bundles = new Map<string, WorkflowBundle>();
+  const timings = new Map<string, QueueBuildTiming>();
+  const modulesByQueue = new Map<string, Map<string, number>>();
+  const sizeAnalysis = new Map<string, SizeAnalysisResult>();
+
+  // Report queues in the order they were configured
+  for (const name of bundlers.keys()) {
+    const build = builds.find((b) => b.bundles.has(name))!;
+    const bundle = build.bundles.get(name)!;
+    const modules = getOutputModules(build, name);
+
+    bundles.set(name, bundle);
+    modulesByQueue.set(name, modules);
+    timings.set(name, {
+      buildTime: build.buildTime,
+      outputTime: build.outputTimes.get(name) ?? 0,
+      sharedWith: [...build.bundles.keys()],
+      moduleCount: modules.size,
+      size: bundle.code.length,
+    });
+
+    const budget = options.queues.find((q) => q.name === name)?.budget;
+    if (budget) {
+      sizeAnalysis.set(name, analyzeSize(bundle, budget));
+    }
+  }
+
+  return {
+    bundles,
+    duplicates: findDuplicatedModules(modulesByQueue),
+    timings,
+    sizeAnalysis,
+    totalTime: Date.now() - startTime,
+  };
+}
+
+/**
+ * Group bundlers that can share an esbuild build.
+ *
+ * Bundlers share a build when they resolve to the same tsconfig, project
+ * config and input flavor, and their queues override the same build
+ * options. Interceptors differ per entrypoint and can always be shared.
+ * The Bun backend builds each queue on its own.
+ */
+function groupBundlers(
+  bundlers: Map<string, WorkflowCodeBundler>,
+  queues: QueueConfig[],
+): Array<Map<string, WorkflowCodeBundler>> {
+  const groups = new Map<string, Map<string, WorkflowCodeBundler>>();
+  const serializeOverrides = createIdentitySerializer();
+
+  for (const [name, bundler] of bundlers) {
+    const {
+      workflowInterceptorModules: _interceptors,
+      report: _report,
+      logger: _logger,
+      ...overrides
+    } = queues.find((q) => q.name === name)?.options ?? {};
+
+    const key =
+      bundler.bundler === 'bun'
+        ? `bun:${name}`
+        : JSON.stringify([
+            serializeOverrides(overrides),
+            bundler.tsconfigPath ?? null,
+            bundler.configPath === false
+              ? false
+              : (bundler.configPath ?? findBundleConfig(bundler.workflowsPath) ?? null),
+            resolveCrossRuntimeConfig(
+              bundler.workflowsPath,
+              bundler.inputFlavor,
+              bundler.denoConfigPath,
+              bundler.importMapPath,
+            ),
+          ]);
+
+    const group = groups.get(key) ?? new Map<string, WorkflowCodeBundler>();
+    group.set(name, bundler);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Build a group of bundlers, in one esbuild build where possible.
+ */
+async function buildGroup(
+  group: Map<string, WorkflowCodeBundler>,
+): Promise<SharedBundleResult> {
+  const [[name, bundler] = []] = group;
+  if (bundler?.bundler !== 'bun') {
+    return WorkflowCodeBundler.createSharedBundles(group);
+  }
+
+  // Bun.build has no metafile; report the bundle without module details
+  const startTime = Date.now();
+  const bundle = await bundler.createBundle();
+  return {
+    bundles: new Map([[name!, bundle]]),
+    metafile: { inputs: {}, outputs: {} },
+    outputs: new Map(),
+    buildTime: Date.now() - startTime,
+    outputTimes: new Map(),
+  };
+}
+
+/**
+ * Get the modules in a queue's bundle with the bytes each contributes.
+ *
+ * Virtual modules (stubs, synthetic entrypoints) are left out.
+ */
+function getOutputModules(build: SharedBundleResult, name: string): Map<string, number> {
+  const outputPath = build.outputs.get(name);
+  const inputs = outputPath ? (build.metafile.outputs[outputPath]?.inputs ?? {}) : {};
+
+  const modules = new Map<string, number>();
+  for (const [path, { bytesInOutput }] of Object.entries(inputs)) {
+    if (!VIRTUAL_MODULE.test(path)) {
+      modules.set(path, bytesInOutput);
+    }
+  }
+  return modules;
+}
+
+/**
+ * Find modules included in more than one queue bundle.
+ */
+function findDuplicatedModules(
+  modulesByQueue: Map<string, Map<string, number>>,
+): DuplicatedModule[] {
+  const byPath = new Map<string, DuplicatedModule>();
+
+  for (const [queue, modules] of modulesByQueue) {
+    for (const [path, bytes] of modules) {
+      const existing = byPath.get(path);
+      if (existing) {
+        existing.queues.push(queue);
+        existing.bytes = Math.max(existing.bytes, bytes);
+      } else {
+        byPath.set(path, { path, queues: [queue], bytes });
+      }
+    }
+  }
+
+  return [...byPath.values()]
+    .filter((module) => module.queues.length > 1)
+    .sort(
+      (a, b) =>
+        b.bytes * (b.queues.length - 1) - a.bytes * (a.queues.length - 1) ||
+        a.path.localeCompare(b.path),
+    );
+}
+
+/**
+ * Create a serializer for option objects that may hold functions and
+ * plugins. Functions are identified by reference, so the same plugin
+ * instance serializes the same way across queues.
+ */
+function createIdentitySerializer(): (value: unknown) => string {
+  const ids = new Map<unknown, number>();
+
+  return (value) =>
+    JSON.stringify(value, (_key, v: unknown) => {
+      if (typeof v === 'function') {
+        if (!ids.has(v)) {
+          ids.set(v, ids.size);
+        }
+        return `function#${ids.get(v)}`;
+      }
+      return v instanceof RegExp ? String(v) : v;
+    });
 }
 
 /**
  * Create bundler instances for multiple queues that share configuration.
  *
  * Returns a map of queue name to WorkflowCodeBundler instances that can be
- * used for creating build contexts or watch mode.
+ * used for creating build contexts or watch mode. Each queue's options are
+ * merged over the shared options with `resolveQueueBundleOptions()`.
  */
 export function createMultiBundlers(
   options: MultiBundleOptions,
 ): Map<string, WorkflowCodeBundler> {
   const bundlers = new Map<string, WorkflowCodeBundler>();
-  const shared = options.shared ?? {};
 
   for (const queue of options.queues) {
-    const bundleOptions: BundleOptions = {
-      workflowsPath: queue.workflowsPath,
-      tsconfigPath: shared.tsconfigPath,
-      plugins: shared.plugins,
-      mode: shared.mode,
-      sourceMap: shared.sourceMap,
-      ignoreModules: shared.ignoreModules,
-      logger: shared.logger,
-    };
-
-    bundlers.set(queue.name, new WorkflowCodeBundler(bundleOptions));
+    bundlers.set(
+      queue.name,
+      new WorkflowCodeBundler(resolveQueueBundleOptions(queue, options.shared)),
+    );
   }
 
   return bundlers;
 }
+
+/**
+ * Resolve the bundle options of a queue.
+ *
+ * The queue's `options` are merged over the shared options: values replace
+ * the shared ones, except `plugins` and `ignoreModules`, which are appended
+ * to the shared lists.
+ */
+export function resolveQueueBundleOptions(
+  queue: QueueConfig,
+  shared: MultiBundleOptions['shared'] = {},
+): BundleOptions {
+  const overrides = queue.options ?? {};
+  const plugins = [...(shared.plugins ?? []), ...(overrides.plugins ?? [])];
+  const ignoreModules = [
+    ...new Set([...(shared.ignoreModules ?? []), ...(overrides.ignoreModules ?? [])]),
+  ];
+
+  return {
+    tsconfigPath: shared.tsconfigPath,
+    mode: shared.mode,
+    sourceMap: shared.sourceMap,
+    logger: shared.logger,
+    ...overrides,
+    workflowsPath: queue.workflowsPath,
+    plugins: plugins.length > 0 ? plugins : undefined,
+    ignoreModules: ignoreModules.length > 0 ? ignoreModules : undefined,
+  };
+}
+
+/**
+ * Resolve the activity bundle options of a queue from its merged bundle
+ * options: the logger, `sourceMap` and `tsconfigPath` are passed on, and
+ * `ignoreModules` are left external.
+ *
+ * @returns The options, or undefined if the queue has no activities
+ */
+export function resolveQueueActivityOptions(
+  queue: QueueConfig,
+  shared: MultiBundleOptions['shared'] = {},
+): ActivityBundleOptions | undefined {
+  if (queue.activitiesPath === undefined) {
+    return undefined;
+  }
+
+  const { logger, sourceMap, tsconfigPath, ignoreModules } = resolveQueueBundleOptions(
+    queue,
+    shared,
+  );
+  return {
+    activitiesPath: queue.activitiesPath,
+    ...(logger && { logger }),
+    ...(sourceMap && { sourceMap }),
+    ...(typeof tsconfigPath === 'string' && { tsconfigPath }),
+    ...(ignoreModules && { external: ignoreModules }),
+  };
+}
@@ -7,7 +7,7 @@
 
 import { builtinModules } from 'node:module';
 
-import type { DeterminismPolicy } from './types';
+import type { BuiltinExemption, DeterminismPolicy } from './types';
 
 /**
  * Node.js builtins that are allowed in workflows with Temporal stubs
@@ -141,6 +141,21 @@ export function isForbidden(module: string, policy: DeterminismPolicy): boolean
   return moduleMatches(module, policy.forbidden);
 }
 
+/**
+ * Find the exemption that allow-lists a builtin, if any.
+ * Exemptions cover subpath imports (e.g., 'fs' covers 'fs/promises').
+ */
+export function findExemption(
+  module: string,
+  policy: DeterminismPolicy,
+): BuiltinExemption | undefined {
+  const normalized = normalizeSpecifier(module);
+  return policy.exemptions?.find(
+    (exemption) =>
+      normalized === exemption.module || normalized.startsWith(`${exemption.module}/`),
+  );
+}
+
 /**
  * Pre-resolved module override paths.
  * These are resolved once at module load time to avoid repeated require.resolve() calls.
@@ -213,6 +213,131 @@ line3`;
     });
   });
 
+  describe('binding resolution', () => {
+    it('detects aliased calls', () => {
+      const code = `
+        const now = Date.now;
+        export async function myWorkflow() {
+          return now();
+        }
+      `;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.errors.map((e) => e.pattern.name)).toEqual(['Date.now()']);
+      expect(result.errors[0]?.line).toBe(4);
+      expect(result.errors[0]?.match).toBe('now()');
+    });
+
+    it('detects calls through globalThis', () => {
+      const code = `export async function myWorkflow() { return globalThis.Date.now(); }`;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.errors.map((e) => e.pattern.name)).toEqual(['Date.now()']);
+      expect(result.errors[0]?.column).toBe(45);
+    });
+
+    it('detects destructured globals', () => {
+      const code = `
+        const { random } = Math;
+        export async function myWorkflow() {
+          return random();
+        }
+      `;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.errors.map((e) => e.pattern.name)).toEqual(['Math.random()']);
+    });
+
+    it('resolves imported builtins', () => {
+      const code = `
+        import { randomUUID } from 'node:crypto';
+        import * as fsp from 'fs/promises';
+        const { setTimeout: delay } = require('node:timers');
+
+        export async function myWorkflow() {
+          delay(() => {}, 10);
+          await fsp.readFile('config.json');
+          return randomUUID();
+        }
+      `;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.errors.map((e) => e.pattern.name)).toEqual([
+        'setTimeout()',
+        'fs operations',
+        'crypto.randomUUID()',
+      ]);
+    });
+
+    it('ignores strings that contain unsafe calls', () => {
+      const code = `
+        export async function myWorkflow() {
+          return 'remember to fetch(url) in an activity';
+        }
+      `;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.violations).toHaveLength(0);
+    });
+
+    it('ignores shadowed bindings', () => {
+      const code = `
+        export async function myWorkflow(fetch: () => Promise<void>) {
+          const Math = { random: () => 4 };
+          await fetch();
+          return Math.random();
+        }
+      `;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.violations).toHaveLength(0);
+    });
+
+    it('ignores type positions and dates with arguments', () => {
+      const code = `
+        type Clock = typeof Date.now;
+        export async function myWorkflow(start: Date = new Date(0)) {
+          return start;
+        }
+      `;
+
+      const result = analyzeReplaySafety(code);
+
+      expect(result.violations).toHaveLength(0);
+    });
+
+    it('applies regex patterns outside comments and strings only', () => {
+      const code = `
+        // legacyClock() is not allowed
+        export async function myWorkflow() {
+          const label = 'legacyClock()';
+          return legacyClock();
+        }
+      `;
+
+      const result = analyzeReplaySafety(code, {
+        additionalPatterns: [
+          {
+            pattern: /legacyClock\s*\(/g,
+            name: 'legacyClock()',
+            reason: 'Reads the wall clock',
+            suggestion: 'Use workflow.currentTime()',
+            severity: 'error',
+          },
+        ],
+      });
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]?.line).toBe(5);
+    });
+  });
+
   describe('REPLAY_UNSAFE_PATTERNS', () => {
     it('has patterns for common unsafe APIs', () => {
       const patternNames = REPLAY_UNSAFE_PATTERNS.map((p) => p.name);
@@ -235,6 +360,114 @@ line3`;
     });
   });
 
+  describe('severity overrides', () => {
+    const code = `const now = Date.now();\nconst id = Math.random();`;
+
+    it('changes severity for files inside the directory', () => {
+      const result = analyzeReplaySafety(code, {
+        filePath: '/project/src/legacy/clock.ts',
+        severityOverrides: [{ directory: '/project/src/legacy', severity: 'warning' }],
+      });
+
+      expect(result.safe).toBe(true);
+      expect(result.warnings).toHaveLength(2);
+    });
+
+    it('ignores files outside the directory', () => {
+      const result = analyzeReplaySafety(code, {
+        filePath: '/project/src/legacy-v2/clock.ts',
+        severityOverrides: [{ directory: '/project/src/legacy', severity: 'off' }],
+      });
+
+      expect(result.errors).toHaveLength(2);
+    });
+
+    it('limits overrides to the listed patterns', () => {
+      const result = analyzeReplaySafety(code, {
+        filePath: '/project/src/legacy/clock.ts',
+        severityOverrides: [
+          { directory: '/project/src/legacy', severity: 'off', patterns: ['Date.now()'] },
+        ],
+      });
+
+      expect(result.violations.map((v) => v.pattern.name)).toEqual(['Math.random()']);
+    });
+
+    it('prefers the deepest matching directory', () => {
+      const result = analyzeReplaySafety(code, {
+        filePath: '/project/src/legacy/strict/clock.ts',
+        severityOverrides: [
+          { directory: '/project/src/legacy/strict', severity: 'error' },
+          { directory: '/project/src/legacy', severity: 'warning' },
+        ],
+      });
+
+      expect(result.errors).toHaveLength(2);
+    });
+
+    it('reports warnings raised to errors when only errors are requested', () => {
+      const result = analyzeReplaySafety('const ok = process.env.FLAG;', {
+        filePath: '/project/src/strict/flags.ts',
+        errorsOnly: true,
+        severityOverrides: [{ directory: '/project/src/strict', severity: 'error' }],
+      });
+
+      expect(result.errors.map((v) => v.pattern.name)).toEqual(['process.env']);
+    });
+  });
+
+  describe('suppressions', () => {
+    it('suppresses a violation on the next line', () => {
+      const result = analyzeReplaySafety(
+        [
+          'export async function wf() {',
+          '  // temporal-ignore-next-line Date.now: only logged',
+          '  console.log(Date.now());',
+          '  return Date.now();',
+          '}',
+        ].join('\n'),
+      );
+
+      expect(result.errors.map((v) => v.line)).toEqual([4]);
+      expect(result.suppressed.map((v) => v.line)).toEqual([3]);
+      expect(result.suppressed[0]?.suppression?.reason).toBe('only logged');
+    });
+
+    it('suppresses violations across the file', () => {
+      const result = analyzeReplaySafety(
+        `// temporal-ignore-file Math.random: seeded by the SDK
+const a = Math.random();
+const b = Math.random();
+const c = Date.now();`,
+      );
+
+      expect(result.suppressed).toHaveLength(2);
+      expect(result.errors.map((v) => v.pattern.name)).toEqual(['Date.now()']);
+    });
+
+    it('reports suppressions that match nothing', () => {
+      const code = `// temporal-ignore-next-line Math.random: stale
+const a = 1;`;
+
+      const result = analyzeReplaySafety(code);
+      expect(result.safe).toBe(true);
+      expect(result.unusedSuppressions.map((d) => d.line)).toEqual([1]);
+
+      expect(analyzeReplaySafety(code, { failOnUnusedSuppressions: true }).safe).toBe(
+        false,
+      );
+    });
+
+    it('ignores directives for history rules', () => {
+      const result = analyzeReplaySafety(
+        `// temporal-ignore-next-line unbounded-loop: drained
+while (true) {}`,
+      );
+
+      expect(result.unusedSuppressions).toHaveLength(0);
+    });
+  });
+
   describe('formatReplayViolations', () => {
     it('formats violations for display', () => {
       const code = `Date.now()`;
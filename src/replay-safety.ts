@@ -4,9 +4,58 @@
  * Temporal workflows must be deterministic - they should produce the same
  * results when replayed. This module detects common patterns that break
  * this requirement.
+ *
+ * When the TypeScript compiler is installed, source code is parsed into a
+ * syntax tree and every call, construction and property access is resolved
+ * to the binding it refers to. This catches aliased calls
+ * (`const now = Date.now; now()`), destructuring (`const { random } = Math`)
+ * and access through `globalThis`, while ignoring shadowed locals, comments
+ * and string contents. Without TypeScript, the regex patterns are used.
  */
 
 import { readFileSync } from 'node:fs';
+import { builtinModules } from 'node:module';
+import { extname, isAbsolute, relative, resolve } from 'node:path';
+
+import type * as ts from 'typescript';
+
+import { normalizeSpecifier } from './policy';
+import type { SuppressionDirective } from './suppressions';
+import {
+  findSuppression,
+  matchesSuppressionRule,
+  parseSuppressions,
+} from './suppressions';
+import { loadTypeScript } from './typescript-loader';
+
+/**
+ * An API whose use breaks determinism, matched against resolved bindings.
+ */
+export interface ReplayUnsafeApi {
+  /**
+   * Canonical dotted path of the API, e.g. `Date.now` or `crypto.randomUUID`.
+   *
+   * Globals are referenced by name (`globalThis.`, `window.`, `self.` and
+   * `global.` prefixes are stripped). Imports are referenced by module name
+   * without the `node:` prefix, so `import { randomUUID } from 'node:crypto'`
+   * resolves to `crypto.randomUUID`. A trailing `*` matches any suffix.
+   */
+  path: string;
+
+  /**
+   * How the API must be used to be reported.
+   * - 'call': the API is called
+   * - 'new': the API is constructed with `new`
+   * - 'reference': the API is read in any expression
+   * - 'import': the module at `path` is imported or required
+   */
+  usage: 'call' | 'new' | 'reference' | 'import';
+
+  /**
+   * Only report calls or constructions with exactly this many arguments.
+   */
+  argumentCount?: number;
+}
 
 /**
  * A pattern that may break workflow determinism.
@@ -14,9 +63,17 @@ import { readFileSync } from 'node:fs';
 export interface ReplayUnsafePattern {
   /**
    * Regex pattern to match in source code.
+   *
+   * Used when the pattern has no `apis`, or when the TypeScript compiler
+   * is not installed.
    */
   pattern: RegExp;
 
+  /**
+   * APIs matched against the syntax tree when TypeScript is available.
+   */
+  apis?: ReplayUnsafeApi[];
+
   /**
    * Human-readable name for this pattern.
    */
@@ -44,6 +101,7 @@ export interface ReplayUnsafePattern {
 export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   {
     pattern: /\bDate\.now\s*\(/g,
+    apis: [{ path: 'Date.now', usage: 'call' }],
     name: 'Date.now()',
     reason: 'Returns current time, which changes between original execution and replay.',
     suggestion: 'Use workflow.currentTime() from @temporalio/workflow instead.',
@@ -51,6 +109,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bnew\s+Date\s*\(\s*\)/g,
+    apis: [{ path: 'Date', usage: 'new', argumentCount: 0 }],
     name: 'new Date()',
     reason: 'Creates a date with current time, which changes between replays.',
     suggestion: 'Use workflow.currentTime() for the current time.',
@@ -58,6 +117,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bMath\.random\s*\(/g,
+    apis: [{ path: 'Math.random', usage: 'call' }],
     name: 'Math.random()',
     reason: 'Random values differ between original execution and replay.',
     suggestion: 'Use workflow.random() from @temporalio/workflow instead.',
@@ -65,6 +125,10 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /(?<!\.)(?<!workflow\.)\bsetTimeout\s*\(/g,
+    apis: [
+      { path: 'setTimeout', usage: 'call' },
+      { path: 'timers.setTimeout', usage: 'call' },
+    ],
     name: 'setTimeout()',
     reason: 'Native timers are not replay-safe and may fire at wrong times.',
     suggestion: 'Use workflow.sleep() from @temporalio/workflow instead.',
@@ -72,6 +136,10 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /(?<!\.)(?<!workflow\.)\bsetInterval\s*\(/g,
+    apis: [
+      { path: 'setInterval', usage: 'call' },
+      { path: 'timers.setInterval', usage: 'call' },
+    ],
     name: 'setInterval()',
     reason: 'Native intervals are not replay-safe.',
     suggestion:
@@ -80,6 +148,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bfetch\s*\(/g,
+    apis: [{ path: 'fetch', usage: 'call' }],
     name: 'fetch()',
     reason: 'Network requests may return different results on replay.',
     suggestion:
@@ -88,6 +157,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\baxios\s*[.(]/g,
+    apis: [{ path: 'axios', usage: 'reference' }],
     name: 'axios',
     reason: 'HTTP client calls may return different results on replay.',
     suggestion: 'Move HTTP calls to Activities.',
@@ -95,6 +165,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bcrypto\.randomBytes\s*\(/g,
+    apis: [{ path: 'crypto.randomBytes', usage: 'call' }],
     name: 'crypto.randomBytes()',
     reason: 'Generates random data that differs between replays.',
     suggestion:
@@ -103,6 +174,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bcrypto\.randomUUID\s*\(/g,
+    apis: [{ path: 'crypto.randomUUID', usage: 'call' }],
     name: 'crypto.randomUUID()',
     reason: 'Generates random UUIDs that differ between replays.',
     suggestion: 'Use workflow.uuid4() from @temporalio/workflow instead.',
@@ -110,6 +182,10 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\buuidv4\s*\(/g,
+    apis: [
+      { path: 'uuidv4', usage: 'call' },
+      { path: 'uuid.v4', usage: 'call' },
+    ],
     name: 'uuidv4()',
     reason: 'Generates random UUIDs that differ between replays.',
     suggestion: 'Use workflow.uuid4() from @temporalio/workflow instead.',
@@ -117,6 +193,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bprocess\.env\b/g,
+    apis: [{ path: 'process.env', usage: 'reference' }],
     name: 'process.env',
     reason: 'Environment variables may differ between workflow environments.',
     suggestion:
@@ -125,6 +202,10 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bfs\.(read|write|append|unlink|mkdir|rmdir)/g,
+    apis: ['read', 'write', 'append', 'unlink', 'mkdir', 'rmdir'].flatMap((operation) => [
+      { path: `fs.${operation}*`, usage: 'call' as const },
+      { path: `fs.promises.${operation}*`, usage: 'call' as const },
+    ]),
     name: 'fs operations',
     reason: 'File system operations are side effects that break replay.',
     suggestion: 'Move file operations to Activities.',
@@ -132,6 +213,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bchild_process\b/g,
+    apis: [{ path: 'child_process', usage: 'import' }],
     name: 'child_process',
     reason: 'Spawning processes is a side effect that breaks replay.',
     suggestion: 'Move process spawning to Activities.',
@@ -139,6 +221,10 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bWebSocket\s*\(/g,
+    apis: [
+      { path: 'WebSocket', usage: 'new' },
+      { path: 'WebSocket', usage: 'call' },
+    ],
     name: 'WebSocket',
     reason: 'WebSocket connections are side effects that break replay.',
     suggestion: 'Move WebSocket communication to Activities.',
@@ -146,6 +232,7 @@ export const REPLAY_UNSAFE_PATTERNS: ReplayUnsafePattern[] = [
   },
   {
     pattern: /\bXMLHttpRequest\b/g,
+    apis: [{ path: 'XMLHttpRequest', usage: 'reference' }],
     name: 'XMLHttpRequest',
     reason: 'HTTP requests may return different results on replay.',
     suggestion: 'Move HTTP calls to Activities.',
@@ -186,6 +273,11 @@ export interface ReplayViolation {
    * File path where the violation was found.
    */
   file?: string | undefined;
+
+  /**
+   * The directive that suppressed this violation, for suppressed violations.
+   */
+  suppression?: SuppressionDirective | undefined;
 }
 
 /**
@@ -211,6 +303,16 @@ export interface ReplaySafetyResult {
    * Warning-level violations (might break replay).
    */
   warnings: ReplayViolation[];
+
+  /**
+   * Violations silenced by `temporal-ignore-*` comments.
+   */
+  suppressed: ReplayViolation[];
+
+  /**
+   * Suppression comments that did not match any violation.
+   */
+  unusedSuppressions: SuppressionDirective[];
 }
 
 /**
@@ -237,6 +339,40 @@ export interface AnalyzeReplaySafetyOptions {
    * Default: false
    */
   errorsOnly?: boolean;
+
+  /**
+   * Severity overrides for violations in specific directories.
+   * Only applied to violations with a known file path.
+   */
+  severityOverrides?: ReplaySeverityOverride[];
+
+  /**
+   * Whether suppression comments that match no violation make the result
+   * unsafe.
+   * Default: false
+   */
+  failOnUnusedSuppressions?: boolean;
+}
+
+/**
+ * Changes the severity of violations found under a directory.
+ */
+export interface ReplaySeverityOverride {
+  /**
+   * Absolute path of the directory. Subdirectories are included.
+   */
+  directory: string;
+
+  /**
+   * Severity to report, or 'off' to drop matching violations.
+   */
+  severity: 'error' | 'warning' | 'off';
+
+  /**
+   * Pattern names the override applies to.
+   * Default: all patterns
+   */
+  patterns?: string[];
 }
 
 /**
@@ -268,9 +404,44 @@ export function analyzeReplaySafety(
   code: string,
   options: AnalyzeReplaySafetyOptions = {},
 ): ReplaySafetyResult {
-  const violations: ReplayViolation[] = [];
+  const patterns = selectReplayPatterns(options);
+
+  const typescript = loadTypeScript();
+  let violations: ReplayViolation[];
+  if (typescript) {
+    const sourceFile = parseReplaySourceFile(typescript, code, options.filePath);
+    const checker = createSingleFileChecker(typescript, sourceFile);
+    violations = findReplayViolations(
+      typescript,
+      sourceFile,
+      checker,
+      patterns,
+      options.filePath,
+    );
+  } else {
+    violations = analyzeWithRegex(code, patterns, options.filePath);
+  }
 
-  // Combine built-in and additional patterns
+  const directives = parseSuppressions(code, options.filePath).filter((directive) =>
+    isReplaySuppression(directive, patterns),
+  );
+  const used = new Set<SuppressionDirective>();
+  const { kept, suppressed } = applyReplaySuppressions(violations, directives, used);
+
+  return summarizeReplayViolations(applyReplaySeverityOverrides(kept, options), {
+    suppressed,
+    unusedSuppressions: directives.filter((directive) => !used.has(directive)),
+    failOnUnusedSuppressions: options.failOnUnusedSuppressions,
+  });
+}
+
+/**
+ * Combine built-in and additional patterns, applying `skipPatterns` and
+ * `errorsOnly`.
+ */
+export function selectReplayPatterns(
+  options: AnalyzeReplaySafetyOptions = {},
+): ReplayUnsafePattern[] {
   let patterns = [...REPLAY_UNSAFE_PATTERNS, ...(options.additionalPatterns ?? [])];
 
   // Filter out skipped patterns
@@ -278,11 +449,731 @@ export function analyzeReplaySafety(
     patterns = patterns.filter((p) => !options.skipPatterns!.includes(p.name));
   }
 
-  // Filter to errors only if requested
-  if (options.errorsOnly) {
+  // Filter to errors only if requested. Overrides may raise warnings to
+  // errors, so in that case filtering waits until they have been applied.
+  if (options.errorsOnly && !options.severityOverrides?.length) {
     patterns = patterns.filter((p) => p.severity === 'error');
   }
 
+  return patterns;
+}
+
+/**
+ * Apply `severityOverrides` to violations, then `errorsOnly`.
+ *
+ * When several overrides match a violation, the one for the deepest
+ * directory wins; among equally deep ones, the last listed wins.
+ */
+export function applyReplaySeverityOverrides<T extends ReplayViolation>(
+  violations: T[],
+  options: AnalyzeReplaySafetyOptions = {},
+): T[] {
+  const overrides = options.severityOverrides ?? [];
+  if (overrides.length === 0) {
+    return violations;
+  }
+
+  const result: T[] = [];
+  for (const violation of violations) {
+    let override: ReplaySeverityOverride | undefined;
+    for (const candidate of overrides) {
+      if (
+        violation.file &&
+        isWithinDirectory(violation.file, candidate.directory) &&
+        (!candidate.patterns || candidate.patterns.includes(violation.pattern.name)) &&
+        (!override || candidate.directory.length >= override.directory.length)
+      ) {
+        override = candidate;
+      }
+    }
+
+    const severity = override?.severity ?? violation.pattern.severity;
+    if (severity === 'off' || (options.errorsOnly && severity !== 'error')) {
+      continue;
+    }
+    result.push(
+      severity === violation.pattern.severity
+        ? violation
+        : { ...violation, pattern: { ...violation.pattern, severity } },
+    );
+  }
+  return result;
+}
+
+/**
+ * Check whether a suppression directive targets replay patterns.
+ *
+ * Directives that only name rules of other analyzers (such as history
+ * warnings) are left alone, so they are not reported as unused.
+ */
+export function isReplaySuppression(
+  directive: SuppressionDirective,
+  patterns: ReplayUnsafePattern[],
+): boolean {
+  return directive.rules.some(
+    (rule) =>
+      rule === '*' ||
+      patterns.some((pattern) => matchesSuppressionRule(rule, pattern.name)),
+  );
+}
+
+/**
+ * Split violations into those kept and those silenced by a directive.
+ *
+ * @param used - Collects the directives that matched a violation
+ */
+export function applyReplaySuppressions<T extends ReplayViolation>(
+  violations: T[],
+  directives: SuppressionDirective[],
+  used: Set<SuppressionDirective>,
+): { kept: T[]; suppressed: T[] } {
+  if (directives.length === 0) {
+    return { kept: violations, suppressed: [] };
+  }
+
+  const kept: T[] = [];
+  const suppressed: T[] = [];
+  for (const violation of violations) {
+    const suppression = findSuppression(
+      directives,
+      violation.line,
+      violation.pattern.name,
+    );
+    if (suppression) {
+      used.add(suppression);
+      suppressed.push({ ...violation, suppression });
+    } else {
+      kept.push(violation);
+    }
+  }
+  return { kept, suppressed };
+}
+
+/**
+ * Check whether a file is inside a directory (or one of its subdirectories).
+ */
+function isWithinDirectory(file: string, directory: string): boolean {
+  const path = relative(resolve(directory), resolve(file));
+  return path !== '' && !path.startsWith('..') && !isAbsolute(path);
+}
+
+/**
+ * Sort violations by position and split them by severity.
+ */
+export function summarizeReplayViolations<T extends ReplayViolation>(
+  violations: T[],
+  suppressions: {
+    suppressed?: T[];
+    unusedSuppressions?: SuppressionDirective[];
+    failOnUnusedSuppressions?: boolean | undefined;
+  } = {},
+): ReplaySafetyResult & { violations: T[]; errors: T[]; warnings: T[]; suppressed: T[] } {
+  violations.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  const errors = violations.filter((v) => v.pattern.severity === 'error');
+  const warnings = violations.filter((v) => v.pattern.severity === 'warning');
+  const unusedSuppressions = suppressions.unusedSuppressions ?? [];
+
+  return {
+    safe:
+      errors.length === 0 &&
+      !(suppressions.failOnUnusedSuppressions && unusedSuppressions.length > 0),
+    violations,
+    errors,
+    warnings,
+    suppressed: suppressions.suppressed ?? [],
+    unusedSuppressions,
+  };
+}
+
+/**
+ * Analyze a file for replay-unsafe patterns.
+ */
+export function analyzeFileReplaySafety(
+  filePath: string,
+  options: Omit<AnalyzeReplaySafetyOptions, 'filePath'> = {},
+): ReplaySafetyResult {
+  const code = readFileSync(filePath, 'utf-8');
+  return analyzeReplaySafety(code, { ...options, filePath });
+}
+
+// ============================================================
+// Syntax tree analysis
+// ============================================================
+
+/**
+ * Identifiers that refer to the global object.
+ */
+const GLOBAL_OBJECT_NAMES = new Set(['globalThis', 'window', 'self', 'global']);
+
+/**
+ * Maximum number of aliases followed when resolving a binding.
+ */
+const MAX_ALIAS_DEPTH = 16;
+
+/**
+ * Extensions TypeScript can parse directly.
+ */
+export const SCRIPT_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+]);
+
+/**
+ * A use of an API found in the syntax tree.
+ */
+interface ApiUsage {
+  usage: ReplayUnsafeApi['usage'];
+  path: string;
+  node: ts.Node;
+  argumentCount?: number;
+}
+
+/**
+ * Find replay-unsafe usages in a parsed source file.
+ *
+ * Patterns with `apis` are matched against resolved bindings; the rest are
+ * matched by regex outside comments, strings and type annotations.
+ */
+export function findReplayViolations(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  patterns: ReplayUnsafePattern[],
+  filePath: string | undefined,
+): ReplayViolation[] {
+  const code = sourceFile.text;
+  const lines = code.split('\n');
+  const violations: ReplayViolation[] = [];
+
+  const toViolation = (
+    pattern: ReplayUnsafePattern,
+    offset: number,
+    match: string,
+  ): ReplayViolation => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+    return {
+      pattern,
+      match,
+      line: line + 1,
+      column: character + 1,
+      sourceLine: lines[line] ?? '',
+      file: filePath,
+    };
+  };
+
+  const apiPatterns = patterns.filter((p) => p.apis?.length);
+  const regexPatterns = patterns.filter((p) => !p.apis?.length);
+
+  if (apiPatterns.length > 0) {
+    for (const usage of collectApiUsages(typescript, sourceFile, checker)) {
+      for (const pattern of apiPatterns) {
+        if (pattern.apis!.some((api) => apiMatches(api, usage))) {
+          violations.push(
+            toViolation(
+              pattern,
+              usage.node.getStart(sourceFile),
+              usage.node.getText(sourceFile),
+            ),
+          );
+        }
+      }
+    }
+  }
+
+  if (regexPatterns.length > 0) {
+    const inertRanges = collectInertRanges(typescript, sourceFile);
+    const isInert = (offset: number): boolean =>
+      inertRanges.some(([start, end]) => offset >= start && offset < end);
+
+    for (const pattern of regexPatterns) {
+      // Clone regex to reset lastIndex
+      const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags);
+
+      let match;
+      while ((match = regex.exec(code)) !== null) {
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+        }
+        if (isInert(match.index)) {
+          continue;
+        }
+        violations.push(toViolation(pattern, match.index, match[0]));
+        if (!regex.global) {
+          break;
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Parse source code with a script kind matching the file extension.
+ */
+export function parseReplaySourceFile(
+  typescript: typeof ts,
+  code: string,
+  filePath: string | undefined,
+): ts.SourceFile {
+  const extension = filePath ? extname(filePath) : '';
+  const fileName = `/replay-safety/input${SCRIPT_EXTENSIONS.has(extension) ? extension : '.ts'}`;
+  return typescript.createSourceFile(
+    fileName,
+    code,
+    typescript.ScriptTarget.Latest,
+    true,
+  );
+}
+
+/**
+ * Create a type checker over a single source file.
+ *
+ * No libraries or imports are loaded, so globals such as `Date` stay
+ * unresolved while local declarations and imports resolve to their bindings.
+ */
+export function createSingleFileChecker(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+): ts.TypeChecker {
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) =>
+      fileName === sourceFile.fileName ? sourceFile : undefined,
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => fileName === sourceFile.fileName,
+    readFile: () => undefined,
+  };
+
+  const program = typescript.createProgram({
+    rootNames: [sourceFile.fileName],
+    options: { noLib: true, noResolve: true, allowJs: true, noEmit: true, types: [] },
+    host,
+  });
+
+  return program.getTypeChecker();
+}
+
+/**
+ * Collect every call, construction, reference and import in a source file,
+ * with the API path each one resolves to.
+ */
+function collectApiUsages(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+): ApiUsage[] {
+  const resolver = createApiResolver(typescript, checker);
+  const usages: ApiUsage[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (isTypeOnlyNode(typescript, node)) {
+      return;
+    }
+
+    if (typescript.isCallExpression(node)) {
+      const module = resolver.resolveModuleCall(node);
+      if (module !== undefined) {
+        usages.push({ usage: 'import', path: module, node });
+      } else {
+        const path = resolver.resolve(node.expression);
+        if (path) {
+          usages.push({
+            usage: 'call',
+            path,
+            node,
+            argumentCount: node.arguments.length,
+          });
+        }
+      }
+    } else if (typescript.isNewExpression(node)) {
+      const path = resolver.resolve(node.expression);
+      if (path) {
+        usages.push({
+          usage: 'new',
+          path,
+          node,
+          argumentCount: node.arguments?.length ?? 0,
+        });
+      }
+    } else if (
+      (typescript.isImportDeclaration(node) || typescript.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      typescript.isStringLiteral(node.moduleSpecifier)
+    ) {
+      usages.push({
+        usage: 'import',
+        path: normalizeModuleName(node.moduleSpecifier.text),
+        node,
+      });
+    } else if (
+      typescript.isImportEqualsDeclaration(node) &&
+      !node.isTypeOnly &&
+      typescript.isExternalModuleReference(node.moduleReference) &&
+      typescript.isStringLiteral(node.moduleReference.expression)
+    ) {
+      usages.push({
+        usage: 'import',
+        path: normalizeModuleName(node.moduleReference.expression.text),
+        node,
+      });
+    }
+
+    if (isReferenceExpression(typescript, node)) {
+      const path = resolver.resolve(node);
+      if (path) {
+        usages.push({ usage: 'reference', path, node });
+      }
+    }
+
+    typescript.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return usages;
+}
+
+/**
+ * Create a resolver that maps expressions to canonical API paths.
+ *
+ * Returns undefined for expressions that refer to local values (parameters,
+ * functions, classes, computed values), and an empty string for the global
+ * object itself.
+ */
+function createApiResolver(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+): {
+  resolve(expression: ts.Expression): string | undefined;
+  resolveModuleCall(call: ts.CallExpression): string | undefined;
+} {
+  const join = (base: string, name: string): string => (base ? `${base}.${name}` : name);
+
+  const resolveModuleCall = (call: ts.CallExpression, depth = 0): string | undefined => {
+    const [specifier] = call.arguments;
+    if (!specifier || !typescript.isStringLiteralLike(specifier)) {
+      return undefined;
+    }
+    if (call.expression.kind === typescript.SyntaxKind.ImportKeyword) {
+      return normalizeModuleName(specifier.text);
+    }
+    if (
+      typescript.isIdentifier(call.expression) &&
+      call.expression.text === 'require' &&
+      resolveExpression(call.expression, depth) === 'require'
+    ) {
+      return normalizeModuleName(specifier.text);
+    }
+    return undefined;
+  };
+
+  const resolveExpression = (
+    expression: ts.Expression,
+    depth = 0,
+  ): string | undefined => {
+    if (depth > MAX_ALIAS_DEPTH) {
+      return undefined;
+    }
+
+    const node = skipExpressionWrappers(typescript, expression);
+
+    if (typescript.isIdentifier(node)) {
+      const symbol = checker.getSymbolAtLocation(node);
+      const declaration = symbol?.declarations?.[0];
+      if (!declaration) {
+        // Unresolved identifiers are globals
+        return GLOBAL_OBJECT_NAMES.has(node.text) ? '' : node.text;
+      }
+      return resolveDeclaration(declaration, depth + 1);
+    }
+
+    if (typescript.isPropertyAccessExpression(node)) {
+      const base = resolveExpression(node.expression, depth);
+      return base === undefined ? undefined : join(base, node.name.text);
+    }
+
+    if (
+      typescript.isElementAccessExpression(node) &&
+      typescript.isStringLiteralLike(node.argumentExpression)
+    ) {
+      const base = resolveExpression(node.expression, depth);
+      return base === undefined ? undefined : join(base, node.argumentExpression.text);
+    }
+
+    if (typescript.isCallExpression(node)) {
+      return resolveModuleCall(node, depth);
+    }
+
+    return undefined;
+  };
+
+  const resolveBindingElement = (
+    element: ts.BindingElement,
+    depth: number,
+  ): string | undefined => {
+    const pattern = element.parent;
+    if (!typescript.isObjectBindingPattern(pattern) || element.dotDotDotToken) {
+      return undefined;
+    }
+
+    const property = element.propertyName ?? element.name;
+    if (!typescript.isIdentifier(property) && !typescript.isStringLiteral(property)) {
+      return undefined;
+    }
+
+    const source = pattern.parent;
+    let base: string | undefined;
+    if (typescript.isVariableDeclaration(source) && source.initializer) {
+      base = resolveExpression(source.initializer, depth);
+    } else if (typescript.isBindingElement(source)) {
+      base = resolveBindingElement(source, depth + 1);
+    }
+
+    return base === undefined ? undefined : join(base, property.text);
+  };
+
+  const resolveDeclaration = (
+    declaration: ts.Declaration,
+    depth: number,
+  ): string | undefined => {
+    if (typescript.isVariableDeclaration(declaration)) {
+      return typescript.isIdentifier(declaration.name) && declaration.initializer
+        ? resolveExpression(declaration.initializer, depth)
+        : undefined;
+    }
+
+    if (typescript.isBindingElement(declaration)) {
+      return resolveBindingElement(declaration, depth);
+    }
+
+    if (typescript.isImportSpecifier(declaration)) {
+      const importDeclaration = declaration.parent.parent.parent;
+      if (
+        declaration.isTypeOnly ||
+        importDeclaration.importClause?.isTypeOnly ||
+        !typescript.isStringLiteral(importDeclaration.moduleSpecifier)
+      ) {
+        return undefined;
+      }
+      const module = normalizeModuleName(importDeclaration.moduleSpecifier.text);
+      const imported = (declaration.propertyName ?? declaration.name).text;
+      return imported === 'default' ? module : `${module}.${imported}`;
+    }
+
+    if (
+      typescript.isImportClause(declaration) ||
+      typescript.isNamespaceImport(declaration)
+    ) {
+      const importDeclaration = typescript.isImportClause(declaration)
+        ? declaration.parent
+        : declaration.parent.parent;
+      if (
+        importDeclaration.importClause?.isTypeOnly ||
+        !typescript.isStringLiteral(importDeclaration.moduleSpecifier)
+      ) {
+        return undefined;
+      }
+      return normalizeModuleName(importDeclaration.moduleSpecifier.text);
+    }
+
+    if (
+      typescript.isImportEqualsDeclaration(declaration) &&
+      typescript.isExternalModuleReference(declaration.moduleReference) &&
+      typescript.isStringLiteral(declaration.moduleReference.expression)
+    ) {
+      return normalizeModuleName(declaration.moduleReference.expression.text);
+    }
+
+    return undefined;
+  };
+
+  return {
+    resolve: (expression) => resolveExpression(expression),
+    resolveModuleCall: (call) => resolveModuleCall(call),
+  };
+}
+
+/**
+ * Check whether an API descriptor matches a usage found in the source.
+ */
+function apiMatches(api: ReplayUnsafeApi, usage: ApiUsage): boolean {
+  if (api.usage !== usage.usage) {
+    return false;
+  }
+  if (api.argumentCount !== undefined && api.argumentCount !== usage.argumentCount) {
+    return false;
+  }
+  return api.path.endsWith('*')
+    ? usage.path.startsWith(api.path.slice(0, -1))
+    : usage.path === api.path;
+}
+
+/**
+ * Normalize a module specifier into the root of an API path.
+ *
+ * Builtin subpaths become dotted (`node:fs/promises` → `fs.promises`) so
+ * they line up with property access on the parent module.
+ */
+function normalizeModuleName(specifier: string): string {
+  const normalized = normalizeSpecifier(specifier);
+  return builtinModules.includes(normalized)
+    ? normalized.replaceAll('/', '.')
+    : normalized;
+}
+
+/**
+ * Strip parentheses, type assertions and non-null assertions.
+ */
+function skipExpressionWrappers(
+  typescript: typeof ts,
+  expression: ts.Expression,
+): ts.Expression {
+  let node = expression;
+  while (
+    typescript.isParenthesizedExpression(node) ||
+    typescript.isAsExpression(node) ||
+    typescript.isSatisfiesExpression(node) ||
+    typescript.isNonNullExpression(node) ||
+    typescript.isTypeAssertionExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Check whether a node only exists at the type level.
+ */
+function isTypeOnlyNode(typescript: typeof ts, node: ts.Node): boolean {
+  if (typescript.isTypeNode(node)) {
+    return !typescript.isExpressionWithTypeArguments(node);
+  }
+  return (
+    typescript.isInterfaceDeclaration(node) ||
+    typescript.isTypeAliasDeclaration(node) ||
+    (typescript.isImportDeclaration(node) && !!node.importClause?.isTypeOnly) ||
+    (typescript.isExportDeclaration(node) && node.isTypeOnly) ||
+    (typescript.isModuleDeclaration(node) &&
+      !!node.modifiers?.some((m) => m.kind === typescript.SyntaxKind.DeclareKeyword))
+  );
+}
+
+/**
+ * Check whether a node is an identifier or property access read as a value.
+ */
+function isReferenceExpression(
+  typescript: typeof ts,
+  node: ts.Node,
+): node is ts.Identifier | ts.PropertyAccessExpression | ts.ElementAccessExpression {
+  if (
+    !typescript.isIdentifier(node) &&
+    !typescript.isPropertyAccessExpression(node) &&
+    !typescript.isElementAccessExpression(node)
+  ) {
+    return false;
+  }
+
+  const parent = node.parent;
+
+  if (typescript.isIdentifier(node)) {
+    if (
+      (typescript.isPropertyAccessExpression(parent) && parent.name === node) ||
+      (typescript.isQualifiedName(parent) && parent.right === node) ||
+      (typescript.isPropertyAssignment(parent) && parent.name === node) ||
+      (typescript.isBindingElement(parent) && parent.propertyName === node) ||
+      typescript.isImportSpecifier(parent) ||
+      typescript.isExportSpecifier(parent) ||
+      typescript.isImportClause(parent) ||
+      typescript.isNamespaceImport(parent) ||
+      typescript.isLabeledStatement(parent) ||
+      typescript.isBreakOrContinueStatement(parent) ||
+      typescript.isMetaProperty(parent)
+    ) {
+      return false;
+    }
+    if (
+      'name' in parent &&
+      (parent as ts.NamedDeclaration).name === node &&
+      !typescript.isShorthandPropertyAssignment(parent)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Collect ranges of comments, string contents and type annotations, where
+ * regex patterns must not match.
+ */
+function collectInertRanges(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+): Array<[number, number]> {
+  const text = sourceFile.text;
+  const ranges: Array<[number, number]> = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      node.kind >= typescript.SyntaxKind.FirstJSDocNode &&
+      node.kind <= typescript.SyntaxKind.LastJSDocNode
+    ) {
+      return;
+    }
+
+    if (
+      typescript.isStringLiteralLike(node) ||
+      typescript.isTemplateLiteralToken(node) ||
+      typescript.isRegularExpressionLiteral(node) ||
+      typescript.isJsxText(node) ||
+      isTypeOnlyNode(typescript, node)
+    ) {
+      ranges.push([node.getStart(sourceFile), node.end]);
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length === 0) {
+      for (const comment of typescript.getLeadingCommentRanges(text, node.pos) ?? []) {
+        ranges.push([comment.pos, comment.end]);
+      }
+    }
+    for (const child of children) {
+      visit(child);
+    }
+  };
+
+  visit(sourceFile);
+  return ranges;
+}
+
+// ============================================================
+// Regex fallback
+// ============================================================
+
+/**
+ * Match patterns against raw source text.
+ *
+ * Used when the TypeScript compiler is not installed.
+ */
+function analyzeWithRegex(
+  code: string,
+  patterns: ReplayUnsafePattern[],
+  filePath: string | undefined,
+): ReplayViolation[] {
+  const violations: ReplayViolation[] = [];
+
   // Split code into lines for position tracking
   const lines = code.split('\n');
 
@@ -313,34 +1204,12 @@ export function analyzeReplaySafety(
         line: position.line,
         column: position.column,
         sourceLine: lines[position.line - 1] ?? '',
-        file: options.filePath,
+        file: filePath,
       });
     }
   }
 
-  // Sort by line number
-  violations.sort((a, b) => a.line - b.line || a.column - b.column);
-
-  const errors = violations.filter((v) => v.pattern.severity === 'error');
-  const warnings = violations.filter((v) => v.pattern.severity === 'warning');
-
-  return {
-    safe: errors.length === 0,
-    violations,
-    errors,
-    warnings,
-  };
-}
-
-/**
- * Analyze a file for replay-unsafe patterns.
- */
-export function analyzeFileReplaySafety(
-  filePath: string,
-  options: Omit<AnalyzeReplaySafetyOptions, 'filePath'> = {},
-): ReplaySafetyResult {
-  const code = readFileSync(filePath, 'utf-8');
-  return analyzeReplaySafety(code, { ...options, filePath });
+  return violations;
 }
 
 /**
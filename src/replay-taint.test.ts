@@ -0,0 +1,180 @@
+/**
+ * Tests for interprocedural replay safety analysis.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import {
+  analyzeWorkflowReplaySafety,
+  formatTransitiveReplayViolations,
+} from './replay-taint';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/transitive-replay');
+const workflowsPath = resolve(fixtureDir, 'workflows.ts');
+
+describe('replay-taint', () => {
+  describe('analyzeWorkflowReplaySafety', () => {
+    it('reports violations reached through helpers in other modules', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath);
+
+      expect(result.safe).toBe(false);
+
+      const timestamp = result.errors.find((v) => v.workflow === 'timestampWorkflow');
+      expect(timestamp?.pattern.name).toBe('Date.now()');
+      expect(timestamp?.file).toBe(resolve(fixtureDir, 'utils/time.ts'));
+      expect(timestamp?.line).toBe(2);
+      expect(timestamp?.function).toBe('getTimestamp');
+      expect(timestamp?.callChain.map((step) => step.callee)).toEqual([
+        'stamp',
+        'getTimestamp',
+      ]);
+      expect(timestamp?.callChain[1]).toMatchObject({
+        function: 'stamp',
+        file: workflowsPath,
+        line: 14,
+      });
+    });
+
+    it('follows namespace imports', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath);
+
+      const id = result.errors.find((v) => v.workflow === 'idWorkflow');
+      expect(id?.pattern.name).toBe('Math.random()');
+      expect(id?.callChain.map((step) => step.callee)).toEqual([
+        'nextId',
+        'randomSuffix',
+      ]);
+    });
+
+    it('reports helper calls made at module load time', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath);
+
+      const moduleLevel = result.errors.filter((v) => v.workflow === undefined);
+      expect(moduleLevel).toHaveLength(1);
+      expect(moduleLevel[0]?.callChain[0]).toMatchObject({
+        function: '<module>',
+        callee: 'getTimestamp',
+        file: resolve(fixtureDir, 'audit.ts'),
+      });
+    });
+
+    it('does not report workflows that stay deterministic', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath);
+
+      const workflows = new Set(result.violations.map((v) => v.workflow));
+      expect(workflows.has('safeWorkflow')).toBe(false);
+      expect(workflows.has('auditWorkflow')).toBe(false);
+    });
+
+    it('marks every function that reaches an unsafe API', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath);
+
+      expect(result.taintedFunctions).toContain(`${workflowsPath}#stamp`);
+      expect(result.taintedFunctions).toContain(`${workflowsPath}#timestampWorkflow`);
+      expect(result.taintedFunctions).not.toContain(`${workflowsPath}#safeWorkflow`);
+      expect(result.taintedFunctions).not.toContain(
+        `${resolve(fixtureDir, 'utils/time.ts')}#formatDuration`,
+      );
+    });
+
+    it('respects skipPatterns', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath, {
+        skipPatterns: ['Date.now()'],
+      });
+
+      expect(result.violations.map((v) => v.pattern.name)).toEqual(['Math.random()']);
+    });
+  });
+
+  describe('methods, aliases and callbacks', () => {
+    const unresolvedDir = resolve(__dirname, '../test/fixtures/unresolved-replay');
+    const unresolvedPath = resolve(unresolvedDir, 'workflows.ts');
+
+    it('follows class methods and calls through this', async () => {
+      const result = await analyzeWorkflowReplaySafety(unresolvedPath);
+
+      const clock = result.errors.find((v) => v.workflow === 'classWorkflow');
+      expect(clock?.function).toBe('Clock.read');
+      expect(clock?.file).toBe(resolve(unresolvedDir, 'clock.ts'));
+      expect(clock?.callChain.map((step) => step.callee)).toEqual([
+        'Clock.now',
+        'Clock.read',
+      ]);
+    });
+
+    it('follows aliased functions', async () => {
+      const result = await analyzeWorkflowReplaySafety(unresolvedPath);
+
+      const alias = result.errors.find((v) => v.workflow === 'aliasWorkflow');
+      expect(alias?.pattern.name).toBe('Date.now()');
+      expect(alias?.callChain.map((step) => step.callee)).toEqual(['wrapper']);
+    });
+
+    it('attributes object literal methods to the method', async () => {
+      const result = await analyzeWorkflowReplaySafety(unresolvedPath);
+
+      const roll = result.errors.filter((v) => v.function === 'dice.roll');
+      expect(roll.map((v) => v.workflow)).toEqual(['objectWorkflow']);
+      expect(result.errors.some((v) => v.function === '<module>')).toBe(false);
+    });
+
+    it('reports violations no resolved call reaches', async () => {
+      const result = await analyzeWorkflowReplaySafety(unresolvedPath);
+
+      const jitter = result.errors.find((v) => v.function === 'helpers.jitter');
+      expect(jitter?.workflow).toBeUndefined();
+      expect(jitter).toMatchObject({
+        callChain: [],
+        file: resolve(unresolvedDir, 'helpers.ts'),
+      });
+      expect(formatTransitiveReplayViolations([jitter!])).toContain(
+        'In helpers.jitter, which is not called from a workflow',
+      );
+    });
+  });
+
+  describe('suppressions', () => {
+    const suppressionsDir = resolve(__dirname, '../test/fixtures/suppressions');
+    const suppressionsPath = resolve(suppressionsDir, 'workflows.ts');
+
+    it('suppresses violations at the call site and at the unsafe call', async () => {
+      const result = await analyzeWorkflowReplaySafety(suppressionsPath);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.suppressed.map((v) => v.suppression?.reason).sort()).toEqual([
+        'elapsed time is reported, not branched on',
+        'only logged, never used in workflow logic',
+      ]);
+      expect(result.unusedSuppressions.map((d) => d.rules)).toEqual([['Math.random']]);
+    });
+
+    it('fails on unused suppressions when requested', async () => {
+      const result = await analyzeWorkflowReplaySafety(suppressionsPath, {
+        failOnUnusedSuppressions: true,
+      });
+
+      expect(result.safe).toBe(false);
+    });
+  });
+
+  describe('formatTransitiveReplayViolations', () => {
+    it('includes the call chain', async () => {
+      const result = await analyzeWorkflowReplaySafety(workflowsPath);
+
+      const formatted = formatTransitiveReplayViolations(result.violations);
+
+      expect(formatted).toContain(
+        'Call chain: timestampWorkflow → stamp → getTimestamp → Date.now()',
+      );
+      expect(formatted).toContain('stamp calls getTimestamp at');
+    });
+
+    it('returns message for no violations', () => {
+      expect(formatTransitiveReplayViolations([])).toBe(
+        'No replay-unsafe patterns found.',
+      );
+    });
+  });
+});
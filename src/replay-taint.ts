@@ -0,0 +1,1131 @@
+/**
+ * Interprocedural replay safety analysis.
+ *
+ * Per-file analysis only flags the line that calls a non-deterministic API.
+ * When a workflow calls a helper from another module that internally calls
+ * `Date.now()`, the workflow itself looks clean. This module walks the
+ * esbuild import graph, marks every function that transitively reaches an
+ * unsafe API, and reports the call chain from each exported workflow to the
+ * offending line.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+
+import * as esbuild from 'esbuild';
+import type * as ts from 'typescript';
+
+import { buildDependencyGraph } from './dependency-chain';
+import type {
+  AnalyzeReplaySafetyOptions,
+  ReplaySafetyResult,
+  ReplayViolation,
+} from './replay-safety';
+import {
+  analyzeFileReplaySafety,
+  applyReplaySeverityOverrides,
+  applyReplaySuppressions,
+  createSingleFileChecker,
+  findReplayViolations,
+  formatReplayViolations,
+  isReplaySuppression,
+  parseReplaySourceFile,
+  SCRIPT_EXTENSIONS,
+  selectReplayPatterns,
+  summarizeReplayViolations,
+} from './replay-safety';
+import type { SuppressionDirective } from './suppressions';
+import { findSuppression, parseSuppressions } from './suppressions';
+import { loadTypeScript } from './typescript-loader';
+
+/**
+ * Options for interprocedural replay safety analysis.
+ */
+export interface AnalyzeWorkflowReplaySafetyOptions extends Omit<
+  AnalyzeReplaySafetyOptions,
+  'filePath'
+> {
+  /**
+   * Metafile from an existing esbuild build of the workflows.
+   * When omitted, the import graph is built with esbuild.
+   */
+  metafile?: esbuild.Metafile;
+
+  /**
+   * Directory that metafile paths are relative to.
+   * Default: process.cwd()
+   */
+  workingDirectory?: string;
+
+  /**
+   * Path to tsconfig.json used to resolve path aliases when building the
+   * import graph.
+   */
+  tsconfigPath?: string;
+}
+
+/**
+ * A call from one function to the next on the way to an unsafe API.
+ */
+export interface ReplayCallStep {
+  /**
+   * Name of the calling function.
+   */
+  function: string;
+
+  /**
+   * Name of the function being called.
+   */
+  callee: string;
+
+  /**
+   * File containing the call.
+   */
+  file: string;
+
+  /**
+   * Line number of the call (1-indexed).
+   */
+  line: number;
+
+  /**
+   * Column number of the call (1-indexed).
+   */
+  column: number;
+}
+
+/**
+ * A violation reached from an exported workflow.
+ */
+export interface TransitiveReplayViolation extends ReplayViolation {
+  /**
+   * The exported workflow that reaches the violation.
+   * Undefined for violations in module-level code, which runs on import,
+   * and for violations in functions that no resolved call reaches.
+   */
+  workflow?: string | undefined;
+
+  /**
+   * Name of the function containing the violation.
+   */
+  function: string;
+
+  /**
+   * Calls from the workflow to the function containing the violation.
+   * Empty when the violation is in the workflow itself.
+   */
+  callChain: ReplayCallStep[];
+}
+
+/**
+ * Result of interprocedural replay safety analysis.
+ */
+export interface WorkflowReplaySafetyResult extends ReplaySafetyResult {
+  violations: TransitiveReplayViolation[];
+  errors: TransitiveReplayViolation[];
+  warnings: TransitiveReplayViolation[];
+  suppressed: TransitiveReplayViolation[];
+
+  /**
+   * Functions that transitively reach an unsafe API, as `file#name`.
+   */
+  taintedFunctions: string[];
+
+  /**
+   * Source files that were analyzed.
+   */
+  files: string[];
+}
+
+/**
+ * Name used for code that runs at module load time.
+ */
+const MODULE_SCOPE = '<module>';
+
+/**
+ * A named function (or the module scope) in a source file.
+ */
+interface FunctionUnit {
+  id: string;
+  name: string;
+  file: string;
+  violations: ReplayViolation[];
+  calls: CallEdge[];
+}
+
+/**
+ * What a call expression refers to.
+ */
+type CallTarget =
+  | { kind: 'local'; unitId: string }
+  | { kind: 'import'; module: string; exportName: string; member?: string };
+
+/**
+ * A class or object literal whose methods can be called, either declared
+ * in the module or imported.
+ */
+type MemberOwner =
+  | { kind: 'local'; members: Map<string, FunctionUnit> }
+  | { kind: 'import'; module: string; exportName: string };
+
+interface CallEdge {
+  target: CallTarget;
+  callee: string;
+  line: number;
+  column: number;
+}
+
+interface ModuleInfo {
+  path: string;
+  file: string;
+  units: FunctionUnit[];
+  exports: Map<string, CallTarget>;
+  /**
+   * Method units of exported classes and object literals, by export name.
+   */
+  members: Map<string, Map<string, string>>;
+  starExports: string[];
+  suppressions: SuppressionDirective[];
+  suppressed: TransitiveReplayViolation[];
+}
+
+/**
+ * Analyze workflow code for replay-unsafe APIs reached through function calls
+ * across modules.
+ *
+ * Requires the TypeScript compiler; without it, each file is analyzed on its
+ * own and no call chains are reported.
+ *
+ * @example
+ * ```typescript
+ * import { analyzeWorkflowReplaySafety } from 'bundle-temporal-workflow';
+ *
+ * const result = await analyzeWorkflowReplaySafety('./src/workflows.ts');
+ *
+ * for (const violation of result.errors) {
+ *   const chain = violation.callChain.map((step) => step.callee).join(' → ');
+ *   console.error(`${violation.workflow} → ${chain}: ${violation.pattern.name}`);
+ * }
+ * ```
+ */
+export async function analyzeWorkflowReplaySafety(
+  workflowsPath: string,
+  options: AnalyzeWorkflowReplaySafetyOptions = {},
+): Promise<WorkflowReplaySafetyResult> {
+  const workingDirectory = resolve(options.workingDirectory ?? process.cwd());
+  const entryFile = resolve(workingDirectory, workflowsPath);
+  const metafile =
+    options.metafile ?? (await buildImportGraph(entryFile, workingDirectory, options));
+
+  const modulePaths = Object.keys(metafile.inputs).filter((path) =>
+    isAnalyzableModule(resolve(workingDirectory, path)),
+  );
+  const files = modulePaths.map((path) => resolve(workingDirectory, path));
+  const patterns = selectReplayPatterns(options);
+
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    const results = files.map((file) => analyzeFileReplaySafety(file, options));
+    const toTransitive = (violation: ReplayViolation): TransitiveReplayViolation => ({
+      ...violation,
+      function: MODULE_SCOPE,
+      callChain: [],
+    });
+    return {
+      ...summarizeReplayViolations(
+        results.flatMap((result) => result.violations.map(toTransitive)),
+        {
+          suppressed: results.flatMap((result) => result.suppressed.map(toTransitive)),
+          unusedSuppressions: results.flatMap((result) => result.unusedSuppressions),
+          failOnUnusedSuppressions: options.failOnUnusedSuppressions,
+        },
+      ),
+      taintedFunctions: [],
+      files,
+    };
+  }
+
+  const usedSuppressions = new Set<SuppressionDirective>();
+  const modules = new Map<string, ModuleInfo>();
+  for (const path of modulePaths) {
+    modules.set(
+      path,
+      analyzeModule(
+        typescript,
+        path,
+        workingDirectory,
+        metafile,
+        patterns,
+        options,
+        usedSuppressions,
+      ),
+    );
+  }
+
+  const units = new Map<string, FunctionUnit>();
+  for (const module of modules.values()) {
+    for (const unit of module.units) {
+      units.set(unit.id, unit);
+    }
+  }
+
+  const resolveTarget = (target: CallTarget): string | undefined =>
+    target.kind === 'local'
+      ? target.unitId
+      : resolveExport(
+          modules,
+          target.module,
+          target.exportName,
+          new Set(),
+          target.member,
+        );
+
+  const tainted = propagateTaint(metafile, modules, resolveTarget);
+
+  const entryPath = findEntryModule(modulePaths, workingDirectory, entryFile);
+  const roots: Array<{ workflow: string | undefined; unitId: string }> = [];
+
+  // Module-level code runs when the workflow bundle is loaded
+  for (const module of modules.values()) {
+    roots.push({ workflow: undefined, unitId: module.units[0]!.id });
+  }
+
+  if (entryPath) {
+    for (const workflow of listExportNames(modules, entryPath, new Set())) {
+      const unitId = resolveExport(modules, entryPath, workflow, new Set());
+      if (unitId) {
+        roots.push({ workflow, unitId });
+      }
+    }
+  }
+
+  const suppressionsByFile = new Map<string, SuppressionDirective[]>();
+  for (const module of modules.values()) {
+    suppressionsByFile.set(module.file, module.suppressions);
+  }
+
+  const violations: TransitiveReplayViolation[] = [];
+  const suppressed = [...modules.values()].flatMap((module) => module.suppressed);
+  const reached = new Set<FunctionUnit>();
+
+  for (const root of roots) {
+    if (!tainted.has(root.unitId)) {
+      continue;
+    }
+
+    for (const { unit, chain } of findReachableViolations(
+      root.unitId,
+      units,
+      tainted,
+      resolveTarget,
+    )) {
+      reached.add(unit);
+      for (const violation of unit.violations) {
+        const transitive: TransitiveReplayViolation = {
+          ...violation,
+          workflow: root.workflow,
+          function: unit.name,
+          callChain: chain,
+        };
+
+        // A directive at any call site along the chain silences this path
+        const suppression = chain
+          .map((step) =>
+            findSuppression(
+              suppressionsByFile.get(step.file) ?? [],
+              step.line,
+              violation.pattern.name,
+            ),
+          )
+          .find((directive) => directive !== undefined);
+
+        if (suppression) {
+          usedSuppressions.add(suppression);
+          suppressed.push({ ...transitive, suppression });
+        } else {
+          violations.push(transitive);
+        }
+      }
+    }
+  }
+
+  // Calls the analysis cannot resolve, such as callbacks and dynamic
+  // property access, would hide these, so they are reported on their own
+  for (const unit of units.values()) {
+    if (reached.has(unit)) {
+      continue;
+    }
+    for (const violation of unit.violations) {
+      violations.push({ ...violation, function: unit.name, callChain: [] });
+    }
+  }
+
+  return {
+    ...summarizeReplayViolations(violations, {
+      suppressed,
+      unusedSuppressions: [...modules.values()].flatMap((module) =>
+        module.suppressions.filter((directive) => !usedSuppressions.has(directive)),
+      ),
+      failOnUnusedSuppressions: options.failOnUnusedSuppressions,
+    }),
+    taintedFunctions: [...tainted].sort(),
+    files,
+  };
+}
+
+/**
+ * Format transitive violations for display, including call chains.
+ */
+export function formatTransitiveReplayViolations(
+  violations: TransitiveReplayViolation[],
+): string {
+  if (violations.length === 0) {
+    return formatReplayViolations([]);
+  }
+
+  const lines: string[] = [];
+
+  for (const violation of violations) {
+    lines.push(formatReplayViolations([violation]).trimEnd());
+
+    if (
+      violation.workflow === undefined &&
+      violation.function !== MODULE_SCOPE &&
+      violation.callChain.length === 0
+    ) {
+      lines.push(
+        `  In ${violation.function}, which is not called from a workflow through calls the analysis could follow`,
+      );
+      lines.push('');
+      continue;
+    }
+
+    const root = violation.workflow ?? `${MODULE_SCOPE} (runs at module load time)`;
+    const chain = [root, ...violation.callChain.map((step) => step.callee)];
+    lines.push(`  Call chain: ${chain.join(' → ')} → ${violation.pattern.name}`);
+    for (const step of violation.callChain) {
+      lines.push(
+        `    ${step.function} calls ${step.callee} at ${step.file}:${step.line}`,
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build the import graph of user modules reachable from the workflows.
+ */
+async function buildImportGraph(
+  entryFile: string,
+  workingDirectory: string,
+  options: AnalyzeWorkflowReplaySafetyOptions,
+): Promise<esbuild.Metafile> {
+  const result = await esbuild.build({
+    stdin: {
+      contents: `export * from ${JSON.stringify(entryFile)};`,
+      resolveDir: workingDirectory,
+      sourcefile: 'replay-safety-entry.js',
+      loader: 'js',
+    },
+    absWorkingDir: workingDirectory,
+    bundle: true,
+    write: false,
+    metafile: true,
+    platform: 'node',
+    packages: 'external',
+    logLevel: 'silent',
+    ...(options.tsconfigPath ? { tsconfig: resolve(options.tsconfigPath) } : {}),
+  });
+
+  return result.metafile;
+}
+
+/**
+ * Find the metafile input for the workflows path, which may be a directory
+ * with an index file.
+ */
+function findEntryModule(
+  modulePaths: string[],
+  workingDirectory: string,
+  entryFile: string,
+): string | undefined {
+  return (
+    modulePaths.find((path) => resolve(workingDirectory, path) === entryFile) ??
+    modulePaths.find((path) => {
+      const file = resolve(workingDirectory, path);
+      return dirname(file) === entryFile && basename(file).startsWith('index.');
+    })
+  );
+}
+
+/**
+ * Check whether a metafile input is a user source file we can parse.
+ */
+function isAnalyzableModule(file: string): boolean {
+  return (
+    !file.includes('/node_modules/') &&
+    SCRIPT_EXTENSIONS.has(extname(file)) &&
+    !file.endsWith('.d.ts') &&
+    existsSync(file) &&
+    statSync(file).isFile()
+  );
+}
+
+/**
+ * Parse a module into function units, call edges and exports.
+ */
+function analyzeModule(
+  typescript: typeof ts,
+  path: string,
+  workingDirectory: string,
+  metafile: esbuild.Metafile,
+  patterns: ReturnType<typeof selectReplayPatterns>,
+  options: AnalyzeWorkflowReplaySafetyOptions,
+  usedSuppressions: Set<SuppressionDirective>,
+): ModuleInfo {
+  const file = resolve(workingDirectory, path);
+  const code = readFileSync(file, 'utf-8');
+  const sourceFile = parseReplaySourceFile(typescript, code, file);
+  const checker = createSingleFileChecker(typescript, sourceFile);
+  const imports = metafile.inputs[path]?.imports ?? [];
+
+  const resolveSpecifier = (specifier: string): string | undefined =>
+    imports.find((imported) => imported.original === specifier)?.path;
+
+  const scope: FunctionUnit = {
+    id: `${file}#${MODULE_SCOPE}`,
+    name: MODULE_SCOPE,
+    file,
+    violations: [],
+    calls: [],
+  };
+  const units: FunctionUnit[] = [scope];
+  const unitByDeclaration = new Map<ts.Node, FunctionUnit>();
+  const unitNodes = new Map<FunctionUnit, ts.Node>();
+  const usedIds = new Set<string>([scope.id]);
+
+  // Methods of classes and object literals, by the class declaration or
+  // the variable declaration holding the object literal
+  const membersByDeclaration = new Map<ts.Node, Map<string, FunctionUnit>>();
+
+  const createUnit = (
+    name: string,
+    declaration: ts.Node,
+    body: ts.Node,
+  ): FunctionUnit => {
+    let id = `${file}#${name}`;
+    for (let i = 2; usedIds.has(id); i++) {
+      id = `${file}#${name}~${i}`;
+    }
+    usedIds.add(id);
+    const unit: FunctionUnit = { id, name, file, violations: [], calls: [] };
+    units.push(unit);
+    unitByDeclaration.set(declaration, unit);
+    unitNodes.set(unit, body);
+    return unit;
+  };
+
+  const isFunctionExpression = (
+    node: ts.Node | undefined,
+  ): node is ts.ArrowFunction | ts.FunctionExpression =>
+    !!node && (typescript.isArrowFunction(node) || typescript.isFunctionExpression(node));
+
+  const memberName = (node: ts.Node): string | undefined => {
+    if (typescript.isConstructorDeclaration(node)) {
+      return 'constructor';
+    }
+    const name = (node as ts.NamedDeclaration).name;
+    return name && (typescript.isIdentifier(name) || typescript.isStringLiteral(name))
+      ? name.text
+      : undefined;
+  };
+
+  // Collect named functions. `owner` is the innermost named class or
+  // object literal: `container` holds its members and `declaration` is the
+  // node its name resolves to.
+  const collectUnits = (
+    node: ts.Node,
+    owner?: { name: string; container: ts.Node; declaration: ts.Node },
+  ): void => {
+    let nextOwner = owner;
+
+    if (typescript.isFunctionDeclaration(node) && node.body) {
+      createUnit(node.name?.text ?? 'default', node, node);
+    } else if (
+      typescript.isVariableDeclaration(node) &&
+      typescript.isIdentifier(node.name) &&
+      isFunctionExpression(node.initializer)
+    ) {
+      createUnit(node.name.text, node, node.initializer);
+    } else if (
+      typescript.isExportAssignment(node) &&
+      !node.isExportEquals &&
+      isFunctionExpression(node.expression)
+    ) {
+      createUnit('default', node, node.expression);
+    } else if (typescript.isClassLike(node)) {
+      nextOwner = node.name
+        ? { name: node.name.text, container: node, declaration: node }
+        : typescript.isVariableDeclaration(node.parent) &&
+            typescript.isIdentifier(node.parent.name)
+          ? { name: node.parent.name.text, container: node, declaration: node.parent }
+          : undefined;
+    } else if (typescript.isObjectLiteralExpression(node)) {
+      nextOwner =
+        typescript.isVariableDeclaration(node.parent) &&
+        typescript.isIdentifier(node.parent.name)
+          ? { name: node.parent.name.text, container: node, declaration: node.parent }
+          : undefined;
+    } else {
+      // Methods, accessors, constructors and function-valued properties
+      const body =
+        (typescript.isMethodDeclaration(node) ||
+          typescript.isConstructorDeclaration(node) ||
+          typescript.isGetAccessorDeclaration(node) ||
+          typescript.isSetAccessorDeclaration(node)) &&
+        node.body
+          ? node
+          : (typescript.isPropertyAssignment(node) ||
+                typescript.isPropertyDeclaration(node)) &&
+              isFunctionExpression(node.initializer)
+            ? node.initializer
+            : undefined;
+      const name = body && memberName(node);
+      if (body && name) {
+        const isMember = owner?.container === node.parent;
+        const unit = createUnit(isMember ? `${owner.name}.${name}` : name, node, body);
+        if (isMember) {
+          const members =
+            membersByDeclaration.get(owner.declaration) ??
+            new Map<string, FunctionUnit>();
+          members.set(name, unit);
+          membersByDeclaration.set(owner.declaration, members);
+        }
+      }
+    }
+
+    typescript.forEachChild(node, (child) => collectUnits(child, nextOwner));
+  };
+  collectUnits(sourceFile);
+
+  // Attribute every position to its innermost named function
+  const unitRanges = [...unitNodes].map(([unit, node]) => ({
+    unit,
+    start: node.getStart(sourceFile),
+    end: node.end,
+  }));
+  const unitAt = (position: number): FunctionUnit => {
+    let innermost: { unit: FunctionUnit; start: number; end: number } | undefined;
+    for (const range of unitRanges) {
+      if (
+        position >= range.start &&
+        position < range.end &&
+        (!innermost || range.start >= innermost.start)
+      ) {
+        innermost = range;
+      }
+    }
+    return innermost?.unit ?? scope;
+  };
+
+  const positionOf = (violation: ReplayViolation): number =>
+    sourceFile.getPositionOfLineAndCharacter(violation.line - 1, violation.column - 1);
+
+  const suppressions = parseSuppressions(code, file).filter((directive) =>
+    isReplaySuppression(directive, patterns),
+  );
+  const { kept, suppressed: suppressedHere } = applyReplaySuppressions(
+    findReplayViolations(typescript, sourceFile, checker, patterns, file),
+    suppressions,
+    usedSuppressions,
+  );
+
+  // Suppressed violations do not taint their function
+  const suppressed = suppressedHere.map((violation) => ({
+    ...violation,
+    function: unitAt(positionOf(violation)).name,
+    callChain: [],
+  }));
+
+  for (const violation of applyReplaySeverityOverrides(kept, options)) {
+    unitAt(positionOf(violation)).violations.push(violation);
+  }
+
+  const resolveImport = (
+    declaration: ts.Declaration,
+  ): { module: string; exportName: string } | undefined => {
+    let moduleSpecifier: ts.Expression;
+    let exportName: string;
+    if (typescript.isImportSpecifier(declaration)) {
+      moduleSpecifier = declaration.parent.parent.parent.moduleSpecifier;
+      exportName = (declaration.propertyName ?? declaration.name).text;
+    } else if (typescript.isImportClause(declaration)) {
+      moduleSpecifier = declaration.parent.moduleSpecifier;
+      exportName = 'default';
+    } else {
+      return undefined;
+    }
+    const module = typescript.isStringLiteral(moduleSpecifier)
+      ? resolveSpecifier(moduleSpecifier.text)
+      : undefined;
+    return module ? { module, exportName } : undefined;
+  };
+
+  const resolveNamespace = (identifier: ts.Identifier): string | undefined => {
+    const declaration = checker.getSymbolAtLocation(identifier)?.declarations?.[0];
+    if (!declaration || !typescript.isNamespaceImport(declaration)) {
+      return undefined;
+    }
+    const moduleSpecifier = declaration.parent.parent.moduleSpecifier;
+    return typescript.isStringLiteral(moduleSpecifier)
+      ? resolveSpecifier(moduleSpecifier.text)
+      : undefined;
+  };
+
+  const skipParentheses = (expression: ts.Expression): ts.Expression =>
+    typescript.isParenthesizedExpression(expression)
+      ? skipParentheses(expression.expression)
+      : expression;
+
+  // Aliases (`const now = getTimestamp`) and instances
+  // (`const clock = new Clock()`) are followed a few levels deep
+  const MAX_ALIAS_DEPTH = 8;
+
+  /**
+   * Resolve the class or object literal whose methods an expression holds.
+   */
+  const resolveOwner = (
+    expression: ts.Expression,
+    depth = 0,
+  ): MemberOwner | undefined => {
+    const node = skipParentheses(expression);
+    if (depth > MAX_ALIAS_DEPTH) {
+      return undefined;
+    }
+
+    if (typescript.isNewExpression(node)) {
+      return resolveOwner(node.expression, depth + 1);
+    }
+
+    if (node.kind === typescript.SyntaxKind.ThisKeyword) {
+      // `this` in a class member, or in arrow functions inside one
+      let container: ts.Node = node.parent;
+      while (
+        !typescript.isClassLike(container.parent) &&
+        !typescript.isSourceFile(container) &&
+        !typescript.isFunctionDeclaration(container) &&
+        !typescript.isFunctionExpression(container)
+      ) {
+        container = container.parent;
+      }
+      const members = typescript.isClassLike(container.parent)
+        ? (membersByDeclaration.get(container.parent) ??
+          membersByDeclaration.get(container.parent.parent))
+        : undefined;
+      return members ? { kind: 'local', members } : undefined;
+    }
+
+    if (
+      typescript.isPropertyAccessExpression(node) &&
+      typescript.isIdentifier(node.expression)
+    ) {
+      const module = resolveNamespace(node.expression);
+      return module ? { kind: 'import', module, exportName: node.name.text } : undefined;
+    }
+
+    if (!typescript.isIdentifier(node)) {
+      return undefined;
+    }
+
+    const declaration = checker.getSymbolAtLocation(node)?.declarations?.[0];
+    if (!declaration) {
+      return undefined;
+    }
+    const members = membersByDeclaration.get(declaration);
+    if (members) {
+      return { kind: 'local', members };
+    }
+    const imported = resolveImport(declaration);
+    if (imported) {
+      return { kind: 'import', ...imported };
+    }
+    if (typescript.isVariableDeclaration(declaration) && declaration.initializer) {
+      return resolveOwner(declaration.initializer, depth + 1);
+    }
+    return undefined;
+  };
+
+  /**
+   * Resolve the method of a class or object literal.
+   */
+  const resolveMember = (
+    owner: MemberOwner | undefined,
+    member: string,
+  ): CallTarget | undefined => {
+    if (owner?.kind === 'import') {
+      return {
+        kind: 'import',
+        module: owner.module,
+        exportName: owner.exportName,
+        member,
+      };
+    }
+    const unit = owner?.members.get(member);
+    return unit ? { kind: 'local', unitId: unit.id } : undefined;
+  };
+
+  /**
+   * Resolve the function an expression refers to.
+   */
+  const resolveCallee = (
+    expression: ts.Expression,
+    depth = 0,
+  ): CallTarget | undefined => {
+    const node = skipParentheses(expression);
+    if (depth > MAX_ALIAS_DEPTH) {
+      return undefined;
+    }
+
+    if (typescript.isPropertyAccessExpression(node)) {
+      if (typescript.isIdentifier(node.expression)) {
+        const module = resolveNamespace(node.expression);
+        if (module) {
+          return { kind: 'import', module, exportName: node.name.text };
+        }
+      }
+      return resolveMember(resolveOwner(node.expression, depth + 1), node.name.text);
+    }
+
+    if (!typescript.isIdentifier(node)) {
+      return undefined;
+    }
+
+    const declaration = checker.getSymbolAtLocation(node)?.declarations?.[0];
+    if (!declaration) {
+      return undefined;
+    }
+
+    const local = unitByDeclaration.get(declaration);
+    if (local) {
+      return { kind: 'local', unitId: local.id };
+    }
+
+    const imported = resolveImport(declaration);
+    if (imported) {
+      return { kind: 'import', ...imported };
+    }
+
+    if (typescript.isVariableDeclaration(declaration) && declaration.initializer) {
+      return resolveCallee(declaration.initializer, depth + 1);
+    }
+
+    return undefined;
+  };
+
+  const exports = new Map<string, CallTarget>();
+  const members = new Map<string, Map<string, string>>();
+  const starExports: string[] = [];
+
+  const unitIds = (units: Map<string, FunctionUnit>): Map<string, string> =>
+    new Map([...units].map(([name, unit]) => [name, unit.id]));
+
+  const hasModifier = (node: ts.Node, kind: ts.SyntaxKind): boolean =>
+    typescript.canHaveModifiers(node) &&
+    !!typescript.getModifiers(node)?.some((modifier) => modifier.kind === kind);
+
+  const visit = (node: ts.Node): void => {
+    if (typescript.isCallExpression(node) || typescript.isNewExpression(node)) {
+      const callee = node.expression;
+      const target = typescript.isCallExpression(node)
+        ? resolveCallee(callee)
+        : resolveMember(resolveOwner(callee), 'constructor');
+
+      if (target) {
+        const start = node.getStart(sourceFile);
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+        unitAt(start).calls.push({
+          target,
+          callee: callee.getText(sourceFile),
+          line: line + 1,
+          column: character + 1,
+        });
+      }
+    }
+
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Collect exports
+  for (const statement of sourceFile.statements) {
+    const exported = hasModifier(statement, typescript.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, typescript.SyntaxKind.DefaultKeyword);
+
+    if (typescript.isFunctionDeclaration(statement) && exported) {
+      const unit = unitByDeclaration.get(statement);
+      if (unit) {
+        exports.set(isDefault ? 'default' : unit.name, {
+          kind: 'local',
+          unitId: unit.id,
+        });
+      }
+    } else if (typescript.isClassDeclaration(statement) && exported) {
+      const classMembers = membersByDeclaration.get(statement);
+      if (classMembers && (statement.name || isDefault)) {
+        members.set(isDefault ? 'default' : statement.name!.text, unitIds(classMembers));
+      }
+    } else if (typescript.isVariableStatement(statement) && exported) {
+      for (const declaration of statement.declarationList.declarations) {
+        const unit = unitByDeclaration.get(declaration);
+        if (unit) {
+          exports.set(unit.name, { kind: 'local', unitId: unit.id });
+        }
+        const objectMembers = membersByDeclaration.get(declaration);
+        if (objectMembers && typescript.isIdentifier(declaration.name)) {
+          members.set(declaration.name.text, unitIds(objectMembers));
+        }
+      }
+    } else if (typescript.isExportAssignment(statement) && !statement.isExportEquals) {
+      const unit = unitByDeclaration.get(statement);
+      if (unit) {
+        exports.set('default', { kind: 'local', unitId: unit.id });
+      } else if (typescript.isIdentifier(statement.expression)) {
+        const target = resolveCallee(statement.expression);
+        if (target) {
+          exports.set('default', target);
+        }
+      }
+    } else if (typescript.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      const module =
+        statement.moduleSpecifier && typescript.isStringLiteral(statement.moduleSpecifier)
+          ? resolveSpecifier(statement.moduleSpecifier.text)
+          : undefined;
+
+      if (!statement.exportClause) {
+        if (module) {
+          starExports.push(module);
+        }
+      } else if (typescript.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) {
+          if (element.isTypeOnly) continue;
+          const local = element.propertyName ?? element.name;
+          if (!typescript.isIdentifier(local)) continue;
+
+          let target: CallTarget | undefined;
+          if (statement.moduleSpecifier) {
+            target = module
+              ? { kind: 'import', module, exportName: local.text }
+              : undefined;
+          } else {
+            target = resolveCallee(local);
+            const declaration = checker.getSymbolAtLocation(local)?.declarations?.[0];
+            const localMembers = declaration && membersByDeclaration.get(declaration);
+            if (localMembers) {
+              members.set(element.name.text, unitIds(localMembers));
+            }
+          }
+          if (target) {
+            exports.set(element.name.text, target);
+          }
+        }
+      }
+    }
+  }
+
+  return { path, file, units, exports, members, starExports, suppressions, suppressed };
+}
+
+/**
+ * Resolve an export of a module to the function unit that implements it,
+ * following re-exports. With `member`, the export is a class or object
+ * literal and the unit of that method is returned.
+ */
+function resolveExport(
+  modules: Map<string, ModuleInfo>,
+  modulePath: string,
+  exportName: string,
+  seen: Set<string>,
+  member?: string,
+): string | undefined {
+  const key = `${modulePath}#${exportName}${member ? `.${member}` : ''}`;
+  if (seen.has(key)) {
+    return undefined;
+  }
+  seen.add(key);
+
+  const module = modules.get(modulePath);
+  if (!module) {
+    return undefined;
+  }
+
+  const memberUnit = member ? module.members.get(exportName)?.get(member) : undefined;
+  if (memberUnit) {
+    return memberUnit;
+  }
+
+  const target = module.exports.get(exportName);
+  if (target) {
+    if (target.kind === 'local') {
+      return member ? undefined : target.unitId;
+    }
+    return resolveExport(modules, target.module, target.exportName, seen, member);
+  }
+
+  if (exportName === 'default') {
+    return undefined;
+  }
+
+  for (const starModule of module.starExports) {
+    const unitId = resolveExport(modules, starModule, exportName, seen, member);
+    if (unitId) {
+      return unitId;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * List every export name of a module, including `export *` re-exports.
+ */
+function listExportNames(
+  modules: Map<string, ModuleInfo>,
+  modulePath: string,
+  seen: Set<string>,
+): string[] {
+  if (seen.has(modulePath)) {
+    return [];
+  }
+  seen.add(modulePath);
+
+  const module = modules.get(modulePath);
+  if (!module) {
+    return [];
+  }
+
+  const names = new Set(module.exports.keys());
+  for (const starModule of module.starExports) {
+    for (const name of listExportNames(modules, starModule, seen)) {
+      if (name !== 'default') {
+        names.add(name);
+      }
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Mark every function that transitively reaches an unsafe API.
+ *
+ * Taint starts at functions with direct violations. When a module gains a
+ * tainted function, the module and everything that imports it (per the
+ * reverse import graph) are revisited until nothing changes.
+ */
+function propagateTaint(
+  metafile: esbuild.Metafile,
+  modules: Map<string, ModuleInfo>,
+  resolveTarget: (target: CallTarget) => string | undefined,
+): Set<string> {
+  const importers = buildDependencyGraph(metafile);
+  const tainted = new Set<string>();
+  const queue: string[] = [];
+
+  for (const module of modules.values()) {
+    if (module.units.some((unit) => unit.violations.length > 0)) {
+      for (const unit of module.units) {
+        if (unit.violations.length > 0) {
+          tainted.add(unit.id);
+        }
+      }
+      queue.push(module.path);
+    }
+  }
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const changed = new Set<string>();
+
+    // Taint in a module can flow through local calls, so settle it first
+    for (const module of [path, ...(importers.get(path) ?? [])]) {
+      const info = modules.get(module);
+      if (!info) continue;
+
+      let progress = true;
+      while (progress) {
+        progress = false;
+        for (const unit of info.units) {
+          if (tainted.has(unit.id)) continue;
+          if (
+            unit.calls.some((call) => {
+              const target = resolveTarget(call.target);
+              return target !== undefined && tainted.has(target);
+            })
+          ) {
+            tainted.add(unit.id);
+            changed.add(module);
+            progress = true;
+          }
+        }
+      }
+    }
+
+    for (const module of changed) {
+      if (!queue.includes(module)) {
+        queue.push(module);
+      }
+    }
+  }
+
+  return tainted;
+}
+
+/**
+ * Find the shortest call chain from a workflow to each tainted function with
+ * direct violations.
+ */
+function findReachableViolations(
+  workflowUnit: string,
+  units: Map<string, FunctionUnit>,
+  tainted: Set<string>,
+  resolveTarget: (target: CallTarget) => string | undefined,
+): Array<{ unit: FunctionUnit; chain: ReplayCallStep[] }> {
+  const results: Array<{ unit: FunctionUnit; chain: ReplayCallStep[] }> = [];
+  const visited = new Set<string>([workflowUnit]);
+  const queue: Array<{ unitId: string; chain: ReplayCallStep[] }> = [
+    { unitId: workflowUnit, chain: [] },
+  ];
+
+  while (queue.length > 0) {
+    const { unitId, chain } = queue.shift()!;
+    const unit = units.get(unitId);
+    if (!unit) continue;
+
+    if (unit.violations.length > 0) {
+      results.push({ unit, chain });
+    }
+
+    for (const call of unit.calls) {
+      const target = resolveTarget(call.target);
+      if (!target || visited.has(target) || !tainted.has(target)) continue;
+      visited.add(target);
+
+      queue.push({
+        unitId: target,
+        chain: [
+          ...chain,
+          {
+            function: unit.name,
+            callee: units.get(target)?.name ?? call.callee,
+            file: unit.file,
+            line: call.line,
+            column: call.column,
+          },
+        ],
+      });
+    }
+  }
+
+  return results;
+}
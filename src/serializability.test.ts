@@ -0,0 +1,82 @@
+/**
+ * Tests for payload serializability checks.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { validateActivityTypes } from './activity-types';
+import { getPayloadConverterTypes } from './serializability';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/serializability');
+const activitiesPath = resolve(fixtureDir, 'activities.ts');
+const payloadConverterPath = resolve(fixtureDir, 'payload-converter.ts');
+
+// Checking activity types builds a TypeScript program
+const TYPE_CHECK_TIMEOUT = 30_000;
+
+describe('serializability', () => {
+  describe('getPayloadConverterTypes', () => {
+    it('detects serialization libraries and instanceof checks', () => {
+      const types = getPayloadConverterTypes(payloadConverterPath);
+
+      expect(types).toContain('Date');
+      expect(types).toContain('Set');
+      expect(types).toContain('BigInt');
+      expect(types).toContain('Uint8Array');
+      expect(types).not.toContain('Function');
+    });
+
+    it('returns no types for a missing converter', () => {
+      expect(getPayloadConverterTypes(resolve(fixtureDir, 'missing.ts'))).toEqual([]);
+    });
+  });
+
+  describe('validateActivityTypes', () => {
+    const result = validateActivityTypes(activitiesPath);
+    const issuesOf = (name: string) =>
+      result.activities.find((a) => a.name === name)?.issues ?? [];
+
+    it('reports nested members with their property path', () => {
+      expect(issuesOf('placeOrder')).toEqual([
+        {
+          path: 'input.customer.createdAt',
+          type: 'Date',
+          reason: 'is deserialized as an ISO 8601 string',
+        },
+        {
+          path: 'return.error',
+          type: 'Error',
+          reason: 'is serialized as an empty object',
+        },
+      ]);
+      expect(result.activities.find((a) => a.name === 'placeOrder')?.errors[0]).toBe(
+        'Parameter "input": input.customer.createdAt: Date is deserialized as an ISO 8601 string',
+      );
+    });
+
+    it('reports class instances and index signature values', () => {
+      expect(issuesOf('convert').map((issue) => `${issue.path}: ${issue.type}`)).toEqual([
+        'price: Money',
+        'rates[string]: bigint',
+      ]);
+    });
+
+    it('accepts a top-level Uint8Array as a binary payload', () => {
+      expect(issuesOf('upload').map((issue) => issue.path)).toEqual(['tags']);
+    });
+
+    it(
+      'accepts types handled by the payload converter',
+      () => {
+        const converted = validateActivityTypes(activitiesPath, { payloadConverterPath });
+        const invalid = converted.activities.filter((a) => !a.valid);
+
+        expect(invalid.map((a) => a.name)).toEqual(['convert']);
+        expect(invalid[0]?.issues?.map((issue) => issue.path)).toEqual(['price']);
+      },
+      TYPE_CHECK_TIMEOUT,
+    );
+  });
+});
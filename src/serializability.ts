@@ -0,0 +1,249 @@
+/**
+ * Payload serializability checks with the TypeScript checker.
+ *
+ * Temporal serializes activity and workflow arguments with its payload
+ * converter, which is JSON-based by default. These checks walk resolved
+ * types member by member and report values that do not survive a JSON
+ * round trip, with the property path that leads to them.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+
+import type * as ts from 'typescript';
+
+import type { SerializabilityIssue } from './types';
+
+/**
+ * Types known to be non-serializable, with what happens to them in JSON.
+ */
+export const NON_SERIALIZABLE_TYPES: Record<string, string> = {
+  Date: 'is deserialized as an ISO 8601 string',
+  Function: 'is dropped',
+  Symbol: 'is dropped',
+  BigInt: 'makes JSON.stringify throw',
+  WeakMap: 'is serialized as an empty object',
+  WeakSet: 'is serialized as an empty object',
+  WeakRef: 'is serialized as an empty object',
+  RegExp: 'is serialized as an empty object',
+  Error: 'is serialized as an empty object',
+  Map: 'is serialized as an empty object',
+  Set: 'is serialized as an empty object',
+  Promise: 'is serialized as an empty object',
+  URL: 'is deserialized as a string',
+  Buffer: 'is deserialized as a plain object',
+  Uint8Array: 'is serialized as an object of indexes',
+  Int8Array: 'is serialized as an object of indexes',
+  Uint16Array: 'is serialized as an object of indexes',
+  Int16Array: 'is serialized as an object of indexes',
+  Uint32Array: 'is serialized as an object of indexes',
+  Int32Array: 'is serialized as an object of indexes',
+  Float32Array: 'is serialized as an object of indexes',
+  Float64Array: 'is serialized as an object of indexes',
+  ArrayBuffer: 'is serialized as an empty object',
+  SharedArrayBuffer: 'is serialized as an empty object',
+  DataView: 'is serialized as an empty object',
+  ReadableStream: 'cannot be serialized',
+  WritableStream: 'cannot be serialized',
+  TransformStream: 'cannot be serialized',
+};
+
+/**
+ * Types handled by well-known serialization libraries used in custom
+ * payload converters.
+ */
+const CONVERTER_LIBRARY_TYPES: Record<string, string[]> = {
+  superjson: ['Date', 'Map', 'Set', 'RegExp', 'Error', 'BigInt', 'URL'],
+  devalue: ['Date', 'Map', 'Set', 'RegExp', 'BigInt', 'URL'],
+  ejson: ['Date', 'Uint8Array'],
+  bson: ['Date', 'RegExp', 'Uint8Array', 'Buffer'],
+  seroval: ['Date', 'Map', 'Set', 'RegExp', 'Error', 'BigInt', 'URL', 'Promise'],
+};
+
+/**
+ * Options for serializability checks.
+ */
+export interface SerializabilityOptions {
+  /**
+   * Path to the custom payload converter. Types it handles, detected from
+   * the serialization library it imports and the `instanceof` checks it
+   * makes, are accepted.
+   */
+  payloadConverterPath?: string;
+
+  /**
+   * Additional type names to accept (e.g., `['Date']`).
+   */
+  acceptedTypes?: string[];
+}
+
+/**
+ * Get the type names a custom payload converter handles.
+ *
+ * Detects well-known serialization libraries (superjson, devalue, EJSON,
+ * BSON, seroval) among its imports, and classes it checks with
+ * `instanceof`.
+ */
+export function getPayloadConverterTypes(payloadConverterPath: string): string[] {
+  if (!existsSync(payloadConverterPath)) {
+    return [];
+  }
+
+  const code = readFileSync(payloadConverterPath, 'utf-8');
+  const types = new Set<string>();
+
+  for (const match of code.matchAll(/(?:from\s+|require\s*\(\s*)['"]([^'"]+)['"]/g)) {
+    const specifier = match[1]!;
+    for (const [library, handled] of Object.entries(CONVERTER_LIBRARY_TYPES)) {
+      if (specifier === library || specifier.endsWith(`/${library}`)) {
+        handled.forEach((type) => types.add(type));
+      }
+    }
+  }
+
+  for (const match of code.matchAll(/\binstanceof\s+([A-Z]\w*)/g)) {
+    types.add(match[1]!);
+  }
+
+  return [...types];
+}
+
+/**
+ * Resolve the type names accepted by the configured payload converter.
+ */
+export function getAcceptedTypes(options: SerializabilityOptions = {}): Set<string> {
+  return new Set([
+    ...(options.payloadConverterPath
+      ? getPayloadConverterTypes(options.payloadConverterPath)
+      : []),
+    ...(options.acceptedTypes ?? []),
+  ]);
+}
+
+/**
+ * Find the members of a type that do not survive serialization.
+ *
+ * Unions, intersections, arrays, tuples, index signatures and nested
+ * object types are walked recursively. A top-level `Uint8Array` is
+ * accepted, because Temporal's default converter stores it as a binary
+ * payload.
+ *
+ * @param path - Name of the value the type describes
+ * @param accepted - Type names the payload converter handles
+ */
+export function findSerializabilityIssues(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  path: string,
+  accepted: Set<string> = new Set(),
+): SerializabilityIssue[] {
+  const issues: SerializabilityIssue[] = [];
+  walkType(typescript, checker, type, path, accepted, issues, new Set(), true);
+  return issues;
+}
+
+function walkType(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  path: string,
+  accepted: Set<string>,
+  issues: SerializabilityIssue[],
+  seen: Set<ts.Type>,
+  topLevel: boolean,
+): void {
+  const { TypeFlags } = typescript;
+  const report = (reason: string, name = checker.typeToString(type)): void => {
+    // Union members such as `T[] | readonly T[]` reach the same path twice
+    if (!issues.some((issue) => issue.path === path && issue.type === name)) {
+      issues.push({ path, type: name, reason });
+    }
+  };
+  const walk = (member: ts.Type, memberPath: string): void =>
+    walkType(typescript, checker, member, memberPath, accepted, issues, seen, false);
+
+  if (type.flags & (TypeFlags.BigInt | TypeFlags.BigIntLiteral)) {
+    if (!accepted.has('BigInt')) report(NON_SERIALIZABLE_TYPES['BigInt']!);
+    return;
+  }
+  if (type.flags & (TypeFlags.ESSymbol | TypeFlags.UniqueESSymbol)) {
+    report(NON_SERIALIZABLE_TYPES['Symbol']!);
+    return;
+  }
+  if (type.isUnion()) {
+    for (const member of type.types) {
+      walkType(typescript, checker, member, path, accepted, issues, seen, topLevel);
+    }
+    return;
+  }
+  if (!(type.flags & (TypeFlags.Object | TypeFlags.Intersection)) || seen.has(type)) {
+    // Primitives, literals, enums, any and unknown
+    return;
+  }
+
+  if (checker.isArrayType(type) || checker.isTupleType(type)) {
+    const elements = checker.getTypeArguments(type as ts.TypeReference);
+    const isTuple = checker.isTupleType(type);
+    elements.forEach((element, index) => {
+      walk(element, isTuple ? `${path}[${index}]` : `${path}[]`);
+    });
+    return;
+  }
+
+  if (type.getCallSignatures().length > 0 || type.getConstructSignatures().length > 0) {
+    report(NON_SERIALIZABLE_TYPES['Function']!);
+    return;
+  }
+
+  const symbol = type.getSymbol();
+  const name = symbol?.getName();
+  const isLibraryType = symbol?.declarations?.some(
+    (declaration) => declaration.getSourceFile().isDeclarationFile,
+  );
+  if (name && isLibraryType && NON_SERIALIZABLE_TYPES[name]) {
+    const isBinaryPayload = topLevel && name === 'Uint8Array';
+    if (!accepted.has(name) && !isBinaryPayload) {
+      report(NON_SERIALIZABLE_TYPES[name], name);
+    }
+    return;
+  }
+  if (name && accepted.has(name)) {
+    return;
+  }
+
+  const properties = checker.getPropertiesOfType(type);
+  if (symbol && symbol.flags & typescript.SymbolFlags.Class) {
+    const hasMethods = properties.some(
+      (property) =>
+        property.flags &
+        (typescript.SymbolFlags.Method | typescript.SymbolFlags.Accessor),
+    );
+    if (hasMethods) {
+      report(
+        `is an instance of class ${name} and is deserialized as a plain object without its methods`,
+        name,
+      );
+      return;
+    }
+  }
+
+  seen.add(type);
+  for (const info of checker.getIndexInfosOfType(type)) {
+    walk(info.type, `${path}[${checker.typeToString(info.keyType)}]`);
+  }
+  for (const property of properties) {
+    let propertyType = checker.getTypeOfSymbol(property);
+    if (property.flags & typescript.SymbolFlags.Optional) {
+      propertyType = checker.getNonNullableType(propertyType);
+    }
+    walk(propertyType, `${path}.${property.getName()}`);
+  }
+  seen.delete(type);
+}
+
+/**
+ * Format an issue as `path: Type reason`.
+ */
+export function formatSerializabilityIssue(issue: SerializabilityIssue): string {
+  return `${issue.path}: ${issue.type} ${issue.reason}`;
+}
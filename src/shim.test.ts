@@ -38,6 +38,15 @@ describe('shim', () => {
       );
     });
 
+    it('keeps esbuild output on its original lines', () => {
+      const code = '// workflows.ts\nvar x = 1;\nmodule.exports = { x };';
+      const lines = shimEsbuildOutput(code).split('\n');
+
+      expect(lines[0]).toEndWith('// workflows.ts');
+      expect(lines[1]).toBe('var x = 1;');
+      expect(lines[2]).toBe('module.exports = { x };');
+    });
+
     it('exposes exports as __TEMPORAL__', () => {
       const code = 'module.exports = { test: true };';
       const shimmed = shimEsbuildOutput(code);
@@ -21,16 +21,10 @@
 export function shimEsbuildOutput(code: string): string {
   const { bundleCode, sourceMapDirective } = extractTrailingSourceMapDirective(code);
 
-  const shimmedCode = `(function() {
-  // Initialize shared module cache for v8 isolate reuse
-  globalThis.__webpack_module_cache__ = globalThis.__webpack_module_cache__ || {};
-
-  // Create a fake module object to capture exports
-  var module = { exports: {} };
-  var exports = module.exports;
-
-  // Original esbuild output
-  ${bundleCode}
+  // The prelude initializes the shared module cache for v8 isolate reuse and
+  // a fake module object to capture exports. It shares the first line with
+  // the esbuild output, so source map line numbers stay valid.
+  const shimmedCode = `(function() { globalThis.__webpack_module_cache__ = globalThis.__webpack_module_cache__ || {}; var module = { exports: {} }; var exports = module.exports; ${bundleCode}
 
   // Expose as __TEMPORAL__ for Worker consumption
   globalThis.__TEMPORAL__ = module.exports;
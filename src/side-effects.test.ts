@@ -0,0 +1,123 @@
+/**
+ * Tests for top-level side effect detection.
+ */
+
+import { resolve } from 'node:path';
+
+import { beforeAll, describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import {
+  analyzeTopLevelSideEffects,
+  formatTopLevelSideEffects,
+  type TopLevelSideEffect,
+} from './side-effects';
+import type { WorkflowBundle } from './types';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/side-effects');
+
+describe('side-effects', () => {
+  describe('analyzeTopLevelSideEffects', () => {
+    let bundle: WorkflowBundle;
+
+    beforeAll(async () => {
+      bundle = await bundleWorkflowCode({
+        workflowsPath: resolve(fixtureDir, 'workflows.ts'),
+        sourceMap: 'external',
+      });
+    });
+
+    const summarize = (effects: TopLevelSideEffect[]) =>
+      effects.map(({ kind, file, line, severity }) => ({
+        kind,
+        file: file.slice(fixtureDir.length + 1),
+        line,
+        severity,
+      }));
+
+    it('reports side effects at their source locations', () => {
+      const result = analyzeTopLevelSideEffects(bundle);
+
+      expect(result?.clean).toBe(true);
+      expect(summarize(result?.effects ?? [])).toEqual([
+        { kind: 'global', file: 'legacy/setup.ts', line: 9, severity: 'warning' },
+        { kind: 'statement', file: 'legacy/setup.ts', line: 11, severity: 'warning' },
+        { kind: 'environment', file: 'client.ts', line: 13, severity: 'warning' },
+        { kind: 'construction', file: 'client.ts', line: 15, severity: 'warning' },
+        { kind: 'call', file: 'client.ts', line: 17, severity: 'warning' },
+      ]);
+    });
+
+    it('ignores definitions, proxies, enums and builtin collections', () => {
+      const effects = analyzeTopLevelSideEffects(bundle)?.effects ?? [];
+
+      expect(effects.map((effect) => effect.file)).not.toContain(
+        resolve(fixtureDir, 'workflows.ts'),
+      );
+    });
+
+    it('applies severity overrides by directory and kind', () => {
+      const result = analyzeTopLevelSideEffects(bundle, {
+        severity: 'error',
+        severityOverrides: [
+          { directory: resolve(fixtureDir, 'legacy'), severity: 'off' },
+          {
+            directory: fixtureDir,
+            severity: 'warning',
+            kinds: ['construction'],
+          },
+        ],
+      });
+
+      expect(result?.clean).toBe(false);
+      expect(summarize(result?.effects ?? [])).toEqual([
+        { kind: 'environment', file: 'client.ts', line: 13, severity: 'error' },
+        { kind: 'construction', file: 'client.ts', line: 15, severity: 'warning' },
+        { kind: 'call', file: 'client.ts', line: 17, severity: 'error' },
+      ]);
+    });
+
+    it('allows configured calls', () => {
+      const effects = analyzeTopLevelSideEffects(bundle, {
+        allowedCalls: ['createLogger'],
+      })?.effects;
+
+      expect(effects?.map((effect) => effect.kind)).not.toContain('call');
+    });
+
+    it('reports bundle paths without a source map', () => {
+      const effects =
+        analyzeTopLevelSideEffects({ ...bundle, sourceMap: undefined })?.effects ?? [];
+
+      const effect = effects.find((candidate) => candidate.kind === 'environment');
+
+      expect(effect).toMatchObject({
+        file: resolve(fixtureDir, 'client.ts'),
+        code: 'endpoint = process.env.API_URL ?? "http://localhost:8080";',
+      });
+      expect(effect).not.toHaveProperty('line');
+    });
+  });
+
+  describe('formatTopLevelSideEffects', () => {
+    it('formats side effects with locations and suggestions', () => {
+      const output = formatTopLevelSideEffects([
+        {
+          kind: 'environment',
+          message: 'Reads process.env when the module is imported',
+          file: '/project/src/config.ts',
+          line: 3,
+          column: 18,
+          code: 'endpoint = process.env.API_URL;',
+          severity: 'error',
+          suggestion: 'Pass configuration as workflow arguments.',
+        },
+      ]);
+
+      expect(output).toContain(
+        '[ERROR] /project/src/config.ts:3:18: Reads process.env when the module is imported',
+      );
+      expect(output).toContain('  Suggestion: Pass configuration as workflow arguments.');
+    });
+  });
+});
@@ -0,0 +1,722 @@
+/**
+ * Detection of top-level side effects in workflow modules.
+ *
+ * Workflow modules are loaded once per isolate, and their top-level code
+ * runs in the workflow sandbox when the Worker starts. Reading
+ * `process.env`, registering global handlers or instantiating clients at
+ * import time either fails in the sandbox or runs at a point the workflow
+ * does not control. This analysis walks the module wrappers esbuild emits
+ * in a bundle, classifies the top-level statements of user modules, and
+ * maps each finding back to its original source through the bundle's
+ * source map.
+ */
+
+import { resolve } from 'node:path';
+
+import type * as ts from 'typescript';
+
+import type { ReplayUnsafePattern } from './replay-safety';
+import { getBundleSourceMap } from './sourcemap-utils';
+import type { WorkflowBundle } from './types';
+import { loadTypeScript } from './typescript-loader';
+import { mapViolationsToSource } from './violation-mapper';
+
+/**
+ * Kinds of top-level side effects.
+ */
+export const TOP_LEVEL_SIDE_EFFECT_KINDS = [
+  'environment',
+  'global',
+  'call',
+  'construction',
+  'assignment',
+  'statement',
+] as const;
+
+/**
+ * Kind of a top-level side effect:
+ * - `environment`: reads `process.env`
+ * - `global`: assigns or calls into `globalThis`, `global` or `process`
+ * - `call`: calls a function
+ * - `construction`: instantiates a class
+ * - `assignment`: assigns a property of an imported object
+ * - `statement`: runs a control flow statement (`if`, `for`, `try`, ...)
+ */
+export type TopLevelSideEffectKind = (typeof TOP_LEVEL_SIDE_EFFECT_KINDS)[number];
+
+/**
+ * A top-level statement of a workflow module that does work at import time.
+ */
+export interface TopLevelSideEffect {
+  kind: TopLevelSideEffectKind;
+
+  /**
+   * Human-readable description of the side effect.
+   */
+  message: string;
+
+  /**
+   * Absolute path of the module. Original source when the bundle has a
+   * source map.
+   */
+  file: string;
+
+  /**
+   * Line in the original source (1-indexed), when the bundle has a source
+   * map.
+   */
+  line?: number;
+
+  /**
+   * Column in the original source (1-indexed), when the bundle has a source
+   * map.
+   */
+  column?: number;
+
+  /**
+   * The statement, as bundled.
+   */
+  code: string;
+
+  severity: 'error' | 'warning';
+
+  /**
+   * Suggested fix.
+   */
+  suggestion: string;
+}
+
+/**
+ * Severity for the side effects of modules in a directory.
+ */
+export interface TopLevelSideEffectOverride {
+  /**
+   * Absolute path of the directory. Subdirectories are included.
+   */
+  directory: string;
+
+  /**
+   * Severity to report, or 'off' to drop matching side effects.
+   */
+  severity: 'error' | 'warning' | 'off';
+
+  /**
+   * Kinds the override applies to.
+   * Default: all kinds
+   */
+  kinds?: TopLevelSideEffectKind[];
+}
+
+/**
+ * Options for top-level side effect analysis.
+ */
+export interface AnalyzeTopLevelSideEffectsOptions {
+  /**
+   * Directory that bundle and source map paths are relative to: the
+   * working directory of the build.
+   * Default: process.cwd()
+   */
+  workingDirectory?: string;
+
+  /**
+   * Severity of side effects without an override.
+   * Default: 'warning'
+   */
+  severity?: 'error' | 'warning' | 'off';
+
+  /**
+   * Severity overrides by directory. The override with the longest
+   * matching directory wins.
+   */
+  severityOverrides?: TopLevelSideEffectOverride[];
+
+  /**
+   * Additional functions that may be called at import time, by name
+   * (e.g. `createLogger`) or qualified name (e.g. `Object.freeze`).
+   */
+  allowedCalls?: string[];
+}
+
+/**
+ * Result of top-level side effect analysis.
+ */
+export interface TopLevelSideEffectsResult {
+  /**
+   * Whether no side effect was reported as an error.
+   */
+  clean: boolean;
+
+  /**
+   * Side effects found, in bundle order.
+   */
+  effects: TopLevelSideEffect[];
+}
+
+/**
+ * Functions that only create definitions or proxies, and may be called at
+ * import time.
+ */
+const ALLOWED_CALLS = new Set([
+  'defineSignal',
+  'defineQuery',
+  'defineUpdate',
+  'proxyActivities',
+  'proxyLocalActivities',
+  'proxySinks',
+  'Symbol',
+  'Symbol.for',
+  'Object.freeze',
+]);
+
+/**
+ * Builtin classes that may be instantiated at import time.
+ */
+const ALLOWED_CONSTRUCTORS = new Set([
+  'Map',
+  'Set',
+  'WeakMap',
+  'WeakSet',
+  'Array',
+  'Object',
+  'RegExp',
+]);
+
+const GLOBAL_OBJECT_NAMES = new Set([
+  'globalThis',
+  'global',
+  'window',
+  'self',
+  'process',
+]);
+
+/**
+ * Prefixes of the helpers esbuild emits: module wrappers and
+ * initializers (`__esm`, `init_x`), CommonJS interop (`__toESM`,
+ * `require_x`) and `keepNames` support (`__name`).
+ */
+const BUNDLER_HELPER = /^(?:__|init_|require_)/;
+
+const SUGGESTIONS: Record<TopLevelSideEffectKind, string> = {
+  environment:
+    'process.env is not available in the workflow sandbox. Pass configuration as workflow arguments or read it in an activity.',
+  global:
+    'Global state is shared by every workflow in the isolate. Set it up in the workflow function or in an interceptor.',
+  call: 'Move the call into the workflow function, or into an activity if it does I/O.',
+  construction:
+    'Create the instance in the workflow function, or in an activity if it talks to an external service.',
+  assignment: 'Configure imported modules in the workflow function.',
+  statement: 'Move the code into the workflow function.',
+};
+
+/**
+ * Pattern reported for locations of side effects.
+ */
+const SIDE_EFFECT_PATTERN: ReplayUnsafePattern = {
+  pattern: /$^/,
+  name: 'Top-level side effect',
+  reason: 'Code runs when the workflow module is imported.',
+  suggestion: SUGGESTIONS.statement,
+  severity: 'warning',
+};
+
+/**
+ * A side effect found in the bundle, before mapping and severity.
+ */
+interface Finding {
+  kind: TopLevelSideEffectKind;
+  message: string;
+  modulePath: string;
+  node: ts.Node;
+  statement: ts.Statement;
+}
+
+/**
+ * Find statements in the top-level code of workflow modules that do work
+ * at import time.
+ *
+ * The module graph is read from the module wrappers esbuild emits in the
+ * bundle; modules from `node_modules` and the generated entrypoint are
+ * skipped. Declarations, imports and exports, literals, function and
+ * class definitions, message definitions (`defineSignal()` and friends),
+ * `proxyActivities()`, builtin collections and calls marked
+ * `/* @__PURE__ *\/` are not side effects.
+ *
+ * Requires the optional `typescript` peer dependency.
+ *
+ * @returns The side effects, or undefined if TypeScript is not installed
+ *
+ * @example
+ * ```typescript
+ * import { analyzeTopLevelSideEffects, bundleWorkflowCode } from 'bundle-temporal-workflow';
+ *
+ * const bundle = await bundleWorkflowCode({ workflowsPath: './src/workflows.ts' });
+ * const result = analyzeTopLevelSideEffects(bundle, {
+ *   severity: 'error',
+ *   severityOverrides: [{ directory: resolve('src/legacy'), severity: 'warning' }],
+ * });
+ *
+ * for (const effect of result?.effects ?? []) {
+ *   console.warn(`${effect.file}:${effect.line}: ${effect.message}`);
+ * }
+ * ```
+ */
+export function analyzeTopLevelSideEffects(
+  bundle: WorkflowBundle,
+  options: AnalyzeTopLevelSideEffectsOptions = {},
+): TopLevelSideEffectsResult | undefined {
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    return undefined;
+  }
+
+  const workingDirectory = options.workingDirectory ?? process.cwd();
+  const allowedCalls = new Set([...ALLOWED_CALLS, ...(options.allowedCalls ?? [])]);
+  const sourceFile = typescript.createSourceFile(
+    'workflow-bundle.js',
+    bundle.code,
+    typescript.ScriptTarget.Latest,
+    true,
+    typescript.ScriptKind.JS,
+  );
+
+  const findings: Finding[] = [];
+  const visit = (node: ts.Node): void => {
+    const wrapper = readModuleWrapper(typescript, node);
+    if (!wrapper) {
+      typescript.forEachChild(node, visit);
+      return;
+    }
+    if (!isUserModule(wrapper.path)) {
+      return;
+    }
+    for (const statement of wrapper.body.statements) {
+      const finding = classifyStatement(typescript, statement, allowedCalls);
+      if (finding) {
+        findings.push({ ...finding, modulePath: wrapper.path, statement });
+      }
+    }
+  };
+  visit(sourceFile);
+
+  const sourceMap = getBundleSourceMap(bundle.code, bundle.sourceMap);
+  const locations = findings.map((finding) => {
+    const start = finding.node.getStart();
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+    return { line: line + 1, column: character + 1 };
+  });
+  const mapped = sourceMap
+    ? mapViolationsToSource(
+        locations.map((location) => ({
+          ...location,
+          pattern: SIDE_EFFECT_PATTERN,
+          match: '',
+          sourceLine: '',
+        })),
+        sourceMap,
+      )
+    : [];
+
+  const effects: TopLevelSideEffect[] = [];
+  findings.forEach((finding, index) => {
+    const location = mapped[index];
+    const originalFile =
+      location?.originalFile && !location.originalFile.includes(':')
+        ? location.originalFile
+        : undefined;
+    const file = resolve(workingDirectory, originalFile ?? finding.modulePath);
+
+    const severity = getSeverity(file, finding.kind, options);
+    if (severity === 'off') {
+      return;
+    }
+    effects.push({
+      kind: finding.kind,
+      message: finding.message,
+      file,
+      ...(originalFile && {
+        line: location!.originalLine!,
+        column: location!.originalColumn!,
+      }),
+      code: finding.statement.getText().split('\n')[0]!.trim(),
+      severity,
+      suggestion: SUGGESTIONS[finding.kind],
+    });
+  });
+
+  return {
+    clean: effects.every((effect) => effect.severity !== 'error'),
+    effects,
+  };
+}
+
+/**
+ * Format top-level side effects for display.
+ */
+export function formatTopLevelSideEffects(effects: TopLevelSideEffect[]): string {
+  if (effects.length === 0) {
+    return 'No top-level side effects found.';
+  }
+
+  const lines: string[] = [];
+
+  for (const effect of effects) {
+    const severity = effect.severity === 'error' ? 'ERROR' : 'WARNING';
+    const location =
+      effect.line !== undefined
+        ? `${effect.file}:${effect.line}:${effect.column}`
+        : effect.file;
+
+    lines.push(`[${severity}] ${location}: ${effect.message}`);
+    lines.push(`  ${effect.code}`);
+    lines.push(`  Suggestion: ${effect.suggestion}`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Read an esbuild module wrapper: `__esm({ "path"() { ... } })` or
+ * `__commonJS({ "path"(exports, module) { ... } })`.
+ */
+function readModuleWrapper(
+  typescript: typeof ts,
+  node: ts.Node,
+): { path: string; body: ts.Block } | undefined {
+  if (
+    !typescript.isCallExpression(node) ||
+    !typescript.isIdentifier(node.expression) ||
+    !/^__(?:esm|commonJS)$/.test(node.expression.text)
+  ) {
+    return undefined;
+  }
+
+  const [definition] = node.arguments;
+  const [method] =
+    definition && typescript.isObjectLiteralExpression(definition)
+      ? definition.properties
+      : [];
+  if (
+    !method ||
+    !typescript.isMethodDeclaration(method) ||
+    !typescript.isStringLiteral(method.name) ||
+    !method.body
+  ) {
+    return undefined;
+  }
+  return { path: method.name.text, body: method.body };
+}
+
+/**
+ * Whether a bundled module is user code: not a package, the generated
+ * entrypoint or a virtual module.
+ */
+function isUserModule(path: string): boolean {
+  return (
+    !/(?:^|[\\/])node_modules[\\/]/.test(path) &&
+    !path.endsWith('-autogenerated-entrypoint.cjs') &&
+    !path.includes(':')
+  );
+}
+
+/**
+ * Classify a top-level statement of a module wrapper.
+ *
+ * Variable initializers are bundled as assignments (`x = init()`), so
+ * assignments to plain identifiers are judged by their value.
+ */
+function classifyStatement(
+  typescript: typeof ts,
+  statement: ts.Statement,
+  allowedCalls: Set<string>,
+): Omit<Finding, 'modulePath' | 'statement'> | undefined {
+  if (typescript.isExpressionStatement(statement)) {
+    if (typescript.isStringLiteral(statement.expression)) {
+      // Directive prologue ("use strict")
+      return undefined;
+    }
+    return findSideEffect(typescript, statement.expression, allowedCalls, true);
+  }
+
+  if (typescript.isVariableStatement(statement)) {
+    for (const declaration of statement.declarationList.declarations) {
+      const finding =
+        declaration.initializer &&
+        findSideEffect(typescript, declaration.initializer, allowedCalls, false);
+      if (finding) {
+        return finding;
+      }
+    }
+    return undefined;
+  }
+
+  if (typescript.isClassDeclaration(statement)) {
+    return findSideEffect(typescript, statement, allowedCalls, false);
+  }
+
+  if (
+    typescript.isFunctionDeclaration(statement) ||
+    typescript.isEmptyStatement(statement)
+  ) {
+    return undefined;
+  }
+
+  const keyword = statement.getFirstToken()?.getText() ?? 'top-level';
+  return {
+    kind: 'statement',
+    message: `Runs a top-level \`${keyword}\` statement when the module is imported`,
+    node: statement,
+  };
+}
+
+/**
+ * Find the first side effect in code that runs at import time. Function
+ * bodies are skipped; class bodies are only searched for static
+ * initializers.
+ *
+ * @param isStatement - Whether the node is a whole expression statement,
+ *   whose identifier assignments are bundled variable initializers
+ */
+function findSideEffect(
+  typescript: typeof ts,
+  expression: ts.Node,
+  allowedCalls: Set<string>,
+  isStatement: boolean,
+): Omit<Finding, 'modulePath' | 'statement'> | undefined {
+  let finding: Omit<Finding, 'modulePath' | 'statement'> | undefined;
+
+  // Initializers of a statement, including comma-separated ones
+  // (`a = 1, b = init()`)
+  const initializers = new Set<ts.Node>();
+  const collectInitializers = (node: ts.Node): void => {
+    if (typescript.isParenthesizedExpression(node)) {
+      collectInitializers(node.expression);
+    } else if (
+      typescript.isBinaryExpression(node) &&
+      node.operatorToken.kind === typescript.SyntaxKind.CommaToken
+    ) {
+      collectInitializers(node.left);
+      collectInitializers(node.right);
+    } else {
+      initializers.add(node);
+    }
+  };
+  if (isStatement) {
+    collectInitializers(expression);
+  }
+
+  const report = (kind: TopLevelSideEffectKind, message: string, node: ts.Node): void => {
+    finding ??= { kind, message, node };
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (finding || typescript.isFunctionLike(node)) {
+      return;
+    }
+
+    if (typescript.isClassLike(node)) {
+      for (const member of node.members) {
+        const isStatic = typescript
+          .getModifiers(member as ts.HasModifiers)
+          ?.some((modifier) => modifier.kind === typescript.SyntaxKind.StaticKeyword);
+        if (typescript.isClassStaticBlockDeclaration(member)) {
+          report('statement', 'Runs a static block when the module is imported', member);
+        } else if (isStatic && typescript.isPropertyDeclaration(member)) {
+          if (member.initializer) visit(member.initializer);
+        }
+      }
+      node.heritageClauses?.forEach(visit);
+      return;
+    }
+
+    if (
+      typescript.isPropertyAccessExpression(node) &&
+      node.name.text === 'env' &&
+      typescript.isIdentifier(node.expression) &&
+      node.expression.text === 'process'
+    ) {
+      report('environment', 'Reads process.env when the module is imported', node);
+      return;
+    }
+
+    if (
+      typescript.isBinaryExpression(node) &&
+      node.operatorToken.kind >= typescript.SyntaxKind.FirstAssignment &&
+      node.operatorToken.kind <= typescript.SyntaxKind.LastAssignment
+    ) {
+      const target = node.left;
+      const root = getRootIdentifier(typescript, target);
+      if (root && GLOBAL_OBJECT_NAMES.has(root)) {
+        report('global', `Assigns ${target.getText()} when the module is imported`, node);
+        return;
+      }
+      // Destructuring initializers are bundled as `({ a } = value)`
+      const isInitializer =
+        initializers.has(node) &&
+        (typescript.isIdentifier(target) ||
+          typescript.isObjectLiteralExpression(target) ||
+          typescript.isArrayLiteralExpression(target));
+      if (!isInitializer && !isExportTarget(root)) {
+        report(
+          'assignment',
+          `Assigns ${target.getText()} when the module is imported`,
+          node,
+        );
+        return;
+      }
+      visit(node.right);
+      return;
+    }
+
+    if (typescript.isDeleteExpression(node)) {
+      report(
+        'assignment',
+        `Deletes ${node.expression.getText()} when the module is imported`,
+        node,
+      );
+      return;
+    }
+
+    if (
+      typescript.isCallExpression(node) ||
+      typescript.isTaggedTemplateExpression(node)
+    ) {
+      if (isPureAnnotated(node)) {
+        return;
+      }
+      const callee = typescript.isCallExpression(node) ? node.expression : node.tag;
+      const name = getCalleeName(typescript, callee);
+      const root = getRootIdentifier(typescript, callee);
+
+      if (name && (BUNDLER_HELPER.test(name) || allowedCalls.has(name))) {
+        typescript.forEachChild(node, visit);
+        return;
+      }
+      if (root && GLOBAL_OBJECT_NAMES.has(root)) {
+        report('global', `Calls ${callee.getText()}() when the module is imported`, node);
+        return;
+      }
+      report(
+        'call',
+        name
+          ? `Calls ${name}() when the module is imported`
+          : 'Calls a function expression when the module is imported',
+        node,
+      );
+      return;
+    }
+
+    if (typescript.isNewExpression(node)) {
+      const name = getCalleeName(typescript, node.expression);
+      if (name && ALLOWED_CONSTRUCTORS.has(name)) {
+        typescript.forEachChild(node, visit);
+        return;
+      }
+      report(
+        'construction',
+        `Instantiates ${name ?? node.expression.getText()} when the module is imported`,
+        node,
+      );
+      return;
+    }
+
+    typescript.forEachChild(node, visit);
+  };
+
+  visit(expression);
+  return finding;
+}
+
+/**
+ * Whether an assignment target is a CommonJS export (`exports.x`,
+ * `module.exports`).
+ */
+function isExportTarget(root: string | undefined): boolean {
+  return root === 'exports' || root === 'module';
+}
+
+/**
+ * Whether a call is marked `/* @__PURE__ *\/`, as esbuild marks enum and
+ * namespace initializers.
+ */
+function isPureAnnotated(node: ts.Node): boolean {
+  // The comments between the previous token and the call
+  const trivia = node.getSourceFile().text.slice(node.pos, node.getStart());
+  return /[@#]__PURE__/.test(trivia);
+}
+
+/**
+ * Get the name of a called function: `name` for `name()`, and
+ * `Object.name` for `Object.name()`. Bundled imports
+ * (`(0, import_mod.name)()`) are named after the imported function.
+ */
+function getCalleeName(typescript: typeof ts, callee: ts.Expression): string | undefined {
+  let expression = callee;
+  while (
+    typescript.isParenthesizedExpression(expression) ||
+    (typescript.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === typescript.SyntaxKind.CommaToken)
+  ) {
+    expression = typescript.isParenthesizedExpression(expression)
+      ? expression.expression
+      : expression.right;
+  }
+
+  if (typescript.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (typescript.isPropertyAccessExpression(expression)) {
+    const object = expression.expression;
+    // import_workflow.defineSignal -> defineSignal
+    if (typescript.isIdentifier(object) && !object.text.startsWith('import_')) {
+      return `${object.text}.${expression.name.text}`;
+    }
+    return expression.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Get the identifier a property access chain starts from.
+ */
+function getRootIdentifier(
+  typescript: typeof ts,
+  expression: ts.Expression,
+): string | undefined {
+  let current: ts.Expression = expression;
+  while (
+    typescript.isPropertyAccessExpression(current) ||
+    typescript.isElementAccessExpression(current) ||
+    typescript.isParenthesizedExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return typescript.isIdentifier(current) ? current.text : undefined;
+}
+
+/**
+ * Get the severity of a side effect from the options, using the override
+ * with the longest matching directory.
+ */
+function getSeverity(
+  file: string,
+  kind: TopLevelSideEffectKind,
+  options: AnalyzeTopLevelSideEffectsOptions,
+): 'error' | 'warning' | 'off' {
+  let override: TopLevelSideEffectOverride | undefined;
+  for (const candidate of options.severityOverrides ?? []) {
+    if (
+      isWithinDirectory(file, candidate.directory) &&
+      (!candidate.kinds || candidate.kinds.includes(kind)) &&
+      (!override || candidate.directory.length >= override.directory.length)
+    ) {
+      override = candidate;
+    }
+  }
+  return override?.severity ?? options.severity ?? 'warning';
+}
+
+function isWithinDirectory(file: string, directory: string): boolean {
+  const normalized = resolve(directory);
+  return file === normalized || file.startsWith(`${normalized}/`);
+}
@@ -127,6 +127,26 @@ export function remapSourceMapPaths(
   return JSON.stringify(sourceMap);
 }
 
+const INLINE_SOURCE_MAP =
+  /(?:\r?\n|^)\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,(\S+)\s*$/;
+
+/**
+ * Get the source map of a bundle: the external source map if given, or
+ * the inline source map at the end of the code.
+ *
+ * @returns The source map JSON, or undefined if the bundle has none
+ */
+export function getBundleSourceMap(
+  code: string,
+  externalSourceMap?: string,
+): string | undefined {
+  if (externalSourceMap) {
+    return externalSourceMap;
+  }
+  const inline = INLINE_SOURCE_MAP.exec(code);
+  return inline ? Buffer.from(inline[1]!, 'base64').toString('utf-8') : undefined;
+}
+
 /**
  * Remap source map paths in a file and write the result.
  */
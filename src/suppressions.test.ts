@@ -0,0 +1,131 @@
+/**
+ * Tests for inline suppression comments.
+ */
+
+import { describe, expect, it } from 'bun:test';
+
+import { analyzeHistorySize } from './history-analysis';
+import {
+  findSuppression,
+  formatSuppression,
+  matchesSuppressionRule,
+  parseSuppressions,
+} from './suppressions';
+
+describe('suppressions', () => {
+  describe('parseSuppressions', () => {
+    it('parses rules and reasons', () => {
+      const [directive] = parseSuppressions(
+        `// temporal-ignore-next-line Date.now, Math.random(): seeded upstream\nrun();`,
+        'src/a.ts',
+      );
+
+      expect(directive).toEqual({
+        kind: 'next-line',
+        rules: ['Date.now', 'Math.random()'],
+        reason: 'seeded upstream',
+        file: 'src/a.ts',
+        line: 1,
+        targetLine: 2,
+      });
+    });
+
+    it('targets the next line that is not blank or a directive', () => {
+      const directives = parseSuppressions(
+        [
+          '// temporal-ignore-next-line Date.now',
+          '',
+          '/* temporal-ignore-next-line Math.random */',
+          'run();',
+        ].join('\n'),
+      );
+
+      expect(directives.map((d) => d.targetLine)).toEqual([4, 4]);
+    });
+
+    it('treats a directive without rules as covering every rule', () => {
+      const [directive] = parseSuppressions('// temporal-ignore-file');
+
+      expect(directive).toMatchObject({ kind: 'file', rules: ['*'] });
+      expect(directive?.reason).toBeUndefined();
+    });
+  });
+
+  describe('matchesSuppressionRule', () => {
+    it('ignores a trailing call suffix', () => {
+      expect(matchesSuppressionRule('Date.now', 'Date.now()')).toBe(true);
+      expect(matchesSuppressionRule('Date.now()', 'Date.now')).toBe(true);
+      expect(matchesSuppressionRule('Date.now', 'new Date()')).toBe(false);
+      expect(matchesSuppressionRule('*', 'unbounded-loop')).toBe(true);
+    });
+  });
+
+  describe('findSuppression', () => {
+    const directives = parseSuppressions(
+      `// temporal-ignore-next-line Date.now\nrun();\nrun();`,
+    );
+
+    it('only matches the target line and listed rules', () => {
+      expect(findSuppression(directives, 2, 'Date.now()')).toBe(directives[0]);
+      expect(findSuppression(directives, 3, 'Date.now()')).toBeUndefined();
+      expect(findSuppression(directives, 2, 'Math.random()')).toBeUndefined();
+    });
+  });
+
+  describe('formatSuppression', () => {
+    it('includes the location, rules and reason', () => {
+      const [directive] = parseSuppressions(
+        '// temporal-ignore-file large-payload: trimmed by the caller',
+        'src/a.ts',
+      );
+
+      expect(formatSuppression(directive!)).toBe(
+        'src/a.ts:1 large-payload (trimmed by the caller)',
+      );
+    });
+  });
+
+  describe('analyzeHistorySize', () => {
+    const loop = `
+export async function pollWorkflow() {
+  // temporal-ignore-next-line unbounded-loop: continued as new by the caller
+  while (true) {
+    await activities.poll();
+  }
+}`;
+
+    it('suppresses history warnings by type', () => {
+      const result = analyzeHistorySize(loop);
+
+      expect(result.clean).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.suppressed.map((w) => w.type)).toEqual(['unbounded-loop']);
+      expect(result.suppressed[0]?.suppression?.reason).toBe(
+        'continued as new by the caller',
+      );
+    });
+
+    it('ignores directives for replay rules', () => {
+      const result = analyzeHistorySize(
+        `// temporal-ignore-next-line Date.now: logged only\nlog(Date.now());`,
+        undefined,
+        { failOnUnusedSuppressions: true },
+      );
+
+      expect(result.unusedSuppressions).toHaveLength(0);
+      expect(result.clean).toBe(true);
+    });
+
+    it('fails on unused suppressions when requested', () => {
+      const code = `// temporal-ignore-file deep-recursion: bounded depth\nrun();`;
+
+      expect(analyzeHistorySize(code).clean).toBe(true);
+
+      const result = analyzeHistorySize(code, undefined, {
+        failOnUnusedSuppressions: true,
+      });
+      expect(result.clean).toBe(false);
+      expect(result.unusedSuppressions.map((d) => d.rules)).toEqual([['deep-recursion']]);
+    });
+  });
+});
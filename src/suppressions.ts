@@ -0,0 +1,158 @@
+/**
+ * Inline suppression comments for static analysis findings.
+ *
+ * A known-safe finding can be silenced where it occurs instead of disabling
+ * a whole check:
+ *
+ * ```typescript
+ * // temporal-ignore-next-line Date.now: only logged, never branched on
+ * log(Date.now());
+ *
+ * // temporal-ignore-file unbounded-signal: handler is drained every iteration
+ * ```
+ *
+ * The directive is followed by one or more comma-separated rules and an
+ * optional reason after a colon. Rules are replay pattern names
+ * (`Date.now`, `new Date`, `fs operations`; a trailing `()` is optional),
+ * history warning types (`unbounded-loop`) or `*` for every rule; a
+ * directive without rules also covers every rule.
+ * `temporal-ignore-next-line` applies to the next line that is neither blank
+ * nor itself a directive, `temporal-ignore-file` to the whole file.
+ */
+
+/**
+ * A suppression directive found in a source file.
+ */
+export interface SuppressionDirective {
+  /**
+   * Whether the directive covers the next line or the whole file.
+   */
+  kind: 'next-line' | 'file';
+
+  /**
+   * Rules the directive suppresses.
+   */
+  rules: string[];
+
+  /**
+   * Why the findings are safe, if given.
+   */
+  reason?: string | undefined;
+
+  /**
+   * File containing the directive.
+   */
+  file?: string | undefined;
+
+  /**
+   * Line of the directive comment (1-indexed).
+   */
+  line: number;
+
+  /**
+   * Line the directive applies to, for 'next-line' directives.
+   */
+  targetLine?: number | undefined;
+}
+
+/**
+ * Matches a directive in a line or block comment.
+ */
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*+|^\s*\*)\s*temporal-ignore-(next-line|file)\b([^\n]*?)(?:\*\/|$)/;
+
+/**
+ * Parse the suppression directives in a source file.
+ */
+export function parseSuppressions(
+  code: string,
+  filePath?: string,
+): SuppressionDirective[] {
+  if (!code.includes('temporal-ignore-')) {
+    return [];
+  }
+
+  const lines = code.split('\n');
+  const directives: SuppressionDirective[] = [];
+  const pendingNextLine: SuppressionDirective[] = [];
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const match = DIRECTIVE_PATTERN.exec(text);
+
+    if (!match) {
+      if (text.trim() !== '') {
+        for (const directive of pendingNextLine) {
+          directive.targetLine = line;
+        }
+        pendingNextLine.length = 0;
+      }
+      return;
+    }
+
+    const body = match[2]!.trim();
+    const colon = body.indexOf(':');
+    const ruleText = colon === -1 ? body : body.slice(0, colon);
+    const reason = colon === -1 ? '' : body.slice(colon + 1).trim();
+    const rules = ruleText
+      .split(',')
+      .map((rule) => rule.trim())
+      .filter(Boolean);
+
+    const directive: SuppressionDirective = {
+      kind: match[1] === 'file' ? 'file' : 'next-line',
+      rules: rules.length > 0 ? rules : ['*'],
+      ...(reason && { reason }),
+      ...(filePath !== undefined && { file: filePath }),
+      line,
+    };
+    directives.push(directive);
+    if (directive.kind === 'next-line') {
+      pendingNextLine.push(directive);
+    }
+  });
+
+  return directives;
+}
+
+/**
+ * Check whether a directive rule names a finding's rule.
+ */
+export function matchesSuppressionRule(rule: string, name: string): boolean {
+  return rule === '*' || normalizeRule(rule) === normalizeRule(name);
+}
+
+/**
+ * Find the directive that suppresses a finding, if any.
+ *
+ * @param directives - Directives parsed from the finding's file
+ * @param line - Line of the finding (1-indexed)
+ * @param rule - Name of the rule that produced the finding
+ */
+export function findSuppression(
+  directives: SuppressionDirective[],
+  line: number | undefined,
+  rule: string,
+): SuppressionDirective | undefined {
+  return directives.find(
+    (directive) =>
+      (directive.kind === 'file' ||
+        (line !== undefined && directive.targetLine === line)) &&
+      directive.rules.some((candidate) => matchesSuppressionRule(candidate, rule)),
+  );
+}
+
+/**
+ * Format a directive for display, e.g. `src/a.ts:3 Date.now (reason)`.
+ */
+export function formatSuppression(directive: SuppressionDirective): string {
+  const location = directive.file
+    ? `${directive.file}:${directive.line}`
+    : `Line ${directive.line}`;
+  const reason = directive.reason ?? 'no reason given';
+  return `${location} ${directive.rules.join(', ')} (${reason})`;
+}
+
+function normalizeRule(rule: string): string {
+  return rule.trim().replace(/\(\)$/, '');
+}
@@ -0,0 +1,337 @@
+/**
+ * Tests for test-specific bundling.
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import { afterAll, describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import { WorkflowBundleError } from './errors';
+import { replayHistories } from './history-replay';
+import { bundleForTesting, defineMock } from './test-mode';
+
+const workflowsPath = resolve(
+  __dirname,
+  '../test/fixtures/relaxed-determinism/workflows.ts',
+);
+const checkedWorkflowsPath = resolve(workflowsPath, '../checked-workflows.ts');
+const mocksDir = resolve(__dirname, '../test/fixtures/mocks');
+const tempDir = resolve(__dirname, '../test/temp-test-mode');
+
+// Replaying starts a Worker runtime
+const REPLAY_TIMEOUT = 60_000;
+
+/**
+ * Run a workflow from a bundle in a separate process, since loading a
+ * bundle replaces globals such as Date and Math.random.
+ */
+async function runWorkflow<T>(
+  code: string,
+  workflowType: string,
+  ...args: unknown[]
+): Promise<T> {
+  const proc = Bun.spawn(
+    [
+      'bun',
+      '-e',
+      `const code = await Bun.stdin.text();
+new Function(code)();
+const workflows = globalThis.__TEMPORAL__.importWorkflows();
+const result = await workflows[${JSON.stringify(workflowType)}](...${JSON.stringify(args)});
+console.log(JSON.stringify(result));`,
+    ],
+    { stdin: new Blob([code]), stdout: 'pipe', stderr: 'pipe' },
+  );
+
+  const stdout = await new Response(proc.stdout).text();
+  const stderr = await new Response(proc.stderr).text();
+  if ((await proc.exited) !== 0) {
+    throw new Error(stderr);
+  }
+  return JSON.parse(stdout) as T;
+}
+
+type Sample = { random: number[]; now: number; today: string };
+
+/**
+ * Encode a value as a JSON payload of a history event.
+ */
+function jsonPayloads(value: unknown): { payloads: object[] } {
+  const encode = (text: string) => Buffer.from(text).toString('base64');
+  return {
+    payloads: [
+      {
+        metadata: { encoding: encode('json/plain') },
+        data: encode(JSON.stringify(value)),
+      },
+    ],
+  };
+}
+
+/**
+ * Write the history of a workflow that completed in its first workflow task.
+ */
+function writeCompletedHistory(
+  path: string,
+  workflowType: string,
+  input: unknown,
+  runId = '7d4c1f2e-5b6a-4c3d-8e9f-0a1b2c3d4e5f',
+): void {
+  const event = (eventId: number, eventType: string, attributes: object) => ({
+    eventId: String(eventId),
+    eventTime: '2026-01-01T00:00:00Z',
+    eventType: `EVENT_TYPE_${eventType}`,
+    taskId: String(1_048_576 + eventId),
+    ...attributes,
+  });
+
+  const history = {
+    events: [
+      event(1, 'WORKFLOW_EXECUTION_STARTED', {
+        workflowExecutionStartedEventAttributes: {
+          workflowType: { name: workflowType },
+          taskQueue: { name: 'tests', kind: 'TASK_QUEUE_KIND_NORMAL' },
+          input: jsonPayloads(input),
+          workflowTaskTimeout: '10s',
+          originalExecutionRunId: runId,
+          firstExecutionRunId: runId,
+          attempt: 1,
+          workflowId: `test-mode-${runId}`,
+        },
+      }),
+      event(2, 'WORKFLOW_TASK_SCHEDULED', {
+        workflowTaskScheduledEventAttributes: {
+          taskQueue: { name: 'tests', kind: 'TASK_QUEUE_KIND_NORMAL' },
+          startToCloseTimeout: '10s',
+          attempt: 1,
+        },
+      }),
+      event(3, 'WORKFLOW_TASK_STARTED', {
+        workflowTaskStartedEventAttributes: { scheduledEventId: '2', requestId: 'r-1' },
+      }),
+      event(4, 'WORKFLOW_TASK_COMPLETED', {
+        workflowTaskCompletedEventAttributes: {
+          scheduledEventId: '2',
+          startedEventId: '3',
+        },
+      }),
+      event(5, 'WORKFLOW_EXECUTION_COMPLETED', {
+        workflowExecutionCompletedEventAttributes: {
+          result: jsonPayloads(null),
+          workflowTaskCompletedEventId: '4',
+        },
+      }),
+    ],
+  };
+  writeFileSync(path, JSON.stringify(history, null, 2));
+}
+
+describe('test-mode', () => {
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('bundleForTesting', () => {
+    it('keeps forbidden modules as errors without relaxed determinism', async () => {
+      const error = await bundleForTesting({ workflowsPath }).catch(
+        (err: unknown) => err,
+      );
+
+      expect(error).toBeInstanceOf(WorkflowBundleError);
+      expect((error as WorkflowBundleError).context.modules).toEqual(['fs', 'os']);
+    });
+
+    it('downgrades forbidden modules to warnings', async () => {
+      const bundle = await bundleForTesting({ workflowsPath, relaxedDeterminism: true });
+
+      expect(bundle.metadata?.warnings).toEqual([
+        expect.stringContaining("Forbidden module 'fs'"),
+        expect.stringContaining("Forbidden module 'os'"),
+      ]);
+    });
+
+    it('stubs allowed builtins without warnings', async () => {
+      const bundle = await bundleForTesting({
+        workflowsPath,
+        relaxedDeterminism: { allowedBuiltins: ['fs'] },
+      });
+
+      expect(bundle.metadata?.warnings).toEqual([
+        expect.stringContaining("Forbidden module 'os'"),
+      ]);
+      expect(bundle.code).toContain('Allowed by relaxedDeterminism in a test bundle');
+    });
+
+    it('fakes Date.now and Math.random from the test seed', async () => {
+      const bundle = await bundleForTesting({
+        workflowsPath,
+        sourceMap: 'none',
+        relaxedDeterminism: { allowedBuiltins: ['fs', 'os'], seed: 42, now: 1_000 },
+      });
+      const reseeded = await bundleForTesting({
+        workflowsPath,
+        sourceMap: 'none',
+        relaxedDeterminism: { allowedBuiltins: ['fs', 'os'], seed: 7, now: 1_000 },
+      });
+
+      const first = await runWorkflow<Sample>(bundle.code, 'sampleWorkflow');
+      const second = await runWorkflow<Sample>(bundle.code, 'sampleWorkflow');
+      const other = await runWorkflow<Sample>(reseeded.code, 'sampleWorkflow');
+
+      expect(first.now).toBe(1_000);
+      expect(first.random[0]).not.toBe(first.random[1]);
+      expect(second).toEqual(first);
+      expect(other.random).not.toEqual(first.random);
+    });
+
+    it(
+      'applies the fakes in the Worker sandbox',
+      async () => {
+        const testOptions = {
+          workflowsPath: checkedWorkflowsPath,
+          relaxedDeterminism: { allowedBuiltins: ['fs', 'os'], seed: 42, now: 1_000 },
+        };
+        const bundle = await bundleForTesting(testOptions);
+        const reseeded = await bundleForTesting({
+          ...testOptions,
+          relaxedDeterminism: { ...testOptions.relaxedDeterminism, seed: 7 },
+        });
+        const sampled = await bundleForTesting({
+          ...testOptions,
+          workflowsPath,
+          sourceMap: 'none',
+        });
+        const sample = await runWorkflow<Sample>(sampled.code, 'sampleWorkflow');
+
+        mkdirSync(tempDir, { recursive: true });
+        const bundlePath = join(tempDir, 'seed-42.js');
+        const reseededPath = join(tempDir, 'seed-7.js');
+        const historyPath = join(tempDir, 'history.json');
+        const otherHistoryPath = join(tempDir, 'other-history.json');
+        writeFileSync(bundlePath, bundle.code);
+        writeFileSync(reseededPath, reseeded.code);
+        writeCompletedHistory(historyPath, 'checkedSampleWorkflow', sample);
+        writeCompletedHistory(
+          otherHistoryPath,
+          'checkedSampleWorkflow',
+          sample,
+          '0f9e8d7c-6b5a-4f3e-9d2c-1b0a9f8e7d6c',
+        );
+
+        // One Worker replays every history in the same sandbox, so each
+        // execution must start from the same values
+        const replayed = await replayHistories({
+          bundlePath,
+          histories: [historyPath, otherHistoryPath, historyPath],
+        });
+        const mismatched = await replayHistories({
+          bundlePath: reseededPath,
+          histories: [historyPath],
+        });
+
+        expect(sample.now).toBe(1_000);
+        expect(sample.today).toBe(new Date(1_000).toString());
+        expect(replayed.results.map((result) => result.success)).toEqual([
+          true,
+          true,
+          true,
+        ]);
+        expect(mismatched.success).toBe(false);
+      },
+      REPLAY_TIMEOUT,
+    );
+  });
+
+  describe('mocks', () => {
+    const checkoutPath = resolve(mocksDir, 'workflows.ts');
+
+    it('resolves mock paths from mocksBaseDir', async () => {
+      const bundle = await bundleForTesting({
+        workflowsPath: checkoutPath,
+        sourceMap: 'none',
+        mocksBaseDir: mocksDir,
+        mocks: {
+          './services/payment': './__mocks__/payment.ts',
+          '@company/shared/*': './__mocks__/shared/*.ts',
+        },
+      });
+
+      expect(await runWorkflow<string>(bundle.code, 'checkoutWorkflow', 'abc')).toBe(
+        'mock-tx-30',
+      );
+    });
+
+    it('prefers exact specifiers over patterns', async () => {
+      const bundle = await bundleForTesting({
+        workflowsPath: checkoutPath,
+        sourceMap: 'none',
+        mocksBaseDir: mocksDir,
+        mocks: {
+          '@company/*': './__mocks__/shared/pricing.ts',
+          '@company/shared/*': './__mocks__/shared/*.ts',
+          './services/payment': './__mocks__/payment.ts',
+          '@company/shared/feature-flags': {
+            source: 'export const isEnabled = (flag: string) => flag.length > 0;',
+          },
+        },
+      });
+
+      expect(await runWorkflow<string>(bundle.code, 'checkoutWorkflow', 'abc')).toBe(
+        'express:mock-tx-30',
+      );
+    });
+
+    it('serializes virtual mock exports into the bundle', async () => {
+      const bundle = await bundleForTesting({
+        workflowsPath: checkoutPath,
+        sourceMap: 'none',
+        mocksBaseDir: mocksDir,
+        mocks: {
+          './services/payment': defineMock<
+            typeof import('../test/fixtures/mocks/services/payment')
+          >({
+            async charge(amount) {
+              return `virtual-tx-${amount}`;
+            },
+          }),
+          '@company/shared/pricing': { exports: { priceFor: () => 5 } },
+          '@company/shared/feature-flags': {
+            exports: { isEnabled: (flag: string) => ['express-checkout'].includes(flag) },
+          },
+        },
+      });
+
+      expect(await runWorkflow<string>(bundle.code, 'checkoutWorkflow', 'abc')).toBe(
+        'express:virtual-tx-5',
+      );
+    });
+
+    it('reports mock paths that do not resolve', async () => {
+      const error = await bundleForTesting({
+        workflowsPath: checkoutPath,
+        mocksBaseDir: mocksDir,
+        mocks: { '@company/shared/*': './__mocks__/missing/*.ts' },
+      }).catch((err: unknown) => err);
+
+      expect(String(error)).toContain(
+        "Mock './__mocks__/missing/pricing.ts' for '@company/shared/*' not found",
+      );
+    });
+  });
+
+  describe('bundleWorkflowCode', () => {
+    it('accepts allowed builtins as an option', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        allowedBuiltins: [
+          { module: 'fs', justification: 'Fixture loading only' },
+          { module: 'os', justification: 'Fixture loading only' },
+        ],
+      });
+
+      expect(bundle.code).toContain('Fixture loading only');
+    });
+  });
+});
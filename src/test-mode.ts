@@ -5,17 +5,34 @@
  * module mocking and relaxed determinism constraints.
  */
 
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+
 import * as esbuild from 'esbuild';
 
 import { bundleWorkflowCode } from './bundler';
-import type { TestBundleOptions, WorkflowBundle } from './types';
+import { getEntrypointWorkflowsPath } from './entrypoint';
+import type {
+  BuiltinExemption,
+  MockTarget,
+  RelaxedDeterminismOptions,
+  TestBundleOptions,
+  VirtualMock,
+  WorkflowBundle,
+} from './types';
+
+/**
+ * Justification attached to builtins allowed by relaxed determinism.
+ */
+const RELAXED_JUSTIFICATION = 'Allowed by relaxedDeterminism in a test bundle';
 
 /**
  * Bundle workflow code with test-specific configuration.
  *
  * Supports:
  * - Module mocking (replace modules with test doubles)
- * - Relaxed determinism checks (allow Date.now, Math.random in tests)
+ * - Relaxed determinism checks (forbidden modules become warnings, selected
+ *   builtins are stubbed, Date.now and Math.random can be faked)
  * - Additional test-friendly defaults
  *
  * @example
@@ -24,11 +41,13 @@ import type { TestBundleOptions, WorkflowBundle } from './types';
  *
  * const bundle = await bundleForTesting({
  *   workflowsPath: './src/workflows.ts',
+ *   mocksBaseDir: import.meta.dir,
  *   mocks: {
- *     './external-service': './test/mocks/external-service.ts',
- *     'some-package': './test/mocks/some-package.ts',
+ *     './external-service': './mocks/external-service.ts',
+ *     '@company/shared/*': './mocks/shared/*.ts',
+ *     'some-package': { source: 'export const enabled = true;' },
  *   },
- *   relaxedDeterminism: true,
+ *   relaxedDeterminism: { allowedBuiltins: ['fs'], seed: 42, now: 0 },
  * });
  * ```
  */
@@ -39,17 +58,29 @@ export async function bundleForTesting(
 
   // Add mock resolution plugin
   if (options.mocks && Object.keys(options.mocks).length > 0) {
-    plugins.push(createMockPlugin(options.mocks));
+    plugins.push(createMockPlugin(options.mocks, options.mocksBaseDir ?? process.cwd()));
   }
 
   // Add relaxed determinism plugin
-  if (options.relaxedDeterminism) {
-    plugins.push(createRelaxedDeterminismPlugin());
+  const relaxed =
+    options.relaxedDeterminism === true ? {} : options.relaxedDeterminism || undefined;
+  if (relaxed && (relaxed.seed !== undefined || relaxed.now !== undefined)) {
+    plugins.push(createRelaxedDeterminismPlugin(relaxed));
   }
 
+  const allowedBuiltins: BuiltinExemption[] = [
+    ...(options.allowedBuiltins ?? []),
+    ...(relaxed?.allowedBuiltins ?? []).map((module) => ({
+      module,
+      justification: RELAXED_JUSTIFICATION,
+    })),
+  ];
+
   return bundleWorkflowCode({
     ...options,
     mode: options.mode ?? 'development',
+    ...(relaxed && { forbiddenModuleSeverity: 'warning' as const }),
+    ...(allowedBuiltins.length > 0 && { allowedBuiltins }),
     buildOptions: {
       ...options.buildOptions,
       plugins: [...(options.buildOptions?.plugins ?? []), ...plugins],
@@ -57,41 +88,269 @@ export async function bundleForTesting(
   });
 }
 
+/**
+ * Define a virtual mock from an object of exports, checked against the
+ * type of the module it replaces.
+ *
+ * @example
+ * ```typescript
+ * const flags = defineMock<typeof import('@company/shared/feature-flags')>({
+ *   isEnabled: () => true,
+ * });
+ * ```
+ */
+export function defineMock<T extends object>(exports: Partial<T>): VirtualMock {
+  return { exports: exports as Record<string, unknown> };
+}
+
+/**
+ * A mock specifier compiled for matching.
+ */
+interface MockPattern {
+  specifier: string;
+  target: MockTarget;
+  regex: RegExp;
+}
+
 /**
  * Create an esbuild plugin that resolves mock modules.
+ *
+ * Mock paths and the imports of virtual mocks are resolved from baseDir.
  */
-function createMockPlugin(mocks: Record<string, string>): esbuild.Plugin {
+function createMockPlugin(
+  mocks: Record<string, MockTarget>,
+  baseDir: string,
+): esbuild.Plugin {
+  const patterns: MockPattern[] = Object.entries(mocks)
+    .map(([specifier, target]) => ({
+      specifier,
+      target,
+      regex: new RegExp(
+        `^${specifier
+          .split('*')
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('(.*)')}$`,
+      ),
+    }))
+    // Exact specifiers first, then the most specific pattern
+    .sort(
+      (a, b) =>
+        Number(a.specifier.includes('*')) - Number(b.specifier.includes('*')) ||
+        b.specifier.length - a.specifier.length,
+    );
+  const requireFromBase = createRequire(join(baseDir, 'noop.js'));
+
   return {
     name: 'temporal-test-mocks',
     setup(build) {
-      for (const [original, mock] of Object.entries(mocks)) {
-        const escapedOriginal = original.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const filter = new RegExp(`^${escapedOriginal}$`);
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (args.namespace === 'temporal-test-mocks') {
+          return undefined;
+        }
 
-        build.onResolve({ filter }, () => {
-          return { path: require.resolve(mock) };
-        });
-      }
+        for (const { specifier, target, regex } of patterns) {
+          const match = regex.exec(args.path);
+          if (!match) {
+            continue;
+          }
+
+          if (typeof target !== 'string') {
+            // Virtual mocks must not look like source files, or the Temporal
+            // plugin would try to read them from disk
+            return {
+              path: `${args.path} (virtual mock)`,
+              namespace: 'temporal-test-mocks',
+              pluginData: { target },
+            };
+          }
+
+          const captures = match.slice(1);
+          const mockPath = target.replace(/\*/g, () => captures.shift() ?? '');
+          try {
+            return { path: requireFromBase.resolve(mockPath) };
+          } catch {
+            return {
+              errors: [
+                {
+                  text: `Mock '${mockPath}' for '${specifier}' not found from ${baseDir}`,
+                },
+              ],
+            };
+          }
+        }
+        return undefined;
+      });
+
+      build.onLoad({ filter: /.*/, namespace: 'temporal-test-mocks' }, (args) => {
+        const { target } = args.pluginData as { target: VirtualMock };
+        return {
+          contents:
+            'source' in target ? target.source : generateMockModule(target.exports),
+          resolveDir: baseDir,
+          loader: 'source' in target ? 'ts' : 'js',
+        };
+      });
     },
   };
 }
 
 /**
- * Create an esbuild plugin that allows some non-deterministic patterns in test mode.
+ * Generate a module that exports the given values.
+ */
+function generateMockModule(exports: Record<string, unknown>): string {
+  const lines = ['// Auto-generated virtual mock'];
+  for (const [name, value] of Object.entries(exports)) {
+    lines.push(`exports[${JSON.stringify(name)}] = ${serializeMockValue(value)};`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serialize a mock export as a JavaScript expression.
+ */
+function serializeMockValue(value: unknown): string {
+  if (typeof value === 'function') {
+    const source = Function.prototype.toString.call(value);
+    // Method shorthand (`name() {}`) is not an expression on its own
+    const isExpression = /^(?:async\s+)?(?:function\b|class\b|\(|[\w$]+\s*=>)/.test(
+      source,
+    );
+    return isExpression ? `(${source})` : `Object.values({ ${source} })[0]`;
+  }
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeMockValue).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${JSON.stringify(key)}: ${serializeMockValue(item)}`,
+    );
+    return `{ ${entries.join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Create an esbuild plugin that installs deterministic fakes for
+ * Date.now() and Math.random() in test mode.
  *
- * In test mode, patterns like Date.now() and Math.random() are allowed
- * because test workflows may need them for setup/teardown or assertions.
+ * The fakes are installed when the Worker imports the workflows module and
+ * again when each workflow starts, after the Temporal runtime has set up
+ * its own replacements, so test workflows see the values chosen by the
+ * test. The Worker freezes the
+ * sandbox's `Math` and `Date`, so the fakes replace the globals rather than
+ * their methods.
  */
-function createRelaxedDeterminismPlugin(): esbuild.Plugin {
+function createRelaxedDeterminismPlugin(
+  options: RelaxedDeterminismOptions,
+): esbuild.Plugin {
   return {
     name: 'temporal-relaxed-determinism',
     setup(build) {
-      // In relaxed mode, we allow some patterns that would normally be forbidden.
-      // This is achieved by the bundler options already disabling strict checks.
-      // This plugin serves as a marker that relaxed mode is active.
-      build.onStart(() => {
-        // No-op: presence of this plugin signals relaxed mode
+      const entrypoint = build.initialOptions.stdin;
+      const workflowsPath =
+        entrypoint?.contents !== undefined
+          ? getEntrypointWorkflowsPath(String(entrypoint.contents))
+          : undefined;
+
+      if (!workflowsPath) {
+        return;
+      }
+
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (
+          args.namespace === 'temporal-relaxed-determinism' ||
+          args.kind !== 'require-call' ||
+          args.importer !== entrypoint?.sourcefile ||
+          args.path !== workflowsPath
+        ) {
+          return undefined;
+        }
+        return { path: 'faked-workflows', namespace: 'temporal-relaxed-determinism' };
       });
+
+      build.onLoad(
+        { filter: /^faked-workflows$/, namespace: 'temporal-relaxed-determinism' },
+        () => ({
+          contents: generateDeterministicFakes(workflowsPath, options),
+          resolveDir: dirname(workflowsPath),
+          loader: 'js',
+        }),
+      );
+    },
+  };
+}
+
+/**
+ * Generate a module that installs the fakes and re-exports the workflows.
+ *
+ * The fakes are installed again, with the random sequence restarted, each
+ * time a workflow function starts. Workflows in a reused sandbox get their
+ * own globals and would otherwise see the real ones, and each execution
+ * (or replay of it) sees the same values whatever ran before it.
+ */
+function generateDeterministicFakes(
+  workflowsPath: string,
+  options: RelaxedDeterminismOptions,
+): string {
+  const install: string[] = [];
+
+  if (options.seed !== undefined) {
+    // mulberry32: small, fast and good enough for test data
+    install.push(`  var seed = ${options.seed >>> 0};
+  globalThis.Math = Object.create(SandboxMath, {
+    random: {
+      value: function random() {
+        seed = (seed + 0x6d2b79f5) >>> 0;
+        var t = seed;
+        t = SandboxMath.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + SandboxMath.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      },
     },
+  });`);
+  }
+
+  if (options.now !== undefined) {
+    const now = options.now instanceof Date ? options.now.getTime() : options.now;
+    install.push(`  var FakeDate = function Date(...args) {
+    // Called as a function, Date() returns a string and ignores arguments
+    if (!new.target) {
+      return new SandboxDate(${now}).toString();
+    }
+    return new SandboxDate(...(args.length > 0 ? args : [${now}]));
+  };
+  FakeDate.now = function now() {
+    return ${now};
+  };
+  FakeDate.parse = SandboxDate.parse;
+  FakeDate.UTC = SandboxDate.UTC;
+  FakeDate.prototype = SandboxDate.prototype;
+  globalThis.Date = FakeDate;`);
+  }
+
+  return `// Auto-generated deterministic fakes for tests
+var SandboxMath = Math;
+var SandboxDate = Date;
+
+function installFakes() {
+${install.join('\n')}
+}
+
+installFakes();
+var workflows = require(${JSON.stringify(workflowsPath)});
+
+function withFakes(workflow) {
+  return function (...args) {
+    installFakes();
+    return workflow.apply(this, args);
   };
 }
+
+for (const [name, value] of Object.entries(workflows)) {
+  exports[name] = typeof value === 'function' ? withFakes(value) : value;
+}
+`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Tests for export-preserving tree shaking.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import type { PreserveExportsReport } from './tree-shaking';
+import { analyzeRequiredExports, createPreserveExportsPlugin } from './tree-shaking';
+
+const workflowsPath = resolve(__dirname, '../test/fixtures/preserve-exports/index.ts');
+
+describe('tree-shaking', () => {
+  describe('createPreserveExportsPlugin', () => {
+    it('keeps only matching exports and the code they reference', async () => {
+      let report: PreserveExportsReport | undefined;
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        sourceMap: 'none',
+        report: true,
+        buildOptions: {
+          plugins: [
+            createPreserveExportsPlugin({
+              exportPattern: /^order/,
+              onReport: (r) => (report = r),
+            }),
+          ],
+        },
+      });
+
+      expect(bundle.code).toContain('orderWorkflow');
+      expect(bundle.code).toContain('formatOrderId');
+      expect(bundle.code).not.toContain('cancelOrderWorkflow');
+      expect(bundle.code).not.toContain('invoiceWorkflow');
+      expect(bundle.code).not.toContain('computeInvoiceTotal');
+      expect(report).toEqual({
+        workflowsPath,
+        preserved: ['orderWorkflow'],
+        dropped: ['cancelOrderWorkflow', 'invoiceWorkflow', 'shipOrderWorkflow'],
+      });
+      expect(bundle.metadata?.warnings).toContainEqual(
+        expect.stringContaining(
+          'cancelOrderWorkflow, invoiceWorkflow, shipOrderWorkflow',
+        ),
+      );
+    });
+
+    it('keeps exports listed in preserveNames', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        sourceMap: 'none',
+        buildOptions: {
+          plugins: [
+            createPreserveExportsPlugin({
+              exportPattern: /^order/,
+              preserveNames: ['invoiceWorkflow'],
+            }),
+          ],
+        },
+      });
+
+      expect(bundle.code).toContain('invoiceWorkflow');
+      expect(bundle.code).toContain('computeInvoiceTotal');
+      expect(bundle.code).not.toContain('cancelOrderWorkflow');
+    });
+
+    it('keeps every export without preserve rules', async () => {
+      let report: PreserveExportsReport | undefined;
+      const bundle = await bundleWorkflowCode({
+        workflowsPath,
+        sourceMap: 'none',
+        buildOptions: {
+          plugins: [createPreserveExportsPlugin({ onReport: (r) => (report = r) })],
+        },
+      });
+
+      expect(bundle.code).toContain('cancelOrderWorkflow');
+      expect(bundle.code).toContain('invoiceWorkflow');
+      // Dotted module names are source files, not assets
+      expect(bundle.code).toContain('shipOrderWorkflow');
+      expect(report?.dropped).toEqual([]);
+    });
+
+    it('fails when no export matches', async () => {
+      const error = await bundleWorkflowCode({
+        workflowsPath,
+        buildOptions: {
+          plugins: [createPreserveExportsPlugin({ exportPattern: /^shipping/ })],
+        },
+      }).catch((err: unknown) => err);
+
+      expect(String(error)).toContain('match the preserve rules');
+    });
+  });
+
+  describe('analyzeRequiredExports', () => {
+    it('lists exports except the default export', () => {
+      const code = `export async function a() {}\nexport const b = 1;\nexport default a;`;
+
+      expect(analyzeRequiredExports(code)).toEqual(['a', 'b']);
+    });
+  });
+});
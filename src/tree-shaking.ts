@@ -6,10 +6,12 @@
  * breaking workflow discovery.
  */
 
-import { readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
 
 import type * as esbuild from 'esbuild';
 
+import { getEntrypointWorkflowsPath } from './entrypoint';
+
 /**
  * Options for selective export preservation.
  */
@@ -30,16 +32,69 @@ export interface PreserveExportsOptions {
    * Default: true
    */
   preserveDefault?: boolean;
+
+  /**
+   * Called with the preserved and dropped exports of the workflows module
+   * on each build.
+   */
+  onReport?: (report: PreserveExportsReport) => void;
 }
 
+/**
+ * Exports of the workflows module kept and dropped by the plugin.
+ */
+export interface PreserveExportsReport {
+  /**
+   * Path to the workflows module.
+   */
+  workflowsPath: string;
+
+  /**
+   * Exports kept in the bundle.
+   */
+  preserved: string[];
+
+  /**
+   * Exports removed from the bundle, along with code only they reference.
+   */
+  dropped: string[];
+}
+
+/**
+ * Namespace for the generated workflows module.
+ */
+const NAMESPACE = 'temporal-preserve-exports';
+
+/**
+ * Path of the generated workflows module. It must not look like a source
+ * file, or the Temporal plugin would load the real workflows file for it.
+ */
+const SELECTED_WORKFLOWS_PATH = 'selected-workflows';
+
+/**
+ * Files whose exports are read when listing workflow exports.
+ */
+const SOURCE_FILE = /\.(?:[mc]?[jt]sx?|json)$/;
+
+/**
+ * Marks the resolution of a possible asset path, which the externals
+ * plugin leaves to esbuild.
+ */
+const RESOLVING_EXTERNAL = Symbol('resolving-external');
+
 /**
  * Create an esbuild plugin that selectively preserves workflow exports
  * while allowing tree-shaking of unused internal code.
  *
  * This plugin works by:
- * 1. Analyzing the entry point for exported workflow functions
- * 2. Adding sideEffects annotations to enable tree-shaking
- * 3. Preserving exports that match the configured pattern
+ * 1. Listing the exports of the workflows module, following re-exports
+ * 2. Selecting the exports that match `exportPattern` or `preserveNames`
+ * 3. Replacing the workflows module with one that re-exports only those,
+ *    so esbuild drops the other exports and the code only they reference
+ *
+ * Without `exportPattern` and `preserveNames`, every export is preserved.
+ * Dropped exports are reported through `onReport` and as a build warning.
+ * The build fails if no export is preserved.
  *
  * @example
  * ```typescript
@@ -55,38 +110,144 @@ export function createPreserveExportsPlugin(
   options: PreserveExportsOptions = {},
 ): esbuild.Plugin {
   const preserveDefault = options.preserveDefault !== false;
+  const filtered =
+    options.exportPattern !== undefined || options.preserveNames !== undefined;
+
+  const isPreserved = (name: string): boolean => {
+    if (!filtered) return true;
+    if (options.preserveNames?.includes(name)) return true;
+    if (options.exportPattern) {
+      // Reset in case the pattern has the global or sticky flag
+      options.exportPattern.lastIndex = 0;
+      if (options.exportPattern.test(name)) return true;
+    }
+    return name === 'default' && preserveDefault;
+  };
 
   return {
     name: 'temporal-preserve-exports',
     setup(build) {
-      build.onLoad({ filter: /\.[mc]?[jt]sx?$/ }, (args) => {
-        // Only process entry-adjacent files, skip node_modules
-        if (args.path.includes('node_modules')) {
+      const entrypoint = build.initialOptions.stdin;
+      const workflowsPath =
+        entrypoint?.contents !== undefined
+          ? getEntrypointWorkflowsPath(String(entrypoint.contents))
+          : undefined;
+
+      if (!workflowsPath) {
+        return;
+      }
+
+      // Replace the workflows module required by the entrypoint (or by
+      // another plugin's wrapper around it)
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (
+          args.namespace === NAMESPACE ||
+          args.kind !== 'require-call' ||
+          args.path !== workflowsPath
+        ) {
           return undefined;
         }
+        return { path: SELECTED_WORKFLOWS_PATH, namespace: NAMESPACE };
+      });
 
-        const contents = readFileSync(args.path, 'utf-8');
-        const exports = findExports(contents);
-
-        // Check if any exports should be preserved
-        const preserved = exports.filter((exp) => {
-          if (options.preserveNames?.includes(exp)) return true;
-          if (options.exportPattern?.test(exp)) return true;
-          if (exp === 'default' && preserveDefault) return true;
-          return false;
-        });
+      build.onLoad({ filter: /^selected-workflows$/, namespace: NAMESPACE }, async () => {
+        const exports = await listModuleExports(build, workflowsPath);
+        const report: PreserveExportsReport = {
+          workflowsPath,
+          preserved: exports.filter(isPreserved),
+          dropped: exports.filter((name) => !isPreserved(name)),
+        };
+        options.onReport?.(report);
 
-        // If all exports are preserved, no transformation needed
-        if (preserved.length === exports.length) {
-          return undefined;
+        if (report.preserved.length === 0) {
+          return {
+            errors: [
+              {
+                text:
+                  `No exports of ${workflowsPath} match the preserve rules ` +
+                  `(found: ${exports.join(', ') || 'none'})`,
+              },
+            ],
+          };
         }
 
-        return undefined; // Let esbuild handle it with enforced no-treeshaking
+        return {
+          contents: `export { ${report.preserved.join(', ')} } from ${JSON.stringify(workflowsPath)};\n`,
+          resolveDir: dirname(workflowsPath),
+          loader: 'js',
+          watchFiles: [workflowsPath],
+          warnings:
+            report.dropped.length > 0
+              ? [
+                  {
+                    text:
+                      `Dropped ${report.dropped.length} workflow export(s) not matching ` +
+                      `the preserve rules: ${report.dropped.join(', ')}`,
+                  },
+                ]
+              : [],
+        };
       });
     },
   };
 }
 
+/**
+ * List the runtime exports of a module, following re-exports.
+ *
+ * Runs a separate metafile-only build with packages and non-JavaScript
+ * files left external, so only the project's own modules are read.
+ */
+async function listModuleExports(
+  build: esbuild.PluginBuild,
+  modulePath: string,
+): Promise<string[]> {
+  const result = await build.esbuild.build({
+    entryPoints: [modulePath],
+    bundle: true,
+    write: false,
+    metafile: true,
+    format: 'esm',
+    platform: 'node',
+    packages: 'external',
+    outfile: 'exports.js',
+    logLevel: 'silent',
+    plugins: [
+      {
+        // Files handled by loader plugins in the real build have no exports
+        // that matter here
+        name: 'temporal-preserve-exports-externals',
+        setup(exportsBuild) {
+          exportsBuild.onResolve({ filter: /\.[^./\\]+$/ }, async (args) => {
+            if (SOURCE_FILE.test(args.path) || args.pluginData === RESOLVING_EXTERNAL) {
+              return undefined;
+            }
+            // `./orders.workflows` looks like an asset but resolves to a
+            // source file
+            const resolved = await exportsBuild.resolve(args.path, {
+              kind: args.kind,
+              importer: args.importer,
+              resolveDir: args.resolveDir,
+              pluginData: RESOLVING_EXTERNAL,
+            });
+            return resolved.errors.length === 0 &&
+              !resolved.external &&
+              SOURCE_FILE.test(resolved.path)
+              ? { path: resolved.path }
+              : { path: args.path, external: true };
+          });
+        },
+      },
+    ],
+    ...(build.initialOptions.tsconfig !== undefined && {
+      tsconfig: build.initialOptions.tsconfig,
+    }),
+  });
+
+  const outputs = Object.values(result.metafile.outputs);
+  return [...(outputs[0]?.exports ?? [])].sort();
+}
+
 /**
  * Find all export names in a source file.
  */
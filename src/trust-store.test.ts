@@ -0,0 +1,169 @@
+/**
+ * Tests for trusted signing keys.
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+
+import type { SignedBundleVerification } from './bundle-envelope';
+import {
+  createSignedBundleEnvelope,
+  verifySignedBundleEnvelope,
+} from './bundle-envelope';
+import { WorkflowBundleError } from './errors';
+import type { SigningKeyPair } from './signing';
+import { generateSigningKeyPair } from './signing';
+import { checkBundleTrust, getPublicKeyId, loadTrustedKeys } from './trust-store';
+
+const keyDir = resolve(__dirname, '../test/temp-trust-store');
+
+describe('trust-store', () => {
+  let release: SigningKeyPair;
+  let other: SigningKeyPair;
+  let extra: SigningKeyPair;
+  let signature: SignedBundleVerification;
+
+  beforeAll(async () => {
+    release = await generateSigningKeyPair();
+    other = await generateSigningKeyPair();
+    extra = await generateSigningKeyPair();
+    signature = verifySignedBundleEnvelope(
+      createSignedBundleEnvelope({ code: 'exports.api = {};' }, release.privateKey, {
+        signedAt: new Date('2026-06-01T00:00:00.000Z'),
+      }),
+    );
+
+    mkdirSync(keyDir, { recursive: true });
+    writeFileSync(resolve(keyDir, 'release-2026.pub'), `${release.publicKey}\n`);
+    writeFileSync(
+      resolve(keyDir, 'retired.json'),
+      JSON.stringify({ id: 'release-2025', publicKey: other.publicKey, revoked: true }),
+    );
+    writeFileSync(resolve(keyDir, 'README.md'), 'Trusted bundle signing keys');
+  });
+
+  afterAll(() => {
+    rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  describe('loadTrustedKeys', () => {
+    it('loads keys from the policy and the key directory', () => {
+      const keys = loadTrustedKeys({
+        keys: [{ publicKey: extra.publicKey, expiresAt: '2027-01-01T00:00:00.000Z' }],
+        keyDirectory: keyDir,
+      });
+
+      expect(keys).toEqual([
+        {
+          id: getPublicKeyId(extra.publicKey),
+          publicKey: extra.publicKey,
+          expiresAt: '2027-01-01T00:00:00.000Z',
+        },
+        { id: 'release-2026', publicKey: release.publicKey },
+        { id: 'release-2025', publicKey: other.publicKey, revoked: true },
+      ]);
+    });
+
+    it('reports invalid keys and duplicate IDs', () => {
+      const load = () =>
+        loadTrustedKeys({
+          keys: [
+            { id: 'release-2026', publicKey: extra.publicKey },
+            { publicKey: 'not a key', expiresAt: 'soon' },
+          ],
+          keyDirectory: keyDir,
+        });
+
+      expect(load).toThrow(WorkflowBundleError);
+      expect(load).toThrow("key ID 'release-2026' is also used by keys[0]");
+      expect(load).toThrow(
+        'keys[1]: publicKey must be a base64-encoded Ed25519 public key',
+      );
+      expect(load).toThrow('keys[1]: expiresAt must be an ISO 8601 date');
+    });
+
+    it('reports public keys listed more than once', () => {
+      const policy = {
+        keys: [
+          { id: 'a', publicKey: release.publicKey },
+          { id: 'b', publicKey: release.publicKey, revoked: true },
+        ],
+      };
+
+      expect(() => loadTrustedKeys(policy)).toThrow(
+        'keys[1]: public key is also listed by keys[0]',
+      );
+      expect(() => checkBundleTrust(signature, policy)).toThrow(WorkflowBundleError);
+      expect(() =>
+        loadTrustedKeys({ keys: [{ publicKey: other.publicKey }], keyDirectory: keyDir }),
+      ).toThrow(
+        `${resolve(keyDir, 'retired.json')}: public key is also listed by keys[0]`,
+      );
+    });
+  });
+
+  describe('checkBundleTrust', () => {
+    it('reports the trusted key that signed the bundle', () => {
+      const result = checkBundleTrust(signature, { keyDirectory: keyDir });
+
+      expect(result.trusted).toBe(true);
+      expect(result.key?.id).toBe('release-2026');
+    });
+
+    it('refuses bundles signed by other keys', () => {
+      const result = checkBundleTrust(signature, {
+        keys: [{ publicKey: other.publicKey }],
+      });
+
+      expect(result).toEqual({
+        trusted: false,
+        reason: `Bundle is signed by an untrusted key (${getPublicKeyId(release.publicKey)})`,
+      });
+    });
+
+    it('refuses bundles signed by revoked keys', () => {
+      const result = checkBundleTrust(signature, {
+        keys: [{ id: 'release', publicKey: release.publicKey, revoked: true }],
+      });
+
+      expect(result.trusted).toBe(false);
+      expect(result.reason).toBe("Bundle is signed by revoked key 'release'");
+    });
+
+    it('refuses bundles signed by expired keys, whenever they were signed', () => {
+      const keys = (expiresAt: Date) => [
+        {
+          id: 'release',
+          publicKey: release.publicKey,
+          expiresAt: expiresAt.toISOString(),
+        },
+      ];
+      const expired = new Date(Date.now() - 60_000);
+      const backdated = verifySignedBundleEnvelope(
+        createSignedBundleEnvelope({ code: 'exports.api = {};' }, release.privateKey, {
+          signedAt: new Date(expired.getTime() - 60_000),
+        }),
+      );
+
+      expect(
+        checkBundleTrust(signature, { keys: keys(new Date(Date.now() + 60_000)) })
+          .trusted,
+      ).toBe(true);
+      expect(checkBundleTrust(backdated, { keys: keys(expired) }).reason).toBe(
+        `Bundle is signed by key 'release', which expired at ${expired.toISOString()}`,
+      );
+    });
+
+    it('refuses unsigned bundles unless allowed', () => {
+      expect(checkBundleTrust(undefined, { keyDirectory: keyDir })).toEqual({
+        trusted: false,
+        reason: 'Bundle is not signed',
+      });
+      expect(
+        checkBundleTrust(undefined, { keyDirectory: keyDir, allowUnsigned: true }),
+      ).toEqual({ trusted: true });
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Trusted signing keys for signed bundle files.
+ *
+ * A valid signature only proves that a bundle was not modified after it
+ * was signed. A trust policy lists the keys whose bundles a Worker may
+ * run, so that only bundles from a known release pipeline are loaded.
+ */
+
+import { createHash, createPublicKey } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+
+import type { SignedBundleVerification } from './bundle-envelope';
+import { WorkflowBundleError } from './errors';
+
+/**
+ * A public key whose signed bundles are trusted.
+ */
+export interface TrustedKey {
+  /**
+   * Key ID reported for bundles signed with this key.
+   * Default: `getPublicKeyId(publicKey)`
+   */
+  id?: string;
+
+  /**
+   * Base64-encoded SPKI Ed25519 public key, as returned by
+   * `generateSigningKeyPair()`.
+   */
+  publicKey: string;
+
+  /**
+   * Time (ISO 8601) after which no bundle signed with this key is trusted.
+   * It is compared with the current time, not the `signedAt` time in the
+   * signature, which whoever holds the private key can set to anything.
+   */
+  expiresAt?: string;
+
+  /**
+   * Whether the key is revoked. No bundle signed with a revoked key is
+   * trusted, whenever it was signed.
+   */
+  revoked?: boolean;
+}
+
+/**
+ * A trusted key with its ID.
+ */
+export interface ResolvedTrustedKey extends TrustedKey {
+  id: string;
+}
+
+/**
+ * Which signed bundles to trust.
+ */
+export interface BundleTrustPolicy {
+  /**
+   * Trusted keys.
+   */
+  keys?: TrustedKey[];
+
+  /**
+   * Directory of trusted keys. `<id>.pub` files contain a base64 public
+   * key; `<id>.json` files contain a `TrustedKey`. The file name is the
+   * key ID unless the JSON sets `id`.
+   */
+  keyDirectory?: string;
+
+  /**
+   * Whether bundles that are not signed may be loaded.
+   * Default: false
+   */
+  allowUnsigned?: boolean;
+}
+
+/**
+ * Result of checking a bundle's signature against a trust policy.
+ */
+export interface BundleTrustResult {
+  /**
+   * Whether the bundle may be loaded.
+   */
+  trusted: boolean;
+
+  /**
+   * The trusted key that signed the bundle, with its ID.
+   */
+  key?: ResolvedTrustedKey;
+
+  /**
+   * Why the bundle is not trusted.
+   */
+  reason?: string;
+}
+
+/**
+ * Get the default ID of a public key: the first 16 hex digits of the
+ * SHA-256 hash of the key.
+ */
+export function getPublicKeyId(publicKey: string): string {
+  return createHash('sha256')
+    .update(Buffer.from(publicKey, 'base64'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Load the keys of a trust policy from `keys` and `keyDirectory`.
+ *
+ * @throws WorkflowBundleError with code `CONFIG_INVALID` listing invalid
+ *   keys, key files, duplicate IDs and public keys listed more than once
+ */
+export function loadTrustedKeys(policy: BundleTrustPolicy): ResolvedTrustedKey[] {
+  const violations: string[] = [];
+  const entries: Array<{ key: unknown; source: string; defaultId?: string }> = (
+    policy.keys ?? []
+  ).map((key, index) => ({ key, source: `keys[${index}]` }));
+
+  if (policy.keyDirectory !== undefined) {
+    const directory = resolve(policy.keyDirectory);
+    if (!existsSync(directory)) {
+      violations.push(`Key directory not found: ${directory}`);
+    } else {
+      for (const file of readdirSync(directory).sort()) {
+        const extension = extname(file);
+        if (extension !== '.pub' && extension !== '.json') {
+          continue;
+        }
+        const path = join(directory, file);
+        const contents = readFileSync(path, 'utf-8').trim();
+        const defaultId = basename(file, extension);
+        if (extension === '.pub') {
+          entries.push({ key: { publicKey: contents }, source: path, defaultId });
+          continue;
+        }
+        try {
+          entries.push({ key: JSON.parse(contents), source: path, defaultId });
+        } catch {
+          violations.push(`${path} is not valid JSON`);
+        }
+      }
+    }
+  }
+
+  // A public key listed twice could be trusted through one entry while
+  // revoked or expired in the other, so both IDs and keys must be unique
+  const keys: ResolvedTrustedKey[] = [];
+  const idSources = new Map<string, string>();
+  const keySources = new Map<string, string>();
+  for (const { key, source, defaultId } of entries) {
+    const keyViolations = validateTrustedKey(key);
+    if (keyViolations.length > 0) {
+      violations.push(...keyViolations.map((violation) => `${source}: ${violation}`));
+      continue;
+    }
+    const trustedKey = key as TrustedKey;
+    const id = trustedKey.id ?? defaultId ?? getPublicKeyId(trustedKey.publicKey);
+    const publicKey = normalizeKey(trustedKey.publicKey);
+    const existingId = idSources.get(id);
+    const existingKey = keySources.get(publicKey);
+    if (existingId) {
+      violations.push(`${source}: key ID '${id}' is also used by ${existingId}`);
+    }
+    if (existingKey) {
+      violations.push(`${source}: public key is also listed by ${existingKey}`);
+    }
+    if (existingId || existingKey) {
+      continue;
+    }
+    idSources.set(id, source);
+    keySources.set(publicKey, source);
+    keys.push({ ...trustedKey, id });
+  }
+
+  if (violations.length > 0) {
+    throw new WorkflowBundleError('CONFIG_INVALID', { violations });
+  }
+  return keys;
+}
+
+/**
+ * Check whether a bundle is signed by a key the trust policy trusts.
+ *
+ * @param signature - Verification result of the bundle's signature, or
+ *   undefined if the bundle is not signed
+ *
+ * @example
+ * ```typescript
+ * import { checkBundleTrust, readSignedBundle } from 'bundle-temporal-workflow';
+ *
+ * const { verification } = readSignedBundle('./dist/workflow-bundle.signed.json');
+ * const trust = checkBundleTrust(verification, { keyDirectory: '/etc/temporal/trusted-keys' });
+ *
+ * if (!trust.trusted) {
+ *   throw new Error(trust.reason);
+ * }
+ * console.log(`Signed by ${trust.key?.id}`);
+ * ```
+ */
+export function checkBundleTrust(
+  signature: SignedBundleVerification | undefined,
+  policy: BundleTrustPolicy,
+): BundleTrustResult {
+  const keys = loadTrustedKeys(policy);
+
+  if (!signature) {
+    return policy.allowUnsigned
+      ? { trusted: true }
+      : { trusted: false, reason: 'Bundle is not signed' };
+  }
+  if (!signature.valid) {
+    return {
+      trusted: false,
+      reason: `Bundle signature is not valid: ${signature.errors.join('; ')}`,
+    };
+  }
+
+  const publicKey = normalizeKey(signature.publicKey);
+  const key = keys.find((candidate) => normalizeKey(candidate.publicKey) === publicKey);
+  if (!key) {
+    return {
+      trusted: false,
+      reason: `Bundle is signed by an untrusted key (${getPublicKeyId(signature.publicKey)})`,
+    };
+  }
+  if (key.revoked) {
+    return {
+      trusted: false,
+      key,
+      reason: `Bundle is signed by revoked key '${key.id}'`,
+    };
+  }
+  if (key.expiresAt !== undefined && Date.now() > Date.parse(key.expiresAt)) {
+    return {
+      trusted: false,
+      key,
+      reason: `Bundle is signed by key '${key.id}', which expired at ${key.expiresAt}`,
+    };
+  }
+  return { trusted: true, key };
+}
+
+/**
+ * Check the fields of a trusted key.
+ */
+function validateTrustedKey(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['must be an object'];
+  }
+
+  const { id, publicKey, expiresAt, revoked } = value as Record<string, unknown>;
+  const violations: string[] = [];
+  if (id !== undefined && (typeof id !== 'string' || id === '')) {
+    violations.push('id must be a non-empty string');
+  }
+  if (typeof publicKey !== 'string' || !isEd25519PublicKey(publicKey)) {
+    violations.push('publicKey must be a base64-encoded Ed25519 public key');
+  }
+  if (
+    expiresAt !== undefined &&
+    (typeof expiresAt !== 'string' || Number.isNaN(Date.parse(expiresAt)))
+  ) {
+    violations.push('expiresAt must be an ISO 8601 date');
+  }
+  if (revoked !== undefined && typeof revoked !== 'boolean') {
+    violations.push('revoked must be a boolean');
+  }
+  return violations;
+}
+
+function isEd25519PublicKey(publicKey: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.from(publicKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+    return key.asymmetricKeyType === 'ed25519';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize the base64 encoding of a key for comparison.
+ */
+function normalizeKey(publicKey: string): string {
+  return Buffer.from(publicKey, 'base64').toString('base64');
+}
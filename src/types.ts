@@ -163,6 +163,35 @@ export interface BundleOptions {
    * Default: undefined (no automatic tsconfig paths resolution)
    */
   tsconfigPath?: string | boolean | undefined;
+
+  /**
+   * Path to a `temporal-bundle.config.{ts,mts,js,mjs,json}` file with
+   * project-level determinism rules.
+   *
+   * When undefined, the config file is searched for near the workflowsPath.
+   * Set to `false` to skip loading a config file.
+   *
+   * Default: undefined (automatic discovery)
+   */
+  configPath?: string | false | undefined;
+
+  /**
+   * Node.js builtins that may be imported from workflow code, in addition
+   * to the config file's `allowedBuiltins`. They are bundled as stubs that
+   * throw if used at runtime.
+   */
+  allowedBuiltins?: BuiltinExemption[] | undefined;
+
+  /**
+   * How imports of forbidden modules from workflow code are reported.
+   *
+   * With 'warning', forbidden modules are bundled as stubs that throw if
+   * used at runtime and listed in the bundle warnings instead of failing
+   * the build. Meant for test bundles.
+   *
+   * Default: 'error'
+   */
+  forbiddenModuleSeverity?: 'error' | 'warning' | undefined;
 }
 
 /**
@@ -263,6 +292,27 @@ export interface DeterminismPolicy {
    * Modules that are forbidden in workflow code
    */
   forbidden: string[];
+
+  /**
+   * Builtins that may be imported despite being forbidden.
+   * They are bundled as stubs that throw if used at runtime.
+   */
+  exemptions?: BuiltinExemption[] | undefined;
+}
+
+/**
+ * A forbidden Node.js builtin that a project has allow-listed.
+ */
+export interface BuiltinExemption {
+  /**
+   * The builtin module name (e.g., 'crypto')
+   */
+  module: string;
+
+  /**
+   * Why importing this module is safe in workflow code
+   */
+  justification: string;
 }
 
 /**
@@ -275,7 +325,9 @@ export type WorkflowBundleErrorCode =
   | 'IGNORED_MODULE_USED'
   | 'CONFIG_INVALID'
   | 'BUILD_FAILED'
-  | 'ENTRYPOINT_NOT_FOUND';
+  | 'ENTRYPOINT_NOT_FOUND'
+  | 'SIGNATURE_INVALID'
+  | 'BUNDLE_UNTRUSTED';
 
 /**
  * Context for WorkflowBundleError
@@ -446,6 +498,73 @@ export interface WorkflowInfo {
    * Line number where the workflow is defined (for debugging).
    */
   line?: number;
+
+  /**
+   * Parameters of the workflow, when resolved with the TypeScript checker.
+   */
+  params?: WorkflowParameterInfo[];
+
+  /**
+   * Return type with `Promise` unwrapped, when resolved with the
+   * TypeScript checker.
+   */
+  returnType?: string;
+
+  /**
+   * Signals the workflow registers handlers for with `setHandler`.
+   */
+  signals?: WorkflowHandlerInfo[];
+
+  /**
+   * Queries the workflow registers handlers for with `setHandler`.
+   */
+  queries?: WorkflowHandlerInfo[];
+
+  /**
+   * Updates the workflow registers handlers for with `setHandler`.
+   */
+  updates?: WorkflowHandlerInfo[];
+}
+
+/**
+ * A parameter of a workflow or message handler.
+ */
+export interface WorkflowParameterInfo {
+  /**
+   * Parameter name, prefixed with `...` for rest parameters. Unlabeled
+   * message arguments are named by position (`arg0`).
+   */
+  name: string;
+
+  /**
+   * Parameter type, with aliases and interfaces expanded.
+   */
+  type: string;
+
+  /**
+   * Whether the parameter is optional or has a default value.
+   */
+  optional: boolean;
+}
+
+/**
+ * A signal, query or update a workflow handles.
+ */
+export interface WorkflowHandlerInfo {
+  /**
+   * Name the message is sent with.
+   */
+  name: string;
+
+  /**
+   * Arguments of the message.
+   */
+  args: WorkflowParameterInfo[];
+
+  /**
+   * Result type of queries and updates.
+   */
+  returnType?: string;
 }
 
 /**
@@ -518,6 +637,57 @@ export interface DiskCacheOptions {
   maxSize?: number;
 }
 
+/**
+ * Options for the incremental build cache.
+ */
+export interface IncrementalCacheOptions {
+  /**
+   * Directory for storing module graphs and bundles.
+   * Default: node_modules/.cache/temporal-bundler/incremental
+   */
+  cacheDir?: string;
+
+  /**
+   * Identifies the configuration of the build's plugins, which cannot be
+   * compared between processes. Bundles are only reused for the same key.
+   * Required when `plugins` or `buildOptions.plugins` are set; change it
+   * whenever the plugins or their options change.
+   */
+  key?: string;
+
+  /**
+   * Called when a cached bundle cannot be reused, with the inputs that
+   * changed since it was built.
+   */
+  onInvalidate?: (invalidation: CacheInvalidation) => void;
+}
+
+/**
+ * Why the incremental cache could not reuse a bundle.
+ */
+export interface CacheInvalidation {
+  /**
+   * Workflows path of the bundle.
+   */
+  workflowsPath: string;
+
+  /**
+   * 'no-entry' when nothing was cached for these options, 'inputs-changed'
+   * when a file in the recorded module graph changed or was removed.
+   */
+  reason: 'no-entry' | 'inputs-changed';
+
+  /**
+   * Inputs whose content changed (absolute paths).
+   */
+  changedInputs: string[];
+
+  /**
+   * Inputs that no longer exist (absolute paths).
+   */
+  removedInputs: string[];
+}
+
 /**
  * Options for computing a content hash of all bundle inputs.
  */
@@ -592,8 +762,25 @@ export interface QueueConfig {
    * Path to activities source file or directory (optional).
    */
   activitiesPath?: string;
+
+  /**
+   * Bundle options for this queue's workflows, merged over the shared
+   * options. Values replace the shared ones, except `plugins` and
+   * `ignoreModules`, which are appended to the shared lists.
+   */
+  options?: QueueBundleOptions;
+
+  /**
+   * Size budget for this queue's workflow bundle.
+   */
+  budget?: BundleSizeBudget;
 }
 
+/**
+ * Bundle options that can be set per queue.
+ */
+export type QueueBundleOptions = Omit<BundleOptions, 'workflowsPath'>;
+
 /**
  * Options for bundling multiple workflows across task queues.
  */
@@ -616,6 +803,87 @@ export interface MultiBundleOptions {
   };
 }
 
+/**
+ * Result of bundling multiple workflows with details about the build.
+ */
+export interface MultiBundleResult {
+  /**
+   * Bundles keyed by queue name, in the order of the queues.
+   */
+  bundles: Map<string, WorkflowBundle>;
+
+  /**
+   * Modules included in more than one queue bundle, largest first.
+   */
+  duplicates: DuplicatedModule[];
+
+  /**
+   * Build timings per queue, keyed by queue name.
+   */
+  timings: Map<string, QueueBuildTiming>;
+
+  /**
+   * Size analysis with budget results, for queues with a budget.
+   */
+  sizeAnalysis: Map<string, SizeAnalysisResult>;
+
+  /**
+   * Total wall-clock time in milliseconds.
+   */
+  totalTime: number;
+}
+
+/**
+ * A module bundled into several queue bundles.
+ */
+export interface DuplicatedModule {
+  /**
+   * Module path as reported by esbuild.
+   */
+  path: string;
+
+  /**
+   * Queues whose bundles include the module.
+   */
+  queues: string[];
+
+  /**
+   * Bytes the module contributes to each bundle.
+   */
+  bytes: number;
+}
+
+/**
+ * Build timing and size of a single queue bundle.
+ */
+export interface QueueBuildTiming {
+  /**
+   * Duration of the esbuild build that produced the bundle, in
+   * milliseconds. Queues built together share this build.
+   */
+  buildTime: number;
+
+  /**
+   * Time spent finishing this bundle (shim and metadata) in milliseconds.
+   */
+  outputTime: number;
+
+  /**
+   * Queues built in the same esbuild build, including this one.
+   */
+  sharedWith: string[];
+
+  /**
+   * Number of modules in the bundle.
+   */
+  moduleCount: number;
+
+  /**
+   * Bundle size in bytes.
+   */
+  size: number;
+}
+
 /**
  * Options for bundling activity code.
  */
@@ -642,10 +910,97 @@ export interface ActivityBundleOptions {
    */
   external?: string[];
 
+  /**
+   * Source map generation mode. 'external' returns the map as
+   * `ActivityBundle.sourceMap` and links it from the code.
+   * Default: 'external'
+   */
+  sourceMap?: 'inline' | 'external' | 'none';
+
+  /**
+   * Path to the tsconfig.json used to resolve the activity modules.
+   * Default: the one esbuild finds next to each module
+   */
+  tsconfigPath?: string;
+
   /**
    * Optional logger.
    */
   logger?: Logger;
+
+  /**
+   * Validate the modules the bundle is built from: package boundaries,
+   * imports of `@temporalio/workflow` and activity type serializability.
+   * Results are returned as `ActivityBundle.diagnostics`.
+   * Default: false
+   */
+  validate?: boolean | ActivityValidationOptions;
+}
+
+/**
+ * Options for validating an activity bundle.
+ */
+export interface ActivityValidationOptions {
+  /**
+   * Package boundaries to enforce.
+   * Default: DEFAULT_BOUNDARIES
+   */
+  boundaries?: PackageBoundaries;
+
+  /**
+   * Check that activity parameters and return types are serializable.
+   * Default: true
+   */
+  checkTypes?: boolean;
+
+  /**
+   * Path to the custom payload converter; types it handles are accepted
+   * by the type check.
+   */
+  payloadConverterPath?: string;
+}
+
+/**
+ * A problem found while validating an activity bundle.
+ */
+export interface ActivityDiagnostic {
+  /**
+   * What was checked:
+   * - 'workflow-import': a module imports `@temporalio/workflow`
+   * - 'boundary': a module imports another workflow-only package
+   * - 'type': an activity signature is not serializable
+   */
+  kind: 'workflow-import' | 'boundary' | 'type';
+
+  /**
+   * Severity of the problem.
+   */
+  severity: 'error' | 'warning';
+
+  /**
+   * Absolute path of the module the problem was found in.
+   */
+  file: string;
+
+  /**
+   * Line number, when it could be determined.
+   */
+  line?: number;
+
+  /**
+   * The offending import, for import diagnostics.
+   */
+  importPath?: string;
+
+  /**
+   * The activity, for type diagnostics.
+   */
+  activity?: string;
+
+  /**
+   * Description of the problem.
+   */
+  message: string;
 }
 
 /**
@@ -666,6 +1021,11 @@ export interface ActivityBundle {
    * List of exported activity function names.
    */
   activityNames: string[];
+
+  /**
+   * Validation results, when `validate` is enabled.
+   */
+  diagnostics?: ActivityDiagnostic[];
 }
 
 /**
@@ -690,13 +1050,52 @@ export interface WatchCoordinatorOptions {
 
   /**
    * Callback invoked when any bundle is rebuilt.
+   *
+   * Called once per rebuilt bundle type, after the queue's debounce window.
    */
-  onChange: (
+  onChange?: (
     queueName: string,
     type: 'workflow' | 'activity',
     bundle: WorkflowBundle | ActivityBundle | null,
     error?: Error,
   ) => void;
+
+  /**
+   * Callback invoked once per queue with every bundle rebuilt in the same
+   * debounce window. A change to a module shared by a queue's workflows and
+   * activities produces a single batch with both bundles.
+   */
+  onBatch?: (queueName: string, batch: QueueWatchBatch) => void;
+}
+
+/**
+ * Outcome of a single watched build.
+ */
+export interface WatchBuildResult<T> {
+  /**
+   * The rebuilt bundle, or null if the build failed.
+   */
+  bundle: T | null;
+
+  /**
+   * Build error, if the build failed.
+   */
+  error?: Error;
+}
+
+/**
+ * Bundles rebuilt for a queue within one debounce window.
+ */
+export interface QueueWatchBatch {
+  /**
+   * Workflow rebuild, if the workflow bundle was rebuilt.
+   */
+  workflow?: WatchBuildResult<WorkflowBundle>;
+
+  /**
+   * Activity rebuild, if the activity bundle was rebuilt.
+   */
+  activity?: WatchBuildResult<ActivityBundle>;
 }
 
 // ============================================================
@@ -906,15 +1305,59 @@ export interface TypeValidationResult {
   valid: boolean;
 
   /**
-   * List of validated activities.
+   * List of validated activities. For `validateWorkflowTypes()`, the
+   * validated workflows and signal, query and update definitions.
    */
   activities: Array<{
     name: string;
     valid: boolean;
     errors: string[];
+
+    /**
+     * What was validated, for `validateWorkflowTypes()`.
+     */
+    kind?: WorkflowPayloadKind;
+
+    /**
+     * File and line of the activity declaration, when resolved with the
+     * TypeScript checker.
+     */
+    file?: string;
+    line?: number;
+
+    /**
+     * Non-serializable members found by the TypeScript checker.
+     */
+    issues?: SerializabilityIssue[];
   }>;
 }
 
+/**
+ * A workflow or message definition whose payload types are validated.
+ */
+export type WorkflowPayloadKind = 'workflow' | 'signal' | 'query' | 'update';
+
+/**
+ * A value that does not survive serialization by the payload converter.
+ */
+export interface SerializabilityIssue {
+  /**
+   * Property path from the parameter or return value
+   * (e.g., `input.customer.createdAt`).
+   */
+  path: string;
+
+  /**
+   * The offending type.
+   */
+  type: string;
+
+  /**
+   * What happens to the value.
+   */
+  reason: string;
+}
+
 /**
  * Package boundary rules for workflow/activity separation.
  */
@@ -1032,6 +1475,14 @@ export interface InstrumentationOptions {
    * Default: true
    */
   treeShakeInProduction?: boolean;
+
+  /**
+   * Build mode the plugin is used in.
+   * Default: 'production' if the plugin is passed to `bundleWorkflowCode()`
+   * with `mode: 'production'`, or if the build defines
+   * `process.env.NODE_ENV` as "production"; 'development' otherwise
+   */
+  mode?: 'development' | 'production';
 }
 
 // ============================================================
@@ -1054,15 +1505,69 @@ export interface WatchOptions {
  */
 export interface TestBundleOptions extends BundleOptions {
   /**
-   * Module replacements for testing (module path -> mock path).
+   * Module replacements for testing (module specifier -> mock).
+   *
+   * Specifiers may contain `*` wildcards, and the text matched by them is
+   * substituted for `*` in a mock path. Exact specifiers take precedence,
+   * then the longest matching pattern.
    */
-  mocks?: Record<string, string>;
+  mocks?: Record<string, MockTarget>;
+
+  /**
+   * Directory that mock paths and virtual mock imports are resolved from.
+   * Default: process.cwd()
+   */
+  mocksBaseDir?: string;
 
   /**
    * Whether to allow some non-deterministic patterns in test mode.
+   *
+   * When enabled, forbidden modules are reported as warnings instead of
+   * failing the build. Pass an object to also allow builtins silently and
+   * to replace Date.now() and Math.random() with deterministic fakes.
+   *
    * Default: false
    */
-  relaxedDeterminism?: boolean;
+  relaxedDeterminism?: boolean | RelaxedDeterminismOptions;
+}
+
+/**
+ * Replacement for a mocked module: a path to a mock file, or a virtual
+ * module bundled without a file.
+ */
+export type MockTarget = string | VirtualMock;
+
+/**
+ * A mock module defined inline.
+ *
+ * `source` is bundled as module source. `exports` are serialized into the
+ * bundle: functions by their source text, other values as JSON, so
+ * functions must not rely on variables from the enclosing scope.
+ */
+export type VirtualMock = { source: string } | { exports: Record<string, unknown> };
+
+/**
+ * Options for relaxed determinism in test bundles.
+ */
+export interface RelaxedDeterminismOptions {
+  /**
+   * Node.js builtins to bundle as stubs without a warning. The stubs throw
+   * if used at runtime.
+   */
+  allowedBuiltins?: string[];
+
+  /**
+   * Seed for a Math.random() replacement that returns the same sequence on
+   * every run. The sequence restarts for each workflow execution. When
+   * omitted, Math.random() is left to the Temporal runtime.
+   */
+  seed?: number;
+
+  /**
+   * Fixed time returned by Date.now() and `new Date()`. When omitted, the
+   * time is left to the Temporal runtime.
+   */
+  now?: number | Date;
 }
 
 // ============================================================
@@ -1083,3 +1588,90 @@ export interface SignedBundle extends WorkflowBundle {
    */
   publicKey: string;
 }
+
+/**
+ * A signed bundle file: the code, source map, manifest and metadata of a
+ * deployable bundle with one signature over all of them.
+ */
+export interface SignedBundleEnvelope {
+  /**
+   * Format identifier.
+   */
+  format: 'temporal-workflow-bundle';
+
+  /**
+   * Schema version for future compatibility.
+   */
+  version: 1;
+
+  /**
+   * The bundled JavaScript code.
+   */
+  code: string;
+
+  /**
+   * External source map of the bundle.
+   */
+  sourceMap?: string | undefined;
+
+  /**
+   * Manifest of the workflows in the bundle.
+   */
+  manifest?: WorkflowManifest | undefined;
+
+  /**
+   * Bundle metadata.
+   */
+  metadata?: BundleMetadata | undefined;
+
+  /**
+   * SHA-256 hashes of the contents, as covered by the signature.
+   */
+  hashes: SignedBundleHashes;
+
+  /**
+   * Signature over the hashes.
+   */
+  signature: SignedBundleSignature;
+}
+
+/**
+ * Hex-encoded SHA-256 hashes of the contents of a signed bundle file.
+ * Absent contents have no hash.
+ */
+export interface SignedBundleHashes {
+  code: string;
+  sourceMap?: string | undefined;
+
+  /**
+   * Hash of the manifest serialized with `serializeManifest()`.
+   */
+  manifest?: string | undefined;
+
+  /**
+   * Hash of the metadata serialized as JSON.
+   */
+  metadata?: string | undefined;
+}
+
+/**
+ * Signature of a signed bundle file.
+ */
+export interface SignedBundleSignature {
+  algorithm: 'Ed25519';
+
+  /**
+   * Base64-encoded SPKI public key of the signer.
+   */
+  publicKey: string;
+
+  /**
+   * When the bundle was signed (ISO 8601). Covered by the signature.
+   */
+  signedAt: string;
+
+  /**
+   * Base64-encoded Ed25519 signature.
+   */
+  value: string;
+}
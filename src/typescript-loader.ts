@@ -0,0 +1,28 @@
+/**
+ * Lazy access to the TypeScript compiler API.
+ *
+ * TypeScript is an optional peer dependency. Analyses that need a real
+ * syntax tree load it on demand and fall back to simpler heuristics when
+ * it is not installed.
+ */
+
+type TypeScriptModule = typeof import('typescript');
+
+let cachedTypeScript: TypeScriptModule | null | undefined;
+
+/**
+ * Load the installed TypeScript compiler API.
+ *
+ * @returns The `typescript` module, or undefined if it is not installed
+ */
+export function loadTypeScript(): TypeScriptModule | undefined {
+  if (cachedTypeScript === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      cachedTypeScript = require('typescript') as TypeScriptModule;
+    } catch {
+      cachedTypeScript = null;
+    }
+  }
+  return cachedTypeScript ?? undefined;
+}
@@ -0,0 +1,154 @@
+/**
+ * Tests for bundle validation.
+ */
+
+import { resolve } from 'node:path';
+
+import { beforeAll, describe, expect, it } from 'bun:test';
+
+import { bundleWorkflowCode } from './bundler';
+import type { WorkflowBundle, WorkflowManifest } from './types';
+import { validateBundleDetailed, validateBundleStructure } from './validate';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/bundle-evaluation');
+const interceptorsPath = resolve(__dirname, '../test/fixtures/with-interceptors');
+
+function manifestOf(...names: string[]): WorkflowManifest {
+  return {
+    version: 1,
+    bundleHash: '',
+    generatedAt: '',
+    workflows: names.map((name) => ({ name })),
+  } as WorkflowManifest;
+}
+
+describe('validate', () => {
+  describe('validateBundleStructure', () => {
+    let bundle: WorkflowBundle;
+    let throwingBundle: WorkflowBundle;
+
+    beforeAll(async () => {
+      bundle = await bundleWorkflowCode({
+        workflowsPath: resolve(fixtureDir, 'workflows.ts'),
+      });
+      throwingBundle = await bundleWorkflowCode({
+        workflowsPath: resolve(fixtureDir, 'throwing-workflows.ts'),
+      });
+    });
+
+    it('rejects code without the bundle globals', () => {
+      const result = validateBundleStructure('module.exports = {};');
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Missing __TEMPORAL__ global export');
+    });
+
+    it('does not evaluate the bundle by default', () => {
+      expect(validateBundleStructure(throwingBundle.code)).toEqual({ valid: true });
+    });
+
+    it('loads workflows inside the workflow runtime', () => {
+      const result = validateBundleStructure(bundle.code, {
+        deep: true,
+        manifest: manifestOf('loadedWorkflow'),
+      });
+
+      expect(result).toEqual({ valid: true, warnings: undefined });
+    });
+
+    it('reports manifest workflows that are not exported as functions', () => {
+      const result = validateBundleStructure(bundle.code, {
+        deep: true,
+        manifest: manifestOf('loadedWorkflow', 'notAWorkflow', 'removedWorkflow'),
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain(
+        'Workflow "notAWorkflow" is not a function (got number)',
+      );
+      expect(result.error).toContain(
+        'Workflow "removedWorkflow" from the manifest is not exported by the bundle',
+      );
+      expect(result.error).not.toContain('"loadedWorkflow"');
+    });
+
+    it('reports top-level code that throws at its source location', () => {
+      const result = validateBundleStructure(throwingBundle.code, { deep: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain(
+        'importWorkflows() threw: Configuration is not available in the workflow sandbox',
+      );
+      expect(result.error).toMatch(/\(at \S*bundle-evaluation\/config\.ts:6\)/);
+    });
+
+    it('runs interceptor modules', async () => {
+      const withInterceptors = await bundleWorkflowCode({
+        workflowsPath: resolve(interceptorsPath, 'workflows.ts'),
+        workflowInterceptorModules: [resolve(interceptorsPath, 'interceptors.ts')],
+      });
+
+      expect(validateBundleStructure(withInterceptors.code, { deep: true }).valid).toBe(
+        true,
+      );
+    });
+
+    it('runs the import hooks directly when the runtime fails before them', async () => {
+      const withInterceptors = await bundleWorkflowCode({
+        workflowsPath: resolve(interceptorsPath, 'workflows.ts'),
+        workflowInterceptorModules: [resolve(interceptorsPath, 'interceptors.ts')],
+      });
+      const failingRuntime = `
+__TEMPORAL__.api = { initRuntime() { throw new Error('Unsupported arguments'); } };`;
+
+      const result = validateBundleStructure(
+        `${withInterceptors.code}${failingRuntime}`,
+        {
+          deep: true,
+          manifest: manifestOf('simpleWorkflow', 'removedWorkflow'),
+        },
+      );
+      expect(result.valid).toBe(false);
+      expect(result.error).not.toContain('"simpleWorkflow"');
+      expect(result.error).toContain(
+        'Workflow "removedWorkflow" from the manifest is not exported by the bundle',
+      );
+      expect(result.warnings).toEqual([
+        'Workflow runtime failed to initialize (Unsupported arguments); import hooks were run without it',
+      ]);
+
+      const throwing = validateBundleStructure(
+        `${throwingBundle.code}${failingRuntime}`,
+        {
+          deep: true,
+        },
+      );
+      expect(throwing.error).toContain(
+        'importWorkflows() threw: Configuration is not available in the workflow sandbox',
+      );
+    });
+
+    it('reports code that does not finish within the timeout', () => {
+      const code = `${bundle.code}\nwhile (true) {}\n`;
+      const result = validateBundleStructure(code, { deep: true, timeout: 100 });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Bundle threw during evaluation');
+      expect(result.error).toContain('timed out');
+    });
+  });
+
+  describe('validateBundleDetailed', () => {
+    it('evaluates the bundle with deep: true', async () => {
+      const bundle = await bundleWorkflowCode({
+        workflowsPath: resolve(fixtureDir, 'throwing-workflows.ts'),
+      });
+
+      expect(validateBundleDetailed(bundle).valid).toBe(true);
+
+      const result = validateBundleDetailed(bundle, { deep: true });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Bundle failed to load');
+    });
+  });
+});
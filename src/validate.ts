@@ -2,7 +2,44 @@
  * Bundle validation helpers for Temporal workflow bundles.
  */
 
-import type { ValidationResult, WorkflowBundle } from './types';
+import assert from 'node:assert';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import vm from 'node:vm';
+
+import type { ReplayUnsafePattern } from './replay-safety';
+import { getBundleSourceMap } from './sourcemap-utils';
+import type { ValidationResult, WorkflowBundle, WorkflowManifest } from './types';
+import { mapViolationsToSource } from './violation-mapper';
+
+/**
+ * Options for bundle structure validation.
+ */
+export interface ValidateBundleStructureOptions {
+  /**
+   * Evaluate the bundle in an isolated `node:vm` context, as the Worker
+   * does on startup, and run its import hooks.
+   * Default: false
+   */
+  deep?: boolean | undefined;
+
+  /**
+   * Manifest whose workflows must be exported as functions (deep
+   * validation only).
+   */
+  manifest?: WorkflowManifest | undefined;
+
+  /**
+   * External source map used to locate errors. Inline source maps are read
+   * from the bundle code.
+   */
+  sourceMap?: string | undefined;
+
+  /**
+   * Maximum time in milliseconds for each evaluation step.
+   * Default: 5000
+   */
+  timeout?: number;
+}
 
 /**
  * Options for detailed bundle validation.
@@ -34,6 +71,19 @@ export interface ValidateBundleOptions {
    * Default: false (warnings only)
    */
   strictVersionCheck?: boolean;
+
+  /**
+   * Whether to evaluate the bundle in an isolated context when validating
+   * its structure. See `validateBundleStructure()`.
+   * Default: false
+   */
+  deep?: boolean;
+
+  /**
+   * Manifest whose workflows must be exported as functions (deep
+   * validation only).
+   */
+  manifest?: WorkflowManifest;
 }
 
 /**
@@ -169,7 +219,11 @@ export function validateBundleDetailed(
 
   // Validate structure if requested
   if (options.validateStructure !== false) {
-    const structureResult = validateBundleStructure(bundle.code);
+    const structureResult = validateBundleStructure(bundle.code, {
+      deep: options.deep,
+      manifest: options.manifest,
+      sourceMap: bundle.sourceMap,
+    });
     if (!structureResult.valid) {
       errors.push(structureResult.error ?? 'Invalid bundle structure');
     }
@@ -316,8 +370,32 @@ function extractMajorMinor(version: string): string {
  * Checks that the bundle has the expected global exports:
  * - globalThis.__TEMPORAL__
  * - globalThis.__webpack_module_cache__
+ *
+ * With `deep: true`, the bundle is also evaluated in a `node:vm` context
+ * with the globals the Worker injects, and the Worker runtime is
+ * initialized so that `importInterceptors()` and `importWorkflows()` run
+ * user code as they do on Worker startup. If the runtime fails before
+ * running them, they are called directly and a warning is returned.
+ * Top-level code that throws or does not finish within `timeout` is
+ * reported with its source location when the bundle has a source map, as
+ * are manifest workflows that are not exported as functions.
+ *
+ * @example
+ * ```typescript
+ * import { generateManifest, validateBundleStructure } from 'bundle-temporal-workflow';
+ *
+ * const manifest = generateManifest({ workflowsPath, bundleCode: bundle.code });
+ * const result = validateBundleStructure(bundle.code, { deep: true, manifest });
+ *
+ * if (!result.valid) {
+ *   throw new Error(result.error);
+ * }
+ * ```
  */
-export function validateBundleStructure(code: string): ValidationResult {
+export function validateBundleStructure(
+  code: string,
+  options: ValidateBundleStructureOptions = {},
+): ValidationResult {
   const errors: string[] = [];
 
   // Check for __TEMPORAL__ assignment
@@ -337,7 +415,231 @@ export function validateBundleStructure(code: string): ValidationResult {
     };
   }
 
-  return { valid: true };
+  if (!options.deep) {
+    return { valid: true };
+  }
+
+  const evaluation = evaluateBundle(code, options);
+  if (evaluation.errors.length > 0) {
+    return {
+      valid: false,
+      error: `Bundle failed to load:\n${evaluation.errors.map((e) => `  - ${e}`).join('\n')}`,
+      warnings: evaluation.warnings.length > 0 ? evaluation.warnings : undefined,
+    };
+  }
+
+  return {
+    valid: true,
+    warnings: evaluation.warnings.length > 0 ? evaluation.warnings : undefined,
+  };
+}
+
+/**
+ * File name the bundle is evaluated under, as it appears in stack traces.
+ */
+const BUNDLE_FILENAME = 'workflow-bundle.js';
+
+/**
+ * Workflow type the runtime is initialized with. It is never exported, so
+ * initialization fails after the import hooks have run.
+ */
+const VALIDATION_WORKFLOW_TYPE = '__bundle_validation__';
+
+/**
+ * Script that runs the import hooks without the workflow runtime.
+ */
+const IMPORT_HOOKS = '__TEMPORAL__.importInterceptors(); __TEMPORAL__.importWorkflows()';
+
+/**
+ * Pattern reported for locations of errors thrown while loading a bundle.
+ */
+const BUNDLE_EVALUATION_PATTERN: ReplayUnsafePattern = {
+  pattern: /$^/,
+  name: 'Bundle evaluation error',
+  reason: 'Code threw while the bundle was loaded.',
+  suggestion: 'Move side effects out of module top-level code.',
+  severity: 'error',
+};
+
+/**
+ * The import hooks a bundle registers on `globalThis.__TEMPORAL__`.
+ */
+interface ImportHooks {
+  api?: { initRuntime?: unknown };
+  importWorkflows?: () => Record<string, unknown>;
+  importInterceptors?: () => unknown[];
+}
+
+/**
+ * Evaluate a bundle in an isolated context and run its import hooks.
+ */
+function evaluateBundle(
+  code: string,
+  options: ValidateBundleStructureOptions,
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const timeout = options.timeout ?? 5000;
+  const describe = (error: unknown): string =>
+    describeEvaluationError(error, code, options.sourceMap);
+
+  const context = createWorkflowContext();
+  try {
+    new vm.Script(code, { filename: BUNDLE_FILENAME }).runInContext(context, { timeout });
+  } catch (error) {
+    errors.push(`Bundle threw during evaluation: ${describe(error)}`);
+    return { errors, warnings };
+  }
+
+  const hooks = context['__TEMPORAL__'] as ImportHooks | undefined;
+  if (
+    typeof hooks?.importWorkflows !== 'function' ||
+    typeof hooks.importInterceptors !== 'function'
+  ) {
+    errors.push('Bundle did not register importWorkflows() and importInterceptors()');
+    return { errors, warnings };
+  }
+
+  // Record what the hooks return or throw when the runtime calls them
+  let workflows: Record<string, unknown> | undefined;
+  let hookError: { hook: string; error: unknown } | undefined;
+  const importWorkflows = hooks.importWorkflows;
+  const importInterceptors = hooks.importInterceptors;
+  const record =
+    <T>(hook: string, run: () => T) =>
+    (): T => {
+      try {
+        return run();
+      } catch (error) {
+        hookError ??= { hook, error };
+        throw error;
+      }
+    };
+  hooks.importInterceptors = record('importInterceptors', importInterceptors);
+  hooks.importWorkflows = record(
+    'importWorkflows',
+    () => (workflows = importWorkflows()),
+  );
+
+  // Initialize the runtime like the Worker does, so that top-level code can
+  // use workflow APIs, Date and Math.random
+  context['__temporal_args'] = [
+    {
+      info: { workflowType: VALIDATION_WORKFLOW_TYPE, unsafe: {} },
+      now: Date.now(),
+      randomnessSeed: [0, 0, 0, 0],
+      showStackTraceSources: false,
+      registeredActivityNames: new Set<string>(),
+      getTimeOfDay: () => process.hrtime.bigint(),
+    },
+  ];
+  const run = (script: string): void => {
+    vm.runInContext(script, context, { filename: BUNDLE_FILENAME, timeout });
+  };
+  try {
+    if (typeof hooks.api?.initRuntime === 'function') {
+      try {
+        run('__TEMPORAL__.api.initRuntime(...__temporal_args)');
+      } catch (error) {
+        if (hookError || workflows) throw error;
+        // The runtime failed before running the hooks, for example with an
+        // SDK version that expects other arguments, so run them directly
+        warnings.push(
+          `Workflow runtime failed to initialize (${describe(error)}); import hooks were run without it`,
+        );
+        run(IMPORT_HOOKS);
+      }
+    } else {
+      run(IMPORT_HOOKS);
+    }
+  } catch (error) {
+    if (hookError) {
+      errors.push(`${hookError.hook}() threw: ${describe(hookError.error)}`);
+    } else if (!workflows) {
+      errors.push(`Workflow runtime failed to initialize: ${describe(error)}`);
+    }
+  }
+
+  if (!workflows) {
+    return { errors, warnings };
+  }
+
+  if (options.manifest) {
+    for (const { name } of options.manifest.workflows) {
+      const workflow = workflows[name];
+      if (workflow === undefined) {
+        errors.push(`Workflow "${name}" from the manifest is not exported by the bundle`);
+      } else if (typeof workflow !== 'function') {
+        errors.push(`Workflow "${name}" is not a function (got ${typeof workflow})`);
+      }
+    }
+  } else if (!Object.values(workflows).some((value) => typeof value === 'function')) {
+    warnings.push('Bundle exports no workflow functions');
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Create a context with the globals the Worker injects into the workflow
+ * isolate.
+ */
+function createWorkflowContext(): vm.Context {
+  const context = vm.createContext({}, { microtaskMode: 'afterEvaluate' });
+  const noop = (): void => {};
+
+  Object.assign(context, {
+    URL,
+    URLSearchParams,
+    assert,
+    TextEncoder,
+    TextDecoder,
+    AbortController,
+    AsyncLocalStorage,
+    console: { log: noop, warn: noop, error: noop, info: noop, debug: noop },
+    __webpack_module_cache__: {},
+  });
+  return context;
+}
+
+/**
+ * Describe an error thrown in the context, with the user source location
+ * it was thrown from when the bundle has a source map.
+ */
+function describeEvaluationError(
+  error: unknown,
+  code: string,
+  externalSourceMap: string | undefined,
+): string {
+  // Errors from the context are not instances of this realm's Error
+  const { name, message, stack } =
+    typeof error === 'object' && error !== null
+      ? (error as { name?: unknown; message?: unknown; stack?: unknown })
+      : { name: undefined, message: String(error), stack: undefined };
+  const description =
+    typeof name === 'string' && name !== 'Error'
+      ? `${name}: ${String(message)}`
+      : String(message);
+
+  const sourceMap = getBundleSourceMap(code, externalSourceMap);
+  if (typeof stack !== 'string' || !sourceMap) {
+    return description;
+  }
+
+  const frames = [...stack.matchAll(/workflow-bundle\.js:(\d+):(\d+)/g)].map((frame) => ({
+    pattern: BUNDLE_EVALUATION_PATTERN,
+    match: '',
+    line: Number(frame[1]),
+    column: Number(frame[2]),
+    sourceLine: '',
+  }));
+  const location = mapViolationsToSource(frames, sourceMap).find(
+    (frame) =>
+      frame.originalFile && !/node_modules|@temporalio[\\/]/.test(frame.originalFile),
+  );
+  return location
+    ? `${description} (at ${location.originalFile}:${location.originalLine})`
+    : description;
 }
 
 /**
@@ -15,9 +15,10 @@
  * @module
  */
 
-import { resolve } from 'node:path';
+import { basename, resolve } from 'node:path';
 
 import { bundleWorkflowCode } from './bundler';
+import { CONFIG_FILE_NAMES } from './config';
 import type { BundleOptions, WorkflowBundle } from './types';
 
 const PLUGIN_NAME = 'temporal-workflow';
@@ -123,6 +124,20 @@ export function temporalWorkflow(
     },
 
     handleHotUpdate({ file, server }) {
+      // A changed determinism config can change every workflow bundle
+      if ((CONFIG_FILE_NAMES as readonly string[]).includes(basename(file))) {
+        if (cache.size === 0) return undefined;
+        for (const [workflowsPath] of cache) {
+          const mod = server.moduleGraph.getModuleById(PREFIX + workflowsPath);
+          if (mod) {
+            server.moduleGraph.invalidateModule(mod);
+          }
+        }
+        cache.clear();
+        server.ws.send({ type: 'full-reload' });
+        return [];
+      }
+
       if (!file.match(/\.[tj]sx?$/)) return;
 
       // Check if file is under any cached workflow directory
@@ -0,0 +1,169 @@
+/**
+ * Tests for coordinated watch mode.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'bun:test';
+
+import type { QueueWatchBatch } from './types';
+import type { CoordinatedWatchHandle } from './watch-coordinator';
+import { watchTemporalCode } from './watch-coordinator';
+
+const tempDir = resolve(__dirname, '../test/temp-watch-coordinator');
+const sharedPath = join(tempDir, 'shared.ts');
+
+function writeShared(greeting: string): void {
+  writeFileSync(sharedPath, `export const greeting = '${greeting}';\n`);
+}
+
+/**
+ * Wait until the predicate holds, polling every 50ms.
+ */
+async function waitFor(predicate: () => boolean, timeoutMs = 10_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for watch events');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe('watch-coordinator', () => {
+  let handle: CoordinatedWatchHandle | undefined;
+
+  beforeEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    mkdirSync(tempDir, { recursive: true });
+    writeShared('Hello');
+    writeFileSync(
+      join(tempDir, 'workflows.ts'),
+      `import { greeting } from './shared';
+
+export async function greetingWorkflow(name: string): Promise<string> {
+  return \`\${greeting}, \${name}\`;
+}
+`,
+    );
+    writeFileSync(
+      join(tempDir, 'activities.ts'),
+      `import { greeting } from './shared';
+
+export async function sendGreeting(name: string): Promise<string> {
+  return \`\${greeting}, \${name}\`;
+}
+`,
+    );
+  });
+
+  afterEach(async () => {
+    await handle?.stop();
+    handle = undefined;
+  });
+
+  afterAll(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true });
+    }
+  });
+
+  describe('watchTemporalCode', () => {
+    it('builds workflow and activity bundles for each queue', async () => {
+      const changes: Array<{ queue: string; type: string; error?: Error }> = [];
+
+      handle = watchTemporalCode({
+        queues: [
+          {
+            name: 'greetings',
+            workflowsPath: join(tempDir, 'workflows.ts'),
+            activitiesPath: join(tempDir, 'activities.ts'),
+          },
+        ],
+        onChange: (queue, type, _bundle, error) => {
+          changes.push({ queue, type, ...(error && { error }) });
+        },
+      });
+
+      await waitFor(() => changes.length === 2);
+
+      expect(changes).toEqual([
+        { queue: 'greetings', type: 'workflow' },
+        { queue: 'greetings', type: 'activity' },
+      ]);
+    });
+
+    it('batches rebuilds caused by a shared module', async () => {
+      const batches: QueueWatchBatch[] = [];
+
+      handle = watchTemporalCode({
+        queues: [
+          {
+            name: 'greetings',
+            workflowsPath: join(tempDir, 'workflows.ts'),
+            activitiesPath: join(tempDir, 'activities.ts'),
+          },
+        ],
+        debounce: 500,
+        onBatch: (_queue, batch) => {
+          batches.push(batch);
+        },
+      });
+
+      await waitFor(() => batches.length === 1);
+      writeShared('Howdy');
+      await waitFor(() => batches.length === 2);
+
+      const [, rebuilt] = batches;
+      expect(rebuilt?.workflow?.bundle?.code).toContain('Howdy');
+      expect(rebuilt?.activity?.bundle?.code).toContain('Howdy');
+      expect(rebuilt?.activity?.bundle?.activityNames).toEqual(['sendGreeting']);
+    });
+
+    it('reports activity build errors', async () => {
+      const batches: QueueWatchBatch[] = [];
+
+      handle = watchTemporalCode({
+        queues: [
+          {
+            name: 'greetings',
+            workflowsPath: join(tempDir, 'workflows.ts'),
+            activitiesPath: join(tempDir, 'missing-activities.ts'),
+          },
+        ],
+        onBatch: (_queue, batch) => {
+          batches.push(batch);
+        },
+      });
+
+      await waitFor(() => batches.length === 1);
+
+      expect(batches[0]?.workflow?.bundle).not.toBeNull();
+      expect(batches[0]?.activity?.bundle).toBeNull();
+      expect(batches[0]?.activity?.error?.message).toContain('missing-activities.ts');
+    });
+
+    it('reports workflow bundles over the queue budget as errors', async () => {
+      const batches: QueueWatchBatch[] = [];
+
+      handle = watchTemporalCode({
+        queues: [
+          {
+            name: 'greetings',
+            workflowsPath: join(tempDir, 'workflows.ts'),
+            budget: { total: 1024 },
+          },
+        ],
+        onBatch: (_queue, batch) => {
+          batches.push(batch);
+        },
+      });
+
+      await waitFor(() => batches.length === 1);
+
+      expect(batches[0]?.workflow?.bundle).toBeNull();
+      expect(batches[0]?.workflow?.error?.message).toContain('exceeds budget');
+    });
+  });
+});
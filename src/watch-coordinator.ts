@@ -5,9 +5,18 @@
  * debouncing rebuilds and coordinating callbacks.
  */
 
+import { watchActivityCode } from './activity-bundler';
 import type { WatchHandle } from './bundler';
 import { watchWorkflowCode } from './bundler';
-import type { WatchCoordinatorOptions, WorkflowBundle } from './types';
+import { WorkflowBundleError } from './errors';
+import { resolveQueueActivityOptions, resolveQueueBundleOptions } from './multi-bundle';
+import { analyzeSize } from './size-analysis';
+import type {
+  ActivityBundle,
+  QueueWatchBatch,
+  WatchCoordinatorOptions,
+  WorkflowBundle,
+} from './types';
 
 /**
  * Result of starting coordinated watch mode.
@@ -27,8 +36,13 @@ export interface CoordinatedWatchHandle {
 /**
  * Start coordinated watch mode for multiple workflow queues.
  *
- * Watches all configured workflow (and activity) paths and invokes the
- * onChange callback when any source file changes.
+ * Watches all configured workflow and activity paths. Workflow bundles are
+ * built with `watchWorkflowCode()`, using the queue options merged as in
+ * `createMultiBundlers()`, and activity bundles with `watchActivityCode()`.
+ * Rebuilds for the same queue are debounced together, so a change to a
+ * module shared by a queue's workflows and activities is delivered as one
+ * batch. A workflow bundle over its queue's budget is reported as a build
+ * error.
  *
  * @example
  * ```typescript
@@ -36,15 +50,19 @@ export interface CoordinatedWatchHandle {
  *
  * const handle = watchTemporalCode({
  *   queues: [
- *     { name: 'orders', workflowsPath: './src/workflows/orders.ts' },
+ *     {
+ *       name: 'orders',
+ *       workflowsPath: './src/workflows/orders.ts',
+ *       activitiesPath: './src/activities/orders.ts',
+ *     },
  *     { name: 'users', workflowsPath: './src/workflows/users.ts' },
  *   ],
  *   debounce: 200,
- *   onChange: (queueName, type, bundle, error) => {
- *     if (error) {
- *       console.error(`${queueName} ${type} build failed:`, error);
+ *   onBatch: (queueName, { workflow, activity }) => {
+ *     if (workflow?.error || activity?.error) {
+ *       console.error(`${queueName} build failed:`, workflow?.error ?? activity?.error);
  *     } else {
- *       console.log(`${queueName} ${type} rebuilt`);
+ *       console.log(`${queueName} rebuilt`);
  *     }
  *   },
  * });
@@ -57,49 +75,69 @@ export function watchTemporalCode(
   options: WatchCoordinatorOptions,
 ): CoordinatedWatchHandle {
   const shared = options.shared ?? {};
-  const watchHandles: WatchHandle[] = [];
+  const watchers: Promise<WatchHandle | null>[] = [];
+  const batchers: QueueBatcher[] = [];
   let running = true;
 
   // Start watchers for each queue
   for (const queue of options.queues) {
+    const types: Array<'workflow' | 'activity'> = queue.activitiesPath
+      ? ['workflow', 'activity']
+      : ['workflow'];
+    const batcher = createQueueBatcher(types, options.debounce ?? 100, (batch) => {
+      if (!running) return;
+      deliverBatch(options, queue.name, batch);
+    });
+    batchers.push(batcher);
+
     // Watch workflows
-    const workflowPromise = watchWorkflowCode(
-      {
-        workflowsPath: queue.workflowsPath,
-        tsconfigPath: shared.tsconfigPath,
-        plugins: shared.plugins,
-        mode: shared.mode,
-        sourceMap: shared.sourceMap,
-        ignoreModules: shared.ignoreModules,
-        logger: shared.logger,
-      },
-      createDebouncedCallback(
-        options.debounce ?? 100,
-        (bundle: WorkflowBundle | null, error?: Error) => {
-          if (!running) return;
-          options.onChange(queue.name, 'workflow', bundle, error);
-        },
-      ),
+    watchers.push(
+      watchWorkflowCode(resolveQueueBundleOptions(queue, shared), (bundle, error) => {
+        const budgetResult =
+          bundle && queue.budget
+            ? analyzeSize(bundle, queue.budget).budgetResult
+            : undefined;
+        if (budgetResult?.status === 'fail') {
+          batcher.add(
+            'workflow',
+            null,
+            new WorkflowBundleError('BUILD_FAILED', {
+              details: `  - ${queue.name}: ${budgetResult.message}`,
+              hint: 'Reduce the size of these queue bundles or raise their budgets.',
+            }),
+          );
+        } else {
+          batcher.add('workflow', bundle, error);
+        }
+      }).catch((err: unknown) => {
+        batcher.add('workflow', null, toError(err));
+        return null;
+      }),
     );
 
-    workflowPromise
-      .then((handle) => {
-        watchHandles.push(handle);
-      })
-      .catch((err) => {
-        options.onChange(
-          queue.name,
-          'workflow',
-          null,
-          err instanceof Error ? err : new Error(String(err)),
-        );
-      });
+    // Watch activities
+    const activityOptions = resolveQueueActivityOptions(queue, shared);
+    if (activityOptions) {
+      watchers.push(
+        watchActivityCode(activityOptions, (bundle, error) =>
+          batcher.add('activity', bundle, error),
+        ).catch((err: unknown) => {
+          batcher.add('activity', null, toError(err));
+          return null;
+        }),
+      );
+    }
   }
 
   return {
     async stop() {
       running = false;
-      await Promise.all(watchHandles.map((h) => h.stop()));
+      for (const batcher of batchers) {
+        batcher.cancel();
+      }
+      // Wait for watchers that are still starting, so none is left running
+      const handles = await Promise.all(watchers);
+      await Promise.all(handles.map((h) => h?.stop() ?? Promise.resolve()));
     },
     get running() {
       return running;
@@ -108,27 +146,113 @@ export function watchTemporalCode(
 }
 
 /**
- * Create a debounced version of a watch callback.
+ * Collects rebuilds for one queue until its debounce window closes.
  */
-function createDebouncedCallback(
+interface QueueBatcher {
+  add(
+    type: 'workflow' | 'activity',
+    bundle: WorkflowBundle | ActivityBundle | null,
+    error?: Error,
+  ): void;
+  cancel(): void;
+}
+
+/**
+ * Create a batcher that debounces workflow and activity rebuilds of a queue
+ * together. Only the latest result of each type is kept, and the first
+ * batch waits for the initial build of every type.
+ */
+function createQueueBatcher(
+  types: Array<'workflow' | 'activity'>,
   delayMs: number,
-  callback: (bundle: WorkflowBundle | null, error?: Error) => void,
-): (bundle: WorkflowBundle | null, error?: Error) => void {
+  flush: (batch: QueueWatchBatch) => void,
+): QueueBatcher {
   let timer: ReturnType<typeof setTimeout> | null = null;
-  let pendingBundle: WorkflowBundle | null = null;
-  let pendingError: Error | undefined;
+  let pending: QueueWatchBatch = {};
+  let initialized = false;
+  const lastCode = new Map<'workflow' | 'activity', string>();
 
-  return (bundle, error) => {
-    pendingBundle = bundle;
-    pendingError = error;
+  return {
+    add(type, bundle, error) {
+      // The workflow watcher reports its initial build twice; skip rebuilds
+      // that produced the same output
+      if (bundle && !error && lastCode.get(type) === bundle.code) {
+        return;
+      }
+      if (bundle) {
+        lastCode.set(type, bundle.code);
+      } else {
+        lastCode.delete(type);
+      }
 
-    if (timer) {
-      clearTimeout(timer);
-    }
+      if (type === 'workflow') {
+        pending.workflow = {
+          bundle: bundle as WorkflowBundle | null,
+          ...(error && { error }),
+        };
+      } else {
+        pending.activity = {
+          bundle: bundle as ActivityBundle | null,
+          ...(error && { error }),
+        };
+      }
+
+      if (timer) {
+        clearTimeout(timer);
+      }
+
+      initialized ||= types.every((t) => pending[t] !== undefined);
+      if (!initialized) {
+        return;
+      }
 
-    timer = setTimeout(() => {
-      timer = null;
-      callback(pendingBundle, pendingError);
-    }, delayMs);
+      timer = setTimeout(() => {
+        timer = null;
+        const batch = pending;
+        pending = {};
+        flush(batch);
+      }, delayMs);
+    },
+    cancel() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      pending = {};
+    },
   };
 }
+
+/**
+ * Invoke the coordinator callbacks for a batch.
+ */
+function deliverBatch(
+  options: WatchCoordinatorOptions,
+  queueName: string,
+  batch: QueueWatchBatch,
+): void {
+  if (batch.workflow) {
+    options.onChange?.(
+      queueName,
+      'workflow',
+      batch.workflow.bundle,
+      batch.workflow.error,
+    );
+  }
+  if (batch.activity) {
+    options.onChange?.(
+      queueName,
+      'activity',
+      batch.activity.bundle,
+      batch.activity.error,
+    );
+  }
+  options.onBatch?.(queueName, batch);
+}
+
+/**
+ * Normalize a thrown value to an Error.
+ */
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
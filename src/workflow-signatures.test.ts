@@ -0,0 +1,85 @@
+/**
+ * Tests for workflow interface extraction.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { extractWorkflowSignatures } from './workflow-signatures';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/workflow-interface');
+const workflowsPath = resolve(fixtureDir, 'workflows.ts');
+
+describe('workflow-signatures', () => {
+  describe('extractWorkflowSignatures', () => {
+    const signatures = extractWorkflowSignatures(workflowsPath) ?? [];
+    const cart = signatures.find((s) => s.name === 'cartWorkflow');
+
+    it('describes workflow parameters and return types', () => {
+      expect(signatures.map((s) => s.name)).toEqual(['cartWorkflow', 'pingWorkflow']);
+      expect(cart).toEqual(
+        expect.objectContaining({
+          file: workflowsPath,
+          line: 16,
+          params: [
+            {
+              name: 'input',
+              type: '{ customerId: string; currency?: string }',
+              optional: false,
+            },
+          ],
+          returnType: '{ items: { sku: string; quantity: number }[] }',
+        }),
+      );
+    });
+
+    it('lists the signals a workflow handles', () => {
+      expect(cart?.signals).toEqual([
+        {
+          name: 'addItem',
+          args: [
+            {
+              name: 'item',
+              type: '{ sku: string; quantity: number }',
+              optional: false,
+            },
+          ],
+        },
+        { name: 'checkout', args: [] },
+      ]);
+    });
+
+    it('follows calls to handlers registered in helper modules', () => {
+      expect(cart?.queries).toEqual([
+        {
+          name: 'getItems',
+          args: [],
+          returnType: '{ sku: string; quantity: number }[]',
+        },
+      ]);
+      expect(cart?.updates).toEqual([
+        {
+          name: 'setDiscount',
+          args: [
+            { name: 'code', type: 'string', optional: false },
+            { name: 'percent', type: 'number', optional: true },
+          ],
+          returnType: 'number',
+        },
+      ]);
+    });
+
+    it('returns empty handler lists for workflows without handlers', () => {
+      expect(signatures[1]).toEqual(
+        expect.objectContaining({
+          params: [],
+          returnType: 'string',
+          signals: [],
+          queries: [],
+          updates: [],
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Workflow interface extraction with the TypeScript checker.
+ *
+ * Describes the exported workflows of a module: their parameter and
+ * return types, and the signals, queries and updates they register
+ * handlers for with `setHandler`, including handlers registered from
+ * helper functions in other project modules.
+ */
+
+import { resolve } from 'node:path';
+
+import type * as ts from 'typescript';
+
+import type { ExtractActivitySignaturesOptions } from './activity-signatures';
+import {
+  createModuleProgram,
+  describeParameter,
+  typeToText,
+  unwrapPromise,
+} from './activity-signatures';
+import type {
+  WorkflowHandlerInfo,
+  WorkflowParameterInfo,
+  WorkflowPayloadKind,
+} from './types';
+import { loadTypeScript } from './typescript-loader';
+
+/**
+ * Message definition interfaces exported by `@temporalio/common`.
+ */
+const DEFINITION_TYPES: Record<string, Exclude<WorkflowPayloadKind, 'workflow'>> = {
+  SignalDefinition: 'signal',
+  QueryDefinition: 'query',
+  UpdateDefinition: 'update',
+};
+
+/**
+ * An exported workflow and its interface.
+ */
+export interface WorkflowSignature {
+  /**
+   * Workflow type name (the export name).
+   */
+  name: string;
+
+  /**
+   * Absolute path of the file the workflow is declared in.
+   */
+  file: string;
+
+  /**
+   * Line of the declaration.
+   */
+  line: number;
+
+  /**
+   * Parameters of the workflow.
+   */
+  params: WorkflowParameterInfo[];
+
+  /**
+   * Return type with `Promise` unwrapped and aliases expanded.
+   */
+  returnType: string;
+
+  /**
+   * Signals, queries and updates the workflow handles, in the order their
+   * handlers are registered.
+   */
+  signals: WorkflowHandlerInfo[];
+  queries: WorkflowHandlerInfo[];
+  updates: WorkflowHandlerInfo[];
+}
+
+/**
+ * The types read from a `SignalDefinition`, `QueryDefinition` or
+ * `UpdateDefinition`.
+ */
+export interface MessageDefinitionTypes {
+  kind: Exclude<WorkflowPayloadKind, 'workflow'>;
+
+  /**
+   * The message name, when the definition has a literal name type.
+   */
+  name: string | undefined;
+
+  /**
+   * The argument tuple type.
+   */
+  args: ts.Type | undefined;
+
+  /**
+   * The result type of queries and updates.
+   */
+  ret: ts.Type | undefined;
+}
+
+/**
+ * Extract the workflows exported by a module and their interfaces.
+ *
+ * Handlers are found in the body of each workflow and in the project
+ * functions it calls. Message names and types are read from the
+ * definition types, so definitions imported from other modules are
+ * described too.
+ *
+ * Requires the optional `typescript` peer dependency.
+ *
+ * @returns The workflows in export order, or undefined if TypeScript is
+ *   not installed
+ *
+ * @example
+ * ```typescript
+ * import { extractWorkflowSignatures } from 'bundle-temporal-workflow';
+ *
+ * for (const workflow of extractWorkflowSignatures('./src/workflows.ts') ?? []) {
+ *   console.log(workflow.name, workflow.signals.map((s) => s.name));
+ * }
+ * ```
+ */
+export function extractWorkflowSignatures(
+  workflowsPath: string,
+  options: ExtractActivitySignaturesOptions = {},
+): WorkflowSignature[] | undefined {
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    return undefined;
+  }
+
+  const entryPath = resolve(workflowsPath);
+  const program = createModuleProgram(typescript, entryPath, options.tsconfigPath);
+  const checker = program.getTypeChecker();
+
+  const sourceFile = program.getSourceFile(entryPath);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    return [];
+  }
+
+  const workflows: WorkflowSignature[] = [];
+  for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+    const symbol =
+      exported.flags & typescript.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    const declaration = symbol.valueDeclaration;
+    if (!declaration || symbol.flags & typescript.SymbolFlags.Class) {
+      continue;
+    }
+
+    const [signature] = checker.getTypeOfSymbol(symbol).getCallSignatures();
+    if (!signature) {
+      continue;
+    }
+
+    const declarationFile = declaration.getSourceFile();
+    const { line } = declarationFile.getLineAndCharacterOfPosition(
+      declaration.getStart(),
+    );
+    const handlers = findHandlers(typescript, program, checker, declaration);
+
+    workflows.push({
+      name: exported.name,
+      file: resolve(declarationFile.fileName),
+      line: line + 1,
+      params: signature.parameters.map((param) =>
+        describeParameter(typescript, checker, param, declaration),
+      ),
+      returnType: typeToText(
+        typescript,
+        checker,
+        unwrapPromise(checker, checker.getReturnTypeOfSignature(signature)),
+      ),
+      signals: handlers.signal,
+      queries: handlers.query,
+      updates: handlers.update,
+    });
+  }
+
+  return workflows;
+}
+
+/**
+ * Read the kind, name and payload types of a message definition type.
+ *
+ * @returns undefined if the type is not a Temporal message definition
+ */
+export function readMessageDefinition(
+  checker: ts.TypeChecker,
+  type: ts.Type,
+): MessageDefinitionTypes | undefined {
+  const symbol = type.getSymbol();
+  const kind = symbol && DEFINITION_TYPES[symbol.name];
+  const isTemporal = symbol?.declarations?.some((declaration) =>
+    declaration.getSourceFile().fileName.includes('/@temporalio/'),
+  );
+  if (!kind || !isTemporal) {
+    return undefined;
+  }
+
+  const typeArguments = checker.getTypeArguments(type as ts.TypeReference);
+  // SignalDefinition<Args, Name>; QueryDefinition and UpdateDefinition<Ret, Args, Name>
+  const [ret, args, name] =
+    kind === 'signal'
+      ? [undefined, typeArguments[0], typeArguments[1]]
+      : [typeArguments[0], typeArguments[1], typeArguments[2]];
+
+  return {
+    kind,
+    name: name?.isStringLiteral() ? name.value : undefined,
+    args,
+    ret,
+  };
+}
+
+/**
+ * Find the handlers registered with `setHandler` from a workflow,
+ * following calls into project functions.
+ */
+function findHandlers(
+  typescript: typeof ts,
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  workflow: ts.Declaration,
+): Record<MessageDefinitionTypes['kind'], WorkflowHandlerInfo[]> {
+  const handlers: Record<MessageDefinitionTypes['kind'], WorkflowHandlerInfo[]> = {
+    signal: [],
+    query: [],
+    update: [],
+  };
+  const visited = new Set<ts.Node>();
+
+  const visit = (node: ts.Node): void => {
+    if (typescript.isCallExpression(node)) {
+      const callee = resolveSymbol(typescript, checker, node.expression);
+      const [definitionArgument] = node.arguments;
+
+      if (callee?.name === 'setHandler' && definitionArgument) {
+        const definition = readMessageDefinition(
+          checker,
+          checker.getTypeAtLocation(definitionArgument),
+        );
+        if (definition) {
+          const name =
+            definition.name ?? getDefinitionName(typescript, checker, definitionArgument);
+          if (!handlers[definition.kind].some((handler) => handler.name === name)) {
+            handlers[definition.kind].push({
+              name,
+              args: describeMessageArguments(typescript, checker, definition.args),
+              ...(definition.ret && {
+                returnType: typeToText(
+                  typescript,
+                  checker,
+                  unwrapPromise(checker, definition.ret),
+                ),
+              }),
+            });
+          }
+        }
+      } else {
+        for (const declaration of callee?.declarations ?? []) {
+          const body = getFunctionLike(typescript, declaration);
+          if (
+            body &&
+            !visited.has(body) &&
+            isProjectFile(program, declaration.getSourceFile())
+          ) {
+            visited.add(body);
+            visit(body);
+          }
+        }
+      }
+    }
+    typescript.forEachChild(node, visit);
+  };
+
+  visited.add(workflow);
+  visit(workflow);
+  return handlers;
+}
+
+/**
+ * Resolve the symbol an expression refers to, following import aliases.
+ */
+function resolveSymbol(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  expression: ts.Expression,
+): ts.Symbol | undefined {
+  const symbol = checker.getSymbolAtLocation(expression);
+  return symbol && symbol.flags & typescript.SymbolFlags.Alias
+    ? checker.getAliasedSymbol(symbol)
+    : symbol;
+}
+
+/**
+ * Get the function a declaration defines, if any: a function declaration
+ * or method, or a variable initialized with a function expression.
+ */
+function getFunctionLike(
+  typescript: typeof ts,
+  declaration: ts.Declaration,
+): ts.Node | undefined {
+  if (typescript.isFunctionLike(declaration)) {
+    return declaration;
+  }
+  if (
+    typescript.isVariableDeclaration(declaration) &&
+    declaration.initializer &&
+    (typescript.isArrowFunction(declaration.initializer) ||
+      typescript.isFunctionExpression(declaration.initializer))
+  ) {
+    return declaration.initializer;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a source file belongs to the project rather than a library.
+ */
+export function isProjectFile(program: ts.Program, sourceFile: ts.SourceFile): boolean {
+  return (
+    !sourceFile.isDeclarationFile &&
+    !program.isSourceFileFromExternalLibrary(sourceFile) &&
+    !sourceFile.fileName.includes('/node_modules/')
+  );
+}
+
+/**
+ * Get the name of a message definition without a literal name type: the
+ * string its definition helper was called with, or the expression text.
+ */
+function getDefinitionName(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  expression: ts.Expression,
+): string {
+  const declaration = resolveSymbol(typescript, checker, expression)?.valueDeclaration;
+  if (
+    declaration &&
+    typescript.isVariableDeclaration(declaration) &&
+    declaration.initializer &&
+    typescript.isCallExpression(declaration.initializer)
+  ) {
+    const [name] = declaration.initializer.arguments;
+    if (name && typescript.isStringLiteralLike(name)) {
+      return name.text;
+    }
+  }
+  return expression.getText();
+}
+
+/**
+ * Describe the elements of a message argument tuple.
+ */
+function describeMessageArguments(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  args: ts.Type | undefined,
+): WorkflowParameterInfo[] {
+  if (!args || !checker.isTupleType(args)) {
+    return [];
+  }
+
+  const tuple = (args as ts.TypeReference).target as ts.TupleType;
+  return checker.getTypeArguments(args as ts.TypeReference).map((type, index) => {
+    const flags = tuple.elementFlags[index] ?? 0;
+    const label = tuple.labeledElementDeclarations?.[index];
+    const optional = (flags & typescript.ElementFlags.Optional) !== 0;
+    const rest = (flags & typescript.ElementFlags.Variable) !== 0;
+    const name = label ? label.name.getText() : `arg${index}`;
+    const text = typeToText(
+      typescript,
+      checker,
+      optional ? checker.getNonNullableType(type) : type,
+    );
+
+    return {
+      name: rest ? `...${name}` : name,
+      type: rest ? `${/ \| | & /.test(text) ? `(${text})` : text}[]` : text,
+      optional,
+    };
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Tests for workflow payload type validation.
+ */
+
+import { resolve } from 'node:path';
+
+import { describe, expect, it } from 'bun:test';
+
+import { validateWorkflowTypes } from './workflow-types';
+
+const fixtureDir = resolve(__dirname, '../test/fixtures/workflow-types');
+const workflowsPath = resolve(fixtureDir, 'workflows.ts');
+
+describe('workflow-types', () => {
+  describe('validateWorkflowTypes', () => {
+    const result = validateWorkflowTypes(workflowsPath);
+    const find = (name: string) => result?.activities.find((a) => a.name === name);
+    const pathsOf = (name: string) => find(name)?.issues?.map((issue) => issue.path);
+
+    it('checks exported workflows and definitions in imported modules', () => {
+      expect(result?.valid).toBe(false);
+      expect(result?.activities.map((a) => [a.kind, a.name])).toEqual([
+        ['workflow', 'orderWorkflow'],
+        ['workflow', 'scheduleWorkflow'],
+        ['signal', 'approve'],
+        ['signal', 'cancel'],
+        ['query', 'status'],
+        ['update', 'addItem'],
+      ]);
+    });
+
+    it('reports workflow parameters and return types', () => {
+      expect(find('orderWorkflow')?.valid).toBe(true);
+      expect(find('scheduleWorkflow')?.errors).toEqual([
+        'Parameter "startAt": startAt: Date is deserialized as an ISO 8601 string',
+      ]);
+    });
+
+    it('reports signal, query and update payloads', () => {
+      expect(find('approve')).toEqual(
+        expect.objectContaining({
+          file: resolve(fixtureDir, 'messages.ts'),
+          line: 12,
+          errors: [
+            'Argument 1: args[0].approvedAt: Date is deserialized as an ISO 8601 string',
+          ],
+        }),
+      );
+      expect(find('cancel')?.valid).toBe(true);
+      expect(pathsOf('status')).toEqual(['return.steps']);
+      expect(pathsOf('addItem')).toEqual(['args[1]']);
+    });
+
+    it('accepts types handled by the payload converter', () => {
+      const accepted = validateWorkflowTypes(workflowsPath, {
+        acceptedTypes: ['Date', 'Map', 'BigInt'],
+      });
+
+      expect(accepted?.valid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Workflow payload type validation.
+ *
+ * Workflow arguments and results, and the arguments and results of
+ * signals, queries and updates, go through the same payload converter as
+ * activity payloads. These checks resolve them with the TypeScript
+ * checker and report the values that do not survive serialization.
+ */
+
+import { resolve } from 'node:path';
+
+import type * as ts from 'typescript';
+
+import type { ExtractActivitySignaturesOptions } from './activity-signatures';
+import { createModuleProgram, unwrapPromise } from './activity-signatures';
+import type { SerializabilityOptions } from './serializability';
+import {
+  findSerializabilityIssues,
+  formatSerializabilityIssue,
+  getAcceptedTypes,
+} from './serializability';
+import type {
+  SerializabilityIssue,
+  TypeValidationResult,
+  WorkflowPayloadKind,
+} from './types';
+import { loadTypeScript } from './typescript-loader';
+import { isProjectFile, readMessageDefinition } from './workflow-signatures';
+
+/**
+ * Options for workflow type validation.
+ */
+export interface ValidateWorkflowTypesOptions
+  extends SerializabilityOptions, ExtractActivitySignaturesOptions {}
+
+/**
+ * Message definition helpers exported by `@temporalio/workflow`.
+ */
+const DEFINITION_KINDS: Record<string, WorkflowPayloadKind> = {
+  defineSignal: 'signal',
+  defineQuery: 'query',
+  defineUpdate: 'update',
+};
+
+type TypeValidationEntry = TypeValidationResult['activities'][number];
+
+/**
+ * A payload of a workflow or message definition.
+ */
+interface Payload {
+  /**
+   * Label for error messages (e.g. `Parameter "input"`).
+   */
+  label: string;
+  path: string;
+  type: ts.Type;
+}
+
+/**
+ * Validate that workflow, signal, query and update payloads are
+ * serializable.
+ *
+ * Checks the parameters and return types of the workflows a module
+ * exports, and the argument and return types of every `defineSignal`,
+ * `defineQuery` and `defineUpdate` definition in the project modules it
+ * imports. Types are walked as in `validateActivityTypes()`, and each
+ * result has the `kind` of definition it describes.
+ *
+ * Requires the optional `typescript` peer dependency.
+ *
+ * @returns The validation result, or undefined if TypeScript is not
+ *   installed
+ *
+ * @example
+ * ```typescript
+ * import { validateWorkflowTypes } from 'bundle-temporal-workflow';
+ *
+ * const result = validateWorkflowTypes('./src/workflows.ts');
+ *
+ * for (const definition of result?.activities ?? []) {
+ *   for (const error of definition.errors) {
+ *     console.error(`${definition.kind} "${definition.name}": ${error}`);
+ *   }
+ * }
+ * ```
+ */
+export function validateWorkflowTypes(
+  workflowsPath: string,
+  options: ValidateWorkflowTypesOptions = {},
+): TypeValidationResult | undefined {
+  const typescript = loadTypeScript();
+  if (!typescript) {
+    return undefined;
+  }
+
+  const entryPath = resolve(workflowsPath);
+  const program = createModuleProgram(typescript, entryPath, options.tsconfigPath);
+  const checker = program.getTypeChecker();
+  const accepted = getAcceptedTypes(options);
+
+  const check = (
+    name: string,
+    kind: WorkflowPayloadKind,
+    node: ts.Node,
+    payloads: Payload[],
+  ): TypeValidationEntry => {
+    const sourceFile = node.getSourceFile();
+    const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+    const issues: SerializabilityIssue[] = [];
+    const errors: string[] = [];
+
+    for (const payload of payloads) {
+      const payloadIssues = findSerializabilityIssues(
+        typescript,
+        checker,
+        payload.type,
+        payload.path,
+        accepted,
+      );
+      issues.push(...payloadIssues);
+      errors.push(
+        ...payloadIssues.map(
+          (issue) => `${payload.label}: ${formatSerializabilityIssue(issue)}`,
+        ),
+      );
+    }
+
+    return {
+      name,
+      kind,
+      valid: errors.length === 0,
+      errors,
+      file: resolve(sourceFile.fileName),
+      line: line + 1,
+      issues,
+    };
+  };
+
+  const results: TypeValidationEntry[] = [];
+
+  const entryFile = program.getSourceFile(entryPath);
+  const moduleSymbol = entryFile && checker.getSymbolAtLocation(entryFile);
+  for (const exported of moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : []) {
+    const symbol =
+      exported.flags & typescript.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    const declaration = symbol.valueDeclaration;
+    if (!declaration || symbol.flags & typescript.SymbolFlags.Class) {
+      continue;
+    }
+
+    const [signature] = checker.getTypeOfSymbol(symbol).getCallSignatures();
+    if (!signature) {
+      continue;
+    }
+
+    results.push(
+      check(exported.name, 'workflow', declaration, [
+        ...signature.parameters.map((param) => ({
+          label: `Parameter "${param.name}"`,
+          path: param.name,
+          type: getParameterType(typescript, checker, param, declaration),
+        })),
+        {
+          label: 'Return type',
+          path: 'return',
+          type: unwrapPromise(checker, checker.getReturnTypeOfSignature(signature)),
+        },
+      ]),
+    );
+  }
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (!isProjectFile(program, sourceFile)) {
+      continue;
+    }
+
+    const visit = (node: ts.Node): void => {
+      if (typescript.isCallExpression(node)) {
+        const kind = getDefinitionKind(typescript, checker, node);
+        if (kind) {
+          results.push(
+            check(
+              getDefinitionName(typescript, node),
+              kind,
+              node,
+              getDefinitionPayloads(checker, node),
+            ),
+          );
+        }
+      }
+      typescript.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return {
+    valid: results.every((result) => result.valid),
+    activities: results,
+  };
+}
+
+/**
+ * Get the kind of message a `defineSignal`, `defineQuery` or
+ * `defineUpdate` call from `@temporalio/workflow` defines.
+ */
+function getDefinitionKind(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  call: ts.CallExpression,
+): WorkflowPayloadKind | undefined {
+  let symbol = checker.getSymbolAtLocation(call.expression);
+  if (symbol && symbol.flags & typescript.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+
+  const kind = symbol && DEFINITION_KINDS[symbol.name];
+  const isTemporal = symbol?.declarations?.some((declaration) =>
+    declaration.getSourceFile().fileName.includes('/@temporalio/'),
+  );
+  return isTemporal ? kind : undefined;
+}
+
+/**
+ * Get the name a message is registered under: the string passed to the
+ * definition helper, or the variable it is assigned to.
+ */
+function getDefinitionName(typescript: typeof ts, call: ts.CallExpression): string {
+  const [nameArgument] = call.arguments;
+  if (nameArgument && typescript.isStringLiteralLike(nameArgument)) {
+    return nameArgument.text;
+  }
+  if (
+    typescript.isVariableDeclaration(call.parent) &&
+    typescript.isIdentifier(call.parent.name)
+  ) {
+    return call.parent.name.text;
+  }
+  return nameArgument?.getText() ?? '<unknown>';
+}
+
+/**
+ * Get the argument and return types of a message definition from the
+ * type arguments of the definition it returns.
+ */
+function getDefinitionPayloads(
+  checker: ts.TypeChecker,
+  call: ts.CallExpression,
+): Payload[] {
+  const definition = readMessageDefinition(checker, checker.getTypeAtLocation(call));
+
+  const payloads: Payload[] = [];
+  if (definition?.args && checker.isTupleType(definition.args)) {
+    checker
+      .getTypeArguments(definition.args as ts.TypeReference)
+      .forEach((type, index) => {
+        payloads.push({
+          label: `Argument ${index + 1}`,
+          path: `args[${index}]`,
+          type,
+        });
+      });
+  }
+  if (definition?.ret) {
+    payloads.push({
+      label: 'Return type',
+      path: 'return',
+      type: unwrapPromise(checker, definition.ret),
+    });
+  }
+  return payloads;
+}
+
+/**
+ * Get the type of a parameter, without `undefined` for optional ones.
+ */
+function getParameterType(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  param: ts.Symbol,
+  declaration: ts.Declaration,
+): ts.Type {
+  const type = checker.getTypeOfSymbolAtLocation(param, declaration);
+  const paramDeclaration = param.valueDeclaration;
+  const optional =
+    paramDeclaration &&
+    typescript.isParameter(paramDeclaration) &&
+    checker.isOptionalParameter(paramDeclaration);
+  return optional ? checker.getNonNullableType(type) : type;
+}
@@ -0,0 +1,14 @@
+/**
+ * Activities module with exports the regex extractor cannot follow.
+ */
+
+export * from './activities/email';
+export { chargeCard as charge, PaymentActivities } from './activities/payments';
+
+export const activities = {
+  async notify(userId: string, retries = 3): Promise<void> {
+    console.log(userId, retries);
+  },
+};
+
+export const DEFAULT_TIMEOUT = '1 minute';
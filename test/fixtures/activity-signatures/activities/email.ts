@@ -0,0 +1,23 @@
+/**
+ * Email activities, re-exported with `export *`.
+ */
+
+export interface Recipient {
+  address: string;
+  name?: string;
+  tags: string[];
+}
+
+export type SendResult = { id: string; sentAt: Date };
+
+export interface ContactBatch {
+  contacts: Map<string, Recipient>;
+}
+
+export async function sendEmail(to: Recipient, body: string): Promise<SendResult> {
+  return { id: `${to.address}:${body.length}`, sentAt: new Date() };
+}
+
+export async function importContacts(batch: ContactBatch): Promise<number> {
+  return batch.contacts.size;
+}
@@ -0,0 +1,20 @@
+/**
+ * Payment activities, exported under another name and as class methods.
+ */
+
+async function chargeCard(amount: number, ...cards: string[]): Promise<boolean> {
+  return amount > 0 && cards.length > 0;
+}
+
+export { chargeCard };
+
+export class PaymentActivities {
+  constructor(private readonly currency: string) {}
+
+  async refund(paymentId: string): Promise<string> {
+    this.audit();
+    return `${paymentId}:${this.currency}`;
+  }
+
+  private audit(): void {}
+}
@@ -0,0 +1,13 @@
+/**
+ * Activities for activity validation tests.
+ */
+
+import type { WorkflowInfo } from '@temporalio/workflow';
+
+import { describeRetry } from './retry';
+
+export * from './payments';
+
+export async function sendEmail(to: string, info?: WorkflowInfo): Promise<string> {
+  return `${to}: ${describeRetry(info?.attempt ?? 1)}`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Re-exported activities with a non-serializable signature.
+ */
+
+export async function chargeCards(amounts: Map<string, number>): Promise<number> {
+  return [...amounts.values()].reduce((total, amount) => total + amount, 0);
+}
+
+export function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
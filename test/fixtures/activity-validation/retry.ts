@@ -0,0 +1,13 @@
+/**
+ * Helper that pulls workflow-only code into the activity bundle.
+ */
+
+import { ApplicationFailure } from '@temporalio/common';
+import { inWorkflowContext } from '@temporalio/workflow';
+
+export function describeRetry(attempt: number): string {
+  if (inWorkflowContext()) {
+    throw ApplicationFailure.nonRetryable('Not an activity');
+  }
+  return `attempt ${attempt}`;
+}
@@ -0,0 +1,7 @@
+/**
+ * Configuration read at module load time.
+ */
+
+export function readConfig(): { name: string } {
+  throw new Error('Configuration is not available in the workflow sandbox');
+}
@@ -0,0 +1,11 @@
+/**
+ * Workflows whose top-level code throws when the module is loaded.
+ */
+
+import { readConfig } from './config';
+
+const config = readConfig();
+
+export async function configuredWorkflow(): Promise<string> {
+  return config.name;
+}
@@ -0,0 +1,15 @@
+/**
+ * Workflows whose top-level code uses workflow APIs, which is allowed
+ * because the Worker loads them inside the workflow runtime.
+ */
+
+import { uuid4 } from '@temporalio/workflow';
+
+const loadedAt = Date.now();
+const instanceId = uuid4();
+
+export async function loadedWorkflow(): Promise<string> {
+  return `${instanceId}@${loadedAt}`;
+}
+
+export const notAWorkflow = 42;
@@ -0,0 +1,6 @@
+/**
+ * Barrel module for declaration generation tests.
+ */
+
+export * from './orders';
+export { refundWorkflow } from './refunds';
@@ -0,0 +1,17 @@
+/**
+ * Order workflows.
+ */
+
+import type { Order, OrderResult } from './types';
+
+/**
+ * Process an order.
+ */
+export async function orderWorkflow(
+  order: Order,
+  priority?: number,
+): Promise<OrderResult> {
+  return { order, total: priority ?? 0 };
+}
+
+export const cancelWorkflow = async (orderId: string) => ({ orderId, cancelled: true });
@@ -0,0 +1,10 @@
+/**
+ * Refund workflows.
+ */
+
+export async function refundWorkflow(orderId: string, amount: number): Promise<void> {
+  void orderId;
+  void amount;
+}
+
+export async function internalWorkflow(): Promise<void> {}
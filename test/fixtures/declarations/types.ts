@@ -0,0 +1,30 @@
+/**
+ * Types shared by the workflows.
+ */
+
+import type { Duration } from '@temporalio/common';
+
+/**
+ * Status of an order.
+ */
+export enum OrderStatus {
+  Pending = 'pending',
+  Shipped = 'shipped',
+}
+
+interface Address {
+  street: string;
+  city: string;
+}
+
+/**
+ * An order placed by a customer.
+ */
+export interface Order {
+  id: string;
+  address: Address;
+  status: OrderStatus;
+  timeout?: Duration;
+}
+
+export type OrderResult = { order: Order; total: number };
@@ -0,0 +1,5 @@
+import leftPad from 'left-pad';
+
+export async function paddedWorkflow(value: string): Promise<string> {
+  return leftPad(value, 8);
+}
@@ -0,0 +1,3 @@
+export function legacyTimestamp(): number {
+  return Date.now();
+}
@@ -0,0 +1,9 @@
+import { createHash } from 'node:crypto';
+
+export function formatId(id: string): string {
+  return id.trim().toLowerCase();
+}
+
+export function hashActivityInput(input: string): string {
+  return createHash('sha256').update(input).digest('hex');
+}
@@ -0,0 +1,21 @@
+import { defineConfig } from '../../../src/config';
+
+export default defineConfig({
+  determinism: {
+    forbiddenModules: ['left-pad'],
+    allowedBuiltins: [
+      { module: 'crypto', justification: 'Only used by activity helpers in shared.ts' },
+    ],
+    replayPatterns: [
+      {
+        pattern: '\\bperformance\\.now\\s*\\(',
+        apis: [{ path: 'performance.now', usage: 'call' }],
+        name: 'performance.now()',
+        reason: 'Returns a high-resolution clock reading that differs on replay.',
+        suggestion: 'Measure durations in an activity.',
+        severity: 'error',
+      },
+    ],
+    severityOverrides: [{ directory: 'legacy', severity: 'warning' }],
+  },
+});
@@ -0,0 +1,10 @@
+import { legacyTimestamp } from './legacy/clock';
+import { formatId } from './shared';
+
+export async function legacyWorkflow(id: string): Promise<string> {
+  return `${formatId(id)}@${legacyTimestamp()}`;
+}
+
+export async function timedWorkflow(): Promise<number> {
+  return performance.now();
+}
@@ -0,0 +1,12 @@
+/**
+ * Test fixture: greetingWorkflow failing its first workflow task.
+ */
+import { sleep } from '@temporalio/workflow';
+
+export async function greetingWorkflow(name: string): Promise<string> {
+  if (name.length > 0) {
+    throw new TypeError('Greeting template is missing');
+  }
+  await sleep('1 second');
+  return `Hello, ${name}!`;
+}
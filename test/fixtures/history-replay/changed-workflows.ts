@@ -0,0 +1,6 @@
+/**
+ * Test fixture: greetingWorkflow without the timer recorded in its history.
+ */
+export async function greetingWorkflow(name: string): Promise<string> {
+  return `Hello, ${name}!`;
+}
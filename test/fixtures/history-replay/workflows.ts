@@ -0,0 +1,9 @@
+/**
+ * Test fixture for replaying workflow histories against a bundle.
+ */
+import { sleep } from '@temporalio/workflow';
+
+export async function greetingWorkflow(name: string): Promise<string> {
+  await sleep('1 second');
+  return `Hello, ${name}!`;
+}
@@ -0,0 +1,3 @@
+export async function charge(amount: number): Promise<string> {
+  return `mock-tx-${amount}`;
+}
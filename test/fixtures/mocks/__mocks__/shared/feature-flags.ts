@@ -0,0 +1,3 @@
+export function isEnabled(_flag: string): boolean {
+  return false;
+}
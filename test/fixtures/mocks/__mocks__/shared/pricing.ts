@@ -0,0 +1,3 @@
+export function priceFor(sku: string): number {
+  return sku.length * 10;
+}
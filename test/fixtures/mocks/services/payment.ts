@@ -0,0 +1,10 @@
+/**
+ * Payment client; talks to the network, so tests replace it.
+ */
+export async function charge(amount: number): Promise<string> {
+  const response = await fetch('https://payments.example.com/charge', {
+    method: 'POST',
+    body: JSON.stringify({ amount }),
+  });
+  return response.text();
+}
@@ -0,0 +1,13 @@
+/**
+ * Test fixture for module mocks in test bundles.
+ */
+import { isEnabled } from '@company/shared/feature-flags';
+import { priceFor } from '@company/shared/pricing';
+
+import { charge } from './services/payment';
+
+export async function checkoutWorkflow(sku: string): Promise<string> {
+  const price = priceFor(sku);
+  const receipt = await charge(price);
+  return isEnabled('express-checkout') ? `express:${receipt}` : receipt;
+}
@@ -0,0 +1,9 @@
+/**
+ * Orders queue activities for workspace build tests.
+ */
+
+import { formatReference } from './shared/format';
+
+export async function chargeCard(reference: string): Promise<string> {
+  return formatReference('charge', reference);
+}
@@ -0,0 +1,17 @@
+/**
+ * Orders queue workflows for multi-queue bundling tests.
+ */
+
+import { proxyActivities } from '@temporalio/workflow';
+
+import { formatReference } from './shared/format';
+
+const { chargeCard } = proxyActivities<{
+  chargeCard(reference: string): Promise<void>;
+}>({ startToCloseTimeout: '1 minute' });
+
+export async function orderWorkflow(orderId: string): Promise<string> {
+  const reference = formatReference('order', orderId);
+  await chargeCard(reference);
+  return reference;
+}
@@ -0,0 +1,10 @@
+/**
+ * Test interceptor fixture.
+ */
+
+import type { WorkflowInterceptorsFactory } from '@temporalio/workflow';
+
+export const interceptors: WorkflowInterceptorsFactory = () => ({
+  inbound: [],
+  outbound: [],
+});
@@ -0,0 +1,5 @@
+/**
+ * Test payload converter fixture.
+ */
+
+export { defaultPayloadConverter as payloadConverter } from '@temporalio/common';
@@ -0,0 +1,9 @@
+/**
+ * Workflows of a queue whose options use paths relative to the config file.
+ */
+
+import { greet } from '@lib/greet';
+
+export async function greetingWorkflow(name: string): Promise<string> {
+  return greet(name);
+}
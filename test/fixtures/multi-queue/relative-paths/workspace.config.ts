@@ -0,0 +1,16 @@
+import { defineConfig } from '../../../../src/config';
+
+export default defineConfig({
+  queues: [
+    {
+      name: 'greetings',
+      workflowsPath: 'workflows.ts',
+      options: {
+        tsconfigPath: 'tsconfig.json',
+        payloadConverterPath: 'payload-converter.ts',
+        workflowInterceptorModules: ['./interceptors.ts', '@temporalio/workflow'],
+      },
+    },
+  ],
+  shared: { tsconfigPath: 'tsconfig.json' },
+});
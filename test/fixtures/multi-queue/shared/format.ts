@@ -0,0 +1,7 @@
+/**
+ * Helper shared by the orders and users queues.
+ */
+
+export function formatReference(prefix: string, id: string): string {
+  return `${prefix}-${id.toUpperCase()}`;
+}
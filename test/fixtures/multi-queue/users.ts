@@ -0,0 +1,12 @@
+/**
+ * Users queue workflows for multi-queue bundling tests.
+ */
+
+import { sleep } from '@temporalio/workflow';
+
+import { formatReference } from './shared/format';
+
+export async function onboardingWorkflow(userId: string): Promise<string> {
+  await sleep('1 day');
+  return formatReference('user', userId);
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from '../../../src/config';
+
+export default defineConfig({
+  queues: [
+    { name: 'orders', workflowsPath: 'orders.ts', activitiesPath: 'activities.ts' },
+    { name: 'users', workflowsPath: 'users.ts' },
+  ],
+  shared: { mode: 'production' },
+});
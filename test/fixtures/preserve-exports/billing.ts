@@ -0,0 +1,7 @@
+function computeInvoiceTotal(amounts: number[]): number {
+  return amounts.reduce((sum, amount) => sum + amount, 0) * 1.2;
+}
+
+export async function invoiceWorkflow(amounts: number[]): Promise<number> {
+  return computeInvoiceTotal(amounts);
+}
@@ -0,0 +1,3 @@
+export function formatOrderId(id: string): string {
+  return `order-${id.padStart(8, '0')}`;
+}
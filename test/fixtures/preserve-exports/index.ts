@@ -0,0 +1,7 @@
+/**
+ * Test fixture for export-preserving tree shaking: one workflows module
+ * serving several task queues.
+ */
+export * from './billing';
+export * from './orders';
+export * from './shipping.workflows';
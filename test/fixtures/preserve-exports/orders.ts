@@ -0,0 +1,9 @@
+import { formatOrderId } from './format';
+
+export async function orderWorkflow(id: string): Promise<string> {
+  return formatOrderId(id);
+}
+
+export async function cancelOrderWorkflow(id: string): Promise<string> {
+  return `cancelled ${formatOrderId(id)}`;
+}
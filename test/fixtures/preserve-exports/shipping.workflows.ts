@@ -0,0 +1,3 @@
+export async function shipOrderWorkflow(id: string): Promise<string> {
+  return `shipped ${id}`;
+}
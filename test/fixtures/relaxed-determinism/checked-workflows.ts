@@ -0,0 +1,21 @@
+/**
+ * Test fixture that checks the faked values inside the Worker sandbox.
+ */
+import { ApplicationFailure } from '@temporalio/workflow';
+
+import { sampleWorkflow } from './workflows';
+
+/**
+ * Completes only if the sample taken in the sandbox matches the expected
+ * one, so a replayed history that completes shows the fakes applied.
+ */
+export async function checkedSampleWorkflow(expected: {
+  random: number[];
+  now: number;
+  today: string;
+}): Promise<void> {
+  const sample = await sampleWorkflow();
+  if (JSON.stringify(sample) !== JSON.stringify(expected)) {
+    throw ApplicationFailure.nonRetryable(`Unexpected sample: ${JSON.stringify(sample)}`);
+  }
+}
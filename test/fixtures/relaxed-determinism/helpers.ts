@@ -0,0 +1,9 @@
+import { readFileSync } from 'fs';
+import { hostname } from 'os';
+
+/**
+ * Test helper that touches Node APIs; never called by the workflows.
+ */
+export function loadFixture(path: string): string {
+  return `${hostname()}:${readFileSync(path, 'utf-8')}`;
+}
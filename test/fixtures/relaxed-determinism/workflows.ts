@@ -0,0 +1,14 @@
+/**
+ * Test fixture for relaxed determinism in test bundles.
+ */
+import { loadFixture } from './helpers';
+
+export const fixtureLoader = loadFixture;
+
+export async function sampleWorkflow(): Promise<{
+  random: number[];
+  now: number;
+  today: string;
+}> {
+  return { random: [Math.random(), Math.random()], now: Date.now(), today: Date() };
+}
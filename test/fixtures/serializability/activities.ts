@@ -0,0 +1,45 @@
+/**
+ * Activities for serializability tests.
+ */
+
+export interface Customer {
+  id: string;
+  createdAt: Date;
+}
+
+export type OrderInput = {
+  customer: Customer;
+  lines: Array<{ sku: string; quantity: number }>;
+  note?: string;
+};
+
+export class Money {
+  constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {}
+
+  format(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+export type Outcome =
+  | { status: 'ok'; total: number }
+  | { status: 'failed'; error: Error };
+
+export async function placeOrder(input: OrderInput): Promise<Outcome> {
+  return { status: 'ok', total: input.lines.length };
+}
+
+export async function convert(
+  price: Money,
+  rates: Record<string, bigint>,
+): Promise<void> {
+  void price;
+  void rates;
+}
+
+export async function upload(data: Uint8Array, tags: Set<string>): Promise<string> {
+  return `${data.length}:${tags.size}`;
+}
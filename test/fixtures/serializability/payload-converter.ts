@@ -0,0 +1,12 @@
+/**
+ * Custom payload converter for serializability tests.
+ */
+
+import superjson from 'superjson';
+
+export function toPayload(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  return superjson.stringify(value);
+}
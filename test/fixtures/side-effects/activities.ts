@@ -0,0 +1,3 @@
+export async function notify(endpoint: string): Promise<void> {
+  await fetch(endpoint);
+}
@@ -0,0 +1,17 @@
+/**
+ * Client created when the module is imported.
+ */
+
+class ApiClient {
+  constructor(readonly endpoint: string) {}
+}
+
+function createLogger(name: string): (message: string) => void {
+  return (message) => console.log(`[${name}] ${message}`);
+}
+
+const endpoint = process.env.API_URL ?? 'http://localhost:8080';
+
+export const apiClient = new ApiClient(endpoint);
+
+export const log = createLogger('client');
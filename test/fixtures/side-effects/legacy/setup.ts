@@ -0,0 +1,13 @@
+/**
+ * Global setup kept for older workflows.
+ */
+
+declare global {
+  var legacyMode: boolean;
+}
+
+globalThis.legacyMode = true;
+
+if (globalThis.legacyMode) {
+  console.log('Legacy mode enabled');
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from '../../../src/config';
+
+export default defineConfig({
+  determinism: {
+    sideEffects: {
+      severity: 'error',
+      severityOverrides: [{ directory: 'legacy', severity: 'warning' }],
+    },
+  },
+});
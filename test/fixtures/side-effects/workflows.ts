@@ -0,0 +1,37 @@
+/**
+ * Workflows with top-level side effects in their imports.
+ */
+
+import './legacy/setup';
+
+import { defineSignal, proxyActivities, setHandler } from '@temporalio/workflow';
+
+import type * as activities from './activities';
+import { apiClient } from './client';
+
+export enum Priority {
+  Low,
+  High,
+}
+
+export const approveSignal = defineSignal<[boolean]>('approve');
+
+const { notify } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+});
+
+const approvals = new Map<string, boolean>();
+
+export class Approval {
+  static readonly defaultPriority = Priority.Low;
+}
+
+export async function approvalWorkflow(id: string): Promise<boolean> {
+  let approved = false;
+  setHandler(approveSignal, (value) => {
+    approved = value;
+  });
+  approvals.set(id, approved);
+  await notify(apiClient.endpoint);
+  return approved;
+}
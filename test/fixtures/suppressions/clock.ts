@@ -0,0 +1,3 @@
+export function elapsedSince(start: number): number {
+  return Date.now() - start;
+}
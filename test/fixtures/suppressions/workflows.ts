@@ -0,0 +1,19 @@
+/**
+ * Test fixture for inline suppression comments.
+ */
+import { elapsedSince } from './clock';
+
+export async function loggingWorkflow(): Promise<void> {
+  // temporal-ignore-next-line Date.now: only logged, never used in workflow logic
+  console.log(Date.now());
+}
+
+export async function timingWorkflow(start: number): Promise<number> {
+  // temporal-ignore-next-line Date.now: elapsed time is reported, not branched on
+  return elapsedSince(start);
+}
+
+export async function constantWorkflow(): Promise<number> {
+  // temporal-ignore-next-line Math.random: left over from an earlier version
+  return 4;
+}
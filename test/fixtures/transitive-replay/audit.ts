@@ -0,0 +1,7 @@
+import { getTimestamp } from './utils/time';
+
+const loadedAt = getTimestamp();
+
+export async function auditWorkflow(): Promise<{ loadedAt: number }> {
+  return { loadedAt };
+}
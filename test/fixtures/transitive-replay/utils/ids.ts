@@ -0,0 +1,5 @@
+import { randomSuffix } from './random';
+
+export function nextId(): string {
+  return `id-${randomSuffix()}`;
+}
@@ -0,0 +1 @@
+export const randomSuffix = (): string => Math.random().toString(36).slice(2);
@@ -0,0 +1,6 @@
+export function getTimestamp(): number {
+  return Date.now();
+}
+
+export const formatDuration = (milliseconds: number): string =>
+  `${(milliseconds / 1000).toFixed(1)}s`;
@@ -0,0 +1,27 @@
+/**
+ * Test fixture for interprocedural replay safety analysis.
+ * None of these workflows call a non-deterministic API directly; they reach
+ * one through helpers in other modules.
+ */
+import { sleep } from '@temporalio/workflow';
+
+import * as ids from './utils/ids';
+import { getTimestamp } from './utils/time';
+
+export { auditWorkflow } from './audit';
+
+function stamp(): number {
+  return getTimestamp();
+}
+
+export async function timestampWorkflow(): Promise<number> {
+  return stamp();
+}
+
+export async function idWorkflow(): Promise<string> {
+  return ids.nextId();
+}
+
+export async function safeWorkflow(): Promise<void> {
+  await sleep(100);
+}
@@ -0,0 +1,9 @@
+export class Clock {
+  now(): number {
+    return this.read();
+  }
+
+  private read(): number {
+    return Date.now();
+  }
+}
@@ -0,0 +1,3 @@
+export const helpers = {
+  jitter: (value: number): number => value + Math.random(),
+};
@@ -0,0 +1,31 @@
+/**
+ * Test fixture for replay-unsafe APIs reached through methods, aliases and
+ * callbacks.
+ */
+import { Clock } from './clock';
+import { helpers } from './helpers';
+
+const dice = {
+  roll: () => Math.random(),
+};
+
+function wrapper(): number {
+  return Date.now();
+}
+
+export async function classWorkflow(): Promise<number> {
+  return new Clock().now();
+}
+
+export async function aliasWorkflow(): Promise<number> {
+  const now = wrapper;
+  return now();
+}
+
+export async function objectWorkflow(): Promise<number> {
+  return dice.roll();
+}
+
+export async function callbackWorkflow(values: number[]): Promise<number[]> {
+  return values.map(helpers.jitter);
+}
@@ -0,0 +1,13 @@
+/**
+ * Handlers registered from a helper module.
+ */
+
+import { setHandler } from '@temporalio/workflow';
+
+import type { Item } from './messages';
+import { getItems, setDiscount } from './messages';
+
+export function registerCartQueries(items: Item[]): void {
+  setHandler(getItems, () => items);
+  setHandler(setDiscount, (code, percent = 10) => (code ? percent : 0));
+}
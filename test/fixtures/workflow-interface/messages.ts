@@ -0,0 +1,20 @@
+/**
+ * Message definitions shared by the workflows.
+ */
+
+import { defineQuery, defineSignal, defineUpdate } from '@temporalio/workflow';
+
+export interface Item {
+  sku: string;
+  quantity: number;
+}
+
+export const addItem = defineSignal<[item: Item]>('addItem');
+
+export const checkout = defineSignal('checkout');
+
+export const getItems = defineQuery<Item[]>('getItems');
+
+export const setDiscount = defineUpdate<number, [code: string, percent?: number]>(
+  'setDiscount',
+);
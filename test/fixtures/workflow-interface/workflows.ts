@@ -0,0 +1,32 @@
+/**
+ * Workflows for workflow interface tests.
+ */
+
+import { condition, setHandler } from '@temporalio/workflow';
+
+import { registerCartQueries } from './handlers';
+import type { Item } from './messages';
+import { addItem, checkout } from './messages';
+
+export interface CartInput {
+  customerId: string;
+  currency?: string;
+}
+
+export async function cartWorkflow(input: CartInput): Promise<{ items: Item[] }> {
+  const items: Item[] = [];
+  let done = false;
+  setHandler(addItem, (item) => {
+    items.push(item);
+  });
+  setHandler(checkout, () => {
+    done = true;
+  });
+  registerCartQueries(items);
+  await condition(() => done);
+  return { items };
+}
+
+export async function pingWorkflow(): Promise<string> {
+  return 'pong';
+}
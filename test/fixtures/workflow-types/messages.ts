@@ -0,0 +1,22 @@
+/**
+ * Message definitions, imported by the workflows module.
+ */
+
+import * as wf from '@temporalio/workflow';
+
+export interface Approval {
+  approver: string;
+  approvedAt: Date;
+}
+
+export const approve = wf.defineSignal<[Approval]>('approve');
+
+export const cancel = wf.defineSignal('cancel');
+
+export const status = wf.defineQuery<{ state: string; steps: Map<string, number> }>(
+  'status',
+);
+
+export const addItem = wf.defineUpdate<number, [sku: string, quantity: bigint]>(
+  'addItem',
+);
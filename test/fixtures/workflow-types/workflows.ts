@@ -0,0 +1,35 @@
+/**
+ * Workflows for workflow type validation tests.
+ */
+
+import { condition, setHandler } from '@temporalio/workflow';
+
+import { addItem, approve, cancel, status } from './messages';
+
+export interface OrderInput {
+  orderId: string;
+  items: string[];
+}
+
+export async function orderWorkflow(input: OrderInput): Promise<{ total: number }> {
+  let approved = false;
+  let cancelled = false;
+  setHandler(approve, () => {
+    approved = true;
+  });
+  setHandler(cancel, () => {
+    cancelled = true;
+  });
+  setHandler(status, () => ({
+    state: approved ? 'approved' : 'pending',
+    steps: new Map(),
+  }));
+  setHandler(addItem, () => input.items.length);
+  await condition(() => approved || cancelled);
+  return { total: input.items.length };
+}
+
+export async function scheduleWorkflow(startAt: Date, retries?: number): Promise<void> {
+  void startAt;
+  void retries;
+}